@@ -13,7 +13,14 @@ import MaintenancePage from "@/pages/maintenance-page";
 import PropertiesPage from "@/pages/properties-page";
 import PropertyDetailPage from "@/pages/property-detail-page";
 import ValuationPage from "@/pages/valuation-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
+import ChangePasswordPage from "@/pages/change-password-page";
+import TwoFactorLoginPage from "@/pages/two-factor-login-page";
+import TwoFactorPage from "@/pages/two-factor-page";
+import SessionsPage from "@/pages/sessions-page";
+import TradespeoplePage from "@/pages/tradespeople-page";
 import { Footer } from "@/components/layout/footer";
+import { EmailVerificationBanner } from "@/components/layout/email-verification-banner";
 import { ProtectedRoute } from "@/lib/protected-route";
 import { AuthProvider } from "@/hooks/use-auth";
 
@@ -21,12 +28,18 @@ function Router() {
   return (
     <Switch>
       <Route path="/auth" component={SimpleAuthPage} />
+      <Route path="/auth/two-factor" component={TwoFactorLoginPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
+      <ProtectedRoute path="/change-password" component={ChangePasswordPage} />
+      <ProtectedRoute path="/two-factor" component={TwoFactorPage} />
+      <ProtectedRoute path="/sessions" component={SessionsPage} />
       <ProtectedRoute path="/" component={DashboardPageTemp} />
       <ProtectedRoute path="/subscription" component={SubscriptionPageTemp} />
       <ProtectedRoute path="/receipts" component={ReceiptHistoryPage} />
       <ProtectedRoute path="/reports" component={ReportsPage} />
       <ProtectedRoute path="/admin" component={AdminDashboard} />
       <ProtectedRoute path="/maintenance" component={MaintenancePage} />
+      <ProtectedRoute path="/tradespeople" component={TradespeoplePage} />
       <ProtectedRoute path="/valuation" component={ValuationPage} />
       <ProtectedRoute path="/properties" component={PropertiesPage} />
       <ProtectedRoute path="/properties/:id" component={PropertyDetailPage} />
@@ -40,6 +53,7 @@ function App() {
     <TooltipProvider>
       <AuthProvider>
         <div className="flex flex-col min-h-screen">
+          <EmailVerificationBanner />
           <div className="flex-grow">
             <Router />
           </div>
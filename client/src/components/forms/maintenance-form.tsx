@@ -8,7 +8,7 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { DialogFooter } from "@/components/ui/dialog";
 import { Loader2, CalendarIcon } from "lucide-react";
 
@@ -29,6 +29,19 @@ const maintenanceFormSchema = insertMaintenanceRecordSchema.extend({
 
 type MaintenanceFormValues = z.infer<typeof maintenanceFormSchema>;
 
+// A tradesperson as the directory lists them
+type DirectoryTradesperson = {
+  id: number;
+  username: string;
+  fullName: string | null;
+  specialtyType: string | null;
+};
+
+function tradespersonLabel(person: DirectoryTradesperson) {
+  const name = person.fullName || person.username;
+  return person.specialtyType ? `${name} (${person.specialtyType.replace(/_/g, " ")})` : name;
+}
+
 interface MaintenanceFormProps {
   propertyId: number;
   record?: MaintenanceRecord | null;
@@ -46,11 +59,18 @@ export const MaintenanceForm = ({
   const isEditing = !!record;
 
   // Fetch list of tradespeople (for dropdown selection)
-  const { data: tradespeople = [], isLoading: tradespeopleLoading } = useQuery({
+  const { data: tradespeople = [], isLoading: tradespeopleLoading } = useQuery<DirectoryTradesperson[]>({
     queryKey: ["/api/tradespeople"],
     enabled: true,
   });
 
+  // The owner's favourites are listed first, and the first is preselected for new records
+  const { data: favorites = [], isLoading: favoritesLoading } = useQuery<DirectoryTradesperson[]>({
+    queryKey: ["/api/user/favorite-tradespeople"],
+  });
+  const favoriteIds = new Set(favorites.map((person) => person.id));
+  const otherTradespeople = tradespeople.filter((person) => !favoriteIds.has(person.id));
+
   // Pre-load tradesperson data if record has a tradePersonId
   const tradesperson = useTradesperson(record?.tradePersonId);
 
@@ -69,6 +89,12 @@ export const MaintenanceForm = ({
     },
   });
 
+  useEffect(() => {
+    if (!isEditing && favorites.length > 0 && !form.getFieldState("tradePersonId").isDirty) {
+      form.setValue("tradePersonId", favorites[0].id);
+    }
+  }, [favorites, isEditing, form]);
+
   // Create mutation for creating/updating records
   const mutation = useMutation({
     mutationFn: async (values: MaintenanceFormValues) => {
@@ -261,8 +287,8 @@ export const MaintenanceForm = ({
             <FormItem>
               <FormLabel>Tradesperson</FormLabel>
               <Select 
-                onValueChange={(value) => field.onChange(value ? parseInt(value) : undefined)} 
-                defaultValue={field.value?.toString()}
+                onValueChange={(value) => field.onChange(value && value !== "none" ? parseInt(value) : null)}
+                value={field.value ? field.value.toString() : "none"}
               >
                 <FormControl>
                   <SelectTrigger>
@@ -271,16 +297,31 @@ export const MaintenanceForm = ({
                 </FormControl>
                 <SelectContent>
                   <SelectItem value="none">None</SelectItem>
-                  {tradespeopleLoading ? (
+                  {tradespeopleLoading || favoritesLoading ? (
                     <div className="flex items-center justify-center py-2">
                       <Loader2 className="h-4 w-4 animate-spin" />
                     </div>
                   ) : (
-                    tradespeople.map((person) => (
-                      <SelectItem key={person.id} value={person.id.toString()}>
-                        {person.name || person.username} {person.specialty ? `(${person.specialty})` : ''}
-                      </SelectItem>
-                    ))
+                    <>
+                      {favorites.length > 0 && (
+                        <SelectGroup>
+                          <SelectLabel>Favourites</SelectLabel>
+                          {favorites.map((person) => (
+                            <SelectItem key={person.id} value={person.id.toString()}>
+                              {tradespersonLabel(person)}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      )}
+                      <SelectGroup>
+                        {favorites.length > 0 && <SelectLabel>All tradespeople</SelectLabel>}
+                        {otherTradespeople.map((person) => (
+                          <SelectItem key={person.id} value={person.id.toString()}>
+                            {tradespersonLabel(person)}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    </>
                   )}
                 </SelectContent>
               </Select>
@@ -154,6 +154,8 @@ export function PropertyForm({ property, onSuccess, onCancel, onPropertyChange }
     yearBuilt: property?.yearBuilt || 0,
     lotSize: property?.lotSize || 0,
     imageUrl: property?.imageUrl || "",
+    purchasePrice: property?.purchasePrice ?? null,
+    purchaseDate: property?.purchaseDate ? new Date(property.purchaseDate) : null,
   };
 
   const form = useForm<PropertyFormValues>({
@@ -543,6 +545,55 @@ export function PropertyForm({ property, onSuccess, onCancel, onPropertyChange }
           />
         </div>
 
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="purchasePrice"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Purchase Price ($)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="1000"
+                    placeholder="650000"
+                    value={field.value ?? ''}
+                    onChange={(e) => {
+                      const value = e.target.value === '' ? null : parseFloat(e.target.value);
+                      field.onChange(value);
+                    }}
+                    onBlur={field.onBlur}
+                    name={field.name}
+                    ref={field.ref}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="purchaseDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Purchase Date</FormLabel>
+                <FormControl>
+                  <Input
+                    type="date"
+                    value={field.value ? new Date(field.value).toISOString().slice(0, 10) : ''}
+                    onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : null)}
+                    onBlur={field.onBlur}
+                    name={field.name}
+                    ref={field.ref}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
         <FormField
           control={form.control}
           name="imageUrl"
@@ -0,0 +1,44 @@
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+// Reminds signed-in users to confirm their email, which paid features need
+export function EmailVerificationBanner() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/verification-email");
+      return (await res.json()) as { message: string };
+    },
+    onSuccess: (data) => {
+      toast({ title: "Confirmation email sent", description: data.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't send email", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!user || user.emailVerified) {
+    return null;
+  }
+
+  return (
+    <div className="w-full bg-amber-50 border-b border-amber-200 px-6 py-2">
+      <div className="container mx-auto flex flex-col md:flex-row items-center justify-between gap-2 text-sm text-amber-900">
+        <span>Please confirm your email address ({user.email}) to subscribe and use paid features.</span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => resendMutation.mutate()}
+          disabled={resendMutation.isPending}
+        >
+          Resend confirmation email
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -10,7 +10,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Menu, X, User, LogOut, Settings, Bell, FileText, BarChart3 } from "lucide-react";
+import { Menu, X, User, LogOut, Settings, Bell, FileText, BarChart3, ShieldCheck, Monitor } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { 
   Popover,
@@ -49,6 +49,7 @@ export function Navbar() {
         { href: "/", label: "Dashboard" },
         { href: "/properties", label: "Properties" },
         { href: "/maintenance", label: "Maintenance" },
+        { href: "/tradespeople", label: "Tradespeople" },
         { href: "/valuation", label: "Valuation" },
         { href: "/subscription", label: "Subscription" },
       ];
@@ -117,6 +118,18 @@ export function Navbar() {
                   <Settings className="mr-2 h-4 w-4" />
                   <span>Settings</span>
                 </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href="/two-factor">
+                    <ShieldCheck className="mr-2 h-4 w-4" />
+                    <span>Two-factor authentication</span>
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href="/sessions">
+                    <Monitor className="mr-2 h-4 w-4" />
+                    <span>Signed-in devices</span>
+                  </Link>
+                </DropdownMenuItem>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={handleLogout}>
                   <LogOut className="mr-2 h-4 w-4" />
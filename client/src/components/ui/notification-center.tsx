@@ -7,6 +7,7 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { format } from "date-fns";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { useNotificationSocket } from "@/hooks/use-notification-socket";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Notification } from "@shared/notification-types";
 
@@ -15,11 +16,14 @@ export function NotificationCenter() {
   const { toast } = useToast();
   const [open, setOpen] = useState(false);
 
+  // New notifications are pushed over a socket while it's connected
+  const socketConnected = useNotificationSocket(!!user);
+
   // Fetch notifications
   const { data: notifications, isLoading } = useQuery<Notification[]>({
     queryKey: ["/api/notifications"],
     enabled: !!user,
-    refetchInterval: 60000, // Refetch every minute
+    refetchInterval: socketConnected ? false : 60000, // Poll every minute while the socket is down
   });
 
   // Get unread count
@@ -68,11 +72,15 @@ export function NotificationCenter() {
       case "maintenance_completed":
         return <Wrench className="h-5 w-5 text-blue-500" />;
       case "subscription_renewal":
+      case "payment_update":
+      case "trade_document_update":
         return <DollarSign className="h-5 w-5 text-green-500" />;
       case "property_update":
         return <HomeIcon className="h-5 w-5 text-amber-500" />;
       case "valuation_update":
         return <AlertTriangle className="h-5 w-5 text-indigo-500" />;
+      case "job_request_update":
+        return <Calendar className="h-5 w-5 text-purple-500" />;
       case "system_notice":
       default:
         return <Info className="h-5 w-5 text-gray-500" />;
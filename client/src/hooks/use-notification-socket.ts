@@ -0,0 +1,75 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import {
+  Notification,
+  NOTIFICATION_SOCKET_PATH,
+  NotificationSocketMessage,
+} from "@shared/notification-types";
+
+// Reconnect after 1, 2, 4... seconds, up to a minute
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+
+/**
+ * Keep the notifications query up to date from the server's notification
+ * socket. Returns whether the socket is connected, so callers can fall back
+ * to polling while it isn't.
+ */
+export function useNotificationSocket(enabled: boolean) {
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+    let closed = false;
+
+    const handleMessage = (event: MessageEvent) => {
+      const message = JSON.parse(event.data) as NotificationSocketMessage;
+
+      if (message.type === "notification") {
+        queryClient.setQueryData<Notification[]>(["/api/notifications"], (current) =>
+          current ? [message.notification, ...current.filter(n => n.id !== message.notification.id)] : current
+        );
+      } else if (message.type === "unread_count") {
+        // Notifications were read or removed elsewhere, e.g. in another tab
+        const current = queryClient.getQueryData<Notification[]>(["/api/notifications"]);
+        if (current && current.filter(n => !n.isRead).length !== message.count) {
+          queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+        }
+      }
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${NOTIFICATION_SOCKET_PATH}`);
+
+      socket.onopen = () => {
+        attempts = 0;
+        setConnected(true);
+        // Pick up anything that arrived while disconnected
+        queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+      };
+      socket.onmessage = handleMessage;
+      socket.onclose = () => {
+        setConnected(false);
+        if (closed) return;
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+      setConnected(false);
+    };
+  }, [enabled]);
+
+  return connected;
+}
@@ -29,6 +29,24 @@ export function ProtectedRoute({
     );
   }
 
+  // An admin reset the password; nothing else works until the user picks a new one
+  if (user.mustChangePassword && path !== "/change-password") {
+    return (
+      <Route path={path}>
+        <Redirect to="/change-password" />
+      </Route>
+    );
+  }
+
+  // Admins must set up two-factor authentication before using the app
+  if (user.role === "admin" && !user.twoFactorEnabled && path !== "/two-factor") {
+    return (
+      <Route path={path}>
+        <Redirect to="/two-factor" />
+      </Route>
+    );
+  }
+
   return (
     <Route path={path}>
       <Component />
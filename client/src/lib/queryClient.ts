@@ -7,6 +7,16 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Errors from apiRequest read "<status>: <body>"; this is just the server's message
+export function apiErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -188,6 +188,26 @@ export default function AdminDashboard() {
     }
   };
 
+  const setUserSuspended = async (user: any, suspended: boolean) => {
+    try {
+      await apiRequest('PATCH', `/api/admin/users/${user.id}`, { suspended });
+      toast({
+        title: suspended ? 'User Suspended' : 'User Reactivated',
+        description: suspended
+          ? 'The user has been signed out of every device and can no longer log in.'
+          : 'The user can log in again.',
+      });
+      loadAdminData();
+    } catch (error) {
+      console.error('Error updating user suspension:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update user. Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   // Subscription management functions
   const updateSubscription = async (formData: any) => {
     if (!selectedSubscription) return;
@@ -423,7 +443,12 @@ export default function AdminDashboard() {
                         {users.map((user) => (
                           <TableRow key={user.id}>
                             <TableCell>{user.id}</TableCell>
-                            <TableCell>{user.username}</TableCell>
+                            <TableCell>
+                              {user.username}
+                              {user.suspendedAt && (
+                                <Badge variant="destructive" className="ml-2">Suspended</Badge>
+                              )}
+                            </TableCell>
                             <TableCell>{user.email}</TableCell>
                             <TableCell>
                               <Badge 
@@ -461,6 +486,13 @@ export default function AdminDashboard() {
                                 >
                                   Reset Password
                                 </Button>
+                                <Button
+                                  variant={user.suspendedAt ? 'outline' : 'destructive'}
+                                  size="sm"
+                                  onClick={() => setUserSuspended(user, !user.suspendedAt)}
+                                >
+                                  {user.suspendedAt ? 'Reactivate' : 'Suspend'}
+                                </Button>
                               </div>
                             </TableCell>
                           </TableRow>
@@ -789,7 +821,7 @@ export default function AdminDashboard() {
               <div className="font-mono text-xl mt-2">{newPassword}</div>
             </div>
             <p className="text-sm text-muted-foreground mt-4">
-              Please provide this temporary password to the user. They should change it upon their next login.
+              Please provide this temporary password to the user. They will be asked to choose a new password when they next log in.
             </p>
           </div>
           <DialogFooter>
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { User } from "@shared/schema";
+import { Loader2 } from "lucide-react";
+
+/**
+ * Change the signed-in user's password. Users whose password was reset by an
+ * admin are sent here and can't use the rest of the app until they finish.
+ */
+export default function ChangePasswordPage() {
+  const { user, logoutMutation } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [values, setValues] = useState({ currentPassword: "", newPassword: "", confirmPassword: "" });
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const changeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/password", {
+        currentPassword: values.currentPassword,
+        newPassword: values.newPassword,
+      });
+      return (await res.json()) as User;
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      toast({ title: "Password changed", description: "Your new password is now active." });
+      setLocation("/");
+    },
+    onError: (error: Error) => {
+      setFormError(apiErrorMessage(error));
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (values.newPassword !== values.confirmPassword) {
+      setFormError("Passwords don't match");
+      return;
+    }
+    setFormError(null);
+    changeMutation.mutate();
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <CardTitle>Change your password</CardTitle>
+          <CardDescription>
+            {user?.mustChangePassword
+              ? "Your password was reset by an administrator. Choose a new password to continue."
+              : "Enter your current password and choose a new one."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="currentPassword">
+                {user?.mustChangePassword ? "Temporary password" : "Current password"}
+              </Label>
+              <Input
+                id="currentPassword"
+                type="password"
+                value={values.currentPassword}
+                onChange={(e) => setValues({ ...values, currentPassword: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="newPassword">New password</Label>
+              <Input
+                id="newPassword"
+                type="password"
+                value={values.newPassword}
+                onChange={(e) => setValues({ ...values, newPassword: e.target.value })}
+                minLength={6}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">Confirm new password</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                value={values.confirmPassword}
+                onChange={(e) => setValues({ ...values, confirmPassword: e.target.value })}
+                minLength={6}
+                required
+              />
+            </div>
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+            <Button type="submit" className="w-full" disabled={changeMutation.isPending}>
+              {changeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Change Password
+            </Button>
+            <Button type="button" variant="ghost" className="w-full" onClick={() => logoutMutation.mutate()}>
+              Log out
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
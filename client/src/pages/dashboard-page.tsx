@@ -47,6 +47,10 @@ export default function DashboardPage() {
     costApproachValue: 0,
     incomeApproachValue: 0,
     maintenanceAddedValue: 0,
+    calculationDetails: null,
+    source: "automated",
+    notes: null,
+    valuationDate: new Date(),
     createdAt: new Date(),
   }));
 
@@ -179,7 +179,7 @@ export default function PropertyDetailPage() {
                 <div className="flex items-center">
                   <Calendar className="h-5 w-5 text-muted-foreground mr-2" />
                   <span className="text-sm">
-                    <span className="font-medium">Purchase Date:</span> {new Date(property.purchaseDate).toLocaleDateString()}
+                    <span className="font-medium">Purchase Date:</span> {property.purchaseDate ? new Date(property.purchaseDate).toLocaleDateString() : "Not recorded"}
                   </span>
                 </div>
                 <div className="flex items-center">
@@ -292,13 +292,13 @@ export default function PropertyDetailPage() {
                         <div>
                           <p className="text-sm text-muted-foreground">Value Change</p>
                           <p className="text-lg font-semibold">
-                            {formatCurrency(valuation.currentValue - property.purchasePrice)}
+                            {formatCurrency(valuation.currentValue - (property.purchasePrice ?? 0))}
                           </p>
                         </div>
                         <div>
                           <p className="text-sm text-muted-foreground">Percentage</p>
                           <p className="text-lg font-semibold">
-                            {((valuation.currentValue - property.purchasePrice) / property.purchasePrice * 100).toFixed(2)}%
+                            {property.purchasePrice ? ((valuation.currentValue - property.purchasePrice) / property.purchasePrice * 100).toFixed(2) : "0.00"}%
                           </p>
                         </div>
                         <div>
@@ -349,7 +349,7 @@ export default function PropertyDetailPage() {
                                 <p className="font-medium">{formatCurrency(property.purchasePrice)}</p>
                                 <p className="text-sm text-muted-foreground">Purchase Price</p>
                               </div>
-                              <p className="text-sm">{new Date(property.purchaseDate).toLocaleDateString()}</p>
+                              <p className="text-sm">{property.purchaseDate ? new Date(property.purchaseDate).toLocaleDateString() : "Not recorded"}</p>
                             </div>
                           </div>
                         )}
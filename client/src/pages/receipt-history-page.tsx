@@ -49,7 +49,8 @@ export default function ReceiptHistoryPage() {
   }
 
   const handleDownloadPDF = (receipt: Receipt) => {
-    // In a real app, this would generate and download a PDF
+    // The server sends the tax invoice PDF as an attachment
+    window.location.href = `/api/receipts/${receipt.id}/download`;
     toast({
       title: "Receipt Downloaded",
       description: `Receipt ${receipt.receiptNumber} has been downloaded.`,
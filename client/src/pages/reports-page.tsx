@@ -65,7 +65,7 @@ export default function ReportsPage() {
     const valueData = filteredProperties.map(property => ({
       name: property.propertyName || `Property ${property.id}`,
       purchaseValue: property.purchasePrice,
-      currentValue: property.purchasePrice * (1 + (Math.random() * 0.3)), // Simulate current value with random increase
+      currentValue: (property.purchasePrice ?? 0) * (1 + (Math.random() * 0.3)), // Simulate current value with random increase
     }));
     setPropertyValueData(valueData);
 
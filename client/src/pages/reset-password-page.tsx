@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiErrorMessage, apiRequest } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+
+/**
+ * Forgot-password page. Without a token it asks for the account's email and
+ * sends a reset link; the link brings the user back here with a token to
+ * choose a new password.
+ */
+export default function ResetPasswordPage() {
+  const token = new URLSearchParams(window.location.search).get("token");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/forgot-password", { email });
+      return (await res.json()) as { message: string };
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/reset-password", { token, password });
+      return (await res.json()) as { message: string };
+    },
+  });
+
+  const handleRequest = (e: React.FormEvent) => {
+    e.preventDefault();
+    requestMutation.mutate();
+  };
+
+  const handleReset = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setFormError("Passwords don't match");
+      return;
+    }
+    setFormError(null);
+    resetMutation.mutate();
+  };
+
+  const error = formError
+    ?? (requestMutation.error ? apiErrorMessage(requestMutation.error) : null)
+    ?? (resetMutation.error ? apiErrorMessage(resetMutation.error) : null);
+  const done = token ? resetMutation.data : requestMutation.data;
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <CardTitle>{token ? "Choose a new password" : "Forgot your password?"}</CardTitle>
+          <CardDescription>
+            {token
+              ? "Enter a new password for your account."
+              : "Enter your email and we'll send you a link to reset your password."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {done ? (
+            <p className="text-sm text-gray-700">{done.message}</p>
+          ) : token ? (
+            <form onSubmit={handleReset} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="password">New password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  minLength={6}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm new password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  minLength={6}
+                  required
+                />
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <Button type="submit" className="w-full" disabled={resetMutation.isPending}>
+                {resetMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Reset Password
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleRequest} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <Button type="submit" className="w-full" disabled={requestMutation.isPending}>
+                {requestMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Send Reset Link
+              </Button>
+            </form>
+          )}
+          <div className="mt-4 text-center text-sm text-gray-500">
+            <Link href="/auth" className="text-primary hover:underline">Back to sign in</Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
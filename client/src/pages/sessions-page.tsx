@@ -0,0 +1,135 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format, formatDistanceToNow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Monitor } from "lucide-react";
+
+type UserSession = {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+  current: boolean;
+};
+
+/**
+ * The devices the user is signed in on, with the option to sign any of the
+ * others out, e.g. after losing a laptop
+ */
+export default function SessionsPage() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<UserSession[]>({
+    queryKey: ["/api/user/sessions"],
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: apiErrorMessage(error), variant: "destructive" });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/user/sessions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+      toast({ title: "Device signed out" });
+    },
+    onError,
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/sessions/revoke-others");
+      return (await res.json()) as { revoked: number };
+    },
+    onSuccess: ({ revoked }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/sessions"] });
+      toast({ title: `Signed out of ${revoked} other device${revoked === 1 ? "" : "s"}` });
+    },
+    onError,
+  });
+
+  const hasOthers = sessions?.some((session) => !session.current);
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-2xl mx-4">
+        <CardHeader>
+          <CardTitle>Signed-in devices</CardTitle>
+          <CardDescription>
+            These devices are signed in to your account. Sign out any you don't recognise or no longer use.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <ul className="divide-y">
+              {sessions?.map((session) => (
+                <li key={session.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="flex items-start gap-3">
+                    <Monitor className="mt-1 h-5 w-5 text-gray-500" />
+                    <div>
+                      <p className="font-medium">
+                        {session.device}
+                        {session.current && <Badge className="ml-2">This device</Badge>}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {session.ipAddress ?? "Unknown IP address"}
+                        {session.createdAt && ` · Signed in ${format(new Date(session.createdAt), "d MMM yyyy")}`}
+                        {session.lastSeenAt &&
+                          ` · Last active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(session.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      Sign out
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {hasOthers && (
+            <Button
+              variant="destructive"
+              className="w-full"
+              onClick={() => revokeOthersMutation.mutate()}
+              disabled={revokeOthersMutation.isPending}
+            >
+              {revokeOthersMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Sign out all other devices
+            </Button>
+          )}
+          <p className="text-center text-sm">
+            <Link href="/" className="text-primary hover:underline">
+              Back to dashboard
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -11,7 +11,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/hooks/use-auth";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
 import {
   Dialog,
   DialogContent,
@@ -225,6 +225,11 @@ export default function SimpleAuthPage() {
                       }
                       required
                     />
+                    <div className="text-right text-sm">
+                      <Link href="/reset-password" className="text-primary hover:underline">
+                        Forgot password?
+                      </Link>
+                    </div>
                   </div>
                   <Button
                     type="submit"
@@ -0,0 +1,321 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Navbar } from "@/components/layout/navbar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { LicenseStatus } from "@shared/schema";
+import { Heart, Loader2, MapPin, Star } from "lucide-react";
+
+type TradespersonSummary = {
+  id: number;
+  username: string;
+  fullName: string | null;
+  specialtyType: string | null;
+  licenseStatus: LicenseStatus;
+  licenseExpiresAt: string | null;
+  servicePostcode: string | null;
+  serviceRadiusKm: number | null;
+  averageRating: number | null;
+  ratingCount: number;
+  completedJobCount: number;
+  distanceKm?: number;
+};
+
+type TradespersonProfile = TradespersonSummary & {
+  completedJobs: Array<{
+    id: number;
+    title: string;
+    category: string;
+    city: string;
+    state: string;
+    completedAt: string | null;
+    rating: number | null;
+    review: string | null;
+  }>;
+};
+
+const specialties = [
+  { value: "plumbing", label: "Plumber" },
+  { value: "electrical", label: "Electrician" },
+  { value: "carpentry", label: "Carpenter" },
+  { value: "painting", label: "Painter" },
+  { value: "hvac", label: "HVAC Technician" },
+  { value: "roofing", label: "Roofer" },
+  { value: "landscaping", label: "Landscaper" },
+  { value: "flooring", label: "Flooring Specialist" },
+  { value: "general_maintenance", label: "General Maintenance" },
+];
+
+const licenseLabels: Record<LicenseStatus, string> = {
+  verified: "Licence verified",
+  unverified: "Licence not yet verified",
+  expired: "Licence expired",
+  none: "No licence",
+};
+
+function specialtyLabel(specialtyType: string | null) {
+  return specialties.find((specialty) => specialty.value === specialtyType)?.label ?? specialtyType ?? "Tradesperson";
+}
+
+function Rating({ averageRating, ratingCount }: Pick<TradespersonSummary, "averageRating" | "ratingCount">) {
+  if (averageRating === null) {
+    return <span className="text-sm text-gray-500">No reviews yet</span>;
+  }
+  return (
+    <span className="flex items-center gap-1 text-sm">
+      <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+      {averageRating.toFixed(1)} ({ratingCount} review{ratingCount === 1 ? "" : "s"})
+    </span>
+  );
+}
+
+function ProfileDialog({ tradespersonId, onClose }: { tradespersonId: number | null; onClose: () => void }) {
+  const { data: profile, isLoading } = useQuery<TradespersonProfile>({
+    queryKey: [`/api/tradespeople/${tradespersonId}`],
+    enabled: tradespersonId !== null,
+  });
+
+  return (
+    <Dialog open={tradespersonId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        {isLoading || !profile ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>{profile.fullName || profile.username}</DialogTitle>
+              <DialogDescription>
+                {specialtyLabel(profile.specialtyType)} · {licenseLabels[profile.licenseStatus]}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-4">
+                <Rating averageRating={profile.averageRating} ratingCount={profile.ratingCount} />
+                <span className="text-sm text-gray-500">{profile.completedJobCount} completed jobs</span>
+              </div>
+              {profile.completedJobs.length === 0 ? (
+                <p className="text-sm text-gray-500">No completed jobs yet.</p>
+              ) : (
+                <ul className="max-h-80 divide-y overflow-y-auto">
+                  {profile.completedJobs.map((job) => (
+                    <li key={job.id} className="py-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="font-medium">{job.title}</p>
+                        {job.rating !== null && (
+                          <span className="flex items-center gap-1 text-sm">
+                            <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                            {job.rating}
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-500">
+                        {job.city}, {job.state}
+                        {job.completedAt && ` · ${format(new Date(job.completedAt), "MMM yyyy")}`}
+                      </p>
+                      {job.review && <p className="mt-1 text-sm text-gray-700">"{job.review}"</p>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * The tradesperson directory: search by trade, postcode, licence and rating,
+ * and save favourites to preselect them on maintenance records
+ */
+export default function TradespeoplePage() {
+  const { toast } = useToast();
+  const [specialtyType, setSpecialtyType] = useState("all");
+  const [postcode, setPostcode] = useState("");
+  const [licenseStatus, setLicenseStatus] = useState("all");
+  const [minRating, setMinRating] = useState("all");
+  const [profileId, setProfileId] = useState<number | null>(null);
+
+  const params = new URLSearchParams();
+  if (specialtyType !== "all") params.set("specialtyType", specialtyType);
+  if (/^\d{4}$/.test(postcode)) params.set("postcode", postcode);
+  if (licenseStatus !== "all") params.set("licenseStatus", licenseStatus);
+  if (minRating !== "all") params.set("minRating", minRating);
+  const search = params.toString();
+
+  const { data: tradespeople = [], isLoading } = useQuery<TradespersonSummary[]>({
+    queryKey: [search ? `/api/tradespeople?${search}` : "/api/tradespeople"],
+  });
+
+  const { data: favorites = [] } = useQuery<TradespersonSummary[]>({
+    queryKey: ["/api/user/favorite-tradespeople"],
+  });
+  const favoriteIds = new Set(favorites.map((person) => person.id));
+
+  const favoriteMutation = useMutation({
+    mutationFn: async ({ id, favorite }: { id: number; favorite: boolean }) => {
+      if (favorite) {
+        await apiRequest("POST", "/api/user/favorite-tradespeople", { tradespersonId: id });
+      } else {
+        await apiRequest("DELETE", `/api/user/favorite-tradespeople/${id}`);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/favorite-tradespeople"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: apiErrorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <main className="py-10">
+        <div className="max-w-7xl mx-auto sm:px-6 lg:px-8">
+          <div className="mb-8">
+            <h1 className="text-2xl font-semibold text-gray-900 lg:text-3xl">Find a Tradesperson</h1>
+            <p className="mt-1 text-sm text-gray-500">
+              Search for tradespeople who service your area, and save your favourites for next time.
+            </p>
+          </div>
+
+          <div className="flex flex-col md:flex-row space-y-4 md:space-y-0 md:space-x-4 mb-6">
+            <div className="w-full md:w-56">
+              <Select value={specialtyType} onValueChange={setSpecialtyType}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Trade" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All trades</SelectItem>
+                  {specialties.map((specialty) => (
+                    <SelectItem key={specialty.value} value={specialty.value}>
+                      {specialty.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="relative w-full md:w-40">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <MapPin className="h-5 w-5 text-gray-400" />
+              </div>
+              <Input
+                placeholder="Postcode"
+                className="pl-10"
+                inputMode="numeric"
+                maxLength={4}
+                value={postcode}
+                onChange={(e) => setPostcode(e.target.value.replace(/\D/g, ""))}
+              />
+            </div>
+
+            <div className="w-full md:w-56">
+              <Select value={licenseStatus} onValueChange={setLicenseStatus}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Licence" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any licence status</SelectItem>
+                  <SelectItem value="verified">Licence verified</SelectItem>
+                  <SelectItem value="unverified">Licence not yet verified</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="w-full md:w-40">
+              <Select value={minRating} onValueChange={setMinRating}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Rating" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any rating</SelectItem>
+                  <SelectItem value="4.5">4.5 and up</SelectItem>
+                  <SelectItem value="4">4 and up</SelectItem>
+                  <SelectItem value="3">3 and up</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : tradespeople.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-gray-500">
+                No tradespeople match your search.
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {tradespeople.map((person) => {
+                const isFavorite = favoriteIds.has(person.id);
+                return (
+                  <Card key={person.id}>
+                    <CardContent className="space-y-3 pt-6">
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <p className="font-medium">{person.fullName || person.username}</p>
+                          <p className="text-sm text-gray-500">{specialtyLabel(person.specialtyType)}</p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label={isFavorite ? "Remove from favourites" : "Add to favourites"}
+                          onClick={() => favoriteMutation.mutate({ id: person.id, favorite: !isFavorite })}
+                          disabled={favoriteMutation.isPending}
+                        >
+                          <Heart className={`h-5 w-5 ${isFavorite ? "fill-red-500 text-red-500" : "text-gray-400"}`} />
+                        </Button>
+                      </div>
+                      <Rating averageRating={person.averageRating} ratingCount={person.ratingCount} />
+                      <div className="flex flex-wrap gap-2">
+                        <Badge variant={person.licenseStatus === "verified" ? "default" : "secondary"}>
+                          {licenseLabels[person.licenseStatus]}
+                        </Badge>
+                        {person.distanceKm !== undefined && (
+                          <Badge variant="outline">{person.distanceKm} km away</Badge>
+                        )}
+                      </div>
+                      <Button variant="outline" size="sm" className="w-full" onClick={() => setProfileId(person.id)}>
+                        View profile
+                      </Button>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <ProfileDialog tradespersonId={profileId} onClose={() => setProfileId(null)} />
+    </div>
+  );
+}
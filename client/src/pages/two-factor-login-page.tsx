@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { User } from "@shared/schema";
+import { Loader2 } from "lucide-react";
+
+/**
+ * Second login step for users with two-factor authentication. The password
+ * has been accepted; the user enters a code from their authenticator app, or
+ * one of their recovery codes if they don't have it.
+ */
+export default function TwoFactorLoginPage() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/login/2fa", useRecoveryCode ? { recoveryCode } : { code });
+      return (await res.json()) as User;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], user);
+      setLocation("/");
+      toast({
+        title: "Login successful",
+        description: `Welcome back, ${user.fullName || user.username}!`,
+      });
+    },
+    onError: () => {
+      setCode("");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    verifyMutation.mutate();
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <CardTitle>Two-factor authentication</CardTitle>
+          <CardDescription>
+            {useRecoveryCode
+              ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+              : "Enter the 6-digit code from your authenticator app."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {useRecoveryCode ? (
+              <div className="space-y-2">
+                <Label htmlFor="recoveryCode">Recovery code</Label>
+                <Input
+                  id="recoveryCode"
+                  value={recoveryCode}
+                  onChange={(e) => setRecoveryCode(e.target.value)}
+                  autoComplete="off"
+                  required
+                />
+              </div>
+            ) : (
+              <div className="flex justify-center">
+                <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+                  <InputOTPGroup>
+                    {[0, 1, 2, 3, 4, 5].map((index) => (
+                      <InputOTPSlot key={index} index={index} />
+                    ))}
+                  </InputOTPGroup>
+                </InputOTP>
+              </div>
+            )}
+            {verifyMutation.error && (
+              <p className="text-sm text-red-600">{apiErrorMessage(verifyMutation.error)}</p>
+            )}
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={verifyMutation.isPending || (!useRecoveryCode && code.length < 6)}
+            >
+              {verifyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Verify
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                verifyMutation.reset();
+              }}
+            >
+              {useRecoveryCode ? "Use your authenticator app" : "Use a recovery code"}
+            </Button>
+            <p className="text-center text-sm">
+              <Link href="/auth" className="text-primary hover:underline">
+                Back to login
+              </Link>
+            </p>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiErrorMessage, apiRequest, queryClient } from "@/lib/queryClient";
+import { User } from "@shared/schema";
+import { Loader2, ShieldCheck } from "lucide-react";
+
+type TwoFactorStatus = {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+type TwoFactorEnrolment = {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+};
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+function RecoveryCodes({ codes }: { codes: string[] }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-600">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+        authenticator. They won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md bg-gray-100 p-3 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Set up, manage or turn off two-factor authentication. Admins are sent here
+ * until they've set it up, and can't turn it off.
+ */
+export default function TwoFactorPage() {
+  const { logoutMutation } = useAuth();
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/user/2fa"],
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/setup");
+      return (await res.json()) as TwoFactorEnrolment;
+    },
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/enable", { code });
+      return (await res.json()) as { user: User; recoveryCodes: string[] };
+    },
+    onSuccess: (result) => {
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      setupMutation.reset();
+      queryClient.setQueryData(["/api/user"], result.user);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/2fa"] });
+      toast({ title: "Two-factor authentication is on" });
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/recovery-codes", { code });
+      return (await res.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (result) => {
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/2fa"] });
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/2fa/disable", { password, code });
+      return (await res.json()) as User;
+    },
+    onSuccess: (updatedUser) => {
+      setCode("");
+      setPassword("");
+      setRecoveryCodes(null);
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      queryClient.invalidateQueries({ queryKey: ["/api/user/2fa"] });
+      toast({ title: "Two-factor authentication is off" });
+    },
+  });
+
+  const error = enableMutation.error ?? regenerateMutation.error ?? disableMutation.error ?? setupMutation.error;
+  const enrolment = setupMutation.data;
+  const mustSetUp = status?.required && !status.enabled;
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            Two-factor authentication
+          </CardTitle>
+          <CardDescription>
+            {mustSetUp
+              ? "Admin accounts must use two-factor authentication. Set it up to continue."
+              : "Sign in with a code from an authenticator app as well as your password."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading || !status ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : recoveryCodes ? (
+            <>
+              <RecoveryCodes codes={recoveryCodes} />
+              <Button className="w-full" onClick={() => setRecoveryCodes(null)}>
+                I've saved these codes
+              </Button>
+            </>
+          ) : !status.enabled && !enrolment ? (
+            <Button className="w-full" onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+              {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Set up authenticator app
+            </Button>
+          ) : !status.enabled && enrolment ? (
+            <>
+              <p className="text-sm text-gray-600">
+                Scan this QR code with an authenticator app such as Google Authenticator or 1Password,
+                then enter the 6-digit code it shows.
+              </p>
+              <div className="flex justify-center">
+                <img src={enrolment.qrCode} alt="QR code for your authenticator app" className="h-48 w-48" />
+              </div>
+              <p className="text-xs text-gray-500 text-center break-all">
+                Can't scan it? Enter this key instead: <span className="font-mono">{enrolment.secret}</span>
+              </p>
+              <div className="flex justify-center">
+                <CodeInput value={code} onChange={setCode} />
+              </div>
+              <Button
+                className="w-full"
+                onClick={() => enableMutation.mutate()}
+                disabled={enableMutation.isPending || code.length < 6}
+              >
+                {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Turn on
+              </Button>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">
+                Two-factor authentication is on. You have {status.recoveryCodesRemaining} unused recovery
+                code{status.recoveryCodesRemaining === 1 ? "" : "s"}.
+              </p>
+              <div className="space-y-2">
+                <Label>Code from your authenticator app</Label>
+                <CodeInput value={code} onChange={setCode} />
+              </div>
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => regenerateMutation.mutate()}
+                disabled={regenerateMutation.isPending || code.length < 6}
+              >
+                {regenerateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Get new recovery codes
+              </Button>
+              {!status.required && (
+                <>
+                  <Separator />
+                  <div className="space-y-2">
+                    <Label htmlFor="password">Password</Label>
+                    <Input
+                      id="password"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                    />
+                  </div>
+                  <Button
+                    variant="destructive"
+                    className="w-full"
+                    onClick={() => disableMutation.mutate()}
+                    disabled={disableMutation.isPending || code.length < 6 || !password}
+                  >
+                    {disableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Turn off two-factor authentication
+                  </Button>
+                </>
+              )}
+            </>
+          )}
+
+          {error && <p className="text-sm text-red-600">{apiErrorMessage(error)}</p>}
+
+          {mustSetUp ? (
+            <Button type="button" variant="ghost" className="w-full" onClick={() => logoutMutation.mutate()}>
+              Log out
+            </Button>
+          ) : (
+            <p className="text-center text-sm">
+              <Link href="/" className="text-primary hover:underline">
+                Back to dashboard
+              </Link>
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
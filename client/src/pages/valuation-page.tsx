@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Navbar } from "@/components/layout/navbar";
 import { Property, MaintenanceRecord, Valuation as ValuationType } from "@shared/schema";
@@ -7,11 +7,14 @@ import { Card, CardContent } from "@/components/ui/card";
 import { ValueComparisonChart } from "@/components/ui/value-comparison-chart";
 import { ValuationMethods } from "@/components/ui/valuation-methods";
 import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { 
   BarChart3, 
   Download, 
   FileText, 
-  Home 
+  Home,
+  RefreshCw
 } from "lucide-react";
 import {
   Select,
@@ -34,6 +37,7 @@ export default function ValuationPage() {
   const [location] = useLocation();
   const [selectedPropertyId, setSelectedPropertyId] = useState<number | null>(null);
   const [currentTab, setCurrentTab] = useState("overview");
+  const { toast } = useToast();
   
   // Extract propertyId from URL if present
   useEffect(() => {
@@ -64,49 +68,52 @@ export default function ValuationPage() {
     record => record.propertyId === selectedProperty?.id
   );
 
-  // Calculate property valuation based on different methods
-  const calculateValuation = (property?: Property): ValuationType | null => {
-    if (!property) return null;
-    
-    // Base calculations using property details
-    const baseValue = property.squareFeet * 200; // $200 per square foot as base
-    const bedroomValue = (property.bedrooms || 0) * 15000; // $15k per bedroom
-    const bathroomValue = (property.bathrooms || 0) * 10000; // $10k per bathroom
-    
-    // Total maintenance value added
-    const maintenanceValue = propertyMaintenanceRecords.reduce(
-      (sum, record) => sum + (record.estimatedValueAdded || 0),
-      0
-    );
-    
-    // Different valuation methods
-    const comparableSalesValue = baseValue + bedroomValue + bathroomValue - 15000; // Slightly lower
-    const perSquareFootValue = property.squareFeet * 195; // Different rate
-    const automatedModelValue = baseValue + bedroomValue + bathroomValue - 20000; // Another variation
-    const costApproachValue = baseValue + bedroomValue + bathroomValue + 10000; // Higher
-    const incomeApproachValue = baseValue + bedroomValue + bathroomValue + 5000; // Another variation
-    
-    // Equitystek valuation includes maintenance history
-    const equitystekValue = baseValue + bedroomValue + bathroomValue + maintenanceValue;
-    
-    return {
-      id: 0, // Placeholder
-      propertyId: property.id,
-      comparableSalesValue,
-      perSquareFootValue,
-      automatedModelValue,
-      costApproachValue,
-      incomeApproachValue,
-      maintenanceAddedValue: maintenanceValue,
-      equitystekValue,
-      createdAt: new Date(),
-    };
+  // Fetch the latest stored valuation for the selected property
+  const {
+    data: valuation = null,
+    isLoading: isLoadingValuation,
+    isError: isValuationMissing,
+  } = useQuery<ValuationType | null>({
+    queryKey: [`/api/valuations/${selectedProperty?.id}`],
+    enabled: !!selectedProperty,
+    retry: false,
+  });
+
+  // Ask the server to compute a fresh valuation for the selected property
+  const computeValuationMutation = useMutation({
+    mutationFn: async (propertyId: number) => {
+      const res = await apiRequest("POST", `/api/properties/${propertyId}/valuations/compute`);
+      return await res.json();
+    },
+    onSuccess: (newValuation: ValuationType) => {
+      queryClient.setQueryData([`/api/valuations/${newValuation.propertyId}`], newValuation);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Valuation failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Compute a valuation the first time a property without one is viewed
+  useEffect(() => {
+    if (selectedProperty && isValuationMissing && computeValuationMutation.isIdle) {
+      computeValuationMutation.mutate(selectedProperty.id);
+    }
+  }, [selectedProperty?.id, isValuationMissing]);
+
+  const valuationMethodLabels: Record<string, string> = {
+    comparableSales: "Comparable Sales Value",
+    perSquareFoot: "Per Square Foot Value",
+    automatedModel: "Automated Model Value",
+    costApproach: "Cost Approach Value",
+    incomeApproach: "Income Approach Value",
   };
   
-  const valuation = calculateValuation(selectedProperty);
-  
   // Format currency
-  const formatCurrency = (value?: number) => {
+  const formatCurrency = (value?: number | null) => {
     if (!value && value !== 0) return "N/A";
     return value.toLocaleString('en-US', {
       style: 'currency',
@@ -116,7 +123,7 @@ export default function ValuationPage() {
     });
   };
 
-  const isLoading = isLoadingProperties || isLoadingMaintenance;
+  const isLoading = isLoadingProperties || isLoadingMaintenance || isLoadingValuation || computeValuationMutation.isPending;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -231,9 +238,19 @@ export default function ValuationPage() {
                         <h4 className="text-lg font-medium text-gray-900">Equitystek Valuation</h4>
                         <p className="text-3xl font-semibold text-primary">{formatCurrency(valuation?.equitystekValue)}</p>
                       </div>
-                      <Button className="w-full md:w-auto">
-                        <FileText className="mr-2 h-4 w-4" /> Generate Valuation Report
-                      </Button>
+                      <div className="flex flex-col md:flex-row gap-2 w-full md:w-auto">
+                        <Button 
+                          variant="outline" 
+                          className="w-full md:w-auto"
+                          onClick={() => computeValuationMutation.mutate(selectedProperty.id)}
+                          disabled={computeValuationMutation.isPending}
+                        >
+                          <RefreshCw className="mr-2 h-4 w-4" /> Recalculate
+                        </Button>
+                        <Button className="w-full md:w-auto">
+                          <FileText className="mr-2 h-4 w-4" /> Generate Valuation Report
+                        </Button>
+                      </div>
                     </div>
                   </TabsContent>
                   
@@ -320,18 +337,14 @@ export default function ValuationPage() {
                         <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
                           <h5 className="text-sm font-medium text-gray-700 mb-2">Valuation Factors</h5>
                           <div className="space-y-2">
-                            <div className="flex justify-between">
-                              <span className="text-sm text-gray-500">Base Square Footage Value:</span>
-                              <span className="text-sm">{formatCurrency(selectedProperty.squareFeet * 200)}</span>
-                            </div>
-                            <div className="flex justify-between">
-                              <span className="text-sm text-gray-500">Bedroom Value:</span>
-                              <span className="text-sm">{formatCurrency((selectedProperty.bedrooms || 0) * 15000)}</span>
-                            </div>
-                            <div className="flex justify-between">
-                              <span className="text-sm text-gray-500">Bathroom Value:</span>
-                              <span className="text-sm">{formatCurrency((selectedProperty.bathrooms || 0) * 10000)}</span>
-                            </div>
+                            {valuation?.calculationDetails && Object.entries(valuation.calculationDetails.methods).map(([method, details]) => (
+                              <div key={method} className="flex justify-between">
+                                <span className="text-sm text-gray-500">
+                                  {valuationMethodLabels[method] || method} ({Math.round(details.weight * 100)}% weight):
+                                </span>
+                                <span className="text-sm">{formatCurrency(details.value)}</span>
+                              </div>
+                            ))}
                             <div className="flex justify-between">
                               <span className="text-sm text-gray-500">Maintenance Added Value:</span>
                               <span className="text-sm text-green-600">{formatCurrency(valuation?.maintenanceAddedValue)}</span>
@@ -0,0 +1,151 @@
+import fs from "fs";
+import { addDays, format } from "date-fns";
+import { randomBytes } from "crypto";
+import Stripe from "stripe";
+import { storage } from "./storage";
+import { notificationService } from "./notification-service";
+import { notificationSocketServer } from "./notification-socket";
+import { collectUserFiles, gatherUserData } from "./user-data-service";
+import { User } from "@shared/schema";
+
+const stripe = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY, { apiVersion: "2025-04-30.basil" as any })
+  : undefined;
+
+// How long the user has to change their mind before their account is erased
+export const DELETION_COOLING_OFF_DAYS = 30;
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+/**
+ * Handles requests to erase an account. A request schedules erasure after a
+ * cooling-off period, during which the user can still sign in and cancel.
+ * A background check erases accounts whose cooling-off period has ended.
+ */
+export class AccountDeletionService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  async requestDeletion(user: User, now: Date = new Date()): Promise<User> {
+    if (user.deletionScheduledFor) {
+      return user;
+    }
+
+    const scheduledFor = addDays(now, DELETION_COOLING_OFF_DAYS);
+    const updatedUser = await storage.scheduleUserDeletion(user.id, scheduledFor);
+
+    try {
+      await notificationService.createSystemNotification(
+        `Your account and data will be permanently deleted on ${format(scheduledFor, "d MMMM yyyy")}. You can cancel this from your account settings until then.`,
+        "Account Deletion Scheduled",
+        user.id
+      );
+    } catch (error) {
+      console.error("Failed to send account deletion notification:", error);
+    }
+
+    return updatedUser;
+  }
+
+  async cancelDeletion(user: User): Promise<User> {
+    return storage.scheduleUserDeletion(user.id, null);
+  }
+
+  /**
+   * Erase an account now. The database changes happen first, in one
+   * transaction; files are removed afterwards so a failed erasure never
+   * leaves records pointing at missing files.
+   */
+  async eraseAccount(user: User): Promise<void> {
+    const files = collectUserFiles(await gatherUserData(user));
+
+    // Stop billing before the link to the Stripe subscription is removed
+    if (user.stripeSubscriptionId && stripe) {
+      try {
+        await stripe.subscriptions.cancel(user.stripeSubscriptionId);
+      } catch (error) {
+        console.error(`Failed to cancel Stripe subscription for user ${user.id}:`, error);
+      }
+    }
+
+    await storage.eraseUser(user.id, {
+      email: `deleted-user-${user.id}@deleted.invalid`,
+      username: `deleted-user-${user.id}`,
+      // Random hash and salt with no known password, so nobody can sign in as this user
+      password: `${randomBytes(64).toString("hex")}.${randomBytes(16).toString("hex")}`,
+    });
+
+    notificationSocketServer.disconnect(user.id);
+
+    for (const file of files) {
+      try {
+        await fs.promises.unlink(file.filePath);
+      } catch (error) {
+        console.error(`Failed to delete file ${file.filePath} for erased user ${user.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Erase every account whose cooling-off period ended on or before `now`.
+   * Returns the number of accounts erased.
+   */
+  async runDueDeletions(now: Date = new Date()): Promise<number> {
+    const dueUsers = await storage.getUsersDueForDeletion(now);
+    let erased = 0;
+
+    for (const user of dueUsers) {
+      try {
+        await this.eraseAccount(user);
+        erased++;
+      } catch (error) {
+        // One failure shouldn't stop the rest; it's retried on the next run
+        console.error(`Failed to erase account ${user.id}:`, error);
+      }
+    }
+
+    return erased;
+  }
+
+  /**
+   * Start checking for accounts due to be erased. The interval can be set with
+   * ACCOUNT_DELETION_INTERVAL_MINUTES; a value of 0 disables the check.
+   */
+  start(intervalMinutes = Number(process.env.ACCOUNT_DELETION_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES)) {
+    if (this.timer || !(intervalMinutes > 0)) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), intervalMinutes * 60 * 1000);
+    // Don't keep the process alive just for the check
+    this.timer.unref();
+    this.tick();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick() {
+    // Skip this run if the previous one is still going
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const erased = await this.runDueDeletions();
+      if (erased > 0) {
+        console.log(`Erased ${erased} account(s) after their cooling-off period`);
+      }
+    } catch (error) {
+      console.error("Account deletion run failed:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+// Export a singleton instance
+export const accountDeletionService = new AccountDeletionService();
@@ -0,0 +1,91 @@
+import type { Express } from "express";
+import { z } from "zod";
+import {
+  changePassword,
+  requestPasswordReset,
+  resetPassword,
+  sendEmailVerification,
+  verifyEmail,
+  AccountError,
+} from "./account-service";
+import { requireAuth } from "./middleware/auth";
+
+// Same minimum length as sign-up
+const newPasswordSchema = z.string().min(6, "Password must be at least 6 characters");
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: newPasswordSchema,
+});
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: newPasswordSchema,
+});
+
+export function registerAccountRoutes(app: Express) {
+  // Email a password reset link. The response is the same whether or not the account exists.
+  app.post("/api/forgot-password", async (req, res, next) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+      // Not awaited, so the response takes as long whether or not there's an account to email
+      requestPasswordReset(email).catch(error => console.error("Failed to request password reset:", error));
+      res.status(202).json({ message: "If an account exists for that email, we've sent a link to reset the password." });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Choose a new password with the token from a reset email
+  app.post("/api/reset-password", async (req, res, next) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+      await resetPassword(token, password);
+      res.json({ message: "Your password has been reset. You can now log in." });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Change the signed-in user's password
+  app.post("/api/user/password", requireAuth, async (req, res, next) => {
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      const { password, ...user } = await changePassword(req.user!, req.sessionID, currentPassword, newPassword);
+      res.json(user);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Confirm an email address from the link in a verification email
+  app.get("/api/verify-email", async (req, res, next) => {
+    try {
+      await verifyEmail(String(req.query.token ?? ""));
+      res.redirect("/?emailVerified=1");
+    } catch (error) {
+      if (error instanceof AccountError) {
+        return res.redirect("/?emailVerified=0");
+      }
+      next(error);
+    }
+  });
+
+  // Send another verification email
+  app.post("/api/user/verification-email", requireAuth, async (req, res, next) => {
+    try {
+      if (req.user!.emailVerified) {
+        return res.status(400).json({ message: "Your email address is already confirmed" });
+      }
+
+      await sendEmailVerification(req.user!);
+      res.status(202).json({ message: "We've sent a new confirmation link to your email address." });
+    } catch (error) {
+      next(error);
+    }
+  });
+}
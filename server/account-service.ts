@@ -0,0 +1,131 @@
+import { createHash, randomBytes } from "crypto";
+import { addHours, addMinutes } from "date-fns";
+import { storage } from "./storage";
+import { emailService } from "./email-service";
+import { revokeAllSessions, revokeOtherSessions } from "./session-service";
+import { comparePasswords, hashPassword } from "./auth";
+import { renderEmailVerificationEmail, renderPasswordResetEmail, RenderedEmail } from "./email-templates";
+import { AuthTokenPurpose, User } from "@shared/schema";
+
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+export const EMAIL_VERIFICATION_TTL_HOURS = 48;
+
+export class AccountError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "AccountError";
+  }
+}
+
+export function hashAuthToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Create a token for the user, retiring any they were sent earlier for the same purpose
+async function issueToken(userId: number, purpose: AuthTokenPurpose, expiresAt: Date): Promise<string> {
+  await storage.invalidateAuthTokens(userId, purpose);
+
+  const token = randomBytes(32).toString("hex");
+  await storage.createAuthToken({
+    userId,
+    purpose,
+    tokenHash: hashAuthToken(token),
+    expiresAt,
+  });
+  return token;
+}
+
+/**
+ * Send an account email straight away. These hold a live token, so they skip
+ * the outbox, where admins can read queued mail. Without SMTP the email is
+ * printed in development so the flow can still be tried.
+ */
+async function sendAccountEmail(to: string, email: RenderedEmail) {
+  if (!emailService.isConfigured()) {
+    if (process.env.NODE_ENV !== "production") {
+      console.log(`Email is not configured; would have sent "${email.subject}" to ${to}:\n${email.text}`);
+    }
+    return;
+  }
+
+  try {
+    await emailService.send(to, email);
+  } catch (error) {
+    // The user can ask for another email, so don't fail the request
+    console.error(`Failed to send "${email.subject}" to ${to}:`, error);
+  }
+}
+
+/**
+ * Email a password reset link, if there's an account for the address. The
+ * caller's response must not reveal whether there was.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await storage.getUserByEmail(email);
+  if (!user || user.deletedAt) return;
+
+  const token = await issueToken(user.id, "password_reset", addMinutes(new Date(), PASSWORD_RESET_TTL_MINUTES));
+  await sendAccountEmail(user.email, renderPasswordResetEmail(token, PASSWORD_RESET_TTL_MINUTES));
+}
+
+/**
+ * Set a new password with a token from a reset email. The user is signed
+ * out everywhere, and since the link reached them their email is verified.
+ */
+export async function resetPassword(token: string, newPassword: string): Promise<User> {
+  const authToken = await storage.consumeAuthToken(hashAuthToken(token), "password_reset", new Date());
+  if (!authToken) {
+    throw new AccountError("This password reset link is invalid or has expired", 400);
+  }
+
+  const user = await storage.getUser(authToken.userId);
+  if (!user || user.deletedAt) {
+    throw new AccountError("This password reset link is invalid or has expired", 400);
+  }
+
+  const updatedUser = await storage.updateUserPassword(user.id, await hashPassword(newPassword), false);
+  await storage.invalidateAuthTokens(user.id, "password_reset");
+  await revokeAllSessions(user.id);
+
+  return updatedUser.emailVerified ? updatedUser : storage.setUserEmailVerified(user.id, true);
+}
+
+/**
+ * Change the signed-in user's password, which also satisfies a forced change
+ * after an admin reset. Every other session is signed out.
+ */
+export async function changePassword(user: User, currentSid: string, currentPassword: string, newPassword: string): Promise<User> {
+  if (!(await comparePasswords(currentPassword, user.password))) {
+    throw new AccountError("Current password is incorrect", 403);
+  }
+  if (currentPassword === newPassword) {
+    throw new AccountError("Choose a password different from your current one", 400);
+  }
+
+  const updatedUser = await storage.updateUserPassword(user.id, await hashPassword(newPassword), false);
+  await revokeOtherSessions(user.id, currentSid);
+  return updatedUser;
+}
+
+/**
+ * Email a link to confirm the user's address. Does nothing if it's already
+ * confirmed.
+ */
+export async function sendEmailVerification(user: User): Promise<void> {
+  if (user.emailVerified) return;
+
+  const token = await issueToken(user.id, "email_verification", addHours(new Date(), EMAIL_VERIFICATION_TTL_HOURS));
+  await sendAccountEmail(user.email, renderEmailVerificationEmail(token, EMAIL_VERIFICATION_TTL_HOURS));
+}
+
+/**
+ * Confirm an email address with the token from a verification email
+ */
+export async function verifyEmail(token: string): Promise<User> {
+  const authToken = await storage.consumeAuthToken(hashAuthToken(token), "email_verification", new Date());
+  if (!authToken) {
+    throw new AccountError("This verification link is invalid or has expired", 400);
+  }
+
+  return storage.setUserEmailVerified(authToken.userId, true);
+}
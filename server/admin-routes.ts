@@ -3,14 +3,89 @@ import { eq } from "drizzle-orm";
 import { storage } from "./storage";
 import { requireAdmin } from "./middleware/admin";
 import Stripe from "stripe";
-import { scrypt, randomBytes } from "crypto";
-import { promisify } from "util";
+import { randomBytes } from "crypto";
+import multer from "multer";
+import { z } from "zod";
+import { insertUserSchema } from "@shared/schema";
+import { importComparableSalesCsv } from "./comparable-sales-service";
+import { importRentalListingsCsv } from "./market-data-service";
+import { importPostcodeLocationsCsv } from "./tradesperson-directory-service";
+import { getReceiptPDF } from "./receipt-service";
+import { billingSyncService } from "./billing-sync-service";
+import { auditEventsToCsv, verifyAuditChain } from "./audit-service";
+import { emailService } from "./email-service";
+import { renderTestEmail } from "./email-templates";
+import { hashPassword } from "./auth";
+import { notificationSocketServer } from "./notification-socket";
 
 const stripe = process.env.STRIPE_SECRET_KEY
   ? new Stripe(process.env.STRIPE_SECRET_KEY, { apiVersion: "2025-04-30.basil" as any })
   : undefined;
 
-const scryptAsync = promisify(scrypt);
+// Dataset uploads are parsed in memory rather than written to disk
+const datasetUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.originalname.match(/\.csv$/i)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only CSV files are allowed!') as any, false);
+    }
+  }
+});
+
+// The profile fields an admin may edit directly. Passwords, suspension, two-factor
+// authentication and licence verification each have their own path, and account
+// state such as emailVerified or deletedAt can't be set at all.
+const adminUserUpdateSchema = insertUserSchema.pick({
+  username: true,
+  email: true,
+  role: true,
+  fullName: true,
+  specialtyType: true,
+  licenseNumber: true,
+  propertyCount: true,
+  servicePostcode: true,
+  serviceRadiusKm: true,
+}).partial();
+
+const licenseSchema = z.object({
+  verified: z.boolean(),
+  expiresAt: z.coerce.date().nullable().optional(),
+});
+
+// CSV exports aren't paged, but are capped so one request can't pull the whole table
+const AUDIT_EXPORT_LIMIT = 50000;
+
+const auditQuerySchema = z.object({
+  actorId: z.coerce.number().int().optional(),
+  action: z.string().optional(),
+  resourceType: z.string().optional(),
+  resourceId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+const emailOutboxQuerySchema = z.object({
+  status: z.enum(["pending", "held", "sent", "digested", "failed"]).optional(),
+  userId: z.coerce.number().int().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const dunningQuerySchema = z.object({
+  state: z.enum(["retrying", "grace", "suspended"]).optional(),
+});
+
+const testEmailSchema = z.object({
+  to: z.string().email(),
+});
 
 /**
  * Register admin routes for the admin dashboard
@@ -54,7 +129,46 @@ export function registerAdminRoutes(app: Express) {
         return res.status(404).json({ error: "User not found" });
       }
       
-      const updatedUser = await storage.updateUser(userId, req.body);
+      // A password set here is hashed and treated like a reset, so the user must change it.
+      // Two-factor authentication can't be switched from here; see reset-two-factor. Nor can
+      // licence verification; see the licence route.
+      const { password, suspended } = req.body;
+      const passwordChanged = typeof password === "string" && password.length > 0;
+
+      const parsed = adminUserUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid request", details: parsed.error.errors });
+      }
+      const updates = parsed.data;
+
+      if (suspended === true && userId === req.user!.id) {
+        return res.status(400).json({ error: "You can't suspend your own account" });
+      }
+
+      if (passwordChanged) {
+        await storage.updateUserPassword(userId, await hashPassword(password), true);
+      }
+
+      if (suspended === true && !user.suspendedAt) {
+        await storage.setUserSuspended(userId, new Date());
+      } else if (suspended === false && user.suspendedAt) {
+        await storage.setUserSuspended(userId, null);
+      }
+
+      // A new licence number hasn't been checked yet
+      if ("licenseNumber" in updates && updates.licenseNumber !== user.licenseNumber && user.licenseVerifiedAt) {
+        await storage.setUserLicense(userId, null, null);
+      }
+
+      // Sign them out everywhere if their password changed or they've been suspended
+      if (passwordChanged || suspended === true) {
+        await storage.deleteUserSessions(userId);
+        notificationSocketServer.disconnect(userId);
+      }
+
+      const updatedUser = Object.keys(updates).length > 0
+        ? await storage.updateUser(userId, updates)
+        : await storage.getUser(userId);
       res.json(updatedUser);
     } catch (error) {
       console.error("Error updating user:", error);
@@ -72,23 +186,78 @@ export function registerAdminRoutes(app: Express) {
         return res.status(404).json({ error: "User not found" });
       }
       
-      // Generate a random temporary password
+      // Generate a random temporary password, which the user must change when they next log in
       const temporaryPassword = randomBytes(8).toString("hex");
+      await storage.updateUserPassword(userId, await hashPassword(temporaryPassword), true);
+
+      // Sign them out so the old password's sessions can't carry on
+      await storage.deleteUserSessions(userId);
+      notificationSocketServer.disconnect(userId);
       
-      // Hash the password
-      const salt = randomBytes(16).toString("hex");
-      const buf = (await scryptAsync(temporaryPassword, salt, 64)) as Buffer;
-      const hashedPassword = `${buf.toString("hex")}.${salt}`;
-      
-      await storage.resetUserPassword(userId, hashedPassword);
-      
-      res.json({ success: true, temporaryPassword });
+      res.json({ success: true, temporaryPassword, mustChangePassword: true });
     } catch (error) {
       console.error("Error resetting password:", error);
       res.status(500).json({ error: "Failed to reset password" });
     }
   });
 
+  // Turn off two-factor authentication for a user who has lost their authenticator and recovery codes
+  app.post("/api/admin/users/:id/reset-two-factor", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await storage.getUser(userId);
+
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      if (userId === req.user!.id) {
+        return res.status(400).json({ error: "You can't reset your own two-factor authentication" });
+      }
+
+      // Admins have to set it up again before they can do anything else
+      const updatedUser = await storage.disableTwoFactor(userId);
+      await storage.deleteUserSessions(userId);
+      notificationSocketServer.disconnect(userId);
+
+      res.json(updatedUser);
+    } catch (error) {
+      console.error("Error resetting two-factor authentication:", error);
+      res.status(500).json({ error: "Failed to reset two-factor authentication" });
+    }
+  });
+
+  // Record whether a tradesperson's licence number has been checked, and when it expires
+  app.post("/api/admin/users/:id/license", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = await storage.getUser(userId);
+
+      if (!user || user.role !== "tradesperson") {
+        return res.status(404).json({ error: "Tradesperson not found" });
+      }
+
+      const body = licenseSchema.safeParse(req.body ?? {});
+      if (!body.success) {
+        return res.status(400).json({ error: "Invalid request", details: body.error.errors });
+      }
+
+      if (body.data.verified && !user.licenseNumber) {
+        return res.status(400).json({ error: "The tradesperson hasn't given a licence number" });
+      }
+
+      const updatedUser = await storage.setUserLicense(
+        userId,
+        body.data.verified ? new Date() : null,
+        body.data.expiresAt ?? null
+      );
+      res.json(updatedUser);
+    } catch (error) {
+      console.error("Error updating licence:", error);
+      res.status(500).json({ error: "Failed to update licence" });
+    }
+  });
+
   // Get all subscriptions
   app.get("/api/admin/subscriptions", requireAdmin, async (req: Request, res: Response) => {
     try {
@@ -100,6 +269,38 @@ export function registerAdminRoutes(app: Express) {
     }
   });
 
+  // Accounts recovering a failed payment, with how many are in each dunning state
+  app.get("/api/admin/dunning", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const query = dunningQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid query parameters", details: query.error.errors });
+      }
+
+      const subscriptions = await storage.getSubscriptionsInDunning();
+      const counts = { retrying: 0, grace: 0, suspended: 0 };
+      for (const subscription of subscriptions) {
+        if (subscription.dunningState !== "none") {
+          counts[subscription.dunningState]++;
+        }
+      }
+
+      const selected = subscriptions.filter(subscription => !query.data.state || subscription.dunningState === query.data.state);
+      const accounts = await Promise.all(selected.map(async (subscription) => {
+        const user = await storage.getUser(subscription.userId);
+        return {
+          user: user ? { id: user.id, username: user.username, email: user.email, fullName: user.fullName } : null,
+          subscription,
+        };
+      }));
+
+      res.json({ counts, accounts });
+    } catch (error) {
+      console.error("Error fetching dunning accounts:", error);
+      res.status(500).json({ error: "Failed to fetch dunning accounts" });
+    }
+  });
+
   // Get single subscription
   app.get("/api/admin/subscriptions/:id", requireAdmin, async (req: Request, res: Response) => {
     try {
@@ -151,6 +352,123 @@ export function registerAdminRoutes(app: Express) {
     }
   });
 
+  // Subscriptions waiting to have their property count pushed to Stripe
+  app.get("/api/admin/billing/sync-queue", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const queue = await storage.getBillingSyncQueue();
+      res.json(queue);
+    } catch (error) {
+      console.error("Error fetching billing sync queue:", error);
+      res.status(500).json({ error: "Failed to fetch billing sync queue" });
+    }
+  });
+
+  // Retry a queued or failed sync on the next run
+  app.post("/api/admin/billing/sync-queue/:subscriptionId/retry", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const subscriptionId = parseInt(req.params.subscriptionId);
+      const entry = await storage.getBillingSyncEntry(subscriptionId);
+      
+      if (!entry) {
+        return res.status(404).json({ error: "Subscription is not queued for sync" });
+      }
+      
+      await billingSyncService.queueSync(subscriptionId);
+      const synced = await billingSyncService.processQueue();
+      res.json({ synced: synced > 0, entry: await storage.getBillingSyncEntry(subscriptionId) ?? null });
+    } catch (error) {
+      console.error("Error retrying billing sync:", error);
+      res.status(500).json({ error: "Failed to retry billing sync" });
+    }
+  });
+
+  // Most recent comparison of our prices with what Stripe charges
+  app.get("/api/admin/billing/reconciliation", requireAdmin, async (req: Request, res: Response) => {
+    res.json(billingSyncService.getLastReconciliationReport());
+  });
+
+  app.post("/api/admin/billing/reconciliation", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const report = await billingSyncService.reconcile();
+      res.json(report);
+    } catch (error) {
+      console.error("Error reconciling billing:", error);
+      res.status(500).json({ error: "Failed to reconcile billing" });
+    }
+  });
+
+  // Search the audit log, newest first, or download the matching events as CSV
+  app.get("/api/admin/audit", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const query = auditQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid query parameters", details: query.error.errors });
+      }
+
+      const { format, limit, offset, ...filter } = query.data;
+
+      if (format === "csv") {
+        const events = await storage.getAuditEvents({ ...filter, limit: AUDIT_EXPORT_LIMIT });
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+        return res.send(auditEventsToCsv(events));
+      }
+
+      const events = await storage.getAuditEvents({ ...filter, limit, offset });
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ error: "Failed to fetch audit log" });
+    }
+  });
+
+  // Recompute the hash chain to check no events have been altered or removed
+  app.get("/api/admin/audit/verify", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const verification = await verifyAuditChain();
+      res.json(verification);
+    } catch (error) {
+      console.error("Error verifying audit log:", error);
+      res.status(500).json({ error: "Failed to verify audit log" });
+    }
+  });
+
+  // List queued and sent emails, newest first
+  app.get("/api/admin/email/outbox", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const query = emailOutboxQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: "Invalid query parameters", details: query.error.errors });
+      }
+
+      const emails = await storage.getEmailOutbox(query.data);
+      res.json(emails);
+    } catch (error) {
+      console.error("Error fetching email outbox:", error);
+      res.status(500).json({ error: "Failed to fetch email outbox" });
+    }
+  });
+
+  // Send a test email straight away to check the SMTP settings
+  app.post("/api/admin/email/test", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const body = testEmailSchema.safeParse(req.body);
+      if (!body.success) {
+        return res.status(400).json({ error: "A valid email address is required", details: body.error.errors });
+      }
+
+      if (!emailService.isConfigured()) {
+        return res.status(503).json({ error: "Email is not configured" });
+      }
+
+      const info = await emailService.send(body.data.to, renderTestEmail());
+      res.json({ messageId: info.messageId, accepted: info.accepted, rejected: info.rejected });
+    } catch (error) {
+      console.error("Error sending test email:", error);
+      res.status(502).json({ error: "Failed to send test email", details: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
   // Get all properties
   app.get("/api/admin/properties", requireAdmin, async (req: Request, res: Response) => {
     try {
@@ -271,6 +589,26 @@ export function registerAdminRoutes(app: Express) {
     }
   });
 
+  // Download a receipt as a tax invoice PDF
+  app.get("/api/admin/receipts/:id/download", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const receipt = await storage.getReceipt(parseInt(req.params.id));
+      
+      if (!receipt) {
+        return res.status(404).json({ error: "Receipt not found" });
+      }
+      
+      const pdf = await getReceiptPDF(receipt);
+      
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="receipt_${receipt.receiptNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error downloading receipt:", error);
+      res.status(500).json({ error: "Failed to download receipt" });
+    }
+  });
+
   // Generate a new receipt (useful for admin corrections)
   app.post("/api/admin/receipts/generate", requireAdmin, async (req: Request, res: Response) => {
     try {
@@ -301,6 +639,70 @@ export function registerAdminRoutes(app: Express) {
     }
   });
 
+  // Import comparable sales from a public sales records CSV
+  app.post("/api/admin/comparable-sales/import", requireAdmin, datasetUpload.single('file'), async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No CSV file provided" });
+      }
+      
+      const source = req.body.source || req.file.originalname;
+      const result = await importComparableSalesCsv(req.file.buffer.toString("utf-8"), source);
+      
+      res.json({
+        ...result,
+        // Keep the response small for large extracts with many bad rows
+        errors: result.errors.slice(0, 100),
+        errorCount: result.errors.length
+      });
+    } catch (error) {
+      console.error("Error importing comparable sales:", error);
+      res.status(500).json({ error: "Failed to import comparable sales" });
+    }
+  });
+
+  // Import rental listings used for suburb yield and vacancy metrics
+  app.post("/api/admin/market-data/rentals/import", requireAdmin, datasetUpload.single('file'), async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No CSV file provided" });
+      }
+      
+      const source = req.body.source || req.file.originalname;
+      const result = await importRentalListingsCsv(req.file.buffer.toString("utf-8"), source);
+      
+      res.json({
+        ...result,
+        errors: result.errors.slice(0, 100),
+        errorCount: result.errors.length
+      });
+    } catch (error) {
+      console.error("Error importing rental listings:", error);
+      res.status(500).json({ error: "Failed to import rental listings" });
+    }
+  });
+
+  // Import postcode locations used to match tradespeople to the areas they service
+  app.post("/api/admin/postcodes/import", requireAdmin, datasetUpload.single('file'), async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No CSV file provided" });
+      }
+
+      const source = req.body.source || req.file.originalname;
+      const result = await importPostcodeLocationsCsv(req.file.buffer.toString("utf-8"), source);
+
+      res.json({
+        ...result,
+        errors: result.errors.slice(0, 100),
+        errorCount: result.errors.length
+      });
+    } catch (error) {
+      console.error("Error importing postcode locations:", error);
+      res.status(500).json({ error: "Failed to import postcode locations" });
+    }
+  });
+
   // Get admin dashboard stats
   app.get("/api/admin/stats", requireAdmin, async (req: Request, res: Response) => {
     try {
@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { AuditEvent, InsertAuditEvent } from "@shared/schema";
+
+vi.mock("./storage", () => ({
+  storage: {
+    appendAuditEvent: vi.fn(),
+    getAuditEventsAfter: vi.fn(),
+  },
+}));
+
+import { storage } from "./storage";
+import { GENESIS_HASH, hashAuditEvent, recordAuditEvent, redactRecord, verifyAuditChain } from "./audit-service";
+
+// The audit log, as it would be stored. Changes go through JSON as they would through jsonb.
+let events: AuditEvent[] = [];
+
+async function record(count: number) {
+  for (let i = 0; i < count; i++) {
+    await recordAuditEvent({
+      actorId: 1,
+      actorRole: "admin",
+      action: "PATCH /api/admin/users/:id",
+      method: "PATCH",
+      path: `/api/admin/users/${i + 2}`,
+      resourceType: "user",
+      resourceId: String(i + 2),
+      statusCode: 200,
+      ipAddress: "203.0.113.1",
+      userAgent: "test",
+      changes: { before: { role: "homeowner" }, after: { role: "tradesperson" } },
+    });
+  }
+}
+
+describe("verifyAuditChain", () => {
+  beforeEach(() => {
+    events = [];
+    vi.mocked(storage.appendAuditEvent).mockImplementation(async (buildEvent: (previousHash: string | null) => InsertAuditEvent) => {
+      const event = JSON.parse(JSON.stringify(buildEvent(events.at(-1)?.hash ?? null)));
+      const stored = { ...event, id: events.length + 1, createdAt: new Date(event.createdAt) } as AuditEvent;
+      events.push(stored);
+      return stored;
+    });
+    vi.mocked(storage.getAuditEventsAfter).mockImplementation(async (afterId, limit) =>
+      events.filter(event => event.id > afterId).slice(0, limit)
+    );
+  });
+
+  it("accepts an empty log", async () => {
+    await expect(verifyAuditChain()).resolves.toEqual({ valid: true, checked: 0 });
+  });
+
+  it("links each event to the one before it", async () => {
+    await record(3);
+
+    expect(events[0].previousHash).toBe(GENESIS_HASH);
+    expect(events[1].previousHash).toBe(events[0].hash);
+    expect(events[2].previousHash).toBe(events[1].hash);
+    await expect(verifyAuditChain()).resolves.toEqual({ valid: true, checked: 3 });
+  });
+
+  it("checks the whole chain across batches", async () => {
+    await record(501);
+    await expect(verifyAuditChain()).resolves.toEqual({ valid: true, checked: 501 });
+  });
+
+  it("finds an edited event", async () => {
+    await record(3);
+    events[1] = { ...events[1], statusCode: 500 };
+
+    await expect(verifyAuditChain()).resolves.toMatchObject({
+      valid: false,
+      checked: 1,
+      brokenAtId: 2,
+      reason: "Event contents do not match its hash",
+    });
+  });
+
+  it("finds edited changes", async () => {
+    await record(2);
+    events[0] = { ...events[0], changes: { before: { role: "homeowner" }, after: { role: "admin" } } };
+
+    await expect(verifyAuditChain()).resolves.toMatchObject({ valid: false, brokenAtId: 1 });
+  });
+
+  it("finds a removed event", async () => {
+    await record(3);
+    events.splice(1, 1);
+
+    await expect(verifyAuditChain()).resolves.toMatchObject({
+      valid: false,
+      checked: 1,
+      brokenAtId: 3,
+      reason: "Previous hash does not match the event before it",
+    });
+  });
+
+  it("finds a rehashed event that no longer links to the next one", async () => {
+    await record(3);
+    const { hash, ...edited } = { ...events[1], statusCode: 500 };
+    events[1] = { ...edited, hash: hashAuditEvent(edited) } as AuditEvent;
+
+    await expect(verifyAuditChain()).resolves.toMatchObject({ valid: false, brokenAtId: 3 });
+  });
+});
+
+describe("redactRecord", () => {
+  it("masks secrets and links that carry a token", () => {
+    expect(redactRecord({
+      email: "owner@example.com",
+      password: "hashed",
+      inviteUrl: "https://example.com/invitations/abc123",
+      nested: { resetToken: "abc123", role: "viewer" },
+    })).toEqual({
+      email: "owner@example.com",
+      password: "[redacted]",
+      inviteUrl: "[redacted]",
+      nested: { resetToken: "[redacted]", role: "viewer" },
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { toCsv } from "./csv";
+import { AuditChanges, AuditEvent, InsertAuditEvent } from "@shared/schema";
+
+// previousHash of the first event in the chain
+export const GENESIS_HASH = "0".repeat(64);
+
+// Events are checked in batches when verifying the chain
+const VERIFY_BATCH_SIZE = 500;
+
+// Fields never written to the audit log, whatever they're attached to. URLs
+// are included because invitation and reset links carry their token.
+const SENSITIVE_FIELD = /password|token|secret|hash$|otpauth|qrCode|recoveryCode|url$/i;
+
+export type AuditEventDetails = Omit<InsertAuditEvent, "createdAt" | "previousHash" | "hash">;
+
+// JSON with object keys sorted, so the same data always hashes the same way
+// no matter what order Postgres hands jsonb keys back in
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, field]) => field !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, field]) => `${JSON.stringify(key)}:${stableStringify(field)}`).join(",")}}`;
+}
+
+// Hash of an event's contents together with the hash of the event before it
+export function hashAuditEvent(event: Omit<InsertAuditEvent, "hash">): string {
+  const payload = stableStringify({
+    actorId: event.actorId ?? null,
+    actorRole: event.actorRole ?? null,
+    action: event.action,
+    method: event.method,
+    path: event.path,
+    resourceType: event.resourceType ?? null,
+    resourceId: event.resourceId ?? null,
+    statusCode: event.statusCode,
+    ipAddress: event.ipAddress ?? null,
+    userAgent: event.userAgent ?? null,
+    changes: event.changes ?? null,
+    createdAt: event.createdAt ? new Date(event.createdAt).toISOString() : null,
+    previousHash: event.previousHash,
+  });
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+// A value as it will look once stored as JSON, e.g. Dates become strings
+function toJson(value: unknown): unknown {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Make a record safe and stable to store: passwords, tokens and other secrets
+ * are masked, and the result is plain JSON so it hashes the same once it has
+ * been through jsonb.
+ */
+export function redactRecord(record: unknown): Record<string, unknown> | null {
+  if (record === null || record === undefined || typeof record !== "object" || Array.isArray(record)) {
+    return null;
+  }
+
+  const redact = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(redact);
+    if (value === null || typeof value !== "object" || value instanceof Date) return value;
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, field]) => [
+        key,
+        SENSITIVE_FIELD.test(key) ? "[redacted]" : redact(field),
+      ])
+    );
+  };
+
+  return toJson(redact(record)) as Record<string, unknown>;
+}
+
+/**
+ * Work out what a request changed. Updates keep only the fields whose values
+ * differ; creates and deletes keep the whole record on the side it exists.
+ * Fields are compared before redaction, so a changed password still shows up.
+ */
+export function diffRecords(before: unknown, after: unknown): AuditChanges | null {
+  const previous = redactRecord(before);
+  const next = redactRecord(after);
+
+  if (!previous && !next) return null;
+  if (!previous) return { after: next };
+  if (!next) return { before: previous };
+
+  const rawBefore = before as Record<string, unknown>;
+  const rawAfter = after as Record<string, unknown>;
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  const keys = Object.keys(previous).concat(Object.keys(next).filter(key => !(key in previous)));
+  for (const key of keys) {
+    if (stableStringify(toJson(rawBefore[key])) !== stableStringify(toJson(rawAfter[key]))) {
+      changedBefore[key] = previous[key] ?? null;
+      changedAfter[key] = next[key] ?? null;
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+// Add an event to the end of the hash chain
+export async function recordAuditEvent(details: AuditEventDetails): Promise<AuditEvent> {
+  return storage.appendAuditEvent((previousHash) => {
+    const event = {
+      ...details,
+      changes: details.changes ? JSON.parse(JSON.stringify(details.changes)) : null,
+      createdAt: new Date(),
+      previousHash: previousHash ?? GENESIS_HASH,
+    };
+    return { ...event, hash: hashAuditEvent(event) };
+  });
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  // First event whose hash or link to the previous event doesn't match
+  brokenAtId?: number;
+  reason?: string;
+}
+
+/**
+ * Walk the whole chain from the first event, recomputing each hash. An event
+ * that has been edited no longer matches its hash, and one that has been
+ * removed leaves the next event pointing at a hash that isn't before it.
+ */
+export async function verifyAuditChain(): Promise<AuditChainVerification> {
+  let previousHash = GENESIS_HASH;
+  let lastId = 0;
+  let checked = 0;
+
+  while (true) {
+    const events = await storage.getAuditEventsAfter(lastId, VERIFY_BATCH_SIZE);
+    if (events.length === 0) break;
+
+    for (const event of events) {
+      if (event.previousHash !== previousHash) {
+        return { valid: false, checked, brokenAtId: event.id, reason: "Previous hash does not match the event before it" };
+      }
+      if (hashAuditEvent(event) !== event.hash) {
+        return { valid: false, checked, brokenAtId: event.id, reason: "Event contents do not match its hash" };
+      }
+
+      previousHash = event.hash;
+      lastId = event.id;
+      checked++;
+    }
+  }
+
+  return { valid: true, checked };
+}
+
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  return toCsv(
+    [
+      "ID",
+      "Time",
+      "Actor ID",
+      "Actor Role",
+      "Action",
+      "Method",
+      "Path",
+      "Resource Type",
+      "Resource ID",
+      "Status",
+      "IP Address",
+      "User Agent",
+      "Before",
+      "After",
+      "Previous Hash",
+      "Hash",
+    ],
+    events.map(event => [
+      event.id,
+      event.createdAt,
+      event.actorId,
+      event.actorRole,
+      event.action,
+      event.method,
+      event.path,
+      event.resourceType,
+      event.resourceId,
+      event.statusCode,
+      event.ipAddress,
+      event.userAgent,
+      event.changes?.before ? JSON.stringify(event.changes.before) : "",
+      event.changes?.after ? JSON.stringify(event.changes.after) : "",
+      event.previousHash,
+      event.hash,
+    ])
+  );
+}
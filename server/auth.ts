@@ -1,34 +1,56 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User } from "@shared/schema";
+import { notificationSocketServer } from "./notification-socket";
+import { sendEmailVerification } from "./account-service";
+import { enforcePasswordChange, enforceTwoFactorEnrolment } from "./middleware/account";
+import { trackSessionActivity } from "./middleware/session-activity";
+import { User as SelectUser } from "@shared/schema";
 
 declare global {
   namespace Express {
-    interface User extends User {}
+    interface User extends SelectUser {}
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Set once the password is accepted for a user with two-factor authentication, until they enter a code
+    pendingTwoFactor?: { userId: number; expiresAt: number; attempts: number };
+    // When this session passed a two-factor check
+    twoFactorVerifiedAt?: number;
+    // Device details for the signed-in sessions list; see trackSessionActivity
+    signedInAt?: number;
+    lastSeenAt?: number;
+    userAgent?: string;
+    ipAddress?: string;
+  }
+}
+
+// How long the user has to enter their code after their password
+const TWO_FACTOR_LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
+// Returns the session middleware, so WebSocket upgrades can be authenticated with the same session
+export function setupAuth(app: Express): RequestHandler {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "equitystek-secret-key",
     resave: false,
@@ -40,10 +62,15 @@ export function setupAuth(app: Express) {
     }
   };
 
+  const sessionMiddleware = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(trackSessionActivity);
+  app.use(enforcePasswordChange);
+  app.use(enforceTwoFactorEnrolment);
 
   passport.use(
     new LocalStrategy(
@@ -67,7 +94,8 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      // A suspended user's sessions are deleted, but don't let one carry on if it races the suspension
+      done(null, user?.suspendedAt ? false : user);
     } catch (error) {
       done(error);
     }
@@ -84,9 +112,17 @@ export function setupAuth(app: Express) {
       
       const user = await storage.createUser({
         ...req.body,
-        password: hashedPassword
+        password: hashedPassword,
+        emailVerified: false
       });
 
+      // Paid features stay locked until the address is confirmed
+      try {
+        await sendEmailVerification(user);
+      } catch (verificationError) {
+        console.error("Failed to send verification email:", verificationError);
+      }
+
       req.login(user, (err) => {
         if (err) return next(err);
         res.status(201).json(user);
@@ -96,13 +132,38 @@ export function setupAuth(app: Express) {
     }
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) return res.sendStatus(401);
+      if (user.suspendedAt) {
+        return res.status(403).json({ message: "This account has been suspended. Please contact support." });
+      }
+
+      // The password is right, but the user isn't signed in until they enter a code at /api/login/2fa
+      if (user.twoFactorEnabled) {
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + TWO_FACTOR_LOGIN_TIMEOUT_MS,
+          attempts: 0,
+        };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.status(200).json(user);
+      });
+    })(req, res, next);
   });
 
   app.post("/api/logout", (req, res, next) => {
+    const userId = req.user?.id;
+    const sessionId = req.sessionID;
     req.logout((err) => {
       if (err) return next(err);
+      // Every tab shares the session, so close their notification sockets too
+      if (userId) notificationSocketServer.disconnectSession(userId, sessionId);
       res.sendStatus(200);
     });
   });
@@ -146,4 +207,6 @@ export function setupAuth(app: Express) {
       next(error);
     }
   });
+
+  return sessionMiddleware;
 }
@@ -0,0 +1,367 @@
+import Stripe from "stripe";
+import { storage } from "./storage";
+import { Subscription } from "@shared/schema";
+
+const stripe = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY, { apiVersion: "2025-04-30.basil" as any })
+  : undefined;
+
+const DEFAULT_QUEUE_INTERVAL_MINUTES = 5;
+const DEFAULT_RECONCILE_INTERVAL_HOURS = 24;
+
+// Give up after this many attempts; an admin can retry failed entries
+const MAX_SYNC_ATTEMPTS = 8;
+const MAX_RETRY_DELAY_MINUTES = 6 * 60;
+
+// Retry after 1, 2, 4, 8... minutes, up to six hours
+export function nextRetryDelayMinutes(attempts: number): number {
+  return Math.min(2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MINUTES);
+}
+
+// The first property is covered by the base price, so Stripe bills at least one
+export function stripeQuantityFor(propertyCount: number): number {
+  return Math.max(1, propertyCount);
+}
+
+/**
+ * What Stripe charges per billing period for a quantity of a price, in
+ * dollars. Tiered prices must be retrieved with their tiers expanded.
+ * Returns undefined if the price can't be worked out.
+ */
+export function stripeAmountForQuantity(price: Stripe.Price, quantity: number): number | undefined {
+  const unitAmount = (amount: number | null, decimal: string | null) =>
+    amount ?? (decimal !== null ? Number(decimal) : 0);
+
+  let cents: number;
+  if (price.billing_scheme === "tiered") {
+    if (!price.tiers?.length) return undefined;
+
+    if (price.tiers_mode === "volume") {
+      const tier = price.tiers.find(tier => tier.up_to === null || quantity <= tier.up_to) ?? price.tiers[price.tiers.length - 1];
+      cents = unitAmount(tier.unit_amount, tier.unit_amount_decimal) * quantity + unitAmount(tier.flat_amount, tier.flat_amount_decimal);
+    } else {
+      // Graduated: each tier charges for the units that fall within it
+      cents = 0;
+      let previousLimit = 0;
+      for (const tier of price.tiers) {
+        if (quantity <= previousLimit) break;
+        const unitsInTier = Math.min(quantity, tier.up_to ?? Infinity) - previousLimit;
+        cents += unitAmount(tier.unit_amount, tier.unit_amount_decimal) * unitsInTier
+          + unitAmount(tier.flat_amount, tier.flat_amount_decimal);
+        previousLimit = tier.up_to ?? Infinity;
+      }
+    }
+  } else {
+    if (price.unit_amount === null && price.unit_amount_decimal === null) return undefined;
+    cents = unitAmount(price.unit_amount, price.unit_amount_decimal) * quantity;
+  }
+
+  return Math.round(cents) / 100;
+}
+
+export type ReconciliationIssue = "quantity_mismatch" | "amount_mismatch" | "missing_item" | "error";
+
+export interface ReconciliationEntry {
+  subscriptionId: number;
+  userId: number;
+  issue: ReconciliationIssue;
+  expectedQuantity: number;
+  stripeQuantity: number | null;
+  expectedAmount: number | null;
+  stripeAmount: number | null;
+  message?: string;
+}
+
+export interface ReconciliationReport {
+  startedAt: Date;
+  finishedAt: Date;
+  checked: number;
+  issues: ReconciliationEntry[];
+}
+
+/**
+ * Keeps the property count Stripe bills for in step with ours. Every change
+ * to a user's property count goes through syncPropertyCount; pushes to Stripe
+ * that fail are queued and retried with backoff. A reconciliation job checks
+ * what Stripe charges against calculateSubscriptionPrice.
+ */
+export class BillingSyncService {
+  private queueTimer: NodeJS.Timeout | null = null;
+  private reconcileTimer: NodeJS.Timeout | null = null;
+  private processingQueue = false;
+  private reconciling = false;
+  private lastReport: ReconciliationReport | null = null;
+
+  constructor(private stripe: Stripe | undefined) {}
+
+  /**
+   * Recount the user's properties, update their subscription's count and
+   * price, and push the new quantity to Stripe. If Stripe can't be updated
+   * the sync is queued for retry rather than failing the caller.
+   */
+  async syncPropertyCount(userId: number): Promise<Subscription | undefined> {
+    const subscription = await storage.getSubscription(userId);
+    if (!subscription) return undefined;
+
+    const userProperties = await storage.getPropertiesByUserId(userId);
+    const updatedSubscription = await storage.updateSubscriptionPropertyCount(userId, userProperties.length);
+
+    try {
+      await this.pushToStripe(updatedSubscription);
+      await storage.deleteBillingSyncEntry(updatedSubscription.id);
+    } catch (error) {
+      console.error(`Failed to sync subscription ${updatedSubscription.id} with Stripe, queued for retry:`, error);
+      await this.recordFailedAttempt(updatedSubscription.id, error, 0);
+    }
+
+    return updatedSubscription;
+  }
+
+  /**
+   * Set the Stripe subscription item's quantity to the subscription's
+   * property count. The item and price ids are looked up and saved the first
+   * time. Returns false if there is nothing in Stripe to update.
+   */
+  private async pushToStripe(subscription: Subscription): Promise<boolean> {
+    if (!this.stripe || !subscription.isActive) return false;
+
+    const user = await storage.getUser(subscription.userId);
+    if (!user?.stripeSubscriptionId) return false;
+
+    const itemId = subscription.stripeSubscriptionItemId
+      ?? (await this.linkStripeItem(subscription, user.stripeSubscriptionId));
+
+    await this.stripe.subscriptions.update(user.stripeSubscriptionId, {
+      proration_behavior: 'create_prorations',
+      items: [{
+        id: itemId,
+        quantity: stripeQuantityFor(subscription.propertyCount),
+      }],
+    });
+
+    return true;
+  }
+
+  // Save the id of the Stripe subscription's item and its price
+  private async linkStripeItem(subscription: Subscription, stripeSubscriptionId: string): Promise<string> {
+    const stripeSubscription = await this.stripe!.subscriptions.retrieve(stripeSubscriptionId);
+    const item = stripeSubscription.items.data[0];
+    if (!item) {
+      throw new Error(`Stripe subscription ${stripeSubscriptionId} has no items`);
+    }
+
+    await storage.updateSubscription(subscription.id, {
+      stripeSubscriptionItemId: item.id,
+      stripePriceId: item.price.id,
+    });
+    return item.id;
+  }
+
+  private async recordFailedAttempt(subscriptionId: number, error: unknown, previousAttempts: number) {
+    const attempts = previousAttempts + 1;
+    const failed = attempts >= MAX_SYNC_ATTEMPTS;
+
+    await storage.saveBillingSyncEntry({
+      subscriptionId,
+      status: failed ? "failed" : "pending",
+      attempts,
+      nextAttemptAt: new Date(Date.now() + nextRetryDelayMinutes(attempts) * 60 * 1000),
+      lastError: error instanceof Error ? error.message : String(error),
+    });
+
+    if (failed) {
+      console.error(`Giving up syncing subscription ${subscriptionId} with Stripe after ${attempts} attempts`);
+    }
+  }
+
+  /**
+   * Queue a subscription to be synced on the next run, resetting any
+   * previous failures
+   */
+  async queueSync(subscriptionId: number) {
+    await storage.saveBillingSyncEntry({
+      subscriptionId,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastError: null,
+    });
+  }
+
+  /**
+   * Retry every queued sync that is due. Returns the number that succeeded.
+   */
+  async processQueue(now: Date = new Date()): Promise<number> {
+    const entries = await storage.getDueBillingSyncEntries(now);
+    let synced = 0;
+
+    for (const entry of entries) {
+      const subscription = await storage.getSubscriptionById(entry.subscriptionId);
+      if (!subscription) {
+        await storage.deleteBillingSyncEntry(entry.subscriptionId);
+        continue;
+      }
+
+      try {
+        await this.pushToStripe(subscription);
+        await storage.deleteBillingSyncEntry(subscription.id);
+        synced++;
+      } catch (error) {
+        console.error(`Retrying Stripe sync for subscription ${subscription.id} failed:`, error);
+        await this.recordFailedAttempt(subscription.id, error, entry.attempts);
+      }
+    }
+
+    return synced;
+  }
+
+  /**
+   * Compare what Stripe charges each active subscription with what
+   * calculateSubscriptionPrice says it should cost. Quantity mismatches are
+   * queued for a sync; price mismatches need the Stripe price fixing and are
+   * only reported.
+   */
+  async reconcile(): Promise<ReconciliationReport> {
+    const startedAt = new Date();
+    const issues: ReconciliationEntry[] = [];
+    let checked = 0;
+
+    if (this.stripe) {
+      for (const subscription of await storage.getAllSubscriptions()) {
+        if (!subscription.isActive) continue;
+
+        const user = await storage.getUser(subscription.userId);
+        if (!user?.stripeSubscriptionId) continue;
+
+        checked++;
+        const entry = await this.reconcileSubscription(subscription, user.stripeSubscriptionId);
+        if (entry) issues.push(entry);
+      }
+    }
+
+    const report = { startedAt, finishedAt: new Date(), checked, issues };
+    this.lastReport = report;
+    return report;
+  }
+
+  private async reconcileSubscription(subscription: Subscription, stripeSubscriptionId: string): Promise<ReconciliationEntry | undefined> {
+    const expectedQuantity = stripeQuantityFor(subscription.propertyCount);
+    const base = {
+      subscriptionId: subscription.id,
+      userId: subscription.userId,
+      expectedQuantity,
+    };
+
+    try {
+      const expectedAmount = await storage.calculateSubscriptionPrice(subscription.planId, subscription.propertyCount);
+      const stripeSubscription = await this.stripe!.subscriptions.retrieve(stripeSubscriptionId, {
+        expand: ['items.data.price.tiers'],
+      });
+
+      const item = stripeSubscription.items.data.find(item => item.id === subscription.stripeSubscriptionItemId)
+        ?? stripeSubscription.items.data[0];
+      if (!item) {
+        return { ...base, issue: "missing_item", stripeQuantity: null, expectedAmount, stripeAmount: null };
+      }
+
+      const stripeQuantity = item.quantity ?? 1;
+      const stripeAmount = stripeAmountForQuantity(item.price, stripeQuantity) ?? null;
+
+      if (stripeQuantity !== expectedQuantity) {
+        await this.queueSync(subscription.id);
+        return { ...base, issue: "quantity_mismatch", stripeQuantity, expectedAmount, stripeAmount };
+      }
+
+      if (stripeAmount !== null && Math.abs(stripeAmount - expectedAmount) >= 0.01) {
+        console.warn(`Subscription ${subscription.id} is charged ${stripeAmount} in Stripe but should cost ${expectedAmount}`);
+        return { ...base, issue: "amount_mismatch", stripeQuantity, expectedAmount, stripeAmount };
+      }
+
+      return undefined;
+    } catch (error) {
+      return {
+        ...base,
+        issue: "error",
+        stripeQuantity: null,
+        expectedAmount: null,
+        stripeAmount: null,
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  getLastReconciliationReport(): ReconciliationReport | null {
+    return this.lastReport;
+  }
+
+  /**
+   * Start retrying queued syncs and reconciling with Stripe. The intervals
+   * can be set with BILLING_SYNC_INTERVAL_MINUTES and
+   * BILLING_RECONCILE_INTERVAL_HOURS; a value of 0 disables that job.
+   */
+  start(
+    queueIntervalMinutes = Number(process.env.BILLING_SYNC_INTERVAL_MINUTES ?? DEFAULT_QUEUE_INTERVAL_MINUTES),
+    reconcileIntervalHours = Number(process.env.BILLING_RECONCILE_INTERVAL_HOURS ?? DEFAULT_RECONCILE_INTERVAL_HOURS)
+  ) {
+    if (!this.stripe) return;
+
+    if (!this.queueTimer && queueIntervalMinutes > 0) {
+      this.queueTimer = setInterval(() => this.queueTick(), queueIntervalMinutes * 60 * 1000);
+      // Don't keep the process alive just for the jobs
+      this.queueTimer.unref();
+      this.queueTick();
+    }
+
+    if (!this.reconcileTimer && reconcileIntervalHours > 0) {
+      this.reconcileTimer = setInterval(() => this.reconcileTick(), reconcileIntervalHours * 60 * 60 * 1000);
+      this.reconcileTimer.unref();
+    }
+  }
+
+  stop() {
+    if (this.queueTimer) {
+      clearInterval(this.queueTimer);
+      this.queueTimer = null;
+    }
+    if (this.reconcileTimer) {
+      clearInterval(this.reconcileTimer);
+      this.reconcileTimer = null;
+    }
+  }
+
+  private async queueTick() {
+    // Skip this run if the previous one is still going
+    if (this.processingQueue) return;
+    this.processingQueue = true;
+
+    try {
+      const synced = await this.processQueue();
+      if (synced > 0) {
+        console.log(`Billing sync pushed ${synced} queued subscription(s) to Stripe`);
+      }
+    } catch (error) {
+      console.error("Billing sync queue run failed:", error);
+    } finally {
+      this.processingQueue = false;
+    }
+  }
+
+  private async reconcileTick() {
+    if (this.reconciling) return;
+    this.reconciling = true;
+
+    try {
+      const report = await this.reconcile();
+      if (report.issues.length > 0) {
+        console.warn(`Billing reconciliation found ${report.issues.length} issue(s) across ${report.checked} subscription(s)`);
+      }
+    } catch (error) {
+      console.error("Billing reconciliation failed:", error);
+    } finally {
+      this.reconciling = false;
+    }
+  }
+}
+
+// Export a singleton instance
+export const billingSyncService = new BillingSyncService(stripe);
@@ -0,0 +1,242 @@
+import { storage } from "./storage";
+import { ComparableSale, InsertComparableSale, Property } from "@shared/schema";
+import type { RegionalParameters } from "./valuation-strategies";
+import { parseCsvRecords, pickField, parseNumber, parseDate } from "./csv";
+
+const SQUARE_FEET_PER_SQUARE_METRE = 10.7639;
+const SQUARE_METRES_PER_ACRE = 4046.86;
+const ACRES_PER_HECTARE = 2.47105;
+const IMPORT_BATCH_SIZE = 500;
+
+export interface ComparableSalesImportResult {
+  imported: number;
+  duplicates: number;
+  errors: Array<{ line: number; message: string }>;
+}
+
+export interface ComparableMatch {
+  sale: ComparableSale;
+  similarityScore: number;
+  adjustedPrice: number;
+  adjustments: Record<string, number>;
+}
+
+export interface ComparableSearchOptions {
+  limit?: number;
+  maxAgeMonths?: number;
+  valuationDate?: Date;
+}
+
+// Map the property type labels used in public sales data to our enum
+export function parsePropertyType(value: string | undefined): Property["propertyType"] | undefined {
+  if (!value) return undefined;
+  const type = value.trim().toLowerCase();
+
+  if (/^(house|single[_ -]?family|detached|residence|r)$/.test(type)) return "single_family";
+  if (/^(unit|apartment|flat|condominium|condo|strata)$/.test(type)) return "condominium";
+  if (/^(townhouse|villa|terrace|semi[_ -]?detached)$/.test(type)) return "townhouse";
+  if (/^(duplex|multi[_ -]?family|block of units|triplex)$/.test(type)) return "multi_family";
+  if (/^(commercial|retail|office|industrial|shop)$/.test(type)) return "commercial";
+  return undefined;
+}
+
+function parseSaleMethod(value: string | undefined): string | null {
+  if (!value) return null;
+  const method = value.trim().toLowerCase();
+  if (method.includes("auction")) return "auction";
+  if (/private|treaty|normal sale/.test(method)) return "private_treaty";
+  return "other";
+}
+
+// Floor area in square feet, from either an imperial or metric column
+function parseFloorArea(values: Record<string, string>): number | undefined {
+  const squareFeet = parseNumber(pickField(values, ["square_feet", "sqft", "floor_area_sqft", "building_area_sqft"]));
+  if (squareFeet !== undefined) return Math.round(squareFeet);
+
+  const squareMetres = parseNumber(pickField(values, ["floor_area_sqm", "building_area_sqm", "floor_area"]));
+  return squareMetres !== undefined ? Math.round(squareMetres * SQUARE_FEET_PER_SQUARE_METRE) : undefined;
+}
+
+// Land size in acres; Valuer General extracts give an area with a unit of M (sqm) or H (hectares)
+function parseLandSize(values: Record<string, string>): number | undefined {
+  const acres = parseNumber(pickField(values, ["lot_size", "land_size_acres", "acres"]));
+  if (acres !== undefined) return acres;
+
+  const squareMetres = parseNumber(pickField(values, ["land_area_sqm", "land_size_sqm", "land_size"]));
+  if (squareMetres !== undefined) return squareMetres / SQUARE_METRES_PER_ACRE;
+
+  const area = parseNumber(pickField(values, ["area"]));
+  if (area === undefined) return undefined;
+  const unit = (pickField(values, ["area_type", "area_unit"]) || "M").toUpperCase();
+  return unit.startsWith("H") ? area * ACRES_PER_HECTARE : area / SQUARE_METRES_PER_ACRE;
+}
+
+/**
+ * Import comparable sales from a CSV extract of public sales records.
+ * Column names are matched loosely so extracts from different states can be
+ * loaded without reformatting. Invalid rows are reported and skipped.
+ */
+export async function importComparableSalesCsv(csvText: string, source: string): Promise<ComparableSalesImportResult> {
+  const result: ComparableSalesImportResult = { imported: 0, duplicates: 0, errors: [] };
+  const sales: InsertComparableSale[] = [];
+
+  for (const { line, values } of parseCsvRecords(csvText)) {
+    const streetNumber = pickField(values, ["house_number", "property_house_number", "street_number"]);
+    const streetName = pickField(values, ["street_name", "property_street_name"]);
+    const address = pickField(values, ["address", "street_address", "property_address"])
+      || (streetName ? [streetNumber, streetName].filter(Boolean).join(" ") : undefined);
+    const suburb = pickField(values, ["suburb", "locality", "property_locality", "city"]);
+    const state = pickField(values, ["state"]);
+    const salePrice = parseNumber(pickField(values, ["sale_price", "purchase_price", "price"]));
+    const saleDate = parseDate(pickField(values, ["sale_date", "contract_date", "settlement_date", "date"]));
+    const propertyType = parsePropertyType(pickField(values, ["property_type", "type", "nature_of_property", "dwelling_type"]));
+
+    const missing = [
+      !address && "address",
+      !suburb && "suburb",
+      !state && "state",
+      !salePrice && "sale price",
+      !saleDate && "sale date",
+      !propertyType && "property type",
+    ].filter(Boolean);
+
+    if (missing.length > 0) {
+      result.errors.push({ line, message: `Missing or invalid ${missing.join(", ")}` });
+      continue;
+    }
+
+    sales.push({
+      address: address!,
+      suburb: suburb!.toUpperCase(),
+      state: state!.toUpperCase(),
+      postcode: pickField(values, ["postcode", "post_code", "property_post_code", "zip_code"]) || null,
+      propertyType: propertyType!,
+      salePrice: salePrice!,
+      saleDate: saleDate!,
+      squareFeet: parseFloorArea(values) ?? null,
+      bedrooms: parseNumber(pickField(values, ["bedrooms", "beds"])) ?? null,
+      bathrooms: parseNumber(pickField(values, ["bathrooms", "baths"])) ?? null,
+      lotSize: parseLandSize(values) ?? null,
+      daysOnMarket: parseNumber(pickField(values, ["days_on_market", "dom"])) ?? null,
+      saleMethod: parseSaleMethod(pickField(values, ["sale_method", "method_of_sale", "sale_type"])),
+      source,
+    });
+  }
+
+  for (let i = 0; i < sales.length; i += IMPORT_BATCH_SIZE) {
+    const batch = sales.slice(i, i + IMPORT_BATCH_SIZE);
+    const inserted = await storage.createComparableSales(batch);
+    result.imported += inserted;
+    result.duplicates += batch.length - inserted;
+  }
+
+  return result;
+}
+
+/**
+ * Score how similar a sale is to the subject property. Each difference adds a
+ * penalty; the score is 1 for an identical sale and falls towards 0.
+ */
+function scoreComparable(property: Property, sale: ComparableSale, valuationDate: Date, maxAgeMonths: number): number {
+  let penalty = 0;
+
+  const sameSuburb = sale.suburb.toLowerCase() === property.city.trim().toLowerCase();
+  const samePostcode = !!sale.postcode && sale.postcode === property.zipCode.trim();
+  penalty += sameSuburb ? 0 : samePostcode ? 0.25 : 1;
+
+  if (sale.propertyType !== property.propertyType) penalty += 1;
+
+  if (property.squareFeet && sale.squareFeet) {
+    penalty += Math.abs(sale.squareFeet - property.squareFeet) / property.squareFeet;
+  } else {
+    penalty += 0.3; // Unknown size makes the comparison less reliable
+  }
+
+  penalty += Math.abs((sale.bedrooms ?? 0) - (property.bedrooms ?? 0)) * 0.15;
+  penalty += Math.abs((sale.bathrooms ?? 0) - (property.bathrooms ?? 0)) * 0.1;
+
+  const ageMonths = monthsBetween(sale.saleDate, valuationDate);
+  penalty += (ageMonths / maxAgeMonths) * 0.5;
+
+  return 1 / (1 + penalty);
+}
+
+function monthsBetween(from: Date, to: Date): number {
+  return Math.max(0, (to.getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24 * 30.4375));
+}
+
+/**
+ * Adjust a comparable's sale price for differences from the subject
+ * property and for market movement since the sale date
+ */
+function adjustSalePrice(property: Property, sale: ComparableSale, params: RegionalParameters, valuationDate: Date) {
+  const adjustments: Record<string, number> = {};
+
+  if (property.squareFeet && sale.squareFeet) {
+    adjustments.size = (property.squareFeet - sale.squareFeet) * params.pricePerSquareFoot;
+  }
+  if (property.bedrooms !== null && sale.bedrooms !== null) {
+    adjustments.bedrooms = (property.bedrooms - sale.bedrooms) * params.bedroomPremium;
+  }
+  if (property.bathrooms !== null && sale.bathrooms !== null) {
+    adjustments.bathrooms = (property.bathrooms - sale.bathrooms) * params.bathroomPremium;
+  }
+
+  const yearsSinceSale = monthsBetween(sale.saleDate, valuationDate) / 12;
+  adjustments.marketMovement = sale.salePrice * (Math.pow(1 + params.annualGrowthRate, yearsSinceSale) - 1);
+
+  for (const key of Object.keys(adjustments)) {
+    adjustments[key] = Math.round(adjustments[key]);
+  }
+
+  const adjustedPrice = sale.salePrice + Object.values(adjustments).reduce((sum, value) => sum + value, 0);
+  return { adjustedPrice: Math.max(0, adjustedPrice), adjustments };
+}
+
+/**
+ * Find and rank the sales most comparable to a property. Sales in the same
+ * suburb or postcode are preferred; if there are too few, the search widens
+ * to the whole state.
+ */
+export async function findComparableSales(
+  property: Property,
+  params: RegionalParameters,
+  options: ComparableSearchOptions = {}
+): Promise<ComparableMatch[]> {
+  const limit = options.limit ?? 5;
+  const maxAgeMonths = options.maxAgeMonths ?? 24;
+  const valuationDate = options.valuationDate ?? new Date();
+  const soldAfter = new Date(valuationDate);
+  soldAfter.setMonth(soldAfter.getMonth() - maxAgeMonths);
+
+  let candidates = await storage.searchComparableSales({
+    state: property.state,
+    suburb: property.city,
+    postcode: property.zipCode,
+    soldAfter,
+  });
+
+  if (candidates.length < limit) {
+    candidates = await storage.searchComparableSales({
+      state: property.state,
+      propertyType: property.propertyType,
+      soldAfter,
+    });
+  }
+
+  return candidates
+    .map(sale => ({
+      sale,
+      similarityScore: scoreComparable(property, sale, valuationDate, maxAgeMonths),
+      ...adjustSalePrice(property, sale, params, valuationDate),
+    }))
+    .sort((a, b) => b.similarityScore - a.similarityScore)
+    .slice(0, limit);
+}
+
+// Similarity-weighted average of the adjusted comparable prices
+export function estimateFromComparables(matches: ComparableMatch[]): number | null {
+  const totalWeight = matches.reduce((sum, match) => sum + match.similarityScore, 0);
+  if (totalWeight === 0) return null;
+  return matches.reduce((sum, match) => sum + match.adjustedPrice * match.similarityScore, 0) / totalWeight;
+}
@@ -0,0 +1,145 @@
+/**
+ * Minimal CSV helpers for importing public datasets and exporting reports.
+ * Handles quoted fields, escaped quotes and CRLF line endings.
+ */
+
+// Parse CSV text into rows of raw string fields
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark if the file has one
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function isBlankRow(row: string[]): boolean {
+  return !row.some(value => value.trim() !== "");
+}
+
+// Normalise a header so "Sale Price", "sale_price" and "salePrice" all match
+export function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Parse CSV text into objects keyed by normalised header name.
+ * Each record also carries the 1-based line number it came from.
+ */
+export function parseCsvRecords(text: string): Array<{ line: number; values: Record<string, string> }> {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const keys = header.map(normalizeHeader);
+  const records: Array<{ line: number; values: Record<string, string> }> = [];
+
+  rows.forEach((row, index) => {
+    if (isBlankRow(row)) return;
+
+    const values: Record<string, string> = {};
+    keys.forEach((key, column) => {
+      values[key] = (row[column] ?? "").trim();
+    });
+    records.push({ line: index + 2, values });
+  });
+
+  return records;
+}
+
+// Return the first non-empty value among several possible column names
+export function pickField(values: Record<string, string>, aliases: string[]): string | undefined {
+  for (const alias of aliases) {
+    const value = values[normalizeHeader(alias)];
+    if (value !== undefined && value !== "") {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+// Parse a number that may include currency symbols or thousands separators
+export function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const cleaned = value.replace(/[$,\s]/g, "");
+  if (cleaned === "") return undefined;
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Parse a date in ISO (YYYY-MM-DD), Australian (DD/MM/YYYY) or
+ * compact (YYYYMMDD, as used in Valuer General extracts) formats
+ */
+export function parseDate(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+
+  const australian = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (australian) {
+    const [, day, month, year] = australian;
+    return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  }
+
+  const compact = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (compact) {
+    const [, year, month, day] = compact;
+    return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  }
+
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? undefined : parsed;
+}
+
+// Escape a single value for CSV output
+function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Build CSV text from a header row and data rows
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows]
+    .map(row => row.map(escapeCsvValue).join(","))
+    .join("\r\n") + "\r\n";
+}
@@ -34,21 +34,11 @@ export const pool = new Pool({
   query_timeout: 30000, // Timeout for overall query execution (ms)
 });
 
-// Create a middleware for data access auditing (simplified implementation)
-const auditDataAccess = (query: string) => {
-  if (query.toLowerCase().includes('select')) {
-    // For a complete implementation, log data access attempts to a secure audit trail
-    // console.log(`Data access audit: ${new Date().toISOString()} - ${query.substring(0, 100)}...`);
-  }
-  return query;
-};
-
 // Initialize Drizzle ORM with the pool and schema
+// Access to data is audited per request in middleware/audit.ts
 export const db = drizzle({ 
   client: pool, 
   schema,
-  // Optional for production: Add query transformers for access logging
-  // queryTransformer: auditDataAccess
 });
 
 // Additional function to verify database region (to be implemented)
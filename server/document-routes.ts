@@ -0,0 +1,401 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import path from "path";
+import fs from "fs";
+import multer from "multer";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { storage } from "./storage";
+import { Document, insertDocumentFolderSchema, insertDocumentSchema } from "@shared/schema";
+import {
+  allowedDocumentExtensions,
+  buildDocumentFolderTree,
+  deleteDocumentFolder,
+  deleteDocuments,
+  DocumentError,
+  documentUploadDir,
+  getDocumentFilePath,
+  getDocumentFolderPath,
+  getDocumentStorageUsage,
+  MAX_DOCUMENT_SIZE,
+  resolveDocumentLinks,
+  validateTargetFolder,
+} from "./document-service";
+import { requireAuth } from "./middleware/auth";
+
+// Set up multer for documents
+if (!fs.existsSync(documentUploadDir)) {
+  fs.mkdirSync(documentUploadDir, { recursive: true });
+}
+
+const allowedExtensionPattern = new RegExp(`\\.(${allowedDocumentExtensions.join('|')})$`, 'i');
+
+const documentUpload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => cb(null, documentUploadDir),
+    filename: (req, file, cb) => cb(null, `${uuidv4()}${path.extname(file.originalname).toLowerCase()}`),
+  }),
+  limits: {
+    fileSize: MAX_DOCUMENT_SIZE,
+    files: 1,
+  },
+  fileFilter: (req, file, cb) => {
+    if (!file.originalname.match(allowedExtensionPattern)) {
+      return cb(new DocumentError(`Unsupported file type. Allowed types: ${allowedDocumentExtensions.join(', ')}`));
+    }
+    cb(null, true);
+  },
+});
+
+// Turn multer's errors into client errors rather than letting them surface as 500s
+function uploadDocumentFile(req: Request, res: Response, next: NextFunction) {
+  documentUpload.single('file')(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === 'LIMIT_FILE_SIZE'
+        ? `Files must be smaller than ${MAX_DOCUMENT_SIZE / (1024 * 1024)}MB`
+        : error.message;
+      return res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({ message });
+    }
+    next(error);
+  });
+}
+
+// Folder ids arrive as strings from forms and query strings; "root" or empty means the top level
+const folderIdSchema = z.preprocess(
+  value => value === "" || value === "root" ? null : value,
+  z.coerce.number().int().positive().nullable()
+);
+
+const optionalIdSchema = z.preprocess(
+  value => value === "" ? null : value,
+  z.coerce.number().int().positive().nullable().optional()
+);
+
+// Multipart forms send every field as a string, and tags as one or many values
+const uploadSchema = z.object({
+  name: z.string().trim().max(255).optional(),
+  description: z.string().max(2000).optional(),
+  category: z.string().trim().min(1).max(50).optional(),
+  tags: z.preprocess(
+    value => value === undefined ? [] : Array.isArray(value) ? value : [value],
+    insertDocumentSchema.shape.tags
+  ),
+  propertyId: optionalIdSchema,
+  maintenanceRecordId: optionalIdSchema,
+  parentFolder: folderIdSchema.optional(),
+});
+
+const updateDocumentSchema = insertDocumentSchema
+  .pick({ name: true, description: true, category: true, tags: true, starred: true })
+  .partial()
+  .extend({
+    propertyId: optionalIdSchema,
+    maintenanceRecordId: optionalIdSchema,
+    parentFolder: folderIdSchema.optional(),
+  });
+
+const createFolderSchema = insertDocumentFolderSchema
+  .pick({ name: true, description: true })
+  .extend({
+    propertyId: optionalIdSchema,
+    parentFolder: folderIdSchema.optional(),
+  });
+
+const updateFolderSchema = createFolderSchema.partial();
+
+// Documents are downloaded through the API so their owner can be checked
+function withDownloadUrl(document: Document) {
+  return { ...document, url: `/api/documents/${document.id}/download` };
+}
+
+async function getOwnDocument(req: Request, res: Response) {
+  const document = await storage.getDocument(parseInt(req.params.id));
+
+  if (!document) {
+    res.status(404).json({ message: "Document not found" });
+    return undefined;
+  }
+
+  if (document.userId !== req.user!.id) {
+    res.status(403).json({ message: "Forbidden" });
+    return undefined;
+  }
+
+  return document;
+}
+
+async function getOwnFolder(req: Request, res: Response) {
+  const folder = await storage.getDocumentFolder(parseInt(req.params.id));
+
+  if (!folder) {
+    res.status(404).json({ message: "Folder not found" });
+    return undefined;
+  }
+
+  if (folder.userId !== req.user!.id) {
+    res.status(403).json({ message: "Forbidden" });
+    return undefined;
+  }
+
+  return folder;
+}
+
+export function registerDocumentRoutes(app: Express) {
+  // List documents in a folder (the root by default). Searching, starred or a
+  // property or maintenance record filter without a folder looks across all folders.
+  app.get("/api/documents", requireAuth, async (req, res, next) => {
+    try {
+      const search = typeof req.query.search === "string" && req.query.search.trim()
+        ? req.query.search.trim()
+        : undefined;
+      const starred = req.query.starred === "true" ? true : undefined;
+      const propertyId = req.query.propertyId ? parseInt(req.query.propertyId as string) : undefined;
+      const maintenanceRecordId = req.query.maintenanceRecordId
+        ? parseInt(req.query.maintenanceRecordId as string)
+        : undefined;
+
+      const folderId = req.query.parentFolder !== undefined
+        ? folderIdSchema.parse(req.query.parentFolder)
+        : search || starred || propertyId || maintenanceRecordId ? undefined : null;
+
+      const documents = await storage.getDocumentsByUserId(req.user!.id, {
+        folderId,
+        propertyId,
+        maintenanceRecordId,
+        starred,
+        search,
+      });
+
+      res.json(documents.map(withDownloadUrl));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // How much of the plan's document storage has been used
+  app.get("/api/documents/usage", requireAuth, async (req, res, next) => {
+    try {
+      res.json(await getDocumentStorageUsage(req.user!.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/documents/upload", requireAuth, uploadDocumentFile, async (req, res, next) => {
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+
+    try {
+      const validatedData = uploadSchema.parse(req.body);
+
+      const usage = await getDocumentStorageUsage(req.user!.id);
+      if (usage.used + file.size > usage.quota) {
+        fs.unlink(file.path, () => {});
+        return res.status(413).json({
+          message: "Uploading this file would exceed your plan's document storage",
+          ...usage,
+        });
+      }
+
+      const folderId = validatedData.parentFolder ?? null;
+      await validateTargetFolder(req.user!.id, folderId);
+      const links = await resolveDocumentLinks(req.user!.id, validatedData.propertyId, validatedData.maintenanceRecordId);
+
+      const document = await storage.createDocument({
+        userId: req.user!.id,
+        folderId,
+        ...links,
+        name: validatedData.name || file.originalname,
+        description: validatedData.description || null,
+        category: validatedData.category ?? "general",
+        tags: validatedData.tags,
+        fileName: file.filename,
+        originalName: file.originalname,
+        fileType: file.mimetype,
+        fileSize: file.size,
+      });
+
+      res.status(201).json(withDownloadUrl(document));
+    } catch (error) {
+      fs.unlink(file.path, () => {});
+      next(error);
+    }
+  });
+
+  app.get("/api/documents/:id", requireAuth, async (req, res, next) => {
+    try {
+      const document = await getOwnDocument(req, res);
+      if (!document) return;
+
+      res.json(withDownloadUrl(document));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/documents/:id/download", requireAuth, async (req, res, next) => {
+    try {
+      const document = await getOwnDocument(req, res);
+      if (!document) return;
+
+      const filePath = getDocumentFilePath(document);
+      if (!fs.existsSync(filePath)) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      res.download(filePath, document.originalName);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Rename, star, move to another folder or change what a document is linked to
+  app.patch("/api/documents/:id", requireAuth, async (req, res, next) => {
+    try {
+      const document = await getOwnDocument(req, res);
+      if (!document) return;
+
+      const { parentFolder, propertyId, maintenanceRecordId, ...changes } = updateDocumentSchema.parse(req.body);
+
+      const update: Partial<Document> = { ...changes };
+      if (parentFolder !== undefined) {
+        await validateTargetFolder(req.user!.id, parentFolder);
+        update.folderId = parentFolder;
+      }
+      if (propertyId !== undefined || maintenanceRecordId !== undefined) {
+        Object.assign(update, await resolveDocumentLinks(
+          req.user!.id,
+          propertyId !== undefined ? propertyId : document.propertyId,
+          maintenanceRecordId !== undefined ? maintenanceRecordId : document.maintenanceRecordId
+        ));
+      }
+
+      const updatedDocument = await storage.updateDocument(document.id, update);
+      res.json(withDownloadUrl(updatedDocument));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/documents/:id", requireAuth, async (req, res, next) => {
+    try {
+      const document = await getOwnDocument(req, res);
+      if (!document) return;
+
+      await deleteDocuments([document]);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // List the folders inside a folder (the root by default), optionally for one property
+  app.get("/api/document-folders", requireAuth, async (req, res, next) => {
+    try {
+      const parentFolderId = req.query.parentFolder !== undefined
+        ? folderIdSchema.parse(req.query.parentFolder)
+        : null;
+      const propertyId = req.query.propertyId ? parseInt(req.query.propertyId as string) : undefined;
+
+      const folders = await storage.getDocumentFoldersByUserId(req.user!.id);
+      const documentCounts = await storage.getDocumentCountsByFolder(req.user!.id);
+
+      res.json(folders
+        .filter(folder => folder.parentFolderId === parentFolderId)
+        .filter(folder => propertyId === undefined || folder.propertyId === propertyId)
+        .map(folder => ({ ...folder, documentCount: documentCounts.get(folder.id) ?? 0 })));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // The user's whole folder tree
+  app.get("/api/document-folders/tree", requireAuth, async (req, res, next) => {
+    try {
+      const folders = await storage.getDocumentFoldersByUserId(req.user!.id);
+      const documentCounts = await storage.getDocumentCountsByFolder(req.user!.id);
+
+      res.json(buildDocumentFolderTree(folders, documentCounts));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // A folder along with the path down to it from the root, for breadcrumbs
+  app.get("/api/document-folders/:id", requireAuth, async (req, res, next) => {
+    try {
+      const folder = await getOwnFolder(req, res);
+      if (!folder) return;
+
+      const folders = await storage.getDocumentFoldersByUserId(req.user!.id);
+      const documentCounts = await storage.getDocumentCountsByFolder(req.user!.id);
+
+      res.json({
+        ...folder,
+        documentCount: documentCounts.get(folder.id) ?? 0,
+        path: getDocumentFolderPath(folders, folder.id).map(({ id, name }) => ({ id, name })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/document-folders", requireAuth, async (req, res, next) => {
+    try {
+      const { parentFolder, propertyId, ...validatedData } = createFolderSchema.parse(req.body);
+
+      const parentFolderId = parentFolder ?? null;
+      await validateTargetFolder(req.user!.id, parentFolderId);
+      const links = await resolveDocumentLinks(req.user!.id, propertyId, null);
+
+      const folder = await storage.createDocumentFolder({
+        ...validatedData,
+        userId: req.user!.id,
+        parentFolderId,
+        propertyId: links.propertyId,
+      });
+
+      res.status(201).json({ ...folder, documentCount: 0 });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Rename a folder, move it under another folder or change its property
+  app.patch("/api/document-folders/:id", requireAuth, async (req, res, next) => {
+    try {
+      const folder = await getOwnFolder(req, res);
+      if (!folder) return;
+
+      const { parentFolder, propertyId, ...changes } = updateFolderSchema.parse(req.body);
+
+      const update: Partial<typeof folder> = { ...changes };
+      if (parentFolder !== undefined) {
+        await validateTargetFolder(req.user!.id, parentFolder, folder.id);
+        update.parentFolderId = parentFolder;
+      }
+      if (propertyId !== undefined) {
+        update.propertyId = (await resolveDocumentLinks(req.user!.id, propertyId, null)).propertyId;
+      }
+
+      const updatedFolder = await storage.updateDocumentFolder(folder.id, update);
+      res.json(updatedFolder);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Deletes the folder, its subfolders and all the documents in them
+  app.delete("/api/document-folders/:id", requireAuth, async (req, res, next) => {
+    try {
+      const folder = await getOwnFolder(req, res);
+      if (!folder) return;
+
+      await deleteDocumentFolder(folder);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,193 @@
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { authorizeProperty } from "./property-access";
+import { Document, DocumentFolder } from "@shared/schema";
+
+export const documentUploadDir = path.join(process.cwd(), 'uploads', 'documents');
+
+export const MAX_DOCUMENT_SIZE = 25 * 1024 * 1024; // 25MB per file
+
+// File types that can be stored, by extension
+export const allowedDocumentExtensions = [
+  'pdf', 'doc', 'docx', 'xls', 'xlsx', 'csv', 'txt', 'rtf', 'odt', 'ods',
+  'jpg', 'jpeg', 'png', 'gif', 'webp', 'heic',
+];
+
+// Document storage included with each plan, in MB. Admins can override it
+// with a documentStorageMb entry in the plan's features.
+const planStorageQuotasMb: Record<string, number> = {
+  Basic: 1024,
+  Professional: 10 * 1024,
+  Enterprise: 50 * 1024,
+};
+
+// Storage for users without an active subscription
+const FREE_STORAGE_QUOTA_MB = 100;
+
+/**
+ * Error raised for document and folder requests that can't be completed.
+ * The status is picked up by the API error handler.
+ */
+export class DocumentError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "DocumentError";
+  }
+}
+
+export interface DocumentStorageUsage {
+  used: number; // Bytes
+  quota: number; // Bytes
+  planName: string | null;
+}
+
+/**
+ * How much document storage the user has used and how much their plan allows
+ */
+export async function getDocumentStorageUsage(userId: number): Promise<DocumentStorageUsage> {
+  const used = await storage.getDocumentStorageUsed(userId);
+
+  const subscription = await storage.getSubscription(userId);
+  const plan = subscription?.isActive ? await storage.getSubscriptionPlan(subscription.planId) : undefined;
+
+  const features = (plan?.features ?? {}) as { documentStorageMb?: number };
+  const quotaMb = features.documentStorageMb
+    ?? (plan ? planStorageQuotasMb[plan.name] : undefined)
+    ?? FREE_STORAGE_QUOTA_MB;
+
+  return { used, quota: quotaMb * 1024 * 1024, planName: plan?.name ?? null };
+}
+
+/**
+ * Ids of a folder and every folder nested beneath it
+ */
+export function getFolderSubtreeIds(folders: DocumentFolder[], rootId: number): number[] {
+  const ids = [rootId];
+  for (let i = 0; i < ids.length; i++) {
+    for (const folder of folders) {
+      if (folder.parentFolderId === ids[i]) {
+        ids.push(folder.id);
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Check a folder the user wants to put something in: it must be theirs and,
+ * when moving a folder, must not be that folder or one of its subfolders.
+ */
+export async function validateTargetFolder(userId: number, targetFolderId: number | null, movingFolderId?: number) {
+  if (targetFolderId === null) return;
+
+  const folders = await storage.getDocumentFoldersByUserId(userId);
+  if (!folders.some(folder => folder.id === targetFolderId)) {
+    throw new DocumentError("Folder not found", 404);
+  }
+
+  if (movingFolderId !== undefined && getFolderSubtreeIds(folders, movingFolderId).includes(targetFolderId)) {
+    throw new DocumentError("A folder can't be moved into itself or one of its subfolders");
+  }
+}
+
+/**
+ * Check that the property and maintenance record a document is linked to
+ * belong to the user. A maintenance record on its own links its property too.
+ */
+export async function resolveDocumentLinks(
+  userId: number,
+  propertyId: number | null | undefined,
+  maintenanceRecordId: number | null | undefined
+): Promise<{ propertyId: number | null; maintenanceRecordId: number | null }> {
+  let resolvedPropertyId = propertyId ?? null;
+
+  if (maintenanceRecordId) {
+    const record = await storage.getMaintenanceRecord(maintenanceRecordId);
+    if (!record) {
+      throw new DocumentError("Maintenance record not found", 404);
+    }
+    if (resolvedPropertyId !== null && record.propertyId !== resolvedPropertyId) {
+      throw new DocumentError("The maintenance record belongs to a different property");
+    }
+    resolvedPropertyId = record.propertyId;
+  }
+
+  // Documents are the user's own, so any property they can see may be linked
+  if (resolvedPropertyId !== null) {
+    await authorizeProperty(userId, resolvedPropertyId, "view");
+  }
+
+  return { propertyId: resolvedPropertyId, maintenanceRecordId: maintenanceRecordId ?? null };
+}
+
+export function getDocumentFilePath(document: Document): string {
+  return path.join(documentUploadDir, document.fileName);
+}
+
+/**
+ * Delete documents and their files on disk
+ */
+export async function deleteDocuments(documents: Document[]) {
+  await storage.deleteDocuments(documents.map(document => document.id));
+
+  for (const document of documents) {
+    fs.unlink(getDocumentFilePath(document), (error) => {
+      if (error && error.code !== 'ENOENT') {
+        console.error(`Failed to delete file for document ${document.id}:`, error);
+      }
+    });
+  }
+}
+
+/**
+ * Delete a folder along with its subfolders and every document in them
+ */
+export async function deleteDocumentFolder(folder: DocumentFolder) {
+  const folders = await storage.getDocumentFoldersByUserId(folder.userId);
+  const folderIds = getFolderSubtreeIds(folders, folder.id);
+
+  await deleteDocuments(await storage.getDocumentsByFolderIds(folderIds));
+  await storage.deleteDocumentFolder(folder.id);
+}
+
+export interface DocumentFolderNode extends DocumentFolder {
+  documentCount: number;
+  children: DocumentFolderNode[];
+}
+
+/**
+ * Arrange a user's folders into a tree, with the number of documents directly
+ * in each folder
+ */
+export function buildDocumentFolderTree(folders: DocumentFolder[], documentCounts: Map<number, number>): DocumentFolderNode[] {
+  const nodes = new Map<number, DocumentFolderNode>(
+    folders.map(folder => [folder.id, { ...folder, documentCount: documentCounts.get(folder.id) ?? 0, children: [] }])
+  );
+
+  const roots: DocumentFolderNode[] = [];
+  for (const node of Array.from(nodes.values())) {
+    const parent = node.parentFolderId !== null ? nodes.get(node.parentFolderId) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots;
+}
+
+/**
+ * The folders from the root down to the given folder, for breadcrumbs
+ */
+export function getDocumentFolderPath(folders: DocumentFolder[], folderId: number): DocumentFolder[] {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const pathFolders: DocumentFolder[] = [];
+
+  let current = byId.get(folderId);
+  while (current && pathFolders.length <= folders.length) {
+    pathFolders.unshift(current);
+    current = current.parentFolderId !== null ? byId.get(current.parentFolderId) : undefined;
+  }
+  return pathFolders;
+}
@@ -0,0 +1,235 @@
+import nodemailer, { Transporter } from "nodemailer";
+import { addDays, addWeeks } from "date-fns";
+import { storage } from "./storage";
+import { nextRetryDelayMinutes } from "./billing-sync-service";
+import { renderDigestEmail, renderNotificationEmail, RenderedEmail } from "./email-templates";
+import { DigestNotification, EmailOutboxEntry } from "../shared/notification-types";
+import { User } from "@shared/schema";
+
+const DEFAULT_INTERVAL_MINUTES = 1;
+
+// Give up on an email after this many attempts
+const MAX_SEND_ATTEMPTS = 6;
+
+// How many queued emails to send per run
+const OUTBOX_BATCH_SIZE = 50;
+
+/**
+ * Sends notification emails over SMTP. Emails are written to an outbox
+ * first and sent by a background run, so a mail server outage delays email
+ * rather than failing the request that raised the notification.
+ *
+ * The transport is set with SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER and
+ * SMTP_PASS. For local testing point it at a sink such as MailHog or Mailpit
+ * with SMTP_HOST=localhost and SMTP_PORT=1025. Without SMTP_HOST no email is
+ * queued or sent.
+ */
+export class EmailService {
+  private transporter: Transporter | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  isConfigured(): boolean {
+    return Boolean(process.env.SMTP_HOST);
+  }
+
+  private getTransporter(): Transporter {
+    if (!this.isConfigured()) {
+      throw new Error("Email is not configured; set SMTP_HOST");
+    }
+
+    if (!this.transporter) {
+      const secure = process.env.SMTP_SECURE === "true";
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT || (secure ? 465 : 587)),
+        secure,
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+          : undefined,
+      });
+    }
+    return this.transporter;
+  }
+
+  private get fromAddress(): string {
+    return process.env.EMAIL_FROM
+      || `${process.env.BUSINESS_NAME || "EquitysTek"} <${process.env.BUSINESS_EMAIL || "support@equitystek.com.au"}>`;
+  }
+
+  /**
+   * Send an email straight away, bypassing the outbox. Errors are thrown to
+   * the caller.
+   */
+  async send(to: string, email: RenderedEmail) {
+    return this.getTransporter().sendMail({
+      from: this.fromAddress,
+      to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+    });
+  }
+
+  /**
+   * Queue the email for a notification. Immediate emails go out on the next
+   * run; digest emails are held until the user's next digest is due.
+   */
+  async enqueueNotification(user: User, notification: DigestNotification, delivery: "immediate" | "digest"): Promise<EmailOutboxEntry | undefined> {
+    if (!this.isConfigured() || user.deletedAt) {
+      return undefined;
+    }
+
+    const email = renderNotificationEmail(notification);
+    return storage.createEmail({
+      userId: user.id,
+      toAddress: user.email,
+      subject: email.subject,
+      textBody: email.text,
+      htmlBody: email.html,
+      notificationType: notification.type,
+      notification,
+      status: delivery === "digest" ? "held" : "pending",
+      nextAttemptAt: new Date(),
+    });
+  }
+
+  /**
+   * Send every queued email that is due. Failed sends are retried with
+   * backoff until MAX_SEND_ATTEMPTS. Returns the number sent.
+   */
+  async processOutbox(now: Date = new Date()): Promise<number> {
+    if (!this.isConfigured()) return 0;
+
+    const emails = await storage.getDueEmails(now, OUTBOX_BATCH_SIZE);
+    let sent = 0;
+
+    for (const email of emails) {
+      try {
+        await this.send(email.toAddress, { subject: email.subject, text: email.textBody, html: email.htmlBody });
+        await storage.updateEmail(email.id, {
+          status: "sent",
+          attempts: email.attempts + 1,
+          sentAt: new Date(),
+          lastError: null,
+        });
+        sent++;
+      } catch (error) {
+        const attempts = email.attempts + 1;
+        const failed = attempts >= MAX_SEND_ATTEMPTS;
+
+        await storage.updateEmail(email.id, {
+          status: failed ? "failed" : "pending",
+          attempts,
+          nextAttemptAt: new Date(now.getTime() + nextRetryDelayMinutes(attempts) * 60 * 1000),
+          lastError: error instanceof Error ? error.message : String(error),
+        });
+
+        if (failed) {
+          console.error(`Giving up sending email ${email.id} to ${email.toAddress} after ${attempts} attempts:`, error);
+        }
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Collect held emails into one digest per user whose daily or weekly
+   * period has passed since their last digest, or since the oldest held
+   * email if they haven't had one. The digest is queued like any other
+   * email. Returns the number of digests queued.
+   */
+  async queueDigests(now: Date = new Date()): Promise<number> {
+    if (!this.isConfigured()) return 0;
+
+    const heldByUser = new Map<number, EmailOutboxEntry[]>();
+    for (const email of await storage.getHeldEmails()) {
+      if (email.userId === null) continue;
+      const held = heldByUser.get(email.userId) ?? [];
+      held.push(email);
+      heldByUser.set(email.userId, held);
+    }
+
+    let queued = 0;
+
+    for (const [userId, held] of Array.from(heldByUser.entries())) {
+      try {
+        const preferences = await storage.getNotificationPreferences(userId);
+        const frequency = preferences?.digestFrequency ?? "daily";
+        const periodStart = preferences?.lastDigestSentAt ?? held[0].createdAt;
+        const due = frequency === "weekly" ? addWeeks(periodStart, 1) : addDays(periodStart, 1);
+        if (due > now) continue;
+
+        const user = await storage.getUser(userId);
+        if (!user || user.deletedAt) continue;
+
+        const items = held
+          .map(email => email.notification)
+          .filter((item): item is DigestNotification => item !== null);
+        const digest = renderDigestEmail(items, frequency, now);
+
+        await storage.createEmail({
+          userId,
+          toAddress: user.email,
+          subject: digest.subject,
+          textBody: digest.text,
+          htmlBody: digest.html,
+          status: "pending",
+          nextAttemptAt: now,
+        });
+        await storage.markEmailsDigested(held.map(email => email.id), now);
+        await storage.recordDigestSent(userId, now);
+        queued++;
+      } catch (error) {
+        // Left held, so it's picked up on the next run
+        console.error(`Failed to queue digest for user ${userId}:`, error);
+      }
+    }
+
+    return queued;
+  }
+
+  /**
+   * Start sending queued email. The interval can be set with
+   * EMAIL_OUTBOX_INTERVAL_MINUTES; a value of 0 disables sending.
+   */
+  start(intervalMinutes = Number(process.env.EMAIL_OUTBOX_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES)) {
+    if (this.timer || !(intervalMinutes > 0) || !this.isConfigured()) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), intervalMinutes * 60 * 1000);
+    // Don't keep the process alive just for sending email
+    this.timer.unref();
+    this.tick();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick() {
+    // Skip this run if the previous one is still going
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.queueDigests();
+      const sent = await this.processOutbox();
+      if (sent > 0) {
+        console.log(`Sent ${sent} queued email(s)`);
+      }
+    } catch (error) {
+      console.error("Email outbox run failed:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+// Export a singleton instance
+export const emailService = new EmailService();
@@ -0,0 +1,179 @@
+import { format } from "date-fns";
+import { DigestNotification, NotificationType, DigestFrequency } from "../shared/notification-types";
+
+// Base URL for links in emails, e.g. https://app.equitystek.com.au
+const appUrl = (process.env.APP_URL || "http://localhost:5000").replace(/\/+$/, "");
+const businessName = process.env.BUSINESS_NAME || "EquitysTek";
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface NotificationTemplate {
+  // Short label shown before the notification title in the subject
+  label: string;
+  // Where the button in the email takes the user
+  link: (notification: DigestNotification) => string;
+  linkText: string;
+}
+
+// Link to the property the notification is about, if it names one
+function propertyLink(fallback: string) {
+  return (notification: DigestNotification) =>
+    notification.relatedEntityType === "property" && notification.relatedEntityId
+      ? `/properties/${notification.relatedEntityId}`
+      : fallback;
+}
+
+const templates: Record<NotificationType, NotificationTemplate> = {
+  maintenance_due: { label: "Maintenance due", link: propertyLink("/maintenance"), linkText: "View maintenance" },
+  maintenance_completed: { label: "Maintenance completed", link: propertyLink("/maintenance"), linkText: "View maintenance" },
+  subscription_renewal: { label: "Subscription", link: () => "/subscription", linkText: "Manage subscription" },
+  property_update: { label: "Property update", link: propertyLink("/properties"), linkText: "View property" },
+  valuation_update: { label: "Valuation", link: propertyLink("/valuation"), linkText: "View valuation" },
+  job_request_update: { label: "Job request", link: propertyLink("/maintenance"), linkText: "View job" },
+  trade_document_update: { label: "Quote or invoice", link: propertyLink("/maintenance"), linkText: "View document" },
+  payment_update: { label: "Payment", link: () => "/receipts", linkText: "View receipts" },
+  system_notice: { label: "Notice", link: () => "/", linkText: `Open ${businessName}` },
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Wrap body HTML in the shared layout, with a footer explaining how to change preferences
+function layout(title: string, body: string): string {
+  return [
+    "<!DOCTYPE html>",
+    `<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>`,
+    '<body style="margin:0;padding:24px;background:#f4f5f7;font-family:Arial,Helvetica,sans-serif;color:#1f2937;">',
+    '<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">',
+    `<p style="margin:0 0 16px;font-weight:bold;color:#2563eb;">${escapeHtml(businessName)}</p>`,
+    body,
+    '<p style="margin:24px 0 0;font-size:12px;color:#6b7280;">',
+    `You can choose which emails you get in your notification preferences in <a href="${appUrl}/" style="color:#6b7280;">${escapeHtml(businessName)}</a>.`,
+    "</p></div></body></html>",
+  ].join("\n");
+}
+
+function textFooter(): string {
+  return `You can choose which emails you get in your notification preferences in ${businessName}: ${appUrl}/`;
+}
+
+/**
+ * Render the email sent straight away for a notification
+ */
+export function renderNotificationEmail(notification: DigestNotification): RenderedEmail {
+  const template = templates[notification.type] ?? templates.system_notice;
+  const url = appUrl + template.link(notification);
+
+  return {
+    subject: `${template.label}: ${notification.title}`,
+    text: [notification.title, "", notification.message, "", `${template.linkText}: ${url}`, "", textFooter()].join("\n"),
+    html: layout(notification.title, [
+      `<h1 style="margin:0 0 12px;font-size:20px;">${escapeHtml(notification.title)}</h1>`,
+      `<p style="margin:0 0 20px;line-height:1.5;">${escapeHtml(notification.message)}</p>`,
+      `<a href="${escapeHtml(url)}" style="display:inline-block;padding:10px 16px;background:#2563eb;color:#ffffff;text-decoration:none;border-radius:6px;">${escapeHtml(template.linkText)}</a>`,
+    ].join("\n")),
+  };
+}
+
+/**
+ * Render a digest of the notifications collected since the last one. They
+ * are grouped by type, in the order the types are listed in the templates.
+ */
+export function renderDigestEmail(notifications: DigestNotification[], frequency: DigestFrequency, now: Date = new Date()): RenderedEmail {
+  const period = frequency === "weekly" ? "weekly" : "daily";
+  const subject = `Your ${period} ${businessName} summary: ${notifications.length} update${notifications.length === 1 ? "" : "s"}`;
+
+  const groups = (Object.keys(templates) as NotificationType[])
+    .map(type => ({ template: templates[type], items: notifications.filter(n => n.type === type) }))
+    .filter(group => group.items.length > 0);
+
+  const text: string[] = [`Here's what happened up to ${format(now, "d MMMM yyyy")}.`, ""];
+  const html: string[] = [
+    `<h1 style="margin:0 0 12px;font-size:20px;">Your ${period} summary</h1>`,
+    `<p style="margin:0 0 16px;">Here's what happened up to ${escapeHtml(format(now, "d MMMM yyyy"))}.</p>`,
+  ];
+
+  for (const { template, items } of groups) {
+    text.push(template.label.toUpperCase());
+    html.push(`<h2 style="margin:20px 0 8px;font-size:16px;">${escapeHtml(template.label)}</h2>`, '<ul style="margin:0;padding-left:20px;">');
+
+    for (const item of items) {
+      const url = appUrl + template.link(item);
+      text.push(`- ${item.title}: ${item.message}`, `  ${url}`);
+      html.push(
+        `<li style="margin:0 0 8px;line-height:1.5;"><a href="${escapeHtml(url)}" style="color:#2563eb;font-weight:bold;">${escapeHtml(item.title)}</a><br>${escapeHtml(item.message)}</li>`
+      );
+    }
+
+    text.push("");
+    html.push("</ul>");
+  }
+
+  text.push(textFooter());
+
+  return { subject, text: text.join("\n"), html: layout(subject, html.join("\n")) };
+}
+
+// An email with a message and a single button, for account emails sent outside notifications
+function renderActionEmail(subject: string, heading: string, message: string, url: string, linkText: string, footnote: string): RenderedEmail {
+  return {
+    subject,
+    text: [heading, "", message, "", `${linkText}: ${url}`, "", footnote].join("\n"),
+    html: layout(subject, [
+      `<h1 style="margin:0 0 12px;font-size:20px;">${escapeHtml(heading)}</h1>`,
+      `<p style="margin:0 0 20px;line-height:1.5;">${escapeHtml(message)}</p>`,
+      `<a href="${escapeHtml(url)}" style="display:inline-block;padding:10px 16px;background:#2563eb;color:#ffffff;text-decoration:none;border-radius:6px;">${escapeHtml(linkText)}</a>`,
+      `<p style="margin:20px 0 0;font-size:13px;color:#6b7280;">${escapeHtml(footnote)}</p>`,
+    ].join("\n")),
+  };
+}
+
+/**
+ * Render the email with a link to choose a new password
+ */
+export function renderPasswordResetEmail(token: string, expiresInMinutes: number): RenderedEmail {
+  return renderActionEmail(
+    `Reset your ${businessName} password`,
+    "Reset your password",
+    `We received a request to reset your password. The link below works once and expires in ${expiresInMinutes} minutes.`,
+    `${appUrl}/reset-password?token=${encodeURIComponent(token)}`,
+    "Choose a new password",
+    "If you didn't ask to reset your password, you can ignore this email; your password hasn't changed."
+  );
+}
+
+/**
+ * Render the email with a link to confirm the user's email address
+ */
+export function renderEmailVerificationEmail(token: string, expiresInHours: number): RenderedEmail {
+  return renderActionEmail(
+    `Confirm your email for ${businessName}`,
+    "Confirm your email address",
+    `Please confirm this is your email address to start a subscription and use paid features. The link expires in ${expiresInHours} hours.`,
+    `${appUrl}/api/verify-email?token=${encodeURIComponent(token)}`,
+    "Confirm email address",
+    `If you didn't create a ${businessName} account, you can ignore this email.`
+  );
+}
+
+/**
+ * Render the email an admin sends to check the mail settings
+ */
+export function renderTestEmail(now: Date = new Date()): RenderedEmail {
+  const message = `This is a test email from ${businessName}, sent at ${format(now, "d MMMM yyyy h:mm a")}. If you can read this, email delivery is working.`;
+  return {
+    subject: `${businessName} test email`,
+    text: message,
+    html: layout("Test email", `<p style="margin:0;line-height:1.5;">${escapeHtml(message)}</p>`),
+  };
+}
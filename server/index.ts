@@ -1,8 +1,18 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { maintenanceScheduler } from "./maintenance-scheduler";
+import { registerStripeWebhookRoutes } from "./stripe-webhook-routes";
+import { billingSyncService } from "./billing-sync-service";
+import { accountDeletionService } from "./account-deletion-service";
+import { emailService } from "./email-service";
+import { subscriptionScheduler } from "./subscription-scheduler";
 
 const app = express();
+
+// Stripe webhooks need the raw body to verify signatures, so they come before the JSON parser
+registerStripeWebhookRoutes(app);
+
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -74,5 +84,10 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    maintenanceScheduler.start();
+    billingSyncService.start();
+    accountDeletionService.start();
+    emailService.start();
+    subscriptionScheduler.start();
   });
 })();
@@ -0,0 +1,245 @@
+import type { Express } from "express";
+import path from "path";
+import fs from "fs";
+import multer from "multer";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { storage } from "./storage";
+import { authorizeProperty } from "./property-access";
+import { insertJobRequestSchema, jobRequestStatusEnum, JobRequest, JobRequestStatus } from "@shared/schema";
+import {
+  getJobRequestParty,
+  JobRequestError,
+  notifyJobRequestCreated,
+  reviewJobRequest,
+  transitionJobRequest,
+} from "./job-request-service";
+import { requireAuth } from "./middleware/auth";
+
+// Set up multer for job request photos
+const jobRequestPhotosDir = path.join(process.cwd(), 'uploads', 'job-requests');
+if (!fs.existsSync(jobRequestPhotosDir)) {
+  fs.mkdirSync(jobRequestPhotosDir, { recursive: true });
+}
+
+const photoUpload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => cb(null, jobRequestPhotosDir),
+    filename: (req, file, cb) => cb(null, `${uuidv4()}${path.extname(file.originalname)}`),
+  }),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB per photo
+    files: 5,
+  },
+  fileFilter: (req, file, cb) => {
+    if (!file.originalname.match(/\.(jpg|jpeg|png|gif|webp|heic)$/i)) {
+      return cb(new JobRequestError('Only image files are allowed', 400));
+    }
+    cb(null, true);
+  },
+});
+
+// Trade categories used by the job request form that map onto our maintenance categories
+const categoryAliases: Record<string, string> = {
+  roofing: "roof",
+  carpentry: "other",
+  painting: "exterior",
+  general: "other",
+};
+
+// Multipart forms send every field as a string
+const createJobRequestSchema = insertJobRequestSchema
+  .omit({ ownerId: true, photoUrls: true })
+  .extend({
+    propertyId: z.coerce.number().int().positive(),
+    tradespersonId: z.coerce.number().int().positive(),
+    category: z.preprocess(
+      value => typeof value === "string" ? categoryAliases[value.toLowerCase()] ?? value.toLowerCase() : value,
+      insertJobRequestSchema.shape.category
+    ),
+  });
+
+const transitionSchemas = {
+  quote: z.object({
+    quoteAmount: z.coerce.number().min(0),
+    quoteNotes: z.string().optional(),
+    scheduledDate: z.coerce.date().optional(),
+  }),
+  accept: z.object({}),
+  start: z.object({}),
+  complete: z.object({
+    finalCost: z.coerce.number().min(0).optional(),
+  }),
+  decline: z.object({
+    reason: z.string().max(500).optional(),
+  }),
+  cancel: z.object({
+    reason: z.string().max(500).optional(),
+  }),
+};
+
+const reviewSchema = z.object({
+  rating: z.coerce.number().int().min(1).max(5),
+  review: z.string().max(2000).optional(),
+});
+
+// The state each action moves a job request to
+const actionStatuses: Record<keyof typeof transitionSchemas, JobRequestStatus> = {
+  quote: "quoted",
+  accept: "accepted",
+  start: "in_progress",
+  complete: "completed",
+  decline: "declined",
+  cancel: "cancelled",
+};
+
+// Add the property address and the names of both parties for display
+async function withJobRequestDetails(jobRequests: JobRequest[]) {
+  const userIds = Array.from(new Set(jobRequests.flatMap(jobRequest => [jobRequest.ownerId, jobRequest.tradespersonId])));
+  const users = new Map((await storage.getUsersByIds(userIds)).map(user => [user.id, user]));
+  const propertyIds = Array.from(new Set(jobRequests.map(jobRequest => jobRequest.propertyId)));
+  const properties = new Map(
+    (await storage.getPropertiesByIds(propertyIds)).map(property => [property.id, property])
+  );
+
+  return jobRequests.map(jobRequest => {
+    const owner = users.get(jobRequest.ownerId);
+    const tradesperson = users.get(jobRequest.tradespersonId);
+    return {
+      ...jobRequest,
+      propertyAddress: properties.get(jobRequest.propertyId)?.address ?? null,
+      ownerName: owner?.fullName || owner?.username || null,
+      tradespersonName: tradesperson?.fullName || tradesperson?.username || null,
+    };
+  });
+}
+
+export function registerJobRequestRoutes(app: Express) {
+  // List job requests raised by the current owner, or assigned to the current tradesperson
+  app.get("/api/job-requests", requireAuth, async (req, res, next) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status && !(jobRequestStatusEnum.enumValues as string[]).includes(status)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+
+      const jobRequests = req.user!.role === "tradesperson"
+        ? await storage.getJobRequestsByTradespersonId(req.user!.id, status as JobRequestStatus | undefined)
+        : await storage.getJobRequestsByOwnerId(req.user!.id, status as JobRequestStatus | undefined);
+
+      res.json(await withJobRequestDetails(jobRequests));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/job-requests/:id", requireAuth, async (req, res, next) => {
+    try {
+      const jobRequest = await storage.getJobRequest(parseInt(req.params.id));
+
+      if (!jobRequest) {
+        return res.status(404).json({ message: "Job request not found" });
+      }
+
+      if (!getJobRequestParty(jobRequest, req.user!.id)) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const [detailed] = await withJobRequestDetails([jobRequest]);
+      res.json(detailed);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Raise a job request against a property the user can edit, with up to 5 photos
+  app.post("/api/job-requests", requireAuth, photoUpload.array('photos', 5), async (req, res, next) => {
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+
+    try {
+      const validatedData = createJobRequestSchema.parse(req.body);
+
+      await authorizeProperty(req.user!.id, validatedData.propertyId, "edit");
+
+      const tradesperson = await storage.getUser(validatedData.tradespersonId);
+      if (!tradesperson || tradesperson.role !== "tradesperson") {
+        files.forEach(file => fs.unlink(file.path, () => {}));
+        return res.status(400).json({ message: "Tradesperson not found" });
+      }
+
+      const jobRequest = await storage.createJobRequest({
+        ...validatedData,
+        ownerId: req.user!.id,
+        photoUrls: files.map(file => `/uploads/job-requests/${file.filename}`),
+      });
+
+      try {
+        await notifyJobRequestCreated(jobRequest);
+      } catch (notificationError) {
+        console.error("Failed to send job request notification:", notificationError);
+      }
+
+      const [detailed] = await withJobRequestDetails([jobRequest]);
+      res.status(201).json(detailed);
+    } catch (error) {
+      files.forEach(file => fs.unlink(file.path, () => {}));
+      next(error);
+    }
+  });
+
+  // Lifecycle actions: quote, accept, start, complete, decline and cancel
+  for (const action of Object.keys(transitionSchemas) as Array<keyof typeof transitionSchemas>) {
+    app.post(`/api/job-requests/:id/${action}`, requireAuth, async (req, res, next) => {
+      try {
+        const jobRequest = await storage.getJobRequest(parseInt(req.params.id));
+
+        if (!jobRequest) {
+          return res.status(404).json({ message: "Job request not found" });
+        }
+
+        const party = getJobRequestParty(jobRequest, req.user!.id);
+        if (!party) {
+          return res.status(403).json({ message: "Forbidden" });
+        }
+
+        const details = transitionSchemas[action].safeParse(req.body ?? {});
+        if (!details.success) {
+          return res.status(400).json({ message: "Invalid request", errors: details.error.errors });
+        }
+
+        const updated = await transitionJobRequest(jobRequest, actionStatuses[action], party, details.data);
+        const [detailed] = await withJobRequestDetails([updated]);
+        res.json(detailed);
+      } catch (error) {
+        next(error);
+      }
+    });
+  }
+
+  // Rate a completed job, which counts towards the tradesperson's directory rating
+  app.post("/api/job-requests/:id/review", requireAuth, async (req, res, next) => {
+    try {
+      const jobRequest = await storage.getJobRequest(parseInt(req.params.id));
+
+      if (!jobRequest) {
+        return res.status(404).json({ message: "Job request not found" });
+      }
+
+      const party = getJobRequestParty(jobRequest, req.user!.id);
+      if (!party) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const details = reviewSchema.safeParse(req.body ?? {});
+      if (!details.success) {
+        return res.status(400).json({ message: "Invalid request", errors: details.error.errors });
+      }
+
+      const reviewed = await reviewJobRequest(jobRequest, party, details.data.rating, details.data.review);
+      const [detailed] = await withJobRequestDetails([reviewed]);
+      res.json(detailed);
+    } catch (error) {
+      next(error);
+    }
+  });
+}
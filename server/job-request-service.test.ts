@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { JobRequest, JobRequestStatus, jobRequestStatusEnum } from "@shared/schema";
+
+vi.mock("./storage", () => ({
+  storage: {
+    getUser: vi.fn(),
+    updateJobRequestStatus: vi.fn(),
+    completeJobRequest: vi.fn(),
+  },
+}));
+
+vi.mock("./notification-service", () => ({
+  notificationService: {
+    createJobRequestNotification: vi.fn(),
+  },
+}));
+
+import { storage } from "./storage";
+import { notificationService } from "./notification-service";
+import { JobRequestParty, transitionJobRequest } from "./job-request-service";
+
+const statuses = jobRequestStatusEnum.enumValues;
+const parties: JobRequestParty[] = ["owner", "tradesperson"];
+
+// Who may move a job request between each pair of states; anything missing is not allowed
+const allowed: Array<[JobRequestStatus, JobRequestStatus, JobRequestParty]> = [
+  ["requested", "quoted", "tradesperson"],
+  ["requested", "declined", "tradesperson"],
+  ["requested", "cancelled", "owner"],
+  ["quoted", "quoted", "tradesperson"],
+  ["quoted", "accepted", "owner"],
+  ["quoted", "declined", "owner"],
+  ["quoted", "cancelled", "owner"],
+  ["accepted", "in_progress", "tradesperson"],
+  ["accepted", "cancelled", "owner"],
+  ["in_progress", "completed", "tradesperson"],
+];
+
+function allowedParty(from: JobRequestStatus, to: JobRequestStatus): JobRequestParty | undefined {
+  return allowed.find(([f, t]) => f === from && t === to)?.[2];
+}
+
+function jobRequest(status: JobRequestStatus): JobRequest {
+  return {
+    id: 1,
+    propertyId: 10,
+    ownerId: 100,
+    tradespersonId: 200,
+    title: "Fix the gutters",
+    description: "Leaking at the back",
+    category: "roof",
+    priority: "medium",
+    preferredDate: null,
+    photoUrls: null,
+    status,
+    quoteAmount: status === "requested" ? null : 450,
+    quoteNotes: null,
+    scheduledDate: null,
+    finalCost: null,
+    statusReason: null,
+    maintenanceRecordId: null,
+    rating: null,
+    review: null,
+    reviewedAt: null,
+    quotedAt: null,
+    acceptedAt: null,
+    startedAt: null,
+    completedAt: null,
+    createdAt: new Date("2024-01-01"),
+    updatedAt: new Date("2024-01-01"),
+  } as JobRequest;
+}
+
+// Saving a transition returns the job request with the changes applied
+function savedWith(job: JobRequest, changes: Partial<JobRequest>): JobRequest {
+  return { ...job, ...changes };
+}
+
+describe("transitionJobRequest", () => {
+  beforeEach(() => {
+    vi.mocked(storage.getUser).mockResolvedValue(undefined);
+    vi.mocked(storage.updateJobRequestStatus).mockReset()
+      .mockImplementation(async (id, from, changes) => savedWith(jobRequest(from), changes));
+    vi.mocked(storage.completeJobRequest).mockReset()
+      .mockImplementation(async (id, from, changes) => savedWith(jobRequest(from), { ...changes, maintenanceRecordId: 99 }));
+    vi.mocked(notificationService.createJobRequestNotification).mockReset();
+  });
+
+  for (const from of statuses) {
+    for (const to of statuses) {
+      for (const party of parties) {
+        const permitted = allowedParty(from, to);
+        const details = to === "quoted" ? { quoteAmount: 450 } : {};
+
+        if (permitted === party) {
+          it(`lets the ${party} move a ${from} job to ${to}`, async () => {
+            const updated = await transitionJobRequest(jobRequest(from), to, party, details);
+            expect(updated.status).toBe(to);
+          });
+        } else if (permitted) {
+          it(`stops the ${party} moving a ${from} job to ${to}`, async () => {
+            await expect(transitionJobRequest(jobRequest(from), to, party, details))
+              .rejects.toMatchObject({ status: 403 });
+            expect(storage.updateJobRequestStatus).not.toHaveBeenCalled();
+          });
+        } else {
+          it(`refuses to move a ${from} job to ${to} for the ${party}`, async () => {
+            await expect(transitionJobRequest(jobRequest(from), to, party, details))
+              .rejects.toMatchObject({ status: 409 });
+            expect(storage.updateJobRequestStatus).not.toHaveBeenCalled();
+            expect(storage.completeJobRequest).not.toHaveBeenCalled();
+          });
+        }
+      }
+    }
+  }
+
+  it("requires a quote amount to quote", async () => {
+    await expect(transitionJobRequest(jobRequest("requested"), "quoted", "tradesperson"))
+      .rejects.toMatchObject({ status: 400 });
+  });
+
+  it("notifies the other party", async () => {
+    await transitionJobRequest(jobRequest("requested"), "quoted", "tradesperson", { quoteAmount: 450 });
+    expect(notificationService.createJobRequestNotification)
+      .toHaveBeenCalledWith(100, 1, "Quote Received", expect.any(String));
+  });
+
+  it("completes the job and adds its maintenance record together, charging the quote by default", async () => {
+    const updated = await transitionJobRequest(jobRequest("in_progress"), "completed", "tradesperson");
+
+    expect(storage.updateJobRequestStatus).not.toHaveBeenCalled();
+    expect(storage.completeJobRequest).toHaveBeenCalledWith(
+      1,
+      "in_progress",
+      expect.objectContaining({ status: "completed", finalCost: 450 }),
+      expect.objectContaining({ propertyId: 10, cost: 450, status: "completed", tradePersonId: 200 })
+    );
+    expect(updated.maintenanceRecordId).toBe(99);
+  });
+
+  it("fails if the job request changed in the meantime", async () => {
+    vi.mocked(storage.updateJobRequestStatus).mockResolvedValue(undefined);
+    await expect(transitionJobRequest(jobRequest("accepted"), "in_progress", "tradesperson"))
+      .rejects.toMatchObject({ status: 409 });
+    expect(notificationService.createJobRequestNotification).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,191 @@
+import { storage, JobRequestUpdate } from "./storage";
+import { notificationService } from "./notification-service";
+import { InsertMaintenanceRecord, JobRequest, JobRequestStatus } from "@shared/schema";
+
+export type JobRequestParty = "owner" | "tradesperson";
+
+/**
+ * Error raised when a job request can't be moved to the requested state.
+ * The status is picked up by the API error handler.
+ */
+export class JobRequestError extends Error {
+  constructor(message: string, public status: number = 409) {
+    super(message);
+    this.name = "JobRequestError";
+  }
+}
+
+/**
+ * Allowed transitions from each state and which party may make them.
+ * A tradesperson may revise a quote until the owner accepts it.
+ */
+const transitions: Record<JobRequestStatus, Partial<Record<JobRequestStatus, JobRequestParty>>> = {
+  requested: { quoted: "tradesperson", declined: "tradesperson", cancelled: "owner" },
+  quoted: { quoted: "tradesperson", accepted: "owner", declined: "owner", cancelled: "owner" },
+  accepted: { in_progress: "tradesperson", cancelled: "owner" },
+  in_progress: { completed: "tradesperson" },
+  completed: {},
+  declined: {},
+  cancelled: {},
+};
+
+// Notification title and message sent to the other party for each new state
+const statusMessages: Record<JobRequestStatus, { title: string; message: (job: JobRequest) => string }> = {
+  requested: { title: "New Job Request", message: job => `You have a new job request: ${job.title}.` },
+  quoted: { title: "Quote Received", message: job => `A quote of ${formatAmount(job.quoteAmount)} has been provided for ${job.title}.` },
+  accepted: { title: "Quote Accepted", message: job => `Your quote for ${job.title} has been accepted.` },
+  in_progress: { title: "Job Started", message: job => `Work has started on ${job.title}.` },
+  completed: { title: "Job Completed", message: job => `${job.title} has been completed and added to your maintenance records.` },
+  declined: { title: "Job Request Declined", message: job => `${job.title} was declined${job.statusReason ? `: ${job.statusReason}` : "."}` },
+  cancelled: { title: "Job Request Cancelled", message: job => `${job.title} was cancelled${job.statusReason ? `: ${job.statusReason}` : "."}` },
+};
+
+function formatAmount(amount: number | null): string {
+  return new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD" }).format(amount ?? 0);
+}
+
+// Extra details that can accompany a transition
+export interface JobRequestTransitionDetails {
+  quoteAmount?: number;
+  quoteNotes?: string;
+  scheduledDate?: Date;
+  finalCost?: number;
+  reason?: string;
+}
+
+/**
+ * Which side of a job request a user is on, if either
+ */
+export function getJobRequestParty(jobRequest: JobRequest, userId: number): JobRequestParty | undefined {
+  if (jobRequest.ownerId === userId) return "owner";
+  if (jobRequest.tradespersonId === userId) return "tradesperson";
+  return undefined;
+}
+
+/**
+ * Notify the tradesperson about a newly raised job request
+ */
+export async function notifyJobRequestCreated(jobRequest: JobRequest) {
+  await sendStatusNotification(jobRequest, jobRequest.tradespersonId);
+}
+
+async function sendStatusNotification(jobRequest: JobRequest, recipientId: number) {
+  const { title, message } = statusMessages[jobRequest.status];
+  await notificationService.createJobRequestNotification(recipientId, jobRequest.id, title, message(jobRequest));
+}
+
+// The maintenance record that logs a completed job in the property's history
+async function maintenanceRecordForJob(jobRequest: JobRequest, cost: number, completedAt: Date): Promise<InsertMaintenanceRecord> {
+  const tradesperson = await storage.getUser(jobRequest.tradespersonId);
+  const photos = (jobRequest.photoUrls ?? []).map(url => ({ fileName: url.split("/").pop(), url }));
+
+  return {
+    propertyId: jobRequest.propertyId,
+    title: jobRequest.title,
+    category: jobRequest.category,
+    description: jobRequest.description,
+    cost,
+    contractor: tradesperson?.fullName || tradesperson?.username || null,
+    completedDate: completedAt,
+    tradePersonId: jobRequest.tradespersonId,
+    imageUrls: photos.length > 0 ? JSON.stringify(photos) : null,
+    status: "completed",
+    priority: jobRequest.priority,
+  };
+}
+
+/**
+ * Move a job request to a new state on behalf of one of its parties and
+ * notify the other party. Completing a job adds it to the property's
+ * maintenance records.
+ */
+export async function transitionJobRequest(
+  jobRequest: JobRequest,
+  to: JobRequestStatus,
+  party: JobRequestParty,
+  details: JobRequestTransitionDetails = {}
+): Promise<JobRequest> {
+  const allowedParty = transitions[jobRequest.status][to];
+  if (!allowedParty) {
+    throw new JobRequestError(`A ${jobRequest.status.replace("_", " ")} job request can't be moved to ${to.replace("_", " ")}`);
+  }
+  if (allowedParty !== party) {
+    throw new JobRequestError(`Only the ${allowedParty} can move this job request to ${to.replace("_", " ")}`, 403);
+  }
+
+  const now = new Date();
+  const changes: JobRequestUpdate = { status: to };
+
+  switch (to) {
+    case "quoted":
+      if (details.quoteAmount === undefined) {
+        throw new JobRequestError("A quote amount is required", 400);
+      }
+      changes.quoteAmount = details.quoteAmount;
+      changes.quoteNotes = details.quoteNotes ?? null;
+      changes.scheduledDate = details.scheduledDate ?? jobRequest.scheduledDate;
+      changes.quotedAt = now;
+      break;
+    case "accepted":
+      changes.acceptedAt = now;
+      break;
+    case "in_progress":
+      changes.startedAt = now;
+      break;
+    case "completed":
+      changes.finalCost = details.finalCost ?? jobRequest.quoteAmount ?? 0;
+      changes.completedAt = now;
+      break;
+    case "declined":
+    case "cancelled":
+      changes.statusReason = details.reason ?? null;
+      break;
+  }
+
+  const updated = to === "completed"
+    ? await storage.completeJobRequest(
+        jobRequest.id,
+        jobRequest.status,
+        changes,
+        await maintenanceRecordForJob(jobRequest, changes.finalCost ?? 0, now)
+      )
+    : await storage.updateJobRequestStatus(jobRequest.id, jobRequest.status, changes);
+  if (!updated) {
+    throw new JobRequestError("The job request was changed by someone else. Please refresh and try again.");
+  }
+
+  const recipientId = party === "owner" ? updated.tradespersonId : updated.ownerId;
+  try {
+    await sendStatusNotification(updated, recipientId);
+  } catch (error) {
+    // The transition has already been saved, so don't fail it over a notification
+    console.error("Failed to send job request notification:", error);
+  }
+
+  return updated;
+}
+
+/**
+ * Rate a completed job from 1 to 5 on the owner's behalf. The rating counts
+ * towards the tradesperson's directory listing, so each job can only be
+ * reviewed once.
+ */
+export async function reviewJobRequest(
+  jobRequest: JobRequest,
+  party: JobRequestParty,
+  rating: number,
+  review?: string
+): Promise<JobRequest> {
+  if (party !== "owner") {
+    throw new JobRequestError("Only the owner can review this job", 403);
+  }
+  if (jobRequest.status !== "completed") {
+    throw new JobRequestError("Only completed jobs can be reviewed");
+  }
+
+  const reviewed = await storage.reviewJobRequest(jobRequest.id, rating, review?.trim() || null);
+  if (!reviewed) {
+    throw new JobRequestError("This job has already been reviewed");
+  }
+  return reviewed;
+}
@@ -0,0 +1,148 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { authorizeProperty } from "./property-access";
+import { insertPropertyLedgerEntrySchema, ledgerCategoryEnum } from "@shared/schema";
+import {
+  calculateInvestmentMetrics,
+  defaultDateRange,
+  getPropertyLedger,
+  DateRange,
+} from "./ledger-service";
+import { requireAuth } from "./middleware/auth";
+
+// The property comes from the URL
+const createEntrySchema = insertPropertyLedgerEntrySchema.omit({ propertyId: true });
+
+const updateEntrySchema = insertPropertyLedgerEntrySchema
+  .omit({ propertyId: true })
+  .partial();
+
+const dateRangeQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: "from must be before to",
+});
+
+const ledgerQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  category: z.enum(ledgerCategoryEnum.enumValues).optional(),
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: "from must be before to",
+});
+
+// Fill in whichever end of the range wasn't given
+function resolveDateRange(query: { from?: Date; to?: Date }): DateRange {
+  const to = query.to ?? new Date();
+  return { from: query.from ?? defaultDateRange(to).from, to };
+}
+
+export function registerLedgerRoutes(app: Express) {
+  // Income, running costs, maintenance and loan interest for a property, newest first
+  app.get("/api/properties/:id/ledger", requireAuth, async (req, res, next) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const property = await authorizeProperty(req.user!.id, propertyId, "view");
+
+      const query = ledgerQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: query.error.errors });
+      }
+
+      const range = resolveDateRange(query.data);
+      const items = await getPropertyLedger(property, range);
+      res.json({
+        ...range,
+        items: query.data.category ? items.filter(item => item.category === query.data.category) : items,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/properties/:id/ledger", requireAuth, async (req, res, next) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      await authorizeProperty(req.user!.id, propertyId, "edit");
+
+      const validatedData = createEntrySchema.parse(req.body);
+
+      if (validatedData.loanId) {
+        const loan = await storage.getPropertyLoan(validatedData.loanId);
+        if (loan?.propertyId !== propertyId) {
+          return res.status(400).json({ message: "Loan not found for this property" });
+        }
+      }
+
+      const entry = await storage.createLedgerEntry({ ...validatedData, propertyId });
+      res.status(201).json(entry);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/ledger/:entryId", requireAuth, async (req, res, next) => {
+    try {
+      const entryId = parseInt(req.params.entryId);
+      const entry = await storage.getLedgerEntry(entryId);
+
+      if (!entry) {
+        return res.status(404).json({ message: "Ledger entry not found" });
+      }
+
+      await authorizeProperty(req.user!.id, entry.propertyId, "edit");
+
+      const validatedData = updateEntrySchema.parse(req.body);
+
+      if (validatedData.loanId) {
+        const loan = await storage.getPropertyLoan(validatedData.loanId);
+        if (loan?.propertyId !== entry.propertyId) {
+          return res.status(400).json({ message: "Loan not found for this property" });
+        }
+      }
+
+      const updatedEntry = await storage.updateLedgerEntry(entryId, validatedData);
+      res.json(updatedEntry);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/ledger/:entryId", requireAuth, async (req, res, next) => {
+    try {
+      const entryId = parseInt(req.params.entryId);
+      const entry = await storage.getLedgerEntry(entryId);
+
+      if (!entry) {
+        return res.status(404).json({ message: "Ledger entry not found" });
+      }
+
+      await authorizeProperty(req.user!.id, entry.propertyId, "edit");
+
+      await storage.deleteLedgerEntry(entryId);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Yields, cap rate, cash-on-cash return and cash flow worked out from the ledger
+  app.get("/api/properties/:id/investment-metrics", requireAuth, async (req, res, next) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const property = await authorizeProperty(req.user!.id, propertyId, "view");
+
+      const query = dateRangeQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: query.error.errors });
+      }
+
+      const metrics = await calculateInvestmentMetrics(property, resolveDateRange(query.data));
+      res.json(metrics);
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,261 @@
+import { subMonths } from "date-fns";
+import { storage } from "./storage";
+import {
+  ledgerIncomeCategories,
+  LedgerCategory,
+  MaintenanceRecord,
+  Property,
+  PropertyLedgerEntry,
+  PropertyLoan,
+} from "@shared/schema";
+import { buildAmortisationSchedule, resolvePropertyValue, PropertyValue } from "./loan-service";
+
+const DAYS_PER_YEAR = 365;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+// Metrics cover the last twelve months unless a range is given
+export function defaultDateRange(now: Date = new Date()): DateRange {
+  return { from: subMonths(now, 12), to: now };
+}
+
+export function isIncomeCategory(category: LedgerCategory): boolean {
+  return ledgerIncomeCategories.includes(category);
+}
+
+/**
+ * A line in a property's ledger. Besides the entries recorded against the
+ * property, the ledger takes in completed maintenance and, for loans with no
+ * interest recorded in the range, the interest charged under their schedule.
+ */
+export interface LedgerItem {
+  source: "entry" | "maintenance" | "loan_schedule";
+  category: LedgerCategory | "maintenance";
+  direction: "income" | "expense";
+  amount: number;
+  date: Date;
+  description: string | null;
+  entryId: number | null;
+  maintenanceRecordId: number | null;
+  loanId: number | null;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function inRange(date: Date, range: DateRange): boolean {
+  return date >= range.from && date <= range.to;
+}
+
+function entryItem(entry: PropertyLedgerEntry): LedgerItem {
+  return {
+    source: "entry",
+    category: entry.category,
+    direction: isIncomeCategory(entry.category) ? "income" : "expense",
+    amount: entry.amount,
+    date: entry.date,
+    description: entry.description,
+    entryId: entry.id,
+    maintenanceRecordId: null,
+    loanId: entry.loanId,
+  };
+}
+
+// Maintenance completed within the range. Work that hasn't been done yet isn't a cost.
+export function completedMaintenance(records: MaintenanceRecord[], range: DateRange): MaintenanceRecord[] {
+  return records.filter(record => (record.status ?? "completed") === "completed" && inRange(record.completedDate, range));
+}
+
+function maintenanceItems(records: MaintenanceRecord[], range: DateRange): LedgerItem[] {
+  return completedMaintenance(records, range)
+    .map(record => ({
+      source: "maintenance" as const,
+      category: "maintenance" as const,
+      direction: "expense" as const,
+      amount: record.cost,
+      date: record.completedDate,
+      description: record.title,
+      entryId: null,
+      maintenanceRecordId: record.id,
+      loanId: null,
+    }));
+}
+
+interface ScheduledRepayments {
+  interest: LedgerItem[];
+  principal: number;
+}
+
+/**
+ * Repayments falling in the range under each loan's schedule. Interest is
+ * only taken from the schedule for loans with no loan_interest entries in the
+ * range, so actual figures from a bank statement win over the estimate. An
+ * interest entry that isn't linked to a loan could be for any of them, so it
+ * stops the estimate for every loan.
+ */
+function scheduledRepayments(loans: PropertyLoan[], entries: PropertyLedgerEntry[], range: DateRange): ScheduledRepayments {
+  const interestEntries = entries.filter(entry => entry.category === "loan_interest");
+  const recordedLoanIds = new Set(interestEntries.map(entry => entry.loanId));
+  const hasUnlinkedInterest = recordedLoanIds.has(null);
+
+  const interest: LedgerItem[] = [];
+  let principal = 0;
+
+  for (const loan of loans) {
+    const rows = buildAmortisationSchedule(loan).rows.filter(row => inRange(row.date, range));
+    principal += rows.reduce((total, row) => total + row.principal, 0);
+
+    if (hasUnlinkedInterest || recordedLoanIds.has(loan.id)) continue;
+    for (const row of rows) {
+      interest.push({
+        source: "loan_schedule",
+        category: "loan_interest",
+        direction: "expense",
+        amount: row.interest,
+        date: row.date,
+        description: `Scheduled interest - ${loan.lender}${loan.accountName ? ` (${loan.accountName})` : ""}`,
+        entryId: null,
+        maintenanceRecordId: null,
+        loanId: loan.id,
+      });
+    }
+  }
+
+  return { interest, principal: roundCents(principal) };
+}
+
+interface LedgerData {
+  items: LedgerItem[];
+  loans: PropertyLoan[];
+  principalRepayments: number;
+}
+
+async function loadLedger(property: Property, range: DateRange): Promise<LedgerData> {
+  const [entries, records, loans] = await Promise.all([
+    storage.getLedgerEntriesByPropertyId(property.id, range),
+    storage.getMaintenanceRecordsByPropertyId(property.id),
+    storage.getPropertyLoansByPropertyId(property.id),
+  ]);
+
+  const repayments = scheduledRepayments(loans, entries, range);
+  const items = [
+    ...entries.map(entryItem),
+    ...maintenanceItems(records, range),
+    ...repayments.interest,
+  ].sort((a, b) => b.date.getTime() - a.date.getTime());
+
+  return { items, loans, principalRepayments: repayments.principal };
+}
+
+/**
+ * Everything in a property's ledger over a date range, newest first
+ */
+export async function getPropertyLedger(property: Property, range: DateRange): Promise<LedgerItem[]> {
+  const { items } = await loadLedger(property, range);
+  return items;
+}
+
+export interface InvestmentMetrics {
+  propertyId: number;
+  from: Date;
+  to: Date;
+  income: number;
+  incomeByCategory: Record<string, number>;
+  operatingExpenses: number; // Running costs and maintenance, not loan repayments
+  expensesByCategory: Record<string, number>;
+  loanInterest: number;
+  principalRepayments: number;
+  netOperatingIncome: number;
+  cashFlow: number; // After loan interest and principal repayments
+  monthlyCashFlow: number;
+  value: number | null;
+  valueSource: PropertyValue["valueSource"];
+  cashInvested: number | null;
+  // Percentages, annualised when the range isn't a full year
+  grossYield: number | null; // Income over value
+  netYield: number | null; // Income less all expenses including interest, over value
+  capRate: number | null; // Net operating income over value
+  cashOnCash: number | null; // Cash flow over cash invested
+}
+
+function sumByCategory(items: LedgerItem[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const item of items) {
+    totals[item.category] = roundCents((totals[item.category] ?? 0) + item.amount);
+  }
+  return totals;
+}
+
+function sumAmounts(items: LedgerItem[]): number {
+  return roundCents(items.reduce((total, item) => total + item.amount, 0));
+}
+
+function percentOf(amount: number, base: number | null): number | null {
+  if (!base || base <= 0) return null;
+  return Math.round((amount / base) * 10000) / 100;
+}
+
+/**
+ * The cash the owner put in: the purchase price less what was borrowed
+ * against the property. Unknown without a purchase price.
+ */
+function cashInvested(property: Property, loans: PropertyLoan[]): number | null {
+  if (property.purchasePrice == null) return null;
+  const borrowed = loans.reduce((total, loan) => total + loan.principal, 0);
+  const invested = property.purchasePrice - borrowed;
+  return invested > 0 ? roundCents(invested) : null;
+}
+
+/**
+ * Work out a property's returns from its ledger over a date range. Yields are
+ * measured against the property's current value.
+ */
+export async function calculateInvestmentMetrics(property: Property, range: DateRange): Promise<InvestmentMetrics> {
+  const [{ items, loans, principalRepayments }, valuation] = await Promise.all([
+    loadLedger(property, range),
+    storage.getValuationByPropertyId(property.id),
+  ]);
+
+  const incomeItems = items.filter(item => item.direction === "income");
+  const interestItems = items.filter(item => item.category === "loan_interest");
+  const operatingItems = items.filter(item => item.direction === "expense" && item.category !== "loan_interest");
+
+  const income = sumAmounts(incomeItems);
+  const operatingExpenses = sumAmounts(operatingItems);
+  const loanInterest = sumAmounts(interestItems);
+  const netOperatingIncome = roundCents(income - operatingExpenses);
+  const cashFlow = roundCents(netOperatingIncome - loanInterest - principalRepayments);
+
+  const days = Math.max(1, (range.to.getTime() - range.from.getTime()) / MS_PER_DAY);
+  const annualise = (amount: number) => amount * (DAYS_PER_YEAR / days);
+
+  const { value, valueSource } = resolvePropertyValue(property, valuation);
+  const invested = cashInvested(property, loans);
+
+  return {
+    propertyId: property.id,
+    from: range.from,
+    to: range.to,
+    income,
+    incomeByCategory: sumByCategory(incomeItems),
+    operatingExpenses,
+    expensesByCategory: sumByCategory([...operatingItems, ...interestItems]),
+    loanInterest,
+    principalRepayments,
+    netOperatingIncome,
+    cashFlow,
+    monthlyCashFlow: roundCents(cashFlow / (days / (DAYS_PER_YEAR / 12))),
+    value,
+    valueSource,
+    cashInvested: invested,
+    grossYield: percentOf(annualise(income), value),
+    netYield: percentOf(annualise(netOperatingIncome - loanInterest), value),
+    capRate: percentOf(annualise(netOperatingIncome), value),
+    cashOnCash: percentOf(annualise(cashFlow), invested),
+  };
+}
@@ -0,0 +1,150 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { authorizeProperty } from "./property-access";
+import { insertPropertyLoanSchema } from "@shared/schema";
+import {
+  buildAmortisationSchedule,
+  getOutstandingBalance,
+  getPortfolioEquity,
+  getPropertyEquity,
+  validateLoanTerms,
+} from "./loan-service";
+import { requireAuth } from "./middleware/auth";
+
+// The property comes from the URL
+const createLoanSchema = insertPropertyLoanSchema.omit({ propertyId: true });
+
+const updateLoanSchema = insertPropertyLoanSchema
+  .omit({ propertyId: true })
+  .partial();
+
+// Balances and equity default to today
+const asOfQuerySchema = z.object({
+  asOf: z.coerce.date().optional(),
+});
+
+export function registerLoanRoutes(app: Express) {
+  // Get the loans on a property with what's currently owing on each
+  app.get("/api/properties/:id/loans", requireAuth, async (req, res, next) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      await authorizeProperty(req.user!.id, propertyId, "view");
+
+      const loans = await storage.getPropertyLoansByPropertyId(propertyId);
+      res.json(loans.map(loan => ({ ...loan, outstandingBalance: getOutstandingBalance(loan) })));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/properties/:id/loans", requireAuth, async (req, res, next) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      await authorizeProperty(req.user!.id, propertyId, "edit");
+
+      const validatedData = createLoanSchema.parse(req.body);
+      validateLoanTerms({
+        repaymentFrequency: "monthly",
+        interestOnlyPeriods: [],
+        offsetBalance: 0,
+        ...validatedData,
+      });
+
+      const loan = await storage.createPropertyLoan({ ...validatedData, propertyId });
+      res.status(201).json({ ...loan, outstandingBalance: getOutstandingBalance(loan) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/loans/:loanId", requireAuth, async (req, res, next) => {
+    try {
+      const loanId = parseInt(req.params.loanId);
+      const loan = await storage.getPropertyLoan(loanId);
+
+      if (!loan) {
+        return res.status(404).json({ message: "Loan not found" });
+      }
+
+      await authorizeProperty(req.user!.id, loan.propertyId, "edit");
+
+      const validatedData = updateLoanSchema.parse(req.body);
+      validateLoanTerms({ ...loan, ...validatedData });
+
+      const updatedLoan = await storage.updatePropertyLoan(loanId, validatedData);
+      res.json({ ...updatedLoan, outstandingBalance: getOutstandingBalance(updatedLoan) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/loans/:loanId", requireAuth, async (req, res, next) => {
+    try {
+      const loanId = parseInt(req.params.loanId);
+      const loan = await storage.getPropertyLoan(loanId);
+
+      if (!loan) {
+        return res.status(404).json({ message: "Loan not found" });
+      }
+
+      await authorizeProperty(req.user!.id, loan.propertyId, "edit");
+
+      await storage.deletePropertyLoan(loanId);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Full repayment schedule for a loan
+  app.get("/api/loans/:loanId/schedule", requireAuth, async (req, res, next) => {
+    try {
+      const loanId = parseInt(req.params.loanId);
+      const loan = await storage.getPropertyLoan(loanId);
+
+      if (!loan) {
+        return res.status(404).json({ message: "Loan not found" });
+      }
+
+      await authorizeProperty(req.user!.id, loan.propertyId, "view");
+
+      res.json({ loan, ...buildAmortisationSchedule(loan) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // A property's equity: latest valuation less outstanding loan balances
+  app.get("/api/properties/:id/equity", requireAuth, async (req, res, next) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const property = await authorizeProperty(req.user!.id, propertyId, "view");
+
+      const query = asOfQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: query.error.errors });
+      }
+
+      const equity = await getPropertyEquity(property, query.data.asOf);
+      res.json(equity);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Equity totals across all of the user's properties
+  app.get("/api/portfolio/equity", requireAuth, async (req, res, next) => {
+    try {
+      const query = asOfQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: query.error.errors });
+      }
+
+      const equity = await getPortfolioEquity(req.user!.id, query.data.asOf);
+      res.json(equity);
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,313 @@
+import { addDays, addMonths, format } from "date-fns";
+import { storage } from "./storage";
+import { InterestOnlyPeriod, Property, PropertyLoan, Valuation } from "@shared/schema";
+
+// Lenders usually cap borrowing at 80% of a property's value before mortgage
+// insurance applies, so equity above that is what can be drawn on
+const USABLE_EQUITY_LVR = 0.8;
+
+type RepaymentFrequency = PropertyLoan["repaymentFrequency"];
+
+const periodsPerYear: Record<RepaymentFrequency, number> = {
+  weekly: 52,
+  fortnightly: 26,
+  monthly: 12,
+};
+
+/**
+ * Error raised for loan requests that can't be completed.
+ * The status is picked up by the API error handler.
+ */
+export class LoanError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "LoanError";
+  }
+}
+
+// The loan fields the schedule is worked out from
+export type LoanTerms = Pick<
+  PropertyLoan,
+  "principal" | "interestRate" | "termMonths" | "startDate" | "repaymentFrequency" | "interestOnlyPeriods" | "offsetBalance"
+>;
+
+/**
+ * Check the terms of a loan hang together. Interest-only periods have to fall
+ * within the term of the loan.
+ */
+export function validateLoanTerms(loan: LoanTerms) {
+  const start = format(loan.startDate, "yyyy-MM-dd");
+  const end = format(addMonths(loan.startDate, loan.termMonths), "yyyy-MM-dd");
+
+  for (const period of loan.interestOnlyPeriods) {
+    if (period.startDate < start || period.endDate > end) {
+      throw new LoanError(`Interest-only periods must fall between ${start} and ${end}`);
+    }
+  }
+}
+
+export interface AmortisationRow {
+  period: number;
+  date: Date;
+  openingBalance: number;
+  repayment: number;
+  interest: number;
+  principal: number;
+  closingBalance: number;
+  interestOnly: boolean;
+}
+
+export interface AmortisationSchedule {
+  rows: AmortisationRow[];
+  totalRepayments: number;
+  totalInterest: number;
+  payoffDate: Date | null;
+  interestSavedByOffset: number;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function repaymentDate(loan: LoanTerms, period: number): Date {
+  switch (loan.repaymentFrequency) {
+    case "weekly":
+      return addDays(loan.startDate, period * 7);
+    case "fortnightly":
+      return addDays(loan.startDate, period * 14);
+    default:
+      return addMonths(loan.startDate, period);
+  }
+}
+
+function repaymentCount(loan: LoanTerms): number {
+  return Math.max(1, Math.round(loan.termMonths * periodsPerYear[loan.repaymentFrequency] / 12));
+}
+
+function isInterestOnly(periods: InterestOnlyPeriod[], date: Date): boolean {
+  const day = format(date, "yyyy-MM-dd");
+  return periods.some(period => day >= period.startDate && day <= period.endDate);
+}
+
+// The level repayment that clears a balance over the given number of repayments
+function principalAndInterestRepayment(balance: number, rate: number, repayments: number): number {
+  if (rate === 0) return balance / repayments;
+  return (balance * rate) / (1 - Math.pow(1 + rate, -repayments));
+}
+
+function buildRows(loan: LoanTerms, offsetBalance: number): AmortisationRow[] {
+  const rate = loan.interestRate / 100 / periodsPerYear[loan.repaymentFrequency];
+  const count = repaymentCount(loan);
+  const rows: AmortisationRow[] = [];
+
+  let balance = loan.principal;
+  let repayment: number | null = null;
+
+  for (let period = 1; period <= count && balance > 0; period++) {
+    const date = repaymentDate(loan, period);
+    const interestOnly = isInterestOnly(loan.interestOnlyPeriods, date);
+
+    // Interest is charged on the balance less whatever sits in the offset account
+    const interest = roundCents(Math.max(0, balance - offsetBalance) * rate);
+
+    let principal: number;
+    if (interestOnly) {
+      repayment = null;
+      principal = 0;
+    } else {
+      // The repayment is set on the full balance when principal and interest
+      // repayments start, and doesn't drop with the offset, so an offset
+      // pays the loan off early rather than lowering repayments
+      repayment ??= roundCents(principalAndInterestRepayment(balance, rate, count - period + 1));
+      principal = Math.min(balance, roundCents(repayment - interest));
+    }
+
+    // Whatever is left is due with the final repayment
+    if (period === count) {
+      principal = balance;
+    }
+
+    const closingBalance = roundCents(balance - principal);
+    rows.push({
+      period,
+      date,
+      openingBalance: balance,
+      repayment: roundCents(interest + principal),
+      interest,
+      principal: roundCents(principal),
+      closingBalance,
+      interestOnly,
+    });
+    balance = closingBalance;
+  }
+
+  return rows;
+}
+
+function sumInterest(rows: AmortisationRow[]): number {
+  return roundCents(rows.reduce((total, row) => total + row.interest, 0));
+}
+
+/**
+ * Work out the repayment schedule for a loan. Interest is charged on the
+ * balance less the offset, and the offset is assumed to stay at its current
+ * balance for the life of the loan.
+ */
+export function buildAmortisationSchedule(loan: LoanTerms): AmortisationSchedule {
+  const rows = buildRows(loan, loan.offsetBalance);
+  const totalInterest = sumInterest(rows);
+  const last = rows[rows.length - 1];
+
+  const interestSavedByOffset = loan.offsetBalance > 0
+    ? roundCents(sumInterest(buildRows(loan, 0)) - totalInterest)
+    : 0;
+
+  return {
+    rows,
+    totalRepayments: roundCents(rows.reduce((total, row) => total + row.repayment, 0)),
+    totalInterest,
+    payoffDate: last && last.closingBalance === 0 ? last.date : null,
+    interestSavedByOffset,
+  };
+}
+
+/**
+ * The balance owing on a loan after the last repayment due on or before a date
+ */
+export function getOutstandingBalance(loan: LoanTerms, asOf: Date = new Date()): number {
+  const { rows } = buildAmortisationSchedule(loan);
+  const paid = rows.filter(row => row.date <= asOf);
+  return paid.length > 0 ? paid[paid.length - 1].closingBalance : loan.principal;
+}
+
+export interface LoanBalance {
+  id: number;
+  lender: string;
+  accountName: string | null;
+  outstandingBalance: number;
+  offsetBalance: number;
+}
+
+export interface PropertyEquity {
+  propertyId: number;
+  address: string;
+  value: number | null;
+  valueSource: PropertyValue["valueSource"];
+  valuationDate: Date | null;
+  purchasePrice: number | null;
+  purchaseDate: Date | null;
+  capitalGrowth: number | null;
+  loans: LoanBalance[];
+  totalDebt: number;
+  totalOffset: number;
+  equity: number | null;
+  lvr: number | null; // Percent
+  usableEquity: number | null;
+}
+
+export interface PropertyValue {
+  value: number | null;
+  valueSource: "valuation" | "purchase_price" | null;
+}
+
+/**
+ * What a property is worth: its latest EquitysTek valuation, or what was paid
+ * for it if it hasn't been valued
+ */
+export function resolvePropertyValue(property: Property, valuation: Pick<Valuation, "equitystekValue"> | undefined): PropertyValue {
+  if (valuation) return { value: valuation.equitystekValue, valueSource: "valuation" };
+  if (property.purchasePrice != null) return { value: property.purchasePrice, valueSource: "purchase_price" };
+  return { value: null, valueSource: null };
+}
+
+function calculatePropertyEquity(
+  property: Property,
+  loans: PropertyLoan[],
+  valuation: Valuation | undefined,
+  asOf: Date
+): PropertyEquity {
+  const { value, valueSource } = resolvePropertyValue(property, valuation);
+
+  const loanBalances = loans.map(loan => ({
+    id: loan.id,
+    lender: loan.lender,
+    accountName: loan.accountName,
+    outstandingBalance: getOutstandingBalance(loan, asOf),
+    offsetBalance: loan.offsetBalance,
+  }));
+
+  const totalDebt = roundCents(loanBalances.reduce((total, loan) => total + loan.outstandingBalance, 0));
+  const totalOffset = roundCents(loanBalances.reduce((total, loan) => total + loan.offsetBalance, 0));
+
+  return {
+    propertyId: property.id,
+    address: property.address,
+    value,
+    valueSource,
+    valuationDate: valuation?.valuationDate ?? null,
+    purchasePrice: property.purchasePrice,
+    purchaseDate: property.purchaseDate,
+    capitalGrowth: value !== null && property.purchasePrice != null ? roundCents(value - property.purchasePrice) : null,
+    loans: loanBalances,
+    totalDebt,
+    totalOffset,
+    equity: value !== null ? roundCents(value - totalDebt) : null,
+    lvr: value ? Math.round((totalDebt / value) * 10000) / 100 : null,
+    usableEquity: value !== null ? roundCents(Math.max(0, value * USABLE_EQUITY_LVR - totalDebt)) : null,
+  };
+}
+
+/**
+ * A property's equity: its latest EquitysTek valuation less what's owing on
+ * its loans
+ */
+export async function getPropertyEquity(property: Property, asOf: Date = new Date()): Promise<PropertyEquity> {
+  const [loans, valuation] = await Promise.all([
+    storage.getPropertyLoansByPropertyId(property.id),
+    storage.getValuationByPropertyId(property.id),
+  ]);
+
+  return calculatePropertyEquity(property, loans, valuation, asOf);
+}
+
+export interface PortfolioEquity {
+  properties: PropertyEquity[];
+  totalValue: number;
+  totalDebt: number;
+  totalOffset: number;
+  totalEquity: number;
+  lvr: number | null; // Percent
+  usableEquity: number;
+  unvaluedPropertyIds: number[]; // Properties with no valuation or purchase price
+}
+
+/**
+ * Equity across all of a user's properties. Properties with no value are
+ * listed but left out of the value and equity totals; their loans still
+ * count towards total debt.
+ */
+export async function getPortfolioEquity(userId: number, asOf: Date = new Date()): Promise<PortfolioEquity> {
+  const properties = await storage.getPropertiesByUserId(userId);
+  const loans = await storage.getPropertyLoansByPropertyIds(properties.map(property => property.id));
+  const valuations = await Promise.all(properties.map(property => storage.getValuationByPropertyId(property.id)));
+
+  const equities = properties.map((property, i) =>
+    calculatePropertyEquity(property, loans.filter(loan => loan.propertyId === property.id), valuations[i], asOf)
+  );
+  const valued = equities.filter(equity => equity.value !== null);
+
+  const totalValue = roundCents(valued.reduce((total, equity) => total + equity.value!, 0));
+  const totalDebt = roundCents(equities.reduce((total, equity) => total + equity.totalDebt, 0));
+  const valuedDebt = valued.reduce((total, equity) => total + equity.totalDebt, 0);
+
+  return {
+    properties: equities,
+    totalValue,
+    totalDebt,
+    totalOffset: roundCents(equities.reduce((total, equity) => total + equity.totalOffset, 0)),
+    totalEquity: roundCents(valued.reduce((total, equity) => total + equity.equity!, 0)),
+    lvr: totalValue ? Math.round((valuedDebt / totalValue) * 10000) / 100 : null,
+    usableEquity: roundCents(valued.reduce((total, equity) => total + equity.usableEquity!, 0)),
+    unvaluedPropertyIds: equities.filter(equity => equity.value === null).map(equity => equity.propertyId),
+  };
+}
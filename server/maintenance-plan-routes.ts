@@ -0,0 +1,141 @@
+import type { Express } from "express";
+import { storage } from "./storage";
+import { authorizeProperty } from "./property-access";
+import { insertMaintenancePlanTaskSchema } from "@shared/schema";
+import {
+  advanceDueDate,
+  applyDefaultMaintenancePlan,
+  firstDueDate,
+  getDefaultMaintenancePlan,
+} from "./maintenance-plan-service";
+import { requireAuth } from "./middleware/auth";
+
+// The property and next due date come from the URL and the schedule when not given
+const createTaskSchema = insertMaintenancePlanTaskSchema
+  .omit({ propertyId: true })
+  .partial({ nextDueDate: true });
+
+const updateTaskSchema = insertMaintenancePlanTaskSchema
+  .omit({ propertyId: true })
+  .partial();
+
+export function registerMaintenancePlanRoutes(app: Express) {
+  // Get the recurring maintenance tasks for a property, soonest due first
+  app.get("/api/properties/:id/maintenance-plan", requireAuth, async (req, res, next) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      await authorizeProperty(req.user!.id, propertyId, "view");
+
+      const tasks = await storage.getMaintenancePlanTasksByPropertyId(propertyId);
+      res.json(tasks);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Preview the default tasks suggested for a property without saving them
+  app.get("/api/properties/:id/maintenance-plan/defaults", requireAuth, async (req, res, next) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const property = await authorizeProperty(req.user!.id, propertyId, "view");
+
+      const defaults = await getDefaultMaintenancePlan(property);
+      res.json(defaults);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Add the default tasks to a property's plan
+  app.post("/api/properties/:id/maintenance-plan/defaults", requireAuth, async (req, res, next) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const property = await authorizeProperty(req.user!.id, propertyId, "edit");
+
+      const created = await applyDefaultMaintenancePlan(property);
+      res.status(201).json(created);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Add a custom recurring task to a property's plan
+  app.post("/api/properties/:id/maintenance-plan", requireAuth, async (req, res, next) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      await authorizeProperty(req.user!.id, propertyId, "edit");
+
+      const validatedData = createTaskSchema.parse(req.body);
+      const task = await storage.createMaintenancePlanTask({
+        ...validatedData,
+        propertyId,
+        nextDueDate: validatedData.nextDueDate
+          ?? firstDueDate(validatedData.intervalMonths, validatedData.dueMonth, null),
+      });
+
+      res.status(201).json(task);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/maintenance-plan/:taskId", requireAuth, async (req, res, next) => {
+    try {
+      const taskId = parseInt(req.params.taskId);
+      const task = await storage.getMaintenancePlanTask(taskId);
+
+      if (!task) {
+        return res.status(404).json({ message: "Maintenance plan task not found" });
+      }
+
+      await authorizeProperty(req.user!.id, task.propertyId, "edit");
+
+      const validatedData = updateTaskSchema.parse(req.body);
+      const updatedTask = await storage.updateMaintenancePlanTask(taskId, validatedData);
+
+      res.json(updatedTask);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Skip the current occurrence and move the task on to its next due date
+  app.post("/api/maintenance-plan/:taskId/skip", requireAuth, async (req, res, next) => {
+    try {
+      const taskId = parseInt(req.params.taskId);
+      const task = await storage.getMaintenancePlanTask(taskId);
+
+      if (!task) {
+        return res.status(404).json({ message: "Maintenance plan task not found" });
+      }
+
+      await authorizeProperty(req.user!.id, task.propertyId, "edit");
+
+      const updatedTask = await storage.updateMaintenancePlanTask(taskId, {
+        nextDueDate: advanceDueDate(task.nextDueDate, task.intervalMonths, task.dueMonth),
+      });
+
+      res.json(updatedTask);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/maintenance-plan/:taskId", requireAuth, async (req, res, next) => {
+    try {
+      const taskId = parseInt(req.params.taskId);
+      const task = await storage.getMaintenancePlanTask(taskId);
+
+      if (!task) {
+        return res.status(404).json({ message: "Maintenance plan task not found" });
+      }
+
+      await authorizeProperty(req.user!.id, task.propertyId, "edit");
+
+      await storage.deleteMaintenancePlanTask(taskId);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,195 @@
+import { addMonths, startOfDay } from "date-fns";
+import { storage } from "./storage";
+import { InsertMaintenancePlanTask, MaintenanceRecord, MaintenancePlanTask, Property } from "@shared/schema";
+
+type MaintenanceCategory = MaintenanceRecord["category"];
+
+/**
+ * A recurring task suggested for new plans. Older buildings get a shorter
+ * interval once they reach `olderBuilding.minAge` years.
+ */
+interface DefaultTaskTemplate {
+  title: string;
+  category: MaintenanceCategory;
+  description: string;
+  intervalMonths: number;
+  dueMonth?: number;
+  priority?: "low" | "medium" | "high";
+  propertyTypes?: Property["propertyType"][];
+  olderBuilding?: { minAge: number; intervalMonths: number };
+}
+
+const freestandingTypes: Property["propertyType"][] = ["single_family", "townhouse", "multi_family"];
+
+// Seasons follow the southern hemisphere: autumn is March-May, spring is September-November
+const defaultTaskTemplates: DefaultTaskTemplate[] = [
+  {
+    title: "HVAC service",
+    category: "hvac",
+    description: "Clean filters and have the heating and cooling system serviced.",
+    intervalMonths: 12,
+  },
+  {
+    title: "Smoke alarm test",
+    category: "electrical",
+    description: "Test every smoke alarm and replace batteries where needed.",
+    intervalMonths: 12,
+    priority: "high",
+  },
+  {
+    title: "Gutter clean",
+    category: "exterior",
+    description: "Clear leaves from gutters and downpipes before winter rain.",
+    intervalMonths: 12,
+    dueMonth: 4,
+    propertyTypes: [...freestandingTypes, "commercial"],
+  },
+  {
+    title: "Termite inspection",
+    category: "exterior",
+    description: "Have a licensed pest inspector check for termite activity.",
+    intervalMonths: 12,
+    dueMonth: 10,
+    propertyTypes: freestandingTypes,
+  },
+  {
+    title: "Roof inspection",
+    category: "roof",
+    description: "Check for cracked or slipped tiles, rusted sheeting and worn flashing.",
+    intervalMonths: 24,
+    propertyTypes: [...freestandingTypes, "commercial"],
+    olderBuilding: { minAge: 25, intervalMonths: 12 },
+  },
+  {
+    title: "Plumbing inspection",
+    category: "plumbing",
+    description: "Check the hot water system, taps and visible pipes for leaks.",
+    intervalMonths: 24,
+    olderBuilding: { minAge: 40, intervalMonths: 12 },
+  },
+  {
+    title: "Electrical safety inspection",
+    category: "electrical",
+    description: "Have a licensed electrician check the switchboard, safety switches and wiring.",
+    intervalMonths: 60,
+    olderBuilding: { minAge: 30, intervalMonths: 24 },
+  },
+  {
+    title: "Exterior paint and sealant check",
+    category: "exterior",
+    description: "Look for peeling paint, failed sealant and timber rot.",
+    intervalMonths: 36,
+    propertyTypes: freestandingTypes,
+  },
+  {
+    title: "Tree and garden pruning",
+    category: "landscaping",
+    description: "Prune trees away from the roof, gutters and power lines.",
+    intervalMonths: 12,
+    dueMonth: 9,
+    propertyTypes: ["single_family", "multi_family"],
+  },
+  {
+    title: "Appliance check",
+    category: "appliances",
+    description: "Check the oven, dishwasher and rangehood are working and clean seals and filters.",
+    intervalMonths: 12,
+    propertyTypes: ["condominium"],
+  },
+  {
+    title: "Fire safety equipment service",
+    category: "other",
+    description: "Service extinguishers, hose reels and emergency lighting.",
+    intervalMonths: 6,
+    priority: "high",
+    propertyTypes: ["multi_family", "commercial"],
+  },
+];
+
+/**
+ * The due date after `date` for a task. Seasonal tasks are kept on the
+ * first day of their month.
+ */
+export function advanceDueDate(date: Date, intervalMonths: number, dueMonth?: number | null): Date {
+  let next = addMonths(date, intervalMonths);
+  if (dueMonth) {
+    next.setMonth(dueMonth - 1, 1);
+    if (next <= date) {
+      next = addMonths(next, 12);
+    }
+  }
+  return startOfDay(next);
+}
+
+/**
+ * The first due date for a new task. Seasonal tasks fall on the next
+ * occurrence of their month; other tasks are due one interval after the
+ * last completed work in the same category, or after today if there is none.
+ */
+export function firstDueDate(
+  intervalMonths: number,
+  dueMonth: number | null | undefined,
+  lastCompleted: Date | null,
+  now: Date = new Date()
+): Date {
+  if (dueMonth) {
+    const due = startOfDay(new Date(now.getFullYear(), dueMonth - 1, 1));
+    return due > now ? due : addMonths(due, 12);
+  }
+
+  const due = startOfDay(addMonths(lastCompleted ?? now, intervalMonths));
+  return due > now ? due : startOfDay(now);
+}
+
+function lastCompletedDate(records: MaintenanceRecord[], category: MaintenanceCategory): Date | null {
+  const dates = records
+    .filter(record => record.category === category && (record.status ?? "completed") === "completed")
+    .map(record => new Date(record.completedDate).getTime());
+  return dates.length > 0 ? new Date(Math.max(...dates)) : null;
+}
+
+/**
+ * Suggested recurring tasks for a property, chosen by property type and
+ * with shorter intervals for older buildings
+ */
+export async function getDefaultMaintenancePlan(property: Property, now: Date = new Date()): Promise<InsertMaintenancePlanTask[]> {
+  const records = await storage.getMaintenanceRecordsByPropertyId(property.id);
+  const age = property.yearBuilt ? now.getFullYear() - property.yearBuilt : null;
+
+  return defaultTaskTemplates
+    .filter(template => !template.propertyTypes || template.propertyTypes.includes(property.propertyType))
+    .map(template => {
+      const intervalMonths = template.olderBuilding && age !== null && age >= template.olderBuilding.minAge
+        ? template.olderBuilding.intervalMonths
+        : template.intervalMonths;
+
+      return {
+        propertyId: property.id,
+        title: template.title,
+        category: template.category,
+        description: template.description,
+        intervalMonths,
+        dueMonth: template.dueMonth ?? null,
+        nextDueDate: firstDueDate(intervalMonths, template.dueMonth, lastCompletedDate(records, template.category), now),
+        priority: template.priority ?? "medium",
+        source: "default" as const,
+      };
+    });
+}
+
+/**
+ * Add the default tasks to a property's plan, skipping any task the plan
+ * already has a task with the same title for
+ */
+export async function applyDefaultMaintenancePlan(property: Property): Promise<MaintenancePlanTask[]> {
+  const existing = await storage.getMaintenancePlanTasksByPropertyId(property.id);
+  const existingTitles = new Set(existing.map(task => task.title.trim().toLowerCase()));
+  const defaults = await getDefaultMaintenancePlan(property);
+
+  const created: MaintenancePlanTask[] = [];
+  for (const task of defaults) {
+    if (existingTitles.has(task.title.toLowerCase())) continue;
+    created.push(await storage.createMaintenancePlanTask(task));
+  }
+  return created;
+}
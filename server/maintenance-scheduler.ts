@@ -0,0 +1,123 @@
+import { format } from "date-fns";
+import { storage } from "./storage";
+import { notificationService } from "./notification-service";
+import { advanceDueDate } from "./maintenance-plan-service";
+import { MaintenancePlanTask } from "@shared/schema";
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+/**
+ * In-process scheduler that checks maintenance plans for due tasks. Each due
+ * task raises a maintenance_due notification for the property owner, adds a
+ * pending maintenance record and moves on to its next due date.
+ */
+export class MaintenanceScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Start checking for due tasks. The interval can be set with
+   * MAINTENANCE_SCHEDULER_INTERVAL_MINUTES; a value of 0 disables the scheduler.
+   */
+  start(intervalMinutes = Number(process.env.MAINTENANCE_SCHEDULER_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES)) {
+    if (this.timer || !(intervalMinutes > 0)) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), intervalMinutes * 60 * 1000);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+    this.tick();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick() {
+    // Skip this run if the previous one is still going
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const triggered = await this.runDueTasks();
+      if (triggered > 0) {
+        console.log(`Maintenance scheduler triggered ${triggered} due task(s)`);
+      }
+    } catch (error) {
+      console.error("Maintenance scheduler run failed:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Trigger every active task that is due on or before `now`.
+   * Returns the number of tasks triggered.
+   */
+  async runDueTasks(now: Date = new Date()): Promise<number> {
+    const dueTasks = await storage.getDueMaintenancePlanTasks(now);
+    let triggered = 0;
+
+    for (const task of dueTasks) {
+      try {
+        if (await this.triggerTask(task, now)) {
+          triggered++;
+        }
+      } catch (error) {
+        // One broken task shouldn't stop the rest of the run
+        console.error(`Failed to trigger maintenance plan task ${task.id}:`, error);
+      }
+    }
+
+    return triggered;
+  }
+
+  private async triggerTask(task: MaintenancePlanTask, now: Date): Promise<boolean> {
+    // Skip over any occurrences missed while the server was down
+    let nextDueDate = advanceDueDate(task.nextDueDate, task.intervalMonths, task.dueMonth);
+    while (nextDueDate <= now) {
+      nextDueDate = advanceDueDate(nextDueDate, task.intervalMonths, task.dueMonth);
+    }
+
+    // Another instance may have picked the task up already
+    const claimed = await storage.claimDueMaintenancePlanTask(task.id, task.nextDueDate, nextDueDate);
+    if (!claimed) return false;
+
+    const property = await storage.getProperty(task.propertyId);
+    if (!property) return false;
+
+    // Only keep one pending record per task until the owner deals with it
+    const previousRecord = task.lastMaintenanceRecordId
+      ? await storage.getMaintenanceRecord(task.lastMaintenanceRecordId)
+      : undefined;
+
+    if (previousRecord?.status !== "pending") {
+      const record = await storage.createMaintenanceRecord({
+        propertyId: property.id,
+        title: task.title,
+        category: task.category,
+        description: task.description,
+        cost: task.estimatedCost ?? 0,
+        completedDate: task.nextDueDate, // Scheduled date until the work is done
+        status: "pending",
+        priority: task.priority,
+      });
+      await storage.setMaintenancePlanTaskRecord(task.id, record.id);
+    }
+
+    await notificationService.createMaintenanceDueNotification(
+      property.userId,
+      property.id,
+      `${task.title} was due on ${format(task.nextDueDate, "d MMM yyyy")}.`
+    );
+
+    return true;
+  }
+}
+
+// Export a singleton instance
+export const maintenanceScheduler = new MaintenanceScheduler();
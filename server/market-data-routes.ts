@@ -0,0 +1,83 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { Property, propertyTypeEnum } from "@shared/schema";
+import { parsePropertyType } from "./comparable-sales-service";
+import { getMarketData, getLocalMarketMetrics, parseMarketLocation } from "./market-data-service";
+import { requireAuth } from "./middleware/auth";
+
+const marketDataQuerySchema = z.object({
+  state: z.string().trim().min(2).max(3).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const marketMetricsQuerySchema = z.object({
+  state: z.string().trim().min(2).max(3).optional(),
+  propertyType: z.string().optional(),
+});
+
+/**
+ * Accept either one of our property type values or a common label such as
+ * "house" or "unit". "all" (or no value) means every property type.
+ */
+function resolvePropertyType(value: string | undefined): Property["propertyType"] | undefined | false {
+  if (!value || value.toLowerCase() === "all") return undefined;
+  if ((propertyTypeEnum.enumValues as string[]).includes(value)) {
+    return value as Property["propertyType"];
+  }
+  return parsePropertyType(value) ?? false;
+}
+
+export function registerMarketDataRoutes(app: Express) {
+  // Monthly sales series for a suburb and property type
+  app.get("/api/market-data/:propertyType/:suburb", requireAuth, async (req, res, next) => {
+    try {
+      const propertyType = resolvePropertyType(req.params.propertyType);
+      if (propertyType === false) {
+        return res.status(400).json({ message: "Unknown property type" });
+      }
+
+      const query = marketDataQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: query.error.errors });
+      }
+
+      const marketData = await getMarketData(parseMarketLocation(req.params.suburb), propertyType, query.data);
+      if (marketData.length === 0) {
+        return res.status(404).json({ message: "No market data for this suburb" });
+      }
+
+      res.json(marketData);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Current market metrics for a suburb, optionally for one property type
+  app.get("/api/market-metrics/:suburb", requireAuth, async (req, res, next) => {
+    try {
+      const query = marketMetricsQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: query.error.errors });
+      }
+
+      const propertyType = resolvePropertyType(query.data.propertyType);
+      if (propertyType === false) {
+        return res.status(400).json({ message: "Unknown property type" });
+      }
+
+      const location = parseMarketLocation(req.params.suburb);
+      const metrics = await getLocalMarketMetrics(
+        { ...location, state: query.data.state ?? location.state },
+        propertyType
+      );
+      if (!metrics) {
+        return res.status(404).json({ message: "No recent sales for this suburb" });
+      }
+
+      res.json(metrics);
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,298 @@
+import { storage } from "./storage";
+import { ComparableSale, InsertRentalListing, Property, RentalListing } from "@shared/schema";
+import { parsePropertyType } from "./comparable-sales-service";
+import { getRegionalParameters } from "./valuation-service";
+import { parseCsvRecords, pickField, parseNumber, parseDate } from "./csv";
+
+const IMPORT_BATCH_SIZE = 500;
+const MAX_SALES_PER_QUERY = 20000;
+// A sale that completes within this many days counts towards the clearance rate
+const CLEARANCE_DAYS = 28;
+
+export interface RentalListingsImportResult {
+  imported: number;
+  errors: Array<{ line: number; message: string }>;
+}
+
+// One month of suburb sales, in the shape the valuation report charts
+export interface MarketDataPoint {
+  date: string;
+  averageValue: number;
+  changePercentage: number;
+  salesVolume: number;
+}
+
+/**
+ * Suburb-level market statistics. Percentages are expressed as numbers
+ * (4.8 means 4.8%). Metrics that could not be calculated from imported data
+ * fall back to the regional valuation parameters and are listed in `estimated`.
+ */
+export interface LocalMarketMetrics {
+  suburb: string;
+  state: string | null;
+  propertyType: Property["propertyType"] | null;
+  medianPrice: number;
+  annualGrowthRate: number;
+  averageDaysOnMarket: number | null;
+  rentalYield: number;
+  vacancyRate: number;
+  medianWeeklyRent: number | null;
+  clearanceRate: number | null;
+  auctionShare: number | null;
+  salesCount: number;
+  rentalCount: number;
+  estimated: string[];
+}
+
+export interface MarketLocation {
+  suburb: string;
+  state?: string;
+  postcode?: string;
+}
+
+export interface MarketDataOptions {
+  state?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Split a locality string such as "Paddington NSW 2021" into its suburb,
+ * state and postcode. Clients often pass the last segment of an address.
+ */
+export function parseMarketLocation(value: string): MarketLocation {
+  const match = value.trim().match(/^(.*?)(?:\s+(NSW|VIC|QLD|WA|SA|TAS|ACT|NT))?(?:\s+(\d{4}))?$/i);
+  const suburb = (match?.[1] || value).trim();
+  return {
+    suburb,
+    state: match?.[2]?.toUpperCase(),
+    postcode: match?.[3],
+  };
+}
+
+/**
+ * Import rental listings from a CSV of leased properties, such as a rental
+ * bond lodgement extract. Invalid rows are reported and skipped.
+ */
+export async function importRentalListingsCsv(csvText: string, source: string): Promise<RentalListingsImportResult> {
+  const result: RentalListingsImportResult = { imported: 0, errors: [] };
+  const listings: InsertRentalListing[] = [];
+
+  for (const { line, values } of parseCsvRecords(csvText)) {
+    const suburb = pickField(values, ["suburb", "locality", "city"]);
+    const state = pickField(values, ["state"]);
+    const weeklyRent = parseNumber(pickField(values, ["weekly_rent", "rent", "rent_per_week", "price"]));
+    const leasedDate = parseDate(pickField(values, ["leased_date", "lease_date", "lodgement_date", "date"]));
+    const propertyType = parsePropertyType(pickField(values, ["property_type", "dwelling_type", "type"]));
+
+    const missing = [
+      !suburb && "suburb",
+      !state && "state",
+      !weeklyRent && "weekly rent",
+      !leasedDate && "leased date",
+      !propertyType && "property type",
+    ].filter(Boolean);
+
+    if (missing.length > 0) {
+      result.errors.push({ line, message: `Missing or invalid ${missing.join(", ")}` });
+      continue;
+    }
+
+    listings.push({
+      address: pickField(values, ["address", "street_address"]) || null,
+      suburb: suburb!.toUpperCase(),
+      state: state!.toUpperCase(),
+      postcode: pickField(values, ["postcode", "post_code"]) || null,
+      propertyType: propertyType!,
+      bedrooms: parseNumber(pickField(values, ["bedrooms", "beds"])) ?? null,
+      weeklyRent: weeklyRent!,
+      leasedDate: leasedDate!,
+      daysOnMarket: parseNumber(pickField(values, ["days_on_market", "dom"])) ?? null,
+      source,
+    });
+  }
+
+  for (let i = 0; i < listings.length; i += IMPORT_BATCH_SIZE) {
+    result.imported += await storage.createRentalListings(listings.slice(i, i + IMPORT_BATCH_SIZE));
+  }
+
+  return result;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Round a ratio to a percentage with one decimal place
+function toPercent(ratio: number): number {
+  return Math.round(ratio * 1000) / 10;
+}
+
+function monthsBefore(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() - months);
+  return result;
+}
+
+function monthKey(date: Date): string {
+  const value = new Date(date);
+  return `${value.getUTCFullYear()}-${String(value.getUTCMonth() + 1).padStart(2, "0")}-01`;
+}
+
+async function findSuburbSales(
+  location: MarketLocation,
+  propertyType: Property["propertyType"] | undefined,
+  soldAfter: Date
+): Promise<ComparableSale[]> {
+  return await storage.searchComparableSales({
+    state: location.state,
+    suburb: location.suburb,
+    postcode: location.postcode,
+    propertyType,
+    soldAfter,
+    limit: MAX_SALES_PER_QUERY,
+  });
+}
+
+/**
+ * Monthly sales series for a suburb and property type: the average sale
+ * price, its change from the previous month with sales, and the number of
+ * sales. Defaults to the last two years.
+ */
+export async function getMarketData(
+  location: MarketLocation,
+  propertyType: Property["propertyType"] | undefined,
+  options: MarketDataOptions = {}
+): Promise<MarketDataPoint[]> {
+  const to = options.to ?? new Date();
+  const from = options.from ?? monthsBefore(to, 24);
+  const sales = await findSuburbSales({ ...location, state: options.state ?? location.state }, propertyType, from);
+
+  const months = new Map<string, number[]>();
+  for (const sale of sales) {
+    if (new Date(sale.saleDate) > to) continue;
+    const key = monthKey(sale.saleDate);
+    months.set(key, [...(months.get(key) ?? []), sale.salePrice]);
+  }
+
+  let previousAverage: number | null = null;
+  return Array.from(months.keys()).sort().map(date => {
+    const prices = months.get(date)!;
+    const averageValue = average(prices)!;
+    const changePercentage = previousAverage
+      ? Math.round(((averageValue - previousAverage) / previousAverage) * 10000) / 100
+      : 0;
+    previousAverage = averageValue;
+
+    return {
+      date,
+      averageValue: Math.round(averageValue),
+      changePercentage,
+      salesVolume: prices.length,
+    };
+  });
+}
+
+/**
+ * Current market metrics for a suburb, calculated over the last 12 months
+ * of imported sales and rentals. Annual growth compares the median price
+ * with the median of the 12 months before that. Returns null when the
+ * suburb has no recent sales.
+ */
+export async function getLocalMarketMetrics(
+  location: MarketLocation,
+  propertyType?: Property["propertyType"],
+  asOf: Date = new Date()
+): Promise<LocalMarketMetrics | null> {
+  const yearAgo = monthsBefore(asOf, 12);
+  const twoYearsAgo = monthsBefore(asOf, 24);
+
+  const sales = (await findSuburbSales(location, propertyType, twoYearsAgo))
+    .filter(sale => new Date(sale.saleDate) <= asOf);
+  const recentSales = sales.filter(sale => new Date(sale.saleDate) >= yearAgo);
+  const priorSales = sales.filter(sale => new Date(sale.saleDate) < yearAgo);
+
+  const medianPrice = median(recentSales.map(sale => sale.salePrice));
+  if (medianPrice === null) {
+    return null;
+  }
+
+  const state = location.state ?? recentSales[0].state;
+  const params = getRegionalParameters(state);
+  const estimated: string[] = [];
+
+  const rentals: RentalListing[] = (await storage.searchRentalListings({
+    suburb: location.suburb,
+    state: location.state,
+    propertyType,
+    leasedAfter: yearAgo,
+  })).filter(rental => new Date(rental.leasedDate) <= asOf);
+
+  const priorMedian = median(priorSales.map(sale => sale.salePrice));
+  let annualGrowthRate: number;
+  if (priorMedian) {
+    annualGrowthRate = toPercent((medianPrice - priorMedian) / priorMedian);
+  } else {
+    annualGrowthRate = toPercent(params.annualGrowthRate);
+    estimated.push("annualGrowthRate");
+  }
+
+  const daysOnMarket = recentSales
+    .map(sale => sale.daysOnMarket)
+    .filter((days): days is number => days !== null);
+  const averageDaysOnMarket = average(daysOnMarket);
+
+  const medianWeeklyRent = median(rentals.map(rental => rental.weeklyRent));
+  let rentalYield: number;
+  if (medianWeeklyRent !== null) {
+    rentalYield = toPercent((medianWeeklyRent * 52) / medianPrice);
+  } else {
+    const regionalRent = params.baseWeeklyRent + params.medianBedrooms * params.weeklyRentPerBedroom;
+    rentalYield = toPercent((regionalRent * 52) / medianPrice);
+    estimated.push("rentalYield");
+  }
+
+  // Without vacancy surveys, use the share of the year rentals sat empty before leasing
+  const rentalDaysOnMarket = rentals
+    .map(rental => rental.daysOnMarket)
+    .filter((days): days is number => days !== null);
+  const averageRentalDaysOnMarket = average(rentalDaysOnMarket);
+  let vacancyRate: number;
+  if (averageRentalDaysOnMarket !== null) {
+    vacancyRate = toPercent(averageRentalDaysOnMarket / 365);
+  } else {
+    vacancyRate = toPercent(params.vacancyRate);
+    estimated.push("vacancyRate");
+  }
+
+  const withSaleMethod = recentSales.filter(sale => sale.saleMethod);
+
+  return {
+    suburb: location.suburb.toUpperCase(),
+    state: location.state ?? null,
+    propertyType: propertyType ?? null,
+    medianPrice: Math.round(medianPrice),
+    annualGrowthRate,
+    averageDaysOnMarket: averageDaysOnMarket === null ? null : Math.round(averageDaysOnMarket),
+    rentalYield,
+    vacancyRate,
+    medianWeeklyRent: medianWeeklyRent === null ? null : Math.round(medianWeeklyRent),
+    clearanceRate: daysOnMarket.length > 0
+      ? toPercent(daysOnMarket.filter(days => days <= CLEARANCE_DAYS).length / daysOnMarket.length)
+      : null,
+    auctionShare: withSaleMethod.length > 0
+      ? toPercent(withSaleMethod.filter(sale => sale.saleMethod === "auction").length / withSaleMethod.length)
+      : null,
+    salesCount: recentSales.length,
+    rentalCount: rentals.length,
+    estimated,
+  };
+}
@@ -0,0 +1,65 @@
+import { Request, Response, NextFunction } from "express";
+import { isTwoFactorRequired } from "../two-factor-service";
+
+// Requests still allowed while a password change is pending
+const passwordChangeAllowed = [
+  "GET /api/user",
+  "POST /api/logout",
+  "POST /api/user/password",
+];
+
+/**
+ * Middleware to hold back a user whose password was reset by an admin until
+ * they choose their own. Only the requests needed to do that get through.
+ */
+export function enforcePasswordChange(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated() || !req.user?.mustChangePassword || !req.path.startsWith("/api/")) {
+    return next();
+  }
+
+  if (passwordChangeAllowed.includes(`${req.method} ${req.path}`)) {
+    return next();
+  }
+
+  res.status(403).json({ message: "You need to change your password before continuing", code: "PASSWORD_CHANGE_REQUIRED" });
+}
+
+// Requests still allowed while a required two-factor setup is pending
+const twoFactorEnrolmentAllowed = [
+  "GET /api/user",
+  "POST /api/logout",
+  "GET /api/user/2fa",
+  "POST /api/user/2fa/setup",
+  "POST /api/user/2fa/enable",
+];
+
+/**
+ * Middleware to hold back a user who must use two-factor authentication,
+ * i.e. an admin, until they've set it up
+ */
+export function enforceTwoFactorEnrolment(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated() || !req.user || req.user.twoFactorEnabled || !isTwoFactorRequired(req.user) || !req.path.startsWith("/api/")) {
+    return next();
+  }
+
+  if (twoFactorEnrolmentAllowed.includes(`${req.method} ${req.path}`)) {
+    return next();
+  }
+
+  res.status(403).json({ message: "Set up two-factor authentication before continuing", code: "TWO_FACTOR_SETUP_REQUIRED" });
+}
+
+/**
+ * Middleware to require a verified email address for paid features
+ */
+export function requireVerifiedEmail(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  if (!req.user!.emailVerified) {
+    return res.status(403).json({ message: "Please confirm your email address to use paid features", code: "EMAIL_NOT_VERIFIED" });
+  }
+
+  next();
+}
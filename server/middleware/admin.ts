@@ -13,6 +13,11 @@ export function requireAdmin(req: Request, res: Response, next: NextFunction) {
   if (!req.user || req.user.role !== 'admin') {
     return res.status(403).json({ error: "Admin access required" });
   }
+
+  // Admins must have two-factor authentication on and have passed it in this session
+  if (!req.user.twoFactorEnabled || !req.session.twoFactorVerifiedAt) {
+    return res.status(403).json({ error: "Two-factor authentication is required for admin access", code: "TWO_FACTOR_REQUIRED" });
+  }
   
   // If all checks pass, proceed
   next();
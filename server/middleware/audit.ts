@@ -0,0 +1,153 @@
+import { Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import { AuditChanges } from "@shared/schema";
+import { diffRecords, recordAuditEvent } from "../audit-service";
+
+// Route params that hold secrets, so they're kept out of stored paths and IDs
+const SENSITIVE_PARAM = /token|secret/i;
+
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+/**
+ * Records loaded before and after an update or delete, so the audit log can
+ * show what changed. Routes not listed here still get an event, with the
+ * response body as the "after" side for creates.
+ */
+const recordLoaders: Array<[string, (id: number) => Promise<unknown>]> = [
+  ["/api/properties/:id", id => storage.getProperty(id)],
+  ["/api/maintenance/:id", id => storage.getMaintenanceRecord(id)],
+  ["/api/maintenance-plan/:taskId", id => storage.getMaintenancePlanTask(id)],
+  ["/api/valuations/:id", id => storage.getValuation(id)],
+  ["/api/loans/:loanId", id => storage.getPropertyLoan(id)],
+  ["/api/ledger/:entryId", id => storage.getLedgerEntry(id)],
+  ["/api/documents/:id", id => storage.getDocument(id)],
+  ["/api/document-folders/:id", id => storage.getDocumentFolder(id)],
+  ["/api/notifications/:id", id => storage.getNotification(id)],
+  ["/api/property-access/:id", id => storage.getPropertyAccess(id)],
+  ["/api/property-access/invitations/:id", id => storage.getPropertyInvitation(id)],
+  ["/api/admin/users/:id", id => storage.getUser(id)],
+  ["/api/admin/subscriptions/:id", id => storage.getSubscriptionById(id)],
+  ["/api/admin/properties/:id", id => storage.getProperty(id)],
+  ["/api/admin/maintenance/:id", id => storage.getMaintenanceRecord(id)],
+];
+
+const compiledLoaders = recordLoaders.map(([route, load]) => ({
+  pattern: new RegExp(`^${route.replace(/:[^/]+/g, "([^/]+)")}$`),
+  load,
+}));
+
+// Find the loader for a request path and the numeric ID it addresses
+function matchRecordLoader(path: string): { id: number; load: (id: number) => Promise<unknown> } | undefined {
+  for (const { pattern, load } of compiledLoaders) {
+    const match = path.match(pattern);
+    if (match) {
+      const id = parseInt(match[1]);
+      return isNaN(id) ? undefined : { id, load };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The resource a route addresses: the collection before its last parameter,
+ * e.g. users/5 for /api/admin/users/:id/reset-password. Routes without
+ * parameters address their last segment, and a create takes its ID from
+ * the response.
+ */
+function describeResource(routePath: string, params: Record<string, string>, responseBody: unknown) {
+  const segments = routePath.split("/").filter(segment => segment && segment !== "api" && segment !== "admin");
+  const lastParamIndex = segments.map(segment => segment.startsWith(":")).lastIndexOf(true);
+
+  if (lastParamIndex > 0) {
+    const paramName = segments[lastParamIndex].slice(1);
+    return {
+      resourceType: segments[lastParamIndex - 1],
+      resourceId: SENSITIVE_PARAM.test(paramName) ? null : params[paramName] ?? null,
+    };
+  }
+
+  const createdId = responseBody && typeof responseBody === "object" && "id" in responseBody
+    ? String((responseBody as { id: unknown }).id)
+    : null;
+  return { resourceType: segments[segments.length - 1] ?? null, resourceId: createdId };
+}
+
+// The request path with secret route params swapped back to their names
+function safePath(req: Request): string {
+  let path = req.path;
+  for (const [name, value] of Object.entries(req.params ?? {})) {
+    if (SENSITIVE_PARAM.test(name) && value) {
+      path = path.split(value).join(`:${name}`);
+    }
+  }
+  return path;
+}
+
+/**
+ * Middleware that writes an audit event for every mutating API call and
+ * every admin request, once the response has been sent. Failures to record
+ * are logged rather than failing the request.
+ */
+export function auditTrail(req: Request, res: Response, next: NextFunction) {
+  const isAdminRequest = req.path.startsWith("/api/admin");
+  if (!req.path.startsWith("/api") || (!MUTATING_METHODS.has(req.method) && !isAdminRequest)) {
+    return next();
+  }
+
+  let responseBody: unknown;
+  const originalResJson = res.json;
+  res.json = function (bodyJson, ...args) {
+    responseBody = bodyJson;
+    return originalResJson.apply(res, [bodyJson, ...args]);
+  };
+
+  // Updates and deletes of known records load the record before the handler runs
+  const loader = req.method === "PUT" || req.method === "PATCH" || req.method === "DELETE"
+    ? matchRecordLoader(req.path)
+    : undefined;
+  let previous: unknown;
+
+  res.on("finish", async () => {
+    try {
+      let changes: AuditChanges | null = null;
+
+      if (res.statusCode < 400 && MUTATING_METHODS.has(req.method)) {
+        if (req.method === "DELETE") {
+          changes = diffRecords(previous, null);
+        } else if (loader) {
+          changes = diffRecords(previous, await loader.load(loader.id));
+        } else {
+          changes = diffRecords(null, responseBody);
+        }
+      }
+
+      const routePath: string = req.route?.path ?? req.path;
+      const { resourceType, resourceId } = describeResource(routePath, req.params ?? {}, responseBody);
+
+      await recordAuditEvent({
+        actorId: req.user?.id ?? null,
+        actorRole: req.user?.role ?? null,
+        action: `${req.method} ${routePath}`,
+        method: req.method,
+        path: safePath(req),
+        resourceType,
+        resourceId,
+        statusCode: res.statusCode,
+        ipAddress: req.ip ?? null,
+        userAgent: req.get("user-agent") ?? null,
+        changes,
+      });
+    } catch (error) {
+      console.error("Failed to record audit event:", error);
+    }
+  });
+
+  if (!loader) {
+    return next();
+  }
+
+  loader.load(loader.id)
+    .then(record => { previous = record; })
+    .catch(error => console.error("Failed to load record for audit:", error))
+    .finally(() => next());
+}
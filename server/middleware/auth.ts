@@ -0,0 +1,12 @@
+import { Request, Response, NextFunction } from "express";
+
+/**
+ * Middleware to require a signed-in user. Routes using it must be
+ * registered after setupAuth, once passport has run.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  next();
+}
@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from "express";
+
+// Last-seen is only updated this often, so not every request rewrites the session
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+/**
+ * Middleware to keep the device details shown in the signed-in sessions
+ * list: the browser and when the session started, from the first request
+ * after signing in, and the IP address and when it was last used.
+ */
+export function trackSessionActivity(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated() || !req.session) {
+    return next();
+  }
+
+  const now = Date.now();
+
+  if (!req.session.signedInAt) {
+    req.session.signedInAt = now;
+    req.session.userAgent = req.get("user-agent")?.slice(0, 512);
+  }
+
+  if (!req.session.lastSeenAt || now - req.session.lastSeenAt >= LAST_SEEN_RESOLUTION_MS) {
+    req.session.lastSeenAt = now;
+    req.session.ipAddress = req.ip;
+  }
+
+  next();
+}
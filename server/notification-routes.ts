@@ -1,14 +1,23 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import type { Express } from "express";
 import { storage } from "./storage";
 import { notificationService } from "./notification-service";
-import { insertNotificationSchema } from "../shared/notification-types";
+import { emailService } from "./email-service";
+import {
+  NotificationPreferences,
+  notificationTypeEnum,
+  resolveNotificationChannels,
+  updateNotificationPreferencesSchema,
+} from "../shared/notification-types";
+import { requireAuth } from "./middleware/auth";
 
-// Middleware to check if user is authenticated
-function requireAuth(req: Request, res: Response, next: NextFunction) {
-  if (!req.isAuthenticated()) {
-    return res.status(401).json({ message: "Unauthorized" });
-  }
-  next();
+// Every type's delivery settings, with defaults filled in for those the user hasn't changed
+function toPreferencesResponse(preferences: NotificationPreferences | undefined) {
+  return {
+    channels: resolveNotificationChannels(preferences?.channels),
+    digestFrequency: preferences?.digestFrequency ?? "daily",
+    lastDigestSentAt: preferences?.lastDigestSentAt ?? null,
+    emailAvailable: emailService.isConfigured(),
+  };
 }
 
 export function registerNotificationRoutes(app: Express) {
@@ -35,9 +44,12 @@ export function registerNotificationRoutes(app: Express) {
   // Mark a notification as read
   app.patch("/api/notifications/:id/read", requireAuth, async (req, res, next) => {
     try {
-      const notificationId = parseInt(req.params.id);
-      const notification = await storage.markNotificationAsRead(notificationId);
-      res.json(notification);
+      const notification = await storage.getNotification(parseInt(req.params.id));
+      if (!notification || notification.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+
+      res.json(await notificationService.markAsRead(notification.id));
     } catch (error) {
       next(error);
     }
@@ -46,7 +58,7 @@ export function registerNotificationRoutes(app: Express) {
   // Mark all notifications as read
   app.post("/api/notifications/read-all", requireAuth, async (req, res, next) => {
     try {
-      await storage.markAllNotificationsAsRead(req.user!.id);
+      await notificationService.markAllAsRead(req.user!.id);
       res.sendStatus(200);
     } catch (error) {
       next(error);
@@ -58,15 +70,16 @@ export function registerNotificationRoutes(app: Express) {
     try {
       const { type = "system_notice", title = "Test Notification", message = "This is a test notification" } = req.body;
       
-      const notification = await storage.createNotification({
+      const notification = await notificationService.createNotification({
         userId: req.user!.id,
         title,
         message,
-        type,
+        type: notificationTypeEnum.parse(type),
         isRead: false
       });
       
-      res.status(201).json(notification);
+      // Null if the user has in-app notifications of this type turned off
+      res.status(201).json(notification ?? null);
     } catch (error) {
       next(error);
     }
@@ -75,11 +88,47 @@ export function registerNotificationRoutes(app: Express) {
   // Delete a notification
   app.delete("/api/notifications/:id", requireAuth, async (req, res, next) => {
     try {
-      const notificationId = parseInt(req.params.id);
-      await storage.deleteNotification(notificationId);
+      const notification = await storage.getNotification(parseInt(req.params.id));
+      if (!notification || notification.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+
+      await notificationService.deleteNotification(notification.id);
       res.sendStatus(204);
     } catch (error) {
       next(error);
     }
   });
-}
\ No newline at end of file
+
+  // Get how the current user wants each type of notification delivered
+  app.get("/api/notification-preferences", requireAuth, async (req, res, next) => {
+    try {
+      const preferences = await storage.getNotificationPreferences(req.user!.id);
+      res.json(toPreferencesResponse(preferences));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Update delivery preferences; types and channels left out are unchanged
+  app.put("/api/notification-preferences", requireAuth, async (req, res, next) => {
+    try {
+      const updates = updateNotificationPreferencesSchema.parse(req.body);
+      const current = await storage.getNotificationPreferences(req.user!.id);
+
+      const channels = { ...current?.channels };
+      for (const [type, channel] of Object.entries(updates.channels ?? {})) {
+        const key = type as keyof typeof channels;
+        channels[key] = { ...resolveNotificationChannels(current?.channels)[key], ...channel };
+      }
+
+      const preferences = await storage.saveNotificationPreferences(req.user!.id, {
+        channels,
+        digestFrequency: updates.digestFrequency ?? current?.digestFrequency ?? "daily",
+      });
+      res.json(toPreferencesResponse(preferences));
+    } catch (error) {
+      next(error);
+    }
+  });
+}
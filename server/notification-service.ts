@@ -1,15 +1,88 @@
 import { storage } from "./storage";
-import { InsertNotification } from "../shared/notification-types";
+import { notificationSocketServer } from "./notification-socket";
+import { emailService } from "./email-service";
+import { InsertNotification, Notification, resolveNotificationChannels } from "../shared/notification-types";
 
 /**
  * Service for managing user notifications
  */
 export class NotificationService {
   /**
-   * Create a new notification for a user
+   * Create a new notification for a user, delivered the ways they've chosen
+   * for its type. Returns the in-app notification, or undefined if they've
+   * turned in-app notifications off for this type.
    */
-  async createNotification(notification: InsertNotification) {
-    return await storage.createNotification(notification);
+  async createNotification(notification: InsertNotification): Promise<Notification | undefined> {
+    const preferences = await storage.getNotificationPreferences(notification.userId);
+    const channel = resolveNotificationChannels(preferences?.channels)[notification.type];
+    let newNotification: Notification | undefined;
+
+    if (channel.inApp) {
+      newNotification = await storage.createNotification(notification);
+
+      // Push it to any tabs the user has open; they'll catch up by polling if this fails
+      try {
+        notificationSocketServer.publish(newNotification.userId, { type: "notification", notification: newNotification });
+        await notificationSocketServer.sendUnreadCount(newNotification.userId);
+      } catch (error) {
+        console.error("Failed to push notification:", error);
+      }
+    }
+
+    if (channel.email !== "off") {
+      try {
+        const user = await storage.getUser(notification.userId);
+        if (user) {
+          await emailService.enqueueNotification(user, {
+            type: notification.type,
+            title: notification.title,
+            message: notification.message,
+            relatedEntityId: notification.relatedEntityId ?? null,
+            relatedEntityType: notification.relatedEntityType ?? null,
+          }, channel.email);
+        }
+      } catch (error) {
+        console.error("Failed to queue notification email:", error);
+      }
+    }
+
+    return newNotification;
+  }
+
+  /**
+   * Mark a notification as read and update the user's open tabs
+   */
+  async markAsRead(id: number) {
+    const notification = await storage.markNotificationAsRead(id);
+    await this.pushUnreadCount(notification.userId);
+    return notification;
+  }
+
+  /**
+   * Mark all of a user's notifications as read and update their open tabs
+   */
+  async markAllAsRead(userId: number) {
+    await storage.markAllNotificationsAsRead(userId);
+    await this.pushUnreadCount(userId);
+  }
+
+  /**
+   * Delete a notification and update the user's open tabs
+   */
+  async deleteNotification(id: number) {
+    const notification = await storage.getNotification(id);
+    await storage.deleteNotification(id);
+    if (notification) {
+      await this.pushUnreadCount(notification.userId);
+    }
+  }
+
+  private async pushUnreadCount(userId: number) {
+    try {
+      await notificationSocketServer.sendUnreadCount(userId);
+    } catch (error) {
+      console.error("Failed to push unread count:", error);
+    }
   }
 
   /**
@@ -64,7 +137,7 @@ export class NotificationService {
     return await this.createNotification({
       userId,
       title: "Subscription Renewal",
-      message: `Your subscription will renew in ${daysUntilRenewal} days. Please ensure your payment method is up to date.`,
+      message: `Your subscription will renew ${daysUntilRenewal === 0 ? "today" : daysUntilRenewal === 1 ? "tomorrow" : `in ${daysUntilRenewal} days`}. Please ensure your payment method is up to date.`,
       type: "subscription_renewal",
       isRead: false,
       relatedEntityType: "subscription"
@@ -116,6 +189,66 @@ export class NotificationService {
     });
   }
 
+  /**
+   * Create a notification about a change to a job request
+   */
+  async createJobRequestNotification(userId: number, jobRequestId: number, title: string, message: string) {
+    return await this.createNotification({
+      userId,
+      title,
+      message,
+      type: "job_request_update",
+      isRead: false,
+      relatedEntityId: jobRequestId,
+      relatedEntityType: "job_request"
+    });
+  }
+
+  /**
+   * Create a notification about a quote or invoice
+   */
+  async createTradeDocumentNotification(userId: number, documentId: number, title: string, message: string) {
+    return await this.createNotification({
+      userId,
+      title,
+      message,
+      type: "trade_document_update",
+      isRead: false,
+      relatedEntityId: documentId,
+      relatedEntityType: "trade_document"
+    });
+  }
+
+  /**
+   * Create a notification about a property or portfolio being shared
+   */
+  async createPropertyShareNotification(userId: number, invitationId: number, title: string, message: string) {
+    return await this.createNotification({
+      userId,
+      title,
+      message,
+      type: "property_update",
+      isRead: false,
+      relatedEntityId: invitationId,
+      relatedEntityType: "property_invitation"
+    });
+  }
+
+  /**
+   * Create a notification about a payment or a change to the user's subscription
+   */
+  async createPaymentNotification(userId: number, title: string, message: string, receiptId?: number) {
+    return await this.createNotification({
+      userId,
+      title,
+      message,
+      type: "payment_update",
+      isRead: false,
+      relatedEntityId: receiptId,
+      relatedEntityType: receiptId ? "receipt" : "subscription"
+    });
+  }
+
   /**
    * Create a system notification for all users or a specific user
    */
@@ -0,0 +1,161 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { RequestHandler, Request, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { NOTIFICATION_SOCKET_PATH, NotificationSocketMessage } from "../shared/notification-types";
+
+// Dead connections are dropped if they miss a ping
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Whether a socket was opened by one of our own pages. Browsers send the
+ * session cookie with cross-site WebSocket requests too, so without this any
+ * site could open a socket as the signed-in user. Pages are served either
+ * from the host the request came in on or from APP_URL.
+ */
+function isAllowedOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return false;
+
+  try {
+    const originUrl = new URL(origin);
+    if (originUrl.host === req.headers.host) return true;
+    return !!process.env.APP_URL && originUrl.origin === new URL(process.env.APP_URL).origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pushes notifications to the browser tabs a user has open. Each tab holds a
+ * WebSocket, authenticated with the same session cookie as the API.
+ */
+export class NotificationSocketServer {
+  private wss = new WebSocketServer({ noServer: true });
+  private connections = new Map<number, Set<WebSocket>>();
+  private alive = new WeakSet<WebSocket>();
+  private sessionIds = new WeakMap<WebSocket, string>();
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  /**
+   * Accept socket connections on the HTTP server. Connections from other
+   * sites are refused, then the session middleware is run against the upgrade
+   * request to find out who is connecting; anyone not signed in is turned away.
+   */
+  attach(server: Server, sessionMiddleware: RequestHandler) {
+    server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      if (new URL(req.url ?? "/", "http://localhost").pathname !== NOTIFICATION_SOCKET_PATH) {
+        // Leave other upgrades, such as Vite's hot reload, to their own handlers
+        return;
+      }
+
+      if (!isAllowedOrigin(req)) {
+        socket.write("HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      sessionMiddleware(req as Request, {} as Response, async () => {
+        try {
+          // Passport keeps the signed-in user's ID on the session
+          const session = (req as Request).session as { passport?: { user?: unknown } } | undefined;
+          const userId = session?.passport?.user;
+          const user = typeof userId === "number" ? await storage.getUser(userId) : undefined;
+
+          if (!user || user.deletedAt || user.suspendedAt) {
+            socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+            socket.destroy();
+            return;
+          }
+
+          const sessionId = (req as Request).sessionID;
+          this.wss.handleUpgrade(req, socket, head, (ws) => this.register(user.id, sessionId, ws));
+        } catch (error) {
+          console.error("Failed to open notification socket:", error);
+          socket.destroy();
+        }
+      });
+    });
+
+    this.heartbeat = setInterval(() => this.checkConnections(), HEARTBEAT_INTERVAL_MS);
+    this.heartbeat.unref();
+  }
+
+  private register(userId: number, sessionId: string, ws: WebSocket) {
+    const sockets = this.connections.get(userId) ?? new Set<WebSocket>();
+    sockets.add(ws);
+    this.connections.set(userId, sockets);
+    this.alive.add(ws);
+    this.sessionIds.set(ws, sessionId);
+
+    ws.on("pong", () => this.alive.add(ws));
+    ws.on("close", () => {
+      sockets.delete(ws);
+      if (sockets.size === 0) {
+        this.connections.delete(userId);
+      }
+    });
+    ws.on("error", (error) => console.error(`Notification socket error for user ${userId}:`, error));
+
+    // Bring the new tab up to date straight away
+    this.sendUnreadCount(userId).catch(error => console.error("Failed to send unread count:", error));
+  }
+
+  // Terminate sockets that didn't answer the last ping, and ping the rest
+  private checkConnections() {
+    for (const sockets of Array.from(this.connections.values())) {
+      for (const ws of Array.from(sockets)) {
+        if (!this.alive.has(ws)) {
+          ws.terminate();
+          continue;
+        }
+        this.alive.delete(ws);
+        ws.ping();
+      }
+    }
+  }
+
+  isConnected(userId: number): boolean {
+    return (this.connections.get(userId)?.size ?? 0) > 0;
+  }
+
+  // Send a message to every tab the user has open
+  publish(userId: number, message: NotificationSocketMessage) {
+    const sockets = this.connections.get(userId);
+    if (!sockets) return;
+
+    const payload = JSON.stringify(message);
+    for (const ws of Array.from(sockets)) {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(payload);
+      }
+    }
+  }
+
+  async sendUnreadCount(userId: number) {
+    if (!this.isConnected(userId)) return;
+    const count = await storage.getUnreadNotificationCount(userId);
+    this.publish(userId, { type: "unread_count", count });
+  }
+
+  // Close a user's sockets, e.g. when they're signed out everywhere, optionally sparing one session's
+  disconnect(userId: number, exceptSessionId?: string) {
+    for (const ws of Array.from(this.connections.get(userId) ?? [])) {
+      if (exceptSessionId && this.sessionIds.get(ws) === exceptSessionId) continue;
+      ws.close(4001, "Signed out");
+    }
+  }
+
+  // Close the sockets opened with one session, e.g. when it's signed out
+  disconnectSession(userId: number, sessionId: string) {
+    for (const ws of Array.from(this.connections.get(userId) ?? [])) {
+      if (this.sessionIds.get(ws) === sessionId) {
+        ws.close(4001, "Signed out");
+      }
+    }
+  }
+}
+
+// Export a singleton instance
+export const notificationSocketServer = new NotificationSocketServer();
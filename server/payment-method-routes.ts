@@ -0,0 +1,74 @@
+import type { Express } from "express";
+import { z } from "zod";
+import {
+  addPaymentMethod,
+  createSetupIntent,
+  listPaymentMethods,
+  removePaymentMethod,
+  setDefaultPaymentMethod,
+} from "./payment-method-service";
+import { requireVerifiedEmail } from "./middleware/account";
+import { requireAuth } from "./middleware/auth";
+
+// Stripe payment method IDs, e.g. pm_1Nq...
+const paymentMethodIdSchema = z.string().regex(/^pm_\w+$/, "Invalid payment method ID");
+
+const addPaymentMethodSchema = z.object({
+  paymentMethodId: paymentMethodIdSchema,
+  makeDefault: z.boolean().optional(),
+});
+
+const setDefaultSchema = z.object({
+  paymentMethodId: paymentMethodIdSchema,
+});
+
+export function registerPaymentMethodRoutes(app: Express) {
+  // Start saving a new card with Stripe.js
+  app.post("/api/subscription/create-setup-intent", requireAuth, requireVerifiedEmail, async (req, res, next) => {
+    try {
+      const setupIntent = await createSetupIntent(req.user!);
+      res.status(201).json(setupIntent);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // List the user's saved cards and which one is the default
+  app.get("/api/payment-methods", requireAuth, async (req, res, next) => {
+    try {
+      res.json(await listPaymentMethods(req.user!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Save a card created in the browser, optionally making it the default
+  app.post("/api/payment-methods", requireAuth, requireVerifiedEmail, async (req, res, next) => {
+    try {
+      const { paymentMethodId, makeDefault } = addPaymentMethodSchema.parse(req.body);
+      res.status(201).json(await addPaymentMethod(req.user!, paymentMethodId, makeDefault));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Choose the card invoices and the subscription are charged to
+  app.post("/api/payment-methods/default", requireAuth, requireVerifiedEmail, async (req, res, next) => {
+    try {
+      const { paymentMethodId } = setDefaultSchema.parse(req.body);
+      res.json(await setDefaultPaymentMethod(req.user!, paymentMethodId));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Remove a saved card
+  app.delete("/api/payment-methods/:id", requireAuth, async (req, res, next) => {
+    try {
+      const paymentMethodId = paymentMethodIdSchema.parse(req.params.id);
+      res.json(await removePaymentMethod(req.user!, paymentMethodId));
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,201 @@
+import Stripe from "stripe";
+import { storage } from "./storage";
+import { User } from "@shared/schema";
+
+/**
+ * Stripe client for payment methods. STRIPE_API_HOST, STRIPE_API_PORT and
+ * STRIPE_API_PROTOCOL point it somewhere other than api.stripe.com, such as
+ * a local stripe-mock for tests:
+ *
+ *   STRIPE_SECRET_KEY=sk_test_123 STRIPE_API_HOST=localhost STRIPE_API_PORT=12111 STRIPE_API_PROTOCOL=http
+ */
+const stripe = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: "2025-04-30.basil" as any,
+      ...(process.env.STRIPE_API_HOST ? { host: process.env.STRIPE_API_HOST } : {}),
+      ...(process.env.STRIPE_API_PORT ? { port: Number(process.env.STRIPE_API_PORT) } : {}),
+      ...(process.env.STRIPE_API_PROTOCOL === "http" ? { protocol: "http" as const } : {}),
+    })
+  : undefined;
+
+export class PaymentMethodError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "PaymentMethodError";
+  }
+}
+
+// A saved card as the payment screens show it
+export interface PaymentMethodSummary {
+  id: string;
+  brand: string;
+  last4: string;
+  expiryMonth: number;
+  expiryYear: number;
+  isDefault: boolean;
+}
+
+export interface PaymentMethodList {
+  paymentMethods: PaymentMethodSummary[];
+  defaultPaymentMethod: string | null;
+}
+
+function requireStripe(): Stripe {
+  if (!stripe) {
+    throw new PaymentMethodError("Payments are not configured", 503);
+  }
+  return stripe;
+}
+
+function idOf(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null;
+  return typeof value === "string" ? value : value.id;
+}
+
+function toSummary(paymentMethod: Stripe.PaymentMethod, defaultId: string | null): PaymentMethodSummary {
+  return {
+    id: paymentMethod.id,
+    brand: paymentMethod.card?.brand ?? paymentMethod.type,
+    last4: paymentMethod.card?.last4 ?? "",
+    expiryMonth: paymentMethod.card?.exp_month ?? 0,
+    expiryYear: paymentMethod.card?.exp_year ?? 0,
+    isDefault: paymentMethod.id === defaultId,
+  };
+}
+
+/**
+ * The user's Stripe customer, created and recorded on the user the first
+ * time it's needed
+ */
+async function ensureCustomer(user: User): Promise<string> {
+  if (user.stripeCustomerId) {
+    return user.stripeCustomerId;
+  }
+
+  const customer = await requireStripe().customers.create({
+    email: user.email,
+    name: user.fullName || user.username,
+    metadata: { userId: String(user.id) },
+  });
+  await storage.updateUserStripeInfo(user.id, { stripeCustomerId: customer.id });
+  return customer.id;
+}
+
+async function getDefaultPaymentMethodId(customerId: string): Promise<string | null> {
+  const customer = await requireStripe().customers.retrieve(customerId);
+  if (customer.deleted) return null;
+  return idOf(customer.invoice_settings?.default_payment_method);
+}
+
+// Fetch a payment method, making sure it belongs to the customer
+async function getOwnPaymentMethod(customerId: string, paymentMethodId: string): Promise<Stripe.PaymentMethod> {
+  const paymentMethod = await requireStripe().paymentMethods.retrieve(paymentMethodId);
+  if (idOf(paymentMethod.customer) !== customerId) {
+    throw new PaymentMethodError("Payment method not found", 404);
+  }
+  return paymentMethod;
+}
+
+/**
+ * Start adding a card. The browser confirms the returned SetupIntent with
+ * Stripe.js, which saves the card to the customer for future payments.
+ */
+export async function createSetupIntent(user: User): Promise<{ clientSecret: string | null; setupIntentId: string }> {
+  const customerId = await ensureCustomer(user);
+  const setupIntent = await requireStripe().setupIntents.create({
+    customer: customerId,
+    usage: "off_session",
+    payment_method_types: ["card"],
+    metadata: { userId: String(user.id) },
+  });
+  return { clientSecret: setupIntent.client_secret, setupIntentId: setupIntent.id };
+}
+
+/**
+ * The user's saved cards, with the one their subscription bills to marked
+ * as the default
+ */
+export async function listPaymentMethods(user: User): Promise<PaymentMethodList> {
+  if (!user.stripeCustomerId) {
+    return { paymentMethods: [], defaultPaymentMethod: null };
+  }
+
+  const [paymentMethods, defaultId] = await Promise.all([
+    requireStripe().paymentMethods.list({ customer: user.stripeCustomerId, type: "card", limit: 100 }),
+    getDefaultPaymentMethodId(user.stripeCustomerId),
+  ]);
+
+  return {
+    paymentMethods: paymentMethods.data.map(paymentMethod => toSummary(paymentMethod, defaultId)),
+    defaultPaymentMethod: defaultId,
+  };
+}
+
+/**
+ * Make a card the one invoices and the user's subscription are charged to
+ */
+export async function setDefaultPaymentMethod(user: User, paymentMethodId: string): Promise<PaymentMethodList> {
+  const customerId = await ensureCustomer(user);
+  await getOwnPaymentMethod(customerId, paymentMethodId);
+
+  await requireStripe().customers.update(customerId, {
+    invoice_settings: { default_payment_method: paymentMethodId },
+  });
+
+  if (user.stripeSubscriptionId) {
+    await requireStripe().subscriptions.update(user.stripeSubscriptionId, {
+      default_payment_method: paymentMethodId,
+    });
+  }
+
+  return listPaymentMethods({ ...user, stripeCustomerId: customerId });
+}
+
+/**
+ * Save a card collected with Stripe.js to the user's customer. The first
+ * card saved becomes the default, as does any card added with makeDefault.
+ */
+export async function addPaymentMethod(user: User, paymentMethodId: string, makeDefault = false): Promise<PaymentMethodList> {
+  const customerId = await ensureCustomer(user);
+  const paymentMethod = await requireStripe().paymentMethods.retrieve(paymentMethodId);
+  const owner = idOf(paymentMethod.customer);
+
+  if (owner && owner !== customerId) {
+    throw new PaymentMethodError("Payment method not found", 404);
+  }
+  if (!owner) {
+    await requireStripe().paymentMethods.attach(paymentMethodId, { customer: customerId });
+  }
+
+  if (makeDefault || !(await getDefaultPaymentMethodId(customerId))) {
+    return setDefaultPaymentMethod({ ...user, stripeCustomerId: customerId }, paymentMethodId);
+  }
+  return listPaymentMethods({ ...user, stripeCustomerId: customerId });
+}
+
+/**
+ * Remove a saved card. If it was the default, another saved card takes its
+ * place; the last card can't be removed while a subscription is billing.
+ */
+export async function removePaymentMethod(user: User, paymentMethodId: string): Promise<PaymentMethodList> {
+  if (!user.stripeCustomerId) {
+    throw new PaymentMethodError("Payment method not found", 404);
+  }
+
+  await getOwnPaymentMethod(user.stripeCustomerId, paymentMethodId);
+  const { paymentMethods, defaultPaymentMethod } = await listPaymentMethods(user);
+
+  if (defaultPaymentMethod === paymentMethodId) {
+    const replacement = paymentMethods.find(paymentMethod => paymentMethod.id !== paymentMethodId);
+    const subscription = await storage.getSubscription(user.id);
+
+    if (replacement) {
+      await setDefaultPaymentMethod(user, replacement.id);
+    } else if (user.stripeSubscriptionId && subscription?.isActive) {
+      throw new PaymentMethodError("Add another card before removing the one your subscription is billed to", 409);
+    }
+  }
+
+  await requireStripe().paymentMethods.detach(paymentMethodId);
+  return listPaymentMethods(user);
+}
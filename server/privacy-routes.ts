@@ -0,0 +1,69 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { comparePasswords } from "./auth";
+import { buildUserDataExport } from "./user-data-service";
+import { accountDeletionService, DELETION_COOLING_OFF_DAYS } from "./account-deletion-service";
+import { User } from "@shared/schema";
+import { requireAuth } from "./middleware/auth";
+
+// Deleting an account needs the password again, so a left-open session can't do it
+const requestDeletionSchema = z.object({
+  password: z.string().min(1),
+});
+
+function toDeletionStatus(user: User) {
+  return {
+    deletionRequestedAt: user.deletionRequestedAt,
+    deletionScheduledFor: user.deletionScheduledFor,
+    coolingOffDays: DELETION_COOLING_OFF_DAYS,
+  };
+}
+
+export function registerPrivacyRoutes(app: Express) {
+  // Download everything stored about the user as a ZIP of JSON, CSV and uploaded files
+  app.post("/api/user/data-export", requireAuth, async (req, res, next) => {
+    try {
+      const archive = await buildUserDataExport(req.user!);
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="data-export-${new Date().toISOString().slice(0, 10)}.zip"`);
+      res.send(archive);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Whether the account is scheduled to be erased, and when
+  app.get("/api/user/deletion", requireAuth, async (req, res) => {
+    res.json(toDeletionStatus(req.user!));
+  });
+
+  // Schedule the account to be erased once the cooling-off period ends
+  app.post("/api/user/deletion", requireAuth, async (req, res, next) => {
+    try {
+      const { password } = requestDeletionSchema.parse(req.body);
+
+      if (!(await comparePasswords(password, req.user!.password))) {
+        return res.status(403).json({ message: "Incorrect password" });
+      }
+
+      const user = await accountDeletionService.requestDeletion(req.user!);
+      res.status(202).json(toDeletionStatus(user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Cancel a scheduled deletion during the cooling-off period
+  app.delete("/api/user/deletion", requireAuth, async (req, res, next) => {
+    try {
+      if (!req.user!.deletionScheduledFor) {
+        return res.status(404).json({ message: "No deletion is scheduled" });
+      }
+
+      const user = await accountDeletionService.cancelDeletion(req.user!);
+      res.json(toDeletionStatus(user));
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Property, PropertyAccess, PropertyAccessRole } from "@shared/schema";
+
+vi.mock("./storage", () => ({
+  storage: {
+    getProperty: vi.fn(),
+    getPropertyAccessGrants: vi.fn(),
+  },
+}));
+
+import { storage } from "./storage";
+import { authorizeProperty, PropertyPermission } from "./property-access";
+
+const OWNER_ID = 1;
+const OTHER_ID = 2;
+
+const property = {
+  id: 10,
+  userId: OWNER_ID,
+  address: "1 Example St",
+  city: "Sydney",
+  state: "NSW",
+  zipCode: "2000",
+  propertyType: "single_family",
+} as Property;
+
+let grants: PropertyAccess[] = [];
+
+function grant(role: PropertyAccessRole, propertyId: number | null, ownerId = OWNER_ID): PropertyAccess {
+  return {
+    id: grants.length + 1,
+    ownerId,
+    userId: OTHER_ID,
+    propertyId,
+    role,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe("authorizeProperty", () => {
+  beforeEach(() => {
+    grants = [];
+    vi.clearAllMocks();
+    vi.mocked(storage.getProperty).mockImplementation(async (id) => (id === property.id ? property : undefined));
+    // Same filter as the query: the user's grants from the owner, for this property or the whole portfolio
+    vi.mocked(storage.getPropertyAccessGrants).mockImplementation(async (userId, ownerId, propertyId) =>
+      grants.filter(g => g.userId === userId && g.ownerId === ownerId && (g.propertyId === propertyId || g.propertyId === null))
+    );
+  });
+
+  it("returns 404 for a property that doesn't exist", async () => {
+    await expect(authorizeProperty(OWNER_ID, 999, "view")).rejects.toMatchObject({ status: 404 });
+  });
+
+  it("returns 404 for an ID that isn't a number, without a lookup", async () => {
+    await expect(authorizeProperty(OWNER_ID, NaN, "view")).rejects.toMatchObject({ status: 404 });
+    expect(storage.getProperty).not.toHaveBeenCalled();
+  });
+
+  it.each<PropertyPermission>(["view", "edit", "owner"])("lets the owner %s", async (permission) => {
+    await expect(authorizeProperty(OWNER_ID, property.id, permission))
+      .resolves.toMatchObject({ id: property.id, accessRole: "owner" });
+  });
+
+  it.each<PropertyPermission>(["view", "edit", "owner"])("stops anyone without a grant from %s", async (permission) => {
+    await expect(authorizeProperty(OTHER_ID, property.id, permission)).rejects.toMatchObject({ status: 403 });
+  });
+
+  const matrix: Array<[PropertyAccessRole, PropertyPermission, boolean]> = [
+    ["viewer", "view", true],
+    ["viewer", "edit", false],
+    ["viewer", "owner", false],
+    ["editor", "view", true],
+    ["editor", "edit", true],
+    ["editor", "owner", false],
+  ];
+
+  for (const scope of ["property", "portfolio"] as const) {
+    for (const [role, permission, permitted] of matrix) {
+      it(`${permitted ? "lets" : "stops"} a ${scope} ${role} ${permission}`, async () => {
+        grants = [grant(role, scope === "property" ? property.id : null)];
+        const result = authorizeProperty(OTHER_ID, property.id, permission);
+
+        if (permitted) {
+          await expect(result).resolves.toMatchObject({ id: property.id, accessRole: role });
+        } else {
+          await expect(result).rejects.toMatchObject({ status: 403 });
+        }
+      });
+    }
+  }
+
+  it("uses the more generous role where grants overlap", async () => {
+    grants = [grant("viewer", property.id), grant("editor", null)];
+    await expect(authorizeProperty(OTHER_ID, property.id, "edit")).resolves.toMatchObject({ accessRole: "editor" });
+  });
+
+  it("ignores grants for other properties", async () => {
+    grants = [grant("editor", 11)];
+    await expect(authorizeProperty(OTHER_ID, property.id, "view")).rejects.toMatchObject({ status: 403 });
+  });
+
+  it("ignores grants from someone who doesn't own the property", async () => {
+    grants = [grant("editor", null, 3)];
+    await expect(authorizeProperty(OTHER_ID, property.id, "view")).rejects.toMatchObject({ status: 403 });
+  });
+});
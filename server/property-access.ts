@@ -0,0 +1,111 @@
+import { storage } from "./storage";
+import { Property, PropertyAccessRole } from "@shared/schema";
+
+export type PropertyAccessLevel = "owner" | PropertyAccessRole;
+
+// What a request needs to do with a property
+export type PropertyPermission = "view" | "edit" | "owner";
+
+const permittedLevels: Record<PropertyPermission, PropertyAccessLevel[]> = {
+  view: ["owner", "editor", "viewer"],
+  edit: ["owner", "editor"],
+  owner: ["owner"],
+};
+
+const accessRank: Record<PropertyAccessLevel, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+/**
+ * Error raised when a user can't reach a property.
+ * The status is picked up by the API error handler.
+ */
+export class PropertyAccessError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "PropertyAccessError";
+  }
+}
+
+export type AccessibleProperty = Property & { accessRole: PropertyAccessLevel };
+
+function higherAccess(a: PropertyAccessLevel | null, b: PropertyAccessLevel): PropertyAccessLevel {
+  return a && accessRank[a] >= accessRank[b] ? a : b;
+}
+
+/**
+ * How a user can reach a property: as its owner, through a grant for the
+ * property or the owner's whole portfolio, or not at all. Where grants
+ * overlap the more generous role applies.
+ */
+export async function getPropertyAccessLevel(userId: number, property: Property): Promise<PropertyAccessLevel | null> {
+  if (property.userId === userId) return "owner";
+
+  const grants = await storage.getPropertyAccessGrants(userId, property.userId, property.id);
+  return grants.reduce<PropertyAccessLevel | null>((level, grant) => higherAccess(level, grant.role), null);
+}
+
+/**
+ * Load a property and check the user may do what the request needs with it.
+ * Throws a 404 if the property doesn't exist and a 403 if the user can't
+ * reach it, or can't do what's asked.
+ */
+export async function authorizeProperty(
+  userId: number,
+  propertyId: number,
+  permission: PropertyPermission
+): Promise<AccessibleProperty> {
+  const property = Number.isNaN(propertyId) ? undefined : await storage.getProperty(propertyId);
+  if (!property) {
+    throw new PropertyAccessError("Property not found", 404);
+  }
+
+  const accessRole = await getPropertyAccessLevel(userId, property);
+  if (!accessRole || !permittedLevels[permission].includes(accessRole)) {
+    throw new PropertyAccessError("Forbidden", 403);
+  }
+
+  return { ...property, accessRole };
+}
+
+/**
+ * The user's own properties and those shared with them, each with the
+ * user's role on it
+ */
+export async function getAccessibleProperties(userId: number): Promise<AccessibleProperty[]> {
+  const [owned, grants] = await Promise.all([
+    storage.getPropertiesByUserId(userId),
+    storage.getPropertyAccessByUserId(userId),
+  ]);
+
+  const roles = new Map<number, PropertyAccessLevel>(owned.map(property => [property.id, "owner"]));
+  const shared = new Map<number, Property>();
+
+  const portfolioGrants = grants.filter(grant => grant.propertyId === null);
+  const portfolios = await Promise.all(portfolioGrants.map(grant => storage.getPropertiesByUserId(grant.ownerId)));
+  portfolioGrants.forEach((grant, i) => {
+    for (const property of portfolios[i]) {
+      shared.set(property.id, property);
+      roles.set(property.id, higherAccess(roles.get(property.id) ?? null, grant.role));
+    }
+  });
+
+  const propertyGrants = grants.filter(grant => grant.propertyId !== null);
+  const granted = await storage.getPropertiesByIds(propertyGrants.map(grant => grant.propertyId!));
+  for (const property of granted) {
+    // A grant only counts while the person who gave it still owns the property
+    const grant = propertyGrants.find(grant => grant.propertyId === property.id && grant.ownerId === property.userId);
+    if (!grant) continue;
+    shared.set(property.id, property);
+    roles.set(property.id, higherAccess(roles.get(property.id) ?? null, grant.role));
+  }
+
+  return [
+    ...owned.map(property => ({ ...property, accessRole: "owner" as const })),
+    ...Array.from(shared.values())
+      .filter(property => property.userId !== userId)
+      .map(property => ({ ...property, accessRole: roles.get(property.id)! })),
+  ];
+}
@@ -0,0 +1,176 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { insertPropertyInvitationSchema, propertyAccessRoleEnum, PropertyAccess, PropertyInvitation } from "@shared/schema";
+import { authorizeProperty } from "./property-access";
+import {
+  acceptPropertyInvitation,
+  createPropertyInvitation,
+  findInvitationByToken,
+  getInvitationDetails,
+} from "./property-sharing-service";
+import { requireAuth } from "./middleware/auth";
+
+// A null or missing propertyId shares the owner's whole portfolio
+const createInvitationSchema = insertPropertyInvitationSchema.pick({
+  email: true,
+  propertyId: true,
+  role: true,
+});
+
+const updateAccessSchema = z.object({
+  role: z.enum(propertyAccessRoleEnum.enumValues),
+});
+
+// The token hash never leaves the server
+function toInvitationResponse({ tokenHash, ...invitation }: PropertyInvitation) {
+  return invitation;
+}
+
+// Add the names and addresses the sharing screens show
+async function describeGrant(grant: PropertyAccess) {
+  const [owner, user, property] = await Promise.all([
+    storage.getUser(grant.ownerId),
+    storage.getUser(grant.userId),
+    grant.propertyId !== null ? storage.getProperty(grant.propertyId) : undefined,
+  ]);
+
+  return {
+    ...grant,
+    ownerName: owner?.fullName || owner?.username || null,
+    userName: user?.fullName || user?.username || null,
+    userEmail: user?.email ?? null,
+    propertyAddress: property?.address ?? null,
+  };
+}
+
+export function registerPropertySharingRoutes(app: Express) {
+  // Access the user has given others, access they've been given and invitations still open
+  app.get("/api/property-access", requireAuth, async (req, res, next) => {
+    try {
+      const [granted, received, invitations] = await Promise.all([
+        storage.getPropertyAccessByOwnerId(req.user!.id),
+        storage.getPropertyAccessByUserId(req.user!.id),
+        storage.getPendingPropertyInvitationsByOwnerId(req.user!.id),
+      ]);
+
+      res.json({
+        granted: await Promise.all(granted.map(describeGrant)),
+        received: await Promise.all(received.map(describeGrant)),
+        invitations: invitations.map(toInvitationResponse),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Invite someone to view or edit one property, or all of the user's properties
+  app.post("/api/property-access/invitations", requireAuth, async (req, res, next) => {
+    try {
+      const validatedData = createInvitationSchema.parse(req.body);
+      const propertyId = validatedData.propertyId ?? null;
+
+      if (propertyId !== null) {
+        await authorizeProperty(req.user!.id, propertyId, "owner");
+      }
+
+      const { invitation, token } = await createPropertyInvitation(req.user!, {
+        email: validatedData.email,
+        propertyId,
+        role: validatedData.role ?? "viewer",
+      });
+
+      res.status(201).json({
+        ...toInvitationResponse(invitation),
+        token,
+        inviteUrl: `${req.protocol}://${req.get("host")}/invitations/${token}`,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/property-access/invitations/:id", requireAuth, async (req, res, next) => {
+    try {
+      const invitation = await storage.getPropertyInvitation(parseInt(req.params.id));
+
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      if (invitation.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      await storage.deletePropertyInvitation(invitation.id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Change the role on a grant the user has given
+  app.patch("/api/property-access/:id", requireAuth, async (req, res, next) => {
+    try {
+      const grant = await storage.getPropertyAccess(parseInt(req.params.id));
+
+      if (!grant) {
+        return res.status(404).json({ message: "Access not found" });
+      }
+
+      if (grant.ownerId !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const { role } = updateAccessSchema.parse(req.body);
+      const updatedGrant = await storage.updatePropertyAccess(grant.id, { role });
+      res.json(await describeGrant(updatedGrant));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // The owner can revoke access, and the person given access can give it up
+  app.delete("/api/property-access/:id", requireAuth, async (req, res, next) => {
+    try {
+      const grant = await storage.getPropertyAccess(parseInt(req.params.id));
+
+      if (!grant) {
+        return res.status(404).json({ message: "Access not found" });
+      }
+
+      if (grant.ownerId !== req.user!.id && grant.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      await storage.deletePropertyAccess(grant.id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // What an invitation offers, so it can be shown before signing in
+  app.get("/api/invitations/:token", async (req, res, next) => {
+    try {
+      const invitation = await findInvitationByToken(req.params.token);
+
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+
+      res.json(await getInvitationDetails(invitation));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/invitations/:token/accept", requireAuth, async (req, res, next) => {
+    try {
+      const grant = await acceptPropertyInvitation(req.params.token, req.user!);
+      res.json(await describeGrant(grant));
+    } catch (error) {
+      next(error);
+    }
+  });
+}
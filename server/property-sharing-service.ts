@@ -0,0 +1,145 @@
+import { createHash, randomBytes } from "crypto";
+import { addDays } from "date-fns";
+import { storage } from "./storage";
+import { notificationService } from "./notification-service";
+import { PropertyAccess, PropertyAccessRole, PropertyInvitation, User } from "@shared/schema";
+import { PropertyAccessError } from "./property-access";
+
+// How long an invitation link stays valid
+const INVITATION_EXPIRY_DAYS = 14;
+
+export function hashInvitationToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export type InvitationStatus = "pending" | "accepted" | "expired";
+
+export function getInvitationStatus(invitation: PropertyInvitation, now: Date = new Date()): InvitationStatus {
+  if (invitation.acceptedAt) return "accepted";
+  return invitation.expiresAt <= now ? "expired" : "pending";
+}
+
+// What's being shared, for messages and the invitation page
+async function describeShare(propertyId: number | null, portfolio: string = "their property portfolio"): Promise<string> {
+  if (propertyId === null) return portfolio;
+  const property = await storage.getProperty(propertyId);
+  return property ? property.address : "a property";
+}
+
+/**
+ * Invite someone by email to view or edit a property, or all of the owner's
+ * properties. The token is only returned here; it can't be recovered later.
+ */
+export async function createPropertyInvitation(
+  owner: User,
+  details: { email: string; propertyId: number | null; role: PropertyAccessRole }
+): Promise<{ invitation: PropertyInvitation; token: string }> {
+  const email = details.email.trim().toLowerCase();
+  if (email === owner.email.toLowerCase()) {
+    throw new PropertyAccessError("You can't invite yourself", 400);
+  }
+
+  const token = randomBytes(32).toString("hex");
+  const invitation = await storage.createPropertyInvitation({
+    ownerId: owner.id,
+    email,
+    propertyId: details.propertyId,
+    role: details.role,
+    tokenHash: hashInvitationToken(token),
+    expiresAt: addDays(new Date(), INVITATION_EXPIRY_DAYS),
+  });
+
+  // Let the invitee know in the app if they already have an account
+  const invitee = await storage.getUserByEmail(email);
+  if (invitee) {
+    try {
+      await notificationService.createPropertyShareNotification(
+        invitee.id,
+        invitation.id,
+        "Property Shared With You",
+        `${owner.fullName || owner.username} has invited you to ${details.role === "editor" ? "manage" : "view"} ${await describeShare(details.propertyId)}.`
+      );
+    } catch (error) {
+      console.error("Failed to send property invitation notification:", error);
+    }
+  }
+
+  return { invitation, token };
+}
+
+export interface InvitationDetails {
+  ownerName: string;
+  sharing: string;
+  propertyId: number | null;
+  role: PropertyAccessRole;
+  email: string;
+  expiresAt: Date;
+  status: InvitationStatus;
+}
+
+export async function findInvitationByToken(token: string): Promise<PropertyInvitation | undefined> {
+  return storage.getPropertyInvitationByTokenHash(hashInvitationToken(token));
+}
+
+export async function getInvitationDetails(invitation: PropertyInvitation): Promise<InvitationDetails> {
+  const owner = await storage.getUser(invitation.ownerId);
+  return {
+    ownerName: owner?.fullName || owner?.username || "A property owner",
+    sharing: await describeShare(invitation.propertyId),
+    propertyId: invitation.propertyId,
+    role: invitation.role,
+    email: invitation.email,
+    expiresAt: invitation.expiresAt,
+    status: getInvitationStatus(invitation),
+  };
+}
+
+/**
+ * Accept an invitation, giving the user the access it offers. Invitations
+ * can only be accepted once, before they expire, by the account they were
+ * sent to.
+ */
+export async function acceptPropertyInvitation(token: string, user: User): Promise<PropertyAccess> {
+  const invitation = await findInvitationByToken(token);
+  if (!invitation) {
+    throw new PropertyAccessError("Invitation not found", 404);
+  }
+
+  const status = getInvitationStatus(invitation);
+  if (status !== "pending") {
+    throw new PropertyAccessError(status === "accepted" ? "Invitation has already been accepted" : "Invitation has expired", 410);
+  }
+
+  if (invitation.email !== user.email.toLowerCase()) {
+    throw new PropertyAccessError("This invitation was sent to a different email address", 403);
+  }
+
+  if (invitation.ownerId === user.id) {
+    throw new PropertyAccessError("You can't accept your own invitation", 400);
+  }
+
+  const accepted = await storage.markPropertyInvitationAccepted(invitation.id, user.id);
+  if (!accepted) {
+    throw new PropertyAccessError("Invitation has already been accepted", 410);
+  }
+
+  const grant = await storage.savePropertyAccess({
+    ownerId: invitation.ownerId,
+    userId: user.id,
+    propertyId: invitation.propertyId,
+    role: invitation.role,
+  });
+
+  try {
+    await notificationService.createPropertyShareNotification(
+      invitation.ownerId,
+      invitation.id,
+      "Invitation Accepted",
+      `${user.fullName || user.username} now has ${invitation.role} access to ${await describeShare(invitation.propertyId, "your property portfolio")}.`
+    );
+  } catch (error) {
+    console.error("Failed to send invitation accepted notification:", error);
+  }
+
+  return grant;
+}
@@ -1,150 +1,284 @@
-import { Receipt } from "@shared/schema";
+import { Receipt, User } from "@shared/schema";
 import fs from "fs";
 import path from "path";
+import PDFDocument from "pdfkit";
+import { v4 as uuidv4 } from "uuid";
 import { storage } from "./storage";
 
-// Simple function to generate a PDF-like receipt (for demo purposes)
-// In a production app, you would use a proper PDF generation library
-export async function generateReceiptHTML(receipt: Receipt): Promise<string> {
-  // Get user information
+// Prices are GST-inclusive, so the GST component is one eleventh of the total
+const GST_DIVISOR = 11;
+
+// Our business details as they appear on tax invoices
+export interface BusinessDetails {
+  name: string;
+  abn: string | null;
+  address: string | null;
+  email: string;
+  phone: string | null;
+}
+
+export function getBusinessDetails(): BusinessDetails {
+  return {
+    name: process.env.BUSINESS_NAME || "EquitysTek",
+    abn: process.env.BUSINESS_ABN || null,
+    address: process.env.BUSINESS_ADDRESS || null,
+    email: process.env.BUSINESS_EMAIL || "support@equitystek.com.au",
+    phone: process.env.BUSINESS_PHONE || null,
+  };
+}
+
+// A line on a receipt, amounts including GST
+export interface ReceiptLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+/**
+ * Read the line items stored with a receipt. Items are saved either as an
+ * array or as { items: [...] }, with a name or description and an amount.
+ * Receipts without items get a single line for the whole amount.
+ */
+export function getReceiptLineItems(receipt: Receipt): ReceiptLineItem[] {
+  const stored = receipt.items as unknown;
+  const rawItems: unknown[] = Array.isArray(stored)
+    ? stored
+    : Array.isArray((stored as { items?: unknown } | null)?.items)
+      ? (stored as { items: unknown[] }).items
+      : [];
+
+  const lineItems = rawItems.flatMap((raw): ReceiptLineItem[] => {
+    const item = raw as Record<string, unknown>;
+    const quantity = Number(item.quantity ?? 1) || 1;
+    const amount = item.amount !== undefined
+      ? Number(item.amount)
+      : Number(item.unitPrice ?? 0) * quantity;
+    if (!Number.isFinite(amount)) return [];
+
+    return [{
+      description: String(item.name ?? item.description ?? "Item"),
+      quantity,
+      unitPrice: item.unitPrice !== undefined ? Number(item.unitPrice) : amount / quantity,
+      amount,
+    }];
+  });
+
+  if (lineItems.length > 0) return lineItems;
+
+  return [{
+    description: defaultDescription(receipt),
+    quantity: 1,
+    unitPrice: receipt.amount,
+    amount: receipt.amount,
+  }];
+}
+
+function defaultDescription(receipt: Receipt): string {
+  return receipt.description || (receipt.type === "subscription" ? "Subscription Payment" : "One-time Payment");
+}
+
+export function calculateReceiptGst(receipt: Receipt): number {
+  return Math.round((receipt.amount / GST_DIVISOR) * 100) / 100;
+}
+
+// Payment methods are stored as Stripe types ("card") or free text ("manual_admin")
+const paymentMethodLabels: Record<string, string> = {
+  card: "Card",
+  au_becs_debit: "BECS Direct Debit",
+  manual_admin: "Manual payment (recorded by admin)",
+};
+
+export function formatPaymentMethod(paymentMethod: string | null): string {
+  if (!paymentMethod) return "Not recorded";
+  return paymentMethodLabels[paymentMethod]
+    ?? paymentMethod.replace(/_/g, " ").replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+export function formatPaymentStatus(paymentStatus: string): string {
+  return paymentStatus.replace(/_/g, " ").replace(/\b\w/g, letter => letter.toUpperCase());
+}
+
+/**
+ * Generate a tax invoice PDF for a receipt. Only the PDF standard fonts are
+ * used, so nothing needs to be fetched.
+ */
+export async function generateReceiptPDF(receipt: Receipt): Promise<Buffer> {
   const user = await storage.getUser(receipt.userId);
   if (!user) {
     throw new Error("User not found");
   }
-  
-  const dateFormatted = new Date(receipt.createdAt).toLocaleDateString('en-AU', {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric'
+
+  return renderReceiptPDF(receipt, user, getBusinessDetails());
+}
+
+function renderReceiptPDF(receipt: Receipt, user: User, business: BusinessDetails): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: 50,
+    info: { Title: `Tax Invoice ${receipt.receiptNumber}`, Author: business.name },
+  });
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const currency = receipt.currency || "AUD";
+  const formatAmount = (amount: number) =>
+    new Intl.NumberFormat("en-AU", { style: "currency", currency }).format(amount);
+  const dateFormatted = new Date(receipt.createdAt).toLocaleDateString("en-AU", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
   });
-  
-  // Generate a simple HTML receipt
-  return `
-    <!DOCTYPE html>
-    <html>
-      <head>
-        <meta charset="utf-8" />
-        <title>Receipt #${receipt.receiptNumber}</title>
-        <style>
-          body {
-            font-family: Arial, sans-serif;
-            line-height: 1.6;
-            color: #333;
-            padding: 20px;
-            max-width: 800px;
-            margin: 0 auto;
-          }
-          .header {
-            text-align: center;
-            margin-bottom: 30px;
-            padding-bottom: 20px;
-            border-bottom: 1px solid #ddd;
-          }
-          .logo {
-            font-size: 24px;
-            font-weight: bold;
-            color: #3b82f6;
-          }
-          .receipt-details {
-            display: flex;
-            justify-content: space-between;
-            margin-bottom: 30px;
-          }
-          .receipt-details div {
-            flex: 1;
-          }
-          .label {
-            font-weight: bold;
-            color: #666;
-            margin-bottom: 5px;
-          }
-          .value {
-            font-size: 16px;
-          }
-          .amount {
-            font-size: 20px;
-            font-weight: bold;
-            color: #16a34a;
-          }
-          .footer {
-            margin-top: 40px;
-            text-align: center;
-            font-size: 12px;
-            color: #666;
-            padding-top: 20px;
-            border-top: 1px solid #ddd;
-          }
-          .payment-details {
-            margin-top: 20px;
-            padding: 15px;
-            background-color: #f8f9fa;
-            border-radius: 5px;
-          }
-        </style>
-      </head>
-      <body>
-        <div class="header">
-          <div class="logo">EquitysTek</div>
-          <div>Property Management Solution</div>
-          <div>ABN: 12 345 678 901</div>
-        </div>
-        
-        <div class="receipt-details">
-          <div>
-            <div class="label">RECEIPT TO:</div>
-            <div class="value">${user.fullName || user.username}</div>
-            <div class="value">${user.email}</div>
-          </div>
-          <div>
-            <div class="label">RECEIPT NUMBER:</div>
-            <div class="value">${receipt.receiptNumber}</div>
-            <div class="label">DATE:</div>
-            <div class="value">${dateFormatted}</div>
-          </div>
-        </div>
-        
-        <div>
-          <div class="label">PAYMENT FOR:</div>
-          <div class="value">${receipt.description || (receipt.type === "subscription" ? "Subscription Payment" : "One-time Payment")}</div>
-        </div>
-        
-        <div class="payment-details">
-          <div class="label">PAYMENT METHOD:</div>
-          <div class="value">Credit Card</div>
-          <div class="label">PAYMENT STATUS:</div>
-          <div class="value">Paid</div>
-          <div class="label">AMOUNT PAID:</div>
-          <div class="amount">$${receipt.amount.toFixed(2)} AUD</div>
-        </div>
-        
-        <div class="footer">
-          <p>This receipt was automatically generated by EquitysTek.</p>
-          <p>For any questions regarding this receipt, please contact support@equitystek.com.au</p>
-          <p>Thank you for your business!</p>
-        </div>
-      </body>
-    </html>
-  `;
+
+  const left = doc.page.margins.left;
+  const right = doc.page.width - doc.page.margins.right;
+  const width = right - left;
+
+  // Business details and document title
+  doc.font("Helvetica-Bold").fontSize(20).fillColor("#3b82f6").text(business.name, left, 50);
+  doc.font("Helvetica").fontSize(9).fillColor("#333333");
+  const businessLines = [
+    business.abn ? `ABN ${business.abn}` : null,
+    business.address,
+    business.email,
+    business.phone,
+  ].filter((line): line is string => Boolean(line));
+  doc.text(businessLines.join("\n"), left, 76);
+
+  doc.font("Helvetica-Bold").fontSize(18).fillColor("#333333")
+    .text("TAX INVOICE", left, 50, { width, align: "right" });
+  doc.font("Helvetica").fontSize(9)
+    .text(`Invoice number: ${receipt.receiptNumber}\nDate of issue: ${dateFormatted}`, left, 74, { width, align: "right" });
+
+  doc.moveTo(left, 140).lineTo(right, 140).strokeColor("#dddddd").stroke();
+
+  // Customer and payment details
+  doc.font("Helvetica-Bold").fontSize(9).fillColor("#666666").text("BILL TO", left, 155);
+  doc.font("Helvetica").fontSize(10).fillColor("#333333")
+    .text(`${user.fullName || user.username}\n${user.email}`, left, 168);
+
+  doc.font("Helvetica-Bold").fontSize(9).fillColor("#666666").text("PAYMENT", left + width / 2, 155);
+  doc.font("Helvetica").fontSize(10).fillColor("#333333").text(
+    `Method: ${formatPaymentMethod(receipt.paymentMethod)}\nStatus: ${formatPaymentStatus(receipt.paymentStatus)}`,
+    left + width / 2,
+    168
+  );
+
+  // Line items
+  const columns = [
+    { label: "Description", x: left, width: width - 240, align: "left" as const },
+    { label: "Qty", x: right - 240, width: 50, align: "right" as const },
+    { label: "Unit price", x: right - 180, width: 85, align: "right" as const },
+    { label: "Amount", x: right - 85, width: 85, align: "right" as const },
+  ];
+
+  let y = 225;
+  doc.rect(left, y - 6, width, 22).fill("#f8f9fa");
+  doc.font("Helvetica-Bold").fontSize(9).fillColor("#666666");
+  for (const column of columns) {
+    doc.text(column.label, column.x, y, { width: column.width, align: column.align });
+  }
+  y += 24;
+
+  doc.font("Helvetica").fontSize(10).fillColor("#333333");
+  for (const item of getReceiptLineItems(receipt)) {
+    const values = [item.description, String(item.quantity), formatAmount(item.unitPrice), formatAmount(item.amount)];
+    const rowHeight = Math.max(...values.map((value, i) => doc.heightOfString(value, { width: columns[i].width })));
+
+    if (y + rowHeight > doc.page.height - 150) {
+      doc.addPage();
+      y = doc.page.margins.top;
+    }
+
+    values.forEach((value, i) => {
+      doc.text(value, columns[i].x, y, { width: columns[i].width, align: columns[i].align });
+    });
+    y += rowHeight + 8;
+    doc.moveTo(left, y - 4).lineTo(right, y - 4).strokeColor("#eeeeee").stroke();
+  }
+
+  // Totals. Amounts include GST, which is shown separately as a tax invoice requires.
+  const gst = calculateReceiptGst(receipt);
+  const totals: Array<[string, string]> = [
+    ["Subtotal (excl. GST)", formatAmount(receipt.amount - gst)],
+    ["GST (10%)", formatAmount(gst)],
+  ];
+
+  y += 10;
+  doc.font("Helvetica").fontSize(10).fillColor("#333333");
+  for (const [label, value] of totals) {
+    doc.text(label, right - 260, y, { width: 170, align: "right" });
+    doc.text(value, right - 85, y, { width: 85, align: "right" });
+    y += 16;
+  }
+
+  const paid = receipt.paymentStatus === "paid" || receipt.paymentStatus === "succeeded";
+  doc.font("Helvetica-Bold").fontSize(12).fillColor(paid ? "#16a34a" : "#dc2626");
+  doc.text(paid ? `Total paid (${currency})` : `Total (${currency})`, right - 260, y + 4, { width: 170, align: "right" });
+  doc.text(formatAmount(receipt.amount), right - 85, y + 4, { width: 85, align: "right" });
+
+  // Footer
+  doc.font("Helvetica").fontSize(8).fillColor("#666666").text(
+    `This tax invoice was generated by ${business.name}. ` +
+    `For any questions regarding this invoice, please contact ${business.email}.`,
+    left,
+    doc.page.height - 90,
+    { width, align: "center" }
+  );
+
+  doc.end();
+  return finished;
 }
 
 // Ensure uploads directory exists for storing generated receipts
 export function ensureReceiptDirectory(): string {
   const receiptDir = path.join(process.cwd(), 'uploads', 'receipts');
-  
+
   if (!fs.existsSync(receiptDir)) {
     fs.mkdirSync(receiptDir, { recursive: true });
   }
-  
+
   return receiptDir;
 }
 
-// Save HTML receipt to file
-export async function saveReceiptToFile(receipt: Receipt, html: string): Promise<string> {
+/**
+ * Get the tax invoice PDF for a receipt, generating it and caching it at
+ * receipts.pdfUrl the first time. The file isn't served statically. Clear
+ * pdfUrl when a receipt's payment details change so the PDF is regenerated,
+ * and delete the old copy with deleteCachedReceiptPDF.
+ */
+export async function getReceiptPDF(receipt: Receipt): Promise<Buffer> {
+  if (receipt.pdfUrl) {
+    const cachedPath = path.join(process.cwd(), receipt.pdfUrl);
+    if (fs.existsSync(cachedPath)) {
+      return fs.readFileSync(cachedPath);
+    }
+  }
+
+  const pdf = await generateReceiptPDF(receipt);
+
   const receiptDir = ensureReceiptDirectory();
-  const filename = `receipt_${receipt.receiptNumber.replace(/[^a-zA-Z0-9]/g, '_')}.html`;
-  const filepath = path.join(receiptDir, filename);
-  
-  fs.writeFileSync(filepath, html);
-  
-  return filepath;
-}
\ No newline at end of file
+  const filename = `receipt_${receipt.receiptNumber.replace(/[^a-zA-Z0-9]/g, '_')}_${uuidv4()}.pdf`;
+  fs.writeFileSync(path.join(receiptDir, filename), pdf);
+  await storage.setReceiptPdfUrl(receipt.id, `/uploads/receipts/${filename}`);
+
+  return pdf;
+}
+
+/**
+ * Delete the PDF cached for a receipt before its pdfUrl was cleared
+ */
+export function deleteCachedReceiptPDF(receipt: Receipt) {
+  if (!receipt.pdfUrl) return;
+
+  fs.unlink(path.join(process.cwd(), receipt.pdfUrl), (error) => {
+    if (error && error.code !== 'ENOENT') {
+      console.error(`Failed to delete cached PDF for receipt ${receipt.id}:`, error);
+    }
+  });
+}
@@ -9,14 +9,41 @@ import {
   insertMaintenanceRecordSchema,
   insertValuationSchema,
   insertSubscriptionPlanSchema,
-  insertSubscriptionSchema
+  insertSubscriptionSchema,
+  type Valuation,
+  type ValuationComparable,
+  type ComparableSale
 } from "@shared/schema";
 import { requireAdmin } from "./middleware/admin";
+import { requireAuth } from "./middleware/auth";
+import { auditTrail } from "./middleware/audit";
 import { verifyDatabaseRegion } from "./db";
 import { registerAdminRoutes } from "./admin-routes";
 import { registerTradespersonRoutes } from "./tradesperson-routes";
 import { registerNotificationRoutes } from "./notification-routes";
+import { registerMarketDataRoutes } from "./market-data-routes";
+import { registerMaintenancePlanRoutes } from "./maintenance-plan-routes";
+import { registerJobRequestRoutes } from "./job-request-routes";
+import { registerTradeDocumentRoutes } from "./trade-document-routes";
+import { registerDocumentRoutes } from "./document-routes";
+import { registerLoanRoutes } from "./loan-routes";
+import { registerLedgerRoutes } from "./ledger-routes";
+import { registerTaxPackRoutes } from "./tax-pack-routes";
+import { registerPropertySharingRoutes } from "./property-sharing-routes";
+import { registerPrivacyRoutes } from "./privacy-routes";
+import { registerPaymentMethodRoutes } from "./payment-method-routes";
+import { registerAccountRoutes } from "./account-routes";
+import { registerTwoFactorRoutes } from "./two-factor-routes";
+import { registerSessionRoutes } from "./session-routes";
+import { registerTradespersonDirectoryRoutes } from "./tradesperson-directory-routes";
+import { requireVerifiedEmail } from "./middleware/account";
+import { authorizeProperty, getAccessibleProperties } from "./property-access";
+import { billingSyncService } from "./billing-sync-service";
+import { notificationSocketServer } from "./notification-socket";
+import { applyDefaultMaintenancePlan } from "./maintenance-plan-service";
+import { isSuspendedForNonPayment } from "./subscription-scheduler";
 import { upload, processImage, getImageUrl } from "./image-upload";
+import { valuationService } from "./valuation-service";
 import path from "path";
 
 // Australian Data Protection middleware
@@ -38,21 +65,6 @@ function australianDataProtection(req: Request, res: Response, next: NextFunctio
   next();
 }
 
-// Middleware to log data access for compliance purposes
-function dataAccessAudit(req: Request, res: Response, next: NextFunction) {
-  // In a production system, this would log to a secure audit trail
-  const timestamp = new Date().toISOString();
-  const userId = req.user ? (req.user as any).id : 'unauthenticated';
-  const method = req.method;
-  const path = req.path;
-  const ip = req.ip;
-  
-  // Sample log format for Australian privacy compliance
-  console.log(`[AUS-PRIVACY-AUDIT] ${timestamp} | User: ${userId} | ${method} ${path} | IP: ${ip}`);
-  
-  next();
-}
-
 // Initialize Stripe
 // Check if we're in test mode or live mode
 let stripeMode = "test";
@@ -67,6 +79,21 @@ const stripe = process.env.STRIPE_SECRET_KEY
 
 // Serve uploaded files
 function setupStaticFileServing(app: Express) {
+  // Stored documents are private and are only downloaded through /api/documents
+  app.use('/uploads/documents', (req, res) => {
+    res.status(404).json({ message: "Not found" });
+  });
+
+  // Receipts are only downloaded by their owner and admins, through /api/receipts
+  app.use('/uploads/receipts', (req, res) => {
+    res.status(404).json({ message: "Not found" });
+  });
+
+  // Accepted quotes and invoices are only downloaded by their parties, through /api/quotes and /api/invoices
+  app.use('/uploads/trade-documents', (req, res) => {
+    res.status(404).json({ message: "Not found" });
+  });
+
   // Serve static files from the uploads directory
   app.use('/uploads', express.static(path.join(process.cwd(), 'uploads')));
 }
@@ -74,11 +101,6 @@ function setupStaticFileServing(app: Express) {
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup static file serving for uploads
   setupStaticFileServing(app);
-  // Register admin routes for the admin dashboard
-  registerAdminRoutes(app);
-  
-  // Register tradesperson routes
-  registerTradespersonRoutes(app);
   
   // Verify that we're using an Australian database region
   const isAustralianRegion = await verifyDatabaseRegion();
@@ -99,8 +121,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Apply Australian data protection middleware to all routes
   app.use(australianDataProtection);
   
-  // Apply data access audit middleware to all routes
-  app.use(dataAccessAudit);
+  // Record mutating API calls and admin requests in the audit log. This must
+  // come before every route, since a handler that responds ends the chain.
+  app.use(auditTrail);
   
   // Add compliance information to API responses
   app.use((req: Request, res: Response, next: NextFunction) => {
@@ -140,21 +163,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next();
   });
   
-  // Set up authentication routes
-  setupAuth(app);
+  // Set up authentication routes. Routes that check the signed-in user must be
+  // registered after this, or passport won't have run for them yet.
+  const sessionMiddleware = setupAuth(app);
 
-  // Check authentication middleware
-  const requireAuth = (req: any, res: any, next: any) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Unauthorized" });
-    }
-    next();
-  };
+  // Register admin routes for the admin dashboard
+  registerAdminRoutes(app);
+
+  // Register tradesperson routes
+  registerTradespersonRoutes(app);
+
+  // Register suburb market data routes
+  registerMarketDataRoutes(app);
+
+  // Register notification routes
+  registerNotificationRoutes(app);
+
+  // Register maintenance plan routes
+  registerMaintenancePlanRoutes(app);
+
+  // Register job request routes
+  registerJobRequestRoutes(app);
+
+  // Register quote and invoice routes
+  registerTradeDocumentRoutes(app);
+
+  // Register document manager routes
+  registerDocumentRoutes(app);
+
+  // Register loan and equity routes
+  registerLoanRoutes(app);
+
+  // Register rental ledger and investment metrics routes
+  registerLedgerRoutes(app);
+
+  // Register end of financial year tax pack routes
+  registerTaxPackRoutes(app);
+
+  // Register property sharing and invitation routes
+  registerPropertySharingRoutes(app);
+
+  // Register data export and account deletion routes
+  registerPrivacyRoutes(app);
+
+  // Register saved payment method routes
+  registerPaymentMethodRoutes(app);
+
+  // Register password reset and email verification routes
+  registerAccountRoutes(app);
+
+  // Register two-factor authentication routes; the login step needs the session, so they go after setupAuth
+  registerTwoFactorRoutes(app);
+
+  // Register signed-in session routes, which also need the session
+  registerSessionRoutes(app);
+
+  // Register the tradesperson directory and favourites, which need the session for the signed-in owner
+  registerTradespersonDirectoryRoutes(app);
 
   // Properties API
   app.get("/api/properties", requireAuth, async (req, res, next) => {
     try {
-      const properties = await storage.getPropertiesByUserId(req.user!.id);
+      // The user's own properties and any shared with them
+      const properties = await getAccessibleProperties(req.user!.id);
       res.json(properties);
     } catch (error) {
       next(error);
@@ -194,16 +265,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/properties/:id", requireAuth, async (req, res, next) => {
     try {
-      const property = await storage.getProperty(parseInt(req.params.id));
-      
-      if (!property) {
-        return res.status(404).json({ message: "Property not found" });
-      }
-      
-      if (property.userId !== req.user!.id) {
-        return res.status(403).json({ message: "Forbidden" });
-      }
-      
+      const property = await authorizeProperty(req.user!.id, parseInt(req.params.id), "view");
       res.json(property);
     } catch (error) {
       next(error);
@@ -212,6 +274,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/properties", requireAuth, async (req, res, next) => {
     try {
+      if (await isSuspendedForNonPayment(req.user!.id)) {
+        return res.status(402).json({ message: "Your subscription is suspended for non-payment. Update your payment method to add properties." });
+      }
+
       const validatedData = insertPropertySchema.parse({
         ...req.body,
         userId: req.user!.id
@@ -219,38 +285,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const property = await storage.createProperty(validatedData);
       
+      // Start the property off with the recurring tasks suggested for its type and age
+      try {
+        await applyDefaultMaintenancePlan(property);
+      } catch (planError) {
+        console.error("Failed to create default maintenance plan:", planError);
+      }
+      
       // Update property count in subscription after adding a new property
       try {
-        // Get all properties for this user to calculate the new count
-        const userProperties = await storage.getPropertiesByUserId(req.user!.id);
-        const propertyCount = userProperties.length;
-        
-        // Update subscription with new property count
-        const updatedSubscription = await storage.updateSubscriptionPropertyCount(req.user!.id, propertyCount);
-        
-        // If using Stripe, update the subscription quantity in Stripe
-        if (stripe && req.user!.stripeSubscriptionId) {
-          // Get the active subscription from the database
-          const dbSubscription = await storage.getSubscription(req.user!.id);
-          
-          if (dbSubscription && dbSubscription.isActive) {
-            // Update the Stripe subscription with the new property count
-            await stripe.subscriptions.update(req.user!.stripeSubscriptionId, {
-              proration_behavior: 'create_prorations',
-              items: [{
-                id: dbSubscription.id.toString(), // This is a simplification - you'll need the actual Stripe item ID
-                quantity: propertyCount
-              }]
-            });
-          }
-        }
+        // Recount the user's properties and bill for them in Stripe
+        const updatedSubscription = await billingSyncService.syncPropertyCount(req.user!.id);
         
         // Include updated subscription information in the response
-        property.subscriptionInfo = {
-          propertyCount,
-          currentPrice: updatedSubscription.currentPrice,
-          nextBillingDate: updatedSubscription.nextBillingDate
-        };
+        if (updatedSubscription) {
+          property.subscriptionInfo = {
+            propertyCount: updatedSubscription.propertyCount,
+            currentPrice: updatedSubscription.currentPrice,
+            nextBillingDate: updatedSubscription.nextBillingDate
+          };
+        }
       } catch (subscriptionError) {
         // Log but don't fail the property creation if subscription update fails
         console.error("Failed to update subscription after property creation:", subscriptionError);
@@ -265,19 +319,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/properties/:id", requireAuth, async (req, res, next) => {
     try {
       const propertyId = parseInt(req.params.id);
-      const property = await storage.getProperty(propertyId);
-      
-      if (!property) {
-        return res.status(404).json({ message: "Property not found" });
-      }
-      
-      if (property.userId !== req.user!.id) {
-        return res.status(403).json({ message: "Forbidden" });
-      }
+      const property = await authorizeProperty(req.user!.id, propertyId, "edit");
       
+      // Editors can change the details but the property stays with its owner
       const validatedData = insertPropertySchema.parse({
         ...req.body,
-        userId: req.user!.id
+        userId: property.userId
       });
       
       const updatedProperty = await storage.updateProperty(propertyId, validatedData);
@@ -290,43 +337,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/properties/:id", requireAuth, async (req, res, next) => {
     try {
       const propertyId = parseInt(req.params.id);
-      const property = await storage.getProperty(propertyId);
-      
-      if (!property) {
-        return res.status(404).json({ message: "Property not found" });
-      }
-      
-      if (property.userId !== req.user!.id) {
-        return res.status(403).json({ message: "Forbidden" });
-      }
+      await authorizeProperty(req.user!.id, propertyId, "owner");
       
       await storage.deleteProperty(propertyId);
       
       // Update property count in subscription after deletion
       try {
-        // Get all properties for this user to calculate the new count
-        const userProperties = await storage.getPropertiesByUserId(req.user!.id);
-        const propertyCount = userProperties.length;
-        
-        // Update subscription with new property count
-        const updatedSubscription = await storage.updateSubscriptionPropertyCount(req.user!.id, propertyCount);
-        
-        // If using Stripe, update the subscription quantity in Stripe
-        if (stripe && req.user!.stripeSubscriptionId) {
-          // Get the active subscription from the database
-          const dbSubscription = await storage.getSubscription(req.user!.id);
-          
-          if (dbSubscription && dbSubscription.isActive) {
-            // Update the Stripe subscription with the new property count
-            await stripe.subscriptions.update(req.user!.stripeSubscriptionId, {
-              proration_behavior: 'create_prorations',
-              items: [{
-                id: dbSubscription.id.toString(), // This is a simplification - you'll need the actual Stripe item ID
-                quantity: propertyCount
-              }]
-            });
-          }
-        }
+        // Recount the user's properties and bill for them in Stripe
+        await billingSyncService.syncPropertyCount(req.user!.id);
       } catch (subscriptionError) {
         // Log but don't fail the property deletion if subscription update fails
         console.error("Failed to update subscription after property deletion:", subscriptionError);
@@ -344,17 +362,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const propertyId = req.query.propertyId ? parseInt(req.query.propertyId as string) : undefined;
       
       if (propertyId) {
-        const property = await storage.getProperty(propertyId);
-        
-        if (!property || property.userId !== req.user!.id) {
-          return res.status(403).json({ message: "Forbidden" });
-        }
+        await authorizeProperty(req.user!.id, propertyId, "view");
         
         const records = await storage.getMaintenanceRecordsByPropertyId(propertyId);
         return res.json(records);
       }
       
-      const properties = await storage.getPropertiesByUserId(req.user!.id);
+      const properties = await getAccessibleProperties(req.user!.id);
       const propertyIds = properties.map(p => p.id);
       const records = await storage.getMaintenanceRecordsByPropertyIds(propertyIds);
       
@@ -366,14 +380,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/maintenance", requireAuth, async (req, res, next) => {
     try {
-      const { propertyId } = req.body;
-      const property = await storage.getProperty(parseInt(propertyId));
-      
-      if (!property || property.userId !== req.user!.id) {
-        return res.status(403).json({ message: "Forbidden" });
-      }
-      
       const validatedData = insertMaintenanceRecordSchema.parse(req.body);
+      await authorizeProperty(req.user!.id, validatedData.propertyId, "edit");
+      
       const record = await storage.createMaintenanceRecord(validatedData);
       
       res.status(201).json(record);
@@ -391,13 +400,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Maintenance record not found" });
       }
       
-      const property = await storage.getProperty(record.propertyId);
-      
-      if (property?.userId !== req.user!.id) {
-        return res.status(403).json({ message: "Forbidden" });
-      }
+      await authorizeProperty(req.user!.id, record.propertyId, "edit");
       
       const validatedData = insertMaintenanceRecordSchema.parse(req.body);
+      
+      // Moving a record to another property needs edit access there too
+      if (validatedData.propertyId !== record.propertyId) {
+        await authorizeProperty(req.user!.id, validatedData.propertyId, "edit");
+      }
       const updatedRecord = await storage.updateMaintenanceRecord(recordId, validatedData);
       
       res.json(updatedRecord);
@@ -415,11 +425,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Maintenance record not found" });
       }
       
-      const property = await storage.getProperty(record.propertyId);
-      
-      if (property?.userId !== req.user!.id) {
-        return res.status(403).json({ message: "Forbidden" });
-      }
+      await authorizeProperty(req.user!.id, record.propertyId, "edit");
       
       await storage.deleteMaintenanceRecord(recordId);
       res.status(204).send();
@@ -432,41 +438,158 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/valuations/:propertyId", requireAuth, async (req, res, next) => {
     try {
       const propertyId = parseInt(req.params.propertyId);
-      const property = await storage.getProperty(propertyId);
+      await authorizeProperty(req.user!.id, propertyId, "view");
+      
+      const valuation = await storage.getValuationByPropertyId(propertyId);
       
-      if (!property) {
-        return res.status(404).json({ message: "Property not found" });
+      if (!valuation) {
+        return res.status(404).json({ message: "Valuation not found" });
       }
       
-      if (property.userId !== req.user!.id) {
-        return res.status(403).json({ message: "Forbidden" });
+      res.json(valuation);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/valuations", requireAuth, async (req, res, next) => {
+    try {
+      const validatedData = manualValuationSchema.parse(req.body);
+      await authorizeProperty(req.user!.id, validatedData.propertyId, "edit");
+      
+      const valuation = await storage.createValuation({ ...validatedData, source: "manual" });
+      
+      res.status(201).json(valuation);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Valuation history for a property, oldest first, filterable by date and paged
+  app.get("/api/properties/:id/valuations", requireAuth, async (req, res, next) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      await authorizeProperty(req.user!.id, propertyId, "view");
+      
+      const query = valuationHistoryQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid query parameters", errors: query.error.errors });
       }
       
-      const valuation = await storage.getValuationByPropertyId(propertyId);
+      const { from, to, page, pageSize } = query.data;
+      const total = await storage.countValuationsByPropertyId(propertyId, { from, to });
+      const history = await storage.getValuationsByPropertyId(propertyId, {
+        from,
+        to,
+        limit: pageSize,
+        offset: (page - 1) * pageSize
+      });
+      
+      // Paging details go in headers so the body stays a plain time series
+      res.setHeader('X-Total-Count', total.toString());
+      res.setHeader('X-Page', page.toString());
+      res.setHeader('X-Page-Size', pageSize.toString());
+      
+      res.json(history.map(toValuationHistoryEntry));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Record a manual valuation against a property
+  app.post("/api/properties/:id/valuations", requireAuth, async (req, res, next) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      await authorizeProperty(req.user!.id, propertyId, "edit");
+      
+      // Accept the date/value field names used by the valuation history pages
+      const { date, value, ...body } = req.body;
+      const validatedData = manualValuationSchema.parse({
+        ...body,
+        equitystekValue: body.equitystekValue ?? value,
+        valuationDate: body.valuationDate ?? date,
+        propertyId
+      });
+      
+      const valuation = await storage.createValuation({ ...validatedData, source: "manual" });
+      
+      res.status(201).json(toValuationHistoryEntry(valuation));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.patch("/api/valuations/:id", requireAuth, async (req, res, next) => {
+    try {
+      const valuationId = parseInt(req.params.id);
+      const valuation = await storage.getValuation(valuationId);
       
       if (!valuation) {
         return res.status(404).json({ message: "Valuation not found" });
       }
       
-      res.json(valuation);
+      await authorizeProperty(req.user!.id, valuation.propertyId, "edit");
+      
+      // A valuation cannot be moved to another property
+      const validatedData = manualValuationSchema.omit({ propertyId: true }).partial().parse(req.body);
+      const updatedValuation = await storage.updateValuation(valuationId, validatedData);
+      
+      res.json(toValuationHistoryEntry(updatedValuation));
     } catch (error) {
       next(error);
     }
   });
 
-  app.post("/api/valuations", requireAuth, async (req, res, next) => {
+  app.delete("/api/valuations/:id", requireAuth, async (req, res, next) => {
     try {
-      const { propertyId } = req.body;
-      const property = await storage.getProperty(parseInt(propertyId));
+      const valuationId = parseInt(req.params.id);
+      const valuation = await storage.getValuation(valuationId);
       
-      if (!property || property.userId !== req.user!.id) {
-        return res.status(403).json({ message: "Forbidden" });
+      if (!valuation) {
+        return res.status(404).json({ message: "Valuation not found" });
       }
       
-      const validatedData = insertValuationSchema.parse(req.body);
-      const valuation = await storage.createValuation(validatedData);
+      await authorizeProperty(req.user!.id, valuation.propertyId, "edit");
       
-      res.status(201).json(valuation);
+      await storage.deleteValuation(valuationId);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Comparable sales used for a computed valuation, most similar first
+  app.get("/api/valuations/:id/comparables", requireAuth, async (req, res, next) => {
+    try {
+      const valuationId = parseInt(req.params.id);
+      const valuation = await storage.getValuation(valuationId);
+      
+      if (!valuation) {
+        return res.status(404).json({ message: "Valuation not found" });
+      }
+      
+      await authorizeProperty(req.user!.id, valuation.propertyId, "view");
+      
+      const comparables = await storage.getValuationComparables(valuationId);
+      res.json(comparables.map(toComparableSaleEntry));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Compute a valuation on the server from the property, its maintenance history
+  // and regional parameters, and store the result
+  app.post("/api/properties/:id/valuations/compute", requireAuth, async (req, res, next) => {
+    try {
+      const property = await authorizeProperty(req.user!.id, parseInt(req.params.id), "edit");
+      
+      const valuation = await valuationService.computeAndStoreValuation(property);
+      const comparables = await storage.getValuationComparables(valuation.id);
+      
+      res.status(201).json({
+        ...valuation,
+        comparableSales: comparables.map(toComparableSaleEntry)
+      });
     } catch (error) {
       next(error);
     }
@@ -474,7 +597,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Stripe subscription (normal route with auth)
   if (stripe) {
-    app.post('/api/create-subscription', requireAuth, async (req, res, next) => {
+    app.post('/api/create-subscription', requireAuth, requireVerifiedEmail, async (req, res, next) => {
       try {
         const user = req.user!;
         
@@ -562,6 +685,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           stripeSubscriptionId: subscription.id 
         });
         
+        // Remember which item to update when the property count changes
+        const dbSubscription = await storage.getSubscription(user.id);
+        if (dbSubscription && subscription.items.data[0]) {
+          await storage.updateSubscription(dbSubscription.id, {
+            stripePriceId: priceId,
+            stripeSubscriptionItemId: subscription.items.data[0].id
+          });
+        }
+        
         res.json({
           subscriptionId: subscription.id,
           clientSecret: paymentIntent.client_secret,
@@ -729,7 +861,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Download receipt as HTML (can be converted to PDF in a production app)
+  // Download receipt as a tax invoice PDF
   app.get("/api/receipts/:id/download", requireAuth, async (req, res, next) => {
     try {
       const receipt = await storage.getReceipt(parseInt(req.params.id));
@@ -743,17 +875,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Import the receipt service
-      const { generateReceiptHTML } = await import("./receipt-service");
+      const { getReceiptPDF } = await import("./receipt-service");
       
-      // Generate the HTML receipt
-      const html = await generateReceiptHTML(receipt);
+      // Generate the PDF, or use the one generated earlier
+      const pdf = await getReceiptPDF(receipt);
       
-      // Set headers for HTML download
-      res.setHeader('Content-Type', 'text/html');
-      res.setHeader('Content-Disposition', `attachment; filename="receipt_${receipt.receiptNumber}.html"`);
+      // Set headers for PDF download
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="receipt_${receipt.receiptNumber}.pdf"`);
       
-      // Send the HTML receipt
-      res.send(html);
+      // Send the PDF receipt
+      res.send(pdf);
     } catch (error) {
       next(error);
     }
@@ -794,9 +926,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server
   const httpServer = createServer(app);
   
+  // Push notifications to signed-in browsers over a WebSocket
+  notificationSocketServer.attach(httpServer, sessionMiddleware);
+  
   return httpServer;
 }
 
+// Valuations entered by users. Only the valuation service records automated
+// valuations and the calculation behind them.
+const manualValuationSchema = insertValuationSchema.omit({ source: true, calculationDetails: true });
+
+// Query parameters accepted by the valuation history endpoint
+const valuationHistoryQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// Add the date/value fields the valuation history charts plot
+function toValuationHistoryEntry(valuation: Valuation) {
+  return {
+    ...valuation,
+    date: valuation.valuationDate,
+    value: valuation.equitystekValue
+  };
+}
+
+// Flatten a stored comparable into the shape used by valuation reports
+function toComparableSaleEntry(comparable: ValuationComparable & { sale: ComparableSale }) {
+  return {
+    id: comparable.sale.id,
+    address: comparable.sale.address,
+    suburb: comparable.sale.suburb,
+    propertyType: comparable.sale.propertyType,
+    salePrice: comparable.sale.salePrice,
+    saleDate: comparable.sale.saleDate,
+    squareFeet: comparable.sale.squareFeet,
+    bedrooms: comparable.sale.bedrooms,
+    bathrooms: comparable.sale.bathrooms,
+    similarityScore: comparable.similarityScore,
+    adjustedPrice: comparable.adjustedPrice,
+    adjustments: comparable.adjustments
+  };
+}
+
 // Helper function to initialize subscription plans
 async function initializeSubscriptionPlans() {
   try {
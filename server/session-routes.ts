@@ -0,0 +1,34 @@
+import type { Express } from "express";
+import { listUserSessions, revokeOtherSessions, revokeSession } from "./session-service";
+import { requireAuth } from "./middleware/auth";
+
+export function registerSessionRoutes(app: Express) {
+  // The devices the user is signed in on
+  app.get("/api/user/sessions", requireAuth, async (req, res, next) => {
+    try {
+      res.json(await listUserSessions(req.user!.id, req.sessionID));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Sign out every other device
+  app.post("/api/user/sessions/revoke-others", requireAuth, async (req, res, next) => {
+    try {
+      const revoked = await revokeOtherSessions(req.user!.id, req.sessionID);
+      res.json({ revoked });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Sign out one device
+  app.delete("/api/user/sessions/:id", requireAuth, async (req, res, next) => {
+    try {
+      await revokeSession(req.user!.id, req.params.id, req.sessionID);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,114 @@
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { notificationSocketServer } from "./notification-socket";
+
+export class SessionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "SessionError";
+  }
+}
+
+// A signed-in session as the devices list shows it
+export interface UserSessionSummary {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date | null;
+  lastSeenAt: Date | null;
+  expiresAt: Date;
+  current: boolean;
+}
+
+/**
+ * The ID a session is listed and revoked by. The session ID itself is what
+ * the cookie carries, so it never leaves the server.
+ */
+export function sessionPublicId(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
+
+const browsers: Array<[RegExp, string]> = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\/|FxiOS/, "Firefox"],
+  [/Chrome\/|CriOS/, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const platforms: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+/**
+ * A readable name for the device a session was signed in from, e.g.
+ * "Chrome on Windows", from its user agent
+ */
+export function describeDevice(userAgent: string | null | undefined): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = platforms.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? "Unknown device";
+}
+
+/**
+ * The user's signed-in sessions, with the one making the request marked as
+ * current
+ */
+export async function listUserSessions(userId: number, currentSid: string): Promise<UserSessionSummary[]> {
+  const sessions = await storage.getUserSessions(userId);
+
+  return sessions.map(({ sid, data, expiresAt }) => ({
+    id: sessionPublicId(sid),
+    device: describeDevice(data.userAgent),
+    userAgent: data.userAgent ?? null,
+    ipAddress: data.ipAddress ?? null,
+    createdAt: data.signedInAt ? new Date(data.signedInAt) : null,
+    lastSeenAt: data.lastSeenAt ? new Date(data.lastSeenAt) : null,
+    expiresAt,
+    current: sid === currentSid,
+  }));
+}
+
+/**
+ * Sign out one of the user's other sessions, e.g. on a lost laptop
+ */
+export async function revokeSession(userId: number, id: string, currentSid: string): Promise<void> {
+  const session = (await storage.getUserSessions(userId)).find(({ sid }) => sessionPublicId(sid) === id);
+  if (!session) {
+    throw new SessionError("Session not found", 404);
+  }
+  if (session.sid === currentSid) {
+    throw new SessionError("Log out to end the session you're using", 400);
+  }
+
+  await storage.deleteUserSession(userId, session.sid);
+  notificationSocketServer.disconnectSession(userId, session.sid);
+}
+
+/**
+ * Sign out every session but the one making the request. Returns how many
+ * were signed out.
+ */
+export async function revokeOtherSessions(userId: number, currentSid: string): Promise<number> {
+  const revoked = await storage.deleteUserSessions(userId, currentSid);
+  notificationSocketServer.disconnect(userId, currentSid);
+  return revoked;
+}
+
+/**
+ * Sign out every session, e.g. after a password reset
+ */
+export async function revokeAllSessions(userId: number): Promise<void> {
+  await storage.deleteUserSessions(userId);
+  notificationSocketServer.disconnect(userId);
+}
@@ -1,30 +1,154 @@
-import { users, properties, maintenanceRecords, valuations, subscriptions, subscriptionPlans, receipts, userRoleEnum } from "@shared/schema";
-import { type User, type InsertUser, type Property, type InsertProperty, type MaintenanceRecord, type InsertMaintenanceRecord, type Valuation, type InsertValuation, type Subscription, type InsertSubscription, type SubscriptionPlan, type InsertSubscriptionPlan, type Receipt, type InsertReceipt } from "@shared/schema";
-import { notifications, type Notification, type InsertNotification } from "../shared/notification-types";
+import { users, properties, maintenanceRecords, valuations, subscriptions, subscriptionPlans, receipts, comparableSales, valuationComparables, rentalListings, maintenancePlanTasks, jobRequests, tradeDocuments, documentFolders, documents, stripeEvents, billingSyncQueue, propertyLoans, propertyLedgerEntries, propertyAccess, propertyInvitations, auditEvents, authTokens, twoFactorCredentials, twoFactorRecoveryCodes, postcodeLocations, favoriteTradespeople, userRoleEnum, dunningStateEnum } from "@shared/schema";
+import { type User, type InsertUser, type Property, type InsertProperty, type MaintenanceRecord, type InsertMaintenanceRecord, type Valuation, type InsertValuation, type Subscription, type InsertSubscription, type SubscriptionPlan, type InsertSubscriptionPlan, type Receipt, type InsertReceipt, type ComparableSale, type InsertComparableSale, type ValuationComparable, type InsertValuationComparable, type RentalListing, type InsertRentalListing, type MaintenancePlanTask, type InsertMaintenancePlanTask, type JobRequest, type InsertJobRequest, type JobRequestStatus, type TradeDocument, type InsertTradeDocument, type TradeDocumentType, type TradeDocumentStatus, type DocumentFolder, type InsertDocumentFolder, type Document, type InsertDocument, type BillingSyncQueueEntry, type InsertBillingSyncQueueEntry, type PropertyLoan, type InsertPropertyLoan, type PropertyLedgerEntry, type InsertPropertyLedgerEntry, type LedgerCategory, type PropertyAccess, type InsertPropertyAccess, type PropertyInvitation, type InsertPropertyInvitation, type AuditEvent, type InsertAuditEvent, type DunningState, type AuthToken, type InsertAuthToken, type AuthTokenPurpose, type TwoFactorCredential, type InsertPostcodeLocation } from "@shared/schema";
+import { notifications, notificationPreferences, emailOutbox, type Notification, type InsertNotification, type NotificationPreferences, type NotificationChannels, type DigestFrequency, type EmailOutboxEntry, type InsertEmailOutboxEntry, type EmailStatus } from "../shared/notification-types";
 import { db } from "./db";
-import { eq, and, inArray, sql } from "drizzle-orm";
-import session from "express-session";
+import { eq, and, or, inArray, sql, desc, asc, gt, gte, lt, lte, ilike, isNull } from "drizzle-orm";
+import session, { type SessionData } from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
 
 const PostgresSessionStore = connectPg(session);
 
+// A signed-in session from the session store
+export interface StoredSession {
+  sid: string;
+  data: SessionData;
+  expiresAt: Date;
+}
+
+// Criteria for finding candidate comparable sales
+export interface ComparableSaleSearch {
+  state?: string;
+  suburb?: string;
+  postcode?: string;
+  propertyType?: Property["propertyType"];
+  soldAfter?: Date;
+  limit?: number;
+}
+
+// Criteria for finding rental listings in a suburb
+export interface RentalListingSearch {
+  suburb: string;
+  state?: string;
+  propertyType?: Property["propertyType"];
+  leasedAfter?: Date;
+}
+
+// Criteria for listing tradespeople in the directory
+export interface TradespersonSearch {
+  specialtyType?: string;
+  ids?: number[];
+}
+
+// A tradesperson with the ratings and job count from their completed jobs
+export interface TradespersonListing {
+  user: User;
+  averageRating: number | null;
+  ratingCount: number;
+  completedJobCount: number;
+}
+
+// A job a tradesperson has completed, with where it was, for their public profile
+export interface CompletedJob {
+  job: JobRequest;
+  city: string;
+  state: string;
+}
+
+// The centre of a postcode, averaged over its localities
+export interface PostcodeCentroid {
+  postcode: string;
+  latitude: number;
+  longitude: number;
+}
+
+// Fields changed when a job request moves between states
+export type JobRequestUpdate = Partial<Omit<JobRequest, "id" | "propertyId" | "ownerId" | "tradespersonId" | "createdAt" | "updatedAt">>;
+
+// Filters for listing quotes and invoices
+export interface TradeDocumentFilter {
+  type?: TradeDocumentType;
+  status?: TradeDocumentStatus;
+  propertyId?: number;
+}
+
+// Filters for listing a user's documents. A folderId of null means the root folder.
+export interface DocumentFilter {
+  folderId?: number | null;
+  propertyId?: number;
+  maintenanceRecordId?: number;
+  starred?: boolean;
+  search?: string;
+}
+
+// Options for querying a property's valuation history
+export interface ValuationHistoryFilter {
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+// Filters for a property's ledger. Dates are inclusive.
+export interface LedgerFilter {
+  from?: Date;
+  to?: Date;
+  category?: LedgerCategory;
+}
+
+// Filters for the admin audit log. Dates are inclusive.
+export interface AuditEventFilter {
+  actorId?: number;
+  action?: string;
+  resourceType?: string;
+  resourceId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+// Filters for the admin view of the email outbox
+export interface EmailOutboxFilter {
+  status?: EmailStatus;
+  userId?: number;
+  limit?: number;
+  offset?: number;
+}
+
+// Key for the advisory lock that keeps audit events appending one at a time
+const AUDIT_CHAIN_LOCK = 7_140_016;
+
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
+  getUsersByIds(ids: number[]): Promise<User[]>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
-  updateUserStripeInfo(userId: number, stripeInfo: { stripeCustomerId?: string, stripeSubscriptionId?: string }): Promise<User>;
+  createUser(user: InsertUser & { emailVerified?: boolean }): Promise<User>;
+  getUserByStripeCustomerId(stripeCustomerId: string): Promise<User | undefined>;
+  updateUserStripeInfo(userId: number, stripeInfo: { stripeCustomerId?: string, stripeSubscriptionId?: string | null }): Promise<User>;
   getAllUsers(): Promise<User[]>;  
   updateUser(userId: number, userData: Partial<InsertUser>): Promise<User>;
-  resetUserPassword(userId: number, newPassword: string): Promise<User>;
+  updateUserPassword(userId: number, hashedPassword: string, mustChangePassword: boolean): Promise<User>;
+  setUserEmailVerified(userId: number, verified: boolean): Promise<User>;
+  setUserSuspended(userId: number, suspendedAt: Date | null): Promise<User>;
+  setUserLicense(userId: number, verifiedAt: Date | null, expiresAt: Date | null): Promise<User>;
+  updateServiceArea(userId: number, servicePostcode: string | null, serviceRadiusKm: number | null): Promise<User>;
+  getUserSessions(userId: number): Promise<StoredSession[]>;
+  deleteUserSession(userId: number, sid: string): Promise<boolean>;
+  deleteUserSessions(userId: number, exceptSid?: string): Promise<number>;
+  scheduleUserDeletion(userId: number, scheduledFor: Date | null): Promise<User>;
+  getUsersDueForDeletion(asOf: Date): Promise<User[]>;
+  eraseUser(userId: number, anonymised: Pick<User, "email" | "username" | "password">): Promise<void>;
 
   // Property methods
   getProperty(id: number): Promise<Property | undefined>;
   getPropertiesByUserId(userId: number): Promise<Property[]>;
+  getPropertiesByIds(ids: number[]): Promise<Property[]>;
   createProperty(property: InsertProperty): Promise<Property>;
   updateProperty(id: number, property: Partial<InsertProperty>): Promise<Property>;
+  // Also deletes the property's maintenance records, valuations and jobs
   deleteProperty(id: number): Promise<void>;
   getAllProperties(): Promise<Property[]>;
 
@@ -38,10 +162,77 @@ export interface IStorage {
   deleteMaintenanceRecord(id: number): Promise<void>;
   getAllMaintenanceRecords(): Promise<MaintenanceRecord[]>;
 
+  // Maintenance plan methods
+  getMaintenancePlanTask(id: number): Promise<MaintenancePlanTask | undefined>;
+  getMaintenancePlanTasksByPropertyId(propertyId: number): Promise<MaintenancePlanTask[]>;
+  getDueMaintenancePlanTasks(asOf: Date): Promise<MaintenancePlanTask[]>;
+  createMaintenancePlanTask(task: InsertMaintenancePlanTask): Promise<MaintenancePlanTask>;
+  updateMaintenancePlanTask(id: number, task: Partial<InsertMaintenancePlanTask>): Promise<MaintenancePlanTask>;
+  claimDueMaintenancePlanTask(id: number, dueDate: Date, nextDueDate: Date): Promise<MaintenancePlanTask | undefined>;
+  setMaintenancePlanTaskRecord(id: number, maintenanceRecordId: number): Promise<void>;
+  deleteMaintenancePlanTask(id: number): Promise<void>;
+
+  // Job request methods
+  getJobRequest(id: number): Promise<JobRequest | undefined>;
+  getJobRequestsByOwnerId(ownerId: number, status?: JobRequestStatus): Promise<JobRequest[]>;
+  getJobRequestsByTradespersonId(tradespersonId: number, status?: JobRequestStatus): Promise<JobRequest[]>;
+  createJobRequest(jobRequest: InsertJobRequest): Promise<JobRequest>;
+  updateJobRequestStatus(id: number, fromStatus: JobRequestStatus, changes: JobRequestUpdate): Promise<JobRequest | undefined>;
+  completeJobRequest(id: number, fromStatus: JobRequestStatus, changes: JobRequestUpdate, record: InsertMaintenanceRecord): Promise<JobRequest | undefined>;
+  reviewJobRequest(id: number, rating: number, review: string | null): Promise<JobRequest | undefined>;
+  getCompletedJobsByTradespersonId(tradespersonId: number): Promise<CompletedJob[]>;
+
+  // Tradesperson directory methods
+  searchTradespeople(search: TradespersonSearch): Promise<TradespersonListing[]>;
+  createPostcodeLocations(locations: InsertPostcodeLocation[]): Promise<number>;
+  getPostcodeCentroids(postcodes: string[]): Promise<PostcodeCentroid[]>;
+  getFavoriteTradespersonIds(userId: number): Promise<number[]>;
+  addFavoriteTradesperson(userId: number, tradespersonId: number): Promise<void>;
+  removeFavoriteTradesperson(userId: number, tradespersonId: number): Promise<boolean>;
+
+  // Quote and invoice methods
+  getTradeDocument(id: number): Promise<TradeDocument | undefined>;
+  getTradeDocumentsByOwnerId(ownerId: number, filter?: TradeDocumentFilter): Promise<TradeDocument[]>;
+  getTradeDocumentsByTradespersonId(tradespersonId: number, filter?: TradeDocumentFilter): Promise<TradeDocument[]>;
+  createTradeDocument(document: InsertTradeDocument): Promise<TradeDocument>;
+  respondToTradeDocument(id: number, status: TradeDocumentStatus, responseNote?: string | null): Promise<TradeDocument | undefined>;
+  setTradeDocumentUrl(id: number, documentUrl: string): Promise<TradeDocument>;
+  generateTradeDocumentNumber(type: TradeDocumentType): Promise<string>;
+
+  // Document methods
+  getDocumentFolder(id: number): Promise<DocumentFolder | undefined>;
+  getDocumentFoldersByUserId(userId: number): Promise<DocumentFolder[]>;
+  createDocumentFolder(folder: InsertDocumentFolder): Promise<DocumentFolder>;
+  updateDocumentFolder(id: number, folder: Partial<InsertDocumentFolder>): Promise<DocumentFolder>;
+  deleteDocumentFolder(id: number): Promise<void>;
+  getDocument(id: number): Promise<Document | undefined>;
+  getDocumentsByUserId(userId: number, filter?: DocumentFilter): Promise<Document[]>;
+  getDocumentsByFolderIds(folderIds: number[]): Promise<Document[]>;
+  getDocumentCountsByFolder(userId: number): Promise<Map<number, number>>;
+  getDocumentStorageUsed(userId: number): Promise<number>;
+  createDocument(document: InsertDocument): Promise<Document>;
+  updateDocument(id: number, document: Partial<InsertDocument>): Promise<Document>;
+  deleteDocuments(ids: number[]): Promise<void>;
+
   // Valuation methods
+  getValuation(id: number): Promise<Valuation | undefined>;
   getValuationByPropertyId(propertyId: number): Promise<Valuation | undefined>;
+  getValuationsByPropertyId(propertyId: number, filter?: ValuationHistoryFilter): Promise<Valuation[]>;
+  countValuationsByPropertyId(propertyId: number, filter?: ValuationHistoryFilter): Promise<number>;
   createValuation(valuation: InsertValuation): Promise<Valuation>;
-  updateValuation(id: number, valuation: InsertValuation): Promise<Valuation>;
+  updateValuation(id: number, valuation: Partial<InsertValuation>): Promise<Valuation>;
+  deleteValuation(id: number): Promise<void>;
+
+  // Comparable sales methods
+  createComparableSales(sales: InsertComparableSale[]): Promise<number>;
+  searchComparableSales(search: ComparableSaleSearch): Promise<ComparableSale[]>;
+  createValuationComparables(comparables: InsertValuationComparable[]): Promise<ValuationComparable[]>;
+  createValuationWithComparables(valuation: InsertValuation, comparables: Omit<InsertValuationComparable, "valuationId">[]): Promise<Valuation>;
+  getValuationComparables(valuationId: number): Promise<Array<ValuationComparable & { sale: ComparableSale }>>;
+
+  // Rental listing methods
+  createRentalListings(listings: InsertRentalListing[]): Promise<number>;
+  searchRentalListings(search: RentalListingSearch): Promise<RentalListing[]>;
 
   // Subscription Plan methods
   getSubscriptionPlans(): Promise<SubscriptionPlan[]>;
@@ -58,6 +249,9 @@ export interface IStorage {
   updateSubscription(id: number, subscription: Partial<InsertSubscription>): Promise<Subscription>;
   updateSubscriptionPropertyCount(userId: number, propertyCount: number): Promise<Subscription>;
   calculateSubscriptionPrice(planId: number, propertyCount: number): Promise<number>;
+  getSubscriptionsRenewingBetween(from: Date, to: Date): Promise<Subscription[]>;
+  getSubscriptionsDueForDunning(asOf: Date): Promise<Subscription[]>;
+  getSubscriptionsInDunning(state?: DunningState): Promise<Subscription[]>;
   
   // Receipt methods
   getReceipt(id: number): Promise<Receipt | undefined>;
@@ -65,8 +259,94 @@ export interface IStorage {
   getAllReceipts(): Promise<Receipt[]>;
   createReceipt(receipt: InsertReceipt): Promise<Receipt>;
   getReceiptByPaymentIntentId(paymentIntentId: string): Promise<Receipt | undefined>;
+  getReceiptByStripeInvoiceId(stripeInvoiceId: string): Promise<Receipt | undefined>;
+  updateReceipt(id: number, receipt: Partial<InsertReceipt>): Promise<Receipt>;
+  setReceiptPdfUrl(id: number, pdfUrl: string | null): Promise<Receipt>;
   generateReceiptNumber(): Promise<string>;
 
+  // Property loan methods
+  getPropertyLoan(id: number): Promise<PropertyLoan | undefined>;
+  getPropertyLoansByPropertyId(propertyId: number): Promise<PropertyLoan[]>;
+  getPropertyLoansByPropertyIds(propertyIds: number[]): Promise<PropertyLoan[]>;
+  createPropertyLoan(loan: InsertPropertyLoan): Promise<PropertyLoan>;
+  updatePropertyLoan(id: number, loan: Partial<InsertPropertyLoan>): Promise<PropertyLoan>;
+  deletePropertyLoan(id: number): Promise<void>;
+
+  // Property ledger methods
+  getLedgerEntry(id: number): Promise<PropertyLedgerEntry | undefined>;
+  getLedgerEntriesByPropertyId(propertyId: number, filter?: LedgerFilter): Promise<PropertyLedgerEntry[]>;
+  createLedgerEntry(entry: InsertPropertyLedgerEntry): Promise<PropertyLedgerEntry>;
+  updateLedgerEntry(id: number, entry: Partial<InsertPropertyLedgerEntry>): Promise<PropertyLedgerEntry>;
+  deleteLedgerEntry(id: number): Promise<void>;
+
+  // Property sharing methods
+  getPropertyAccess(id: number): Promise<PropertyAccess | undefined>;
+  getPropertyAccessByUserId(userId: number): Promise<PropertyAccess[]>;
+  getPropertyAccessByOwnerId(ownerId: number): Promise<PropertyAccess[]>;
+  getPropertyAccessGrants(userId: number, ownerId: number, propertyId: number): Promise<PropertyAccess[]>;
+  savePropertyAccess(grant: InsertPropertyAccess): Promise<PropertyAccess>;
+  updatePropertyAccess(id: number, grant: Partial<InsertPropertyAccess>): Promise<PropertyAccess>;
+  deletePropertyAccess(id: number): Promise<void>;
+  getPropertyInvitation(id: number): Promise<PropertyInvitation | undefined>;
+  getPropertyInvitationByTokenHash(tokenHash: string): Promise<PropertyInvitation | undefined>;
+  getPendingPropertyInvitationsByOwnerId(ownerId: number): Promise<PropertyInvitation[]>;
+  createPropertyInvitation(invitation: InsertPropertyInvitation): Promise<PropertyInvitation>;
+  markPropertyInvitationAccepted(id: number, userId: number): Promise<PropertyInvitation | undefined>;
+  deletePropertyInvitation(id: number): Promise<void>;
+
+  // Billing sync queue
+  getBillingSyncQueue(): Promise<BillingSyncQueueEntry[]>;
+  getDueBillingSyncEntries(asOf: Date): Promise<BillingSyncQueueEntry[]>;
+  getBillingSyncEntry(subscriptionId: number): Promise<BillingSyncQueueEntry | undefined>;
+  saveBillingSyncEntry(entry: InsertBillingSyncQueueEntry): Promise<BillingSyncQueueEntry>;
+  deleteBillingSyncEntry(subscriptionId: number): Promise<void>;
+
+  // Password reset and email verification tokens
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose, asOf: Date): Promise<AuthToken | undefined>;
+  invalidateAuthTokens(userId: number, purpose: AuthTokenPurpose): Promise<void>;
+
+  // Two-factor authentication
+  getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined>;
+  saveTwoFactorSecret(userId: number, secret: string): Promise<TwoFactorCredential>;
+  recordTwoFactorStep(userId: number, step: number): Promise<boolean>;
+  enableTwoFactor(userId: number, recoveryCodeHashes: string[]): Promise<User>;
+  disableTwoFactor(userId: number): Promise<User>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: number, codeHash: string, asOf: Date): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: number): Promise<number>;
+
+  // Audit log methods
+  getAuditEvents(filter?: AuditEventFilter): Promise<AuditEvent[]>;
+  getAuditEventsAfter(afterId: number, limit: number): Promise<AuditEvent[]>;
+  appendAuditEvent(buildEvent: (previousHash: string | null) => InsertAuditEvent): Promise<AuditEvent>;
+
+  // Stripe webhook events
+  claimStripeEvent(id: string, type: string): Promise<boolean>;
+  releaseStripeEvent(id: string): Promise<void>;
+
+  // Notification methods
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotification(id: number): Promise<Notification | undefined>;
+  getNotificationsByUserId(userId: number): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  markNotificationAsRead(id: number): Promise<Notification>;
+  markAllNotificationsAsRead(userId: number): Promise<void>;
+  deleteNotification(id: number): Promise<void>;
+
+  // Notification preference methods
+  getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined>;
+  saveNotificationPreferences(userId: number, preferences: { channels: Partial<NotificationChannels>; digestFrequency: DigestFrequency }): Promise<NotificationPreferences>;
+  recordDigestSent(userId: number, sentAt: Date): Promise<void>;
+
+  // Email outbox methods
+  createEmail(email: InsertEmailOutboxEntry): Promise<EmailOutboxEntry>;
+  getDueEmails(asOf: Date, limit: number): Promise<EmailOutboxEntry[]>;
+  getHeldEmails(): Promise<EmailOutboxEntry[]>;
+  updateEmail(id: number, updates: Partial<EmailOutboxEntry>): Promise<EmailOutboxEntry>;
+  markEmailsDigested(ids: number[], sentAt: Date): Promise<void>;
+  getEmailOutbox(filter?: EmailOutboxFilter): Promise<EmailOutboxEntry[]>;
+
   // Session store
   sessionStore: session.Store;
 }
@@ -95,17 +375,80 @@ export class DatabaseStorage implements IStorage {
     return updatedUser;
   }
 
-  async resetUserPassword(userId: number, newPassword: string): Promise<User> {
-    // In a real implementation, we would hash the password here
-    // For this admin interface, we'll assume the password comes pre-hashed
+  // The password must already be hashed with hashPassword
+  async updateUserPassword(userId: number, hashedPassword: string, mustChangePassword: boolean): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ password: hashedPassword, mustChangePassword })
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser;
+  }
+
+  async setUserEmailVerified(userId: number, verified: boolean): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ emailVerified: verified })
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser;
+  }
+
+  async setUserSuspended(userId: number, suspendedAt: Date | null): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ suspendedAt })
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser;
+  }
+
+  // Pass a null verifiedAt when the licence number hasn't been, or can no longer be, checked
+  async setUserLicense(userId: number, verifiedAt: Date | null, expiresAt: Date | null): Promise<User> {
     const [updatedUser] = await db
       .update(users)
-      .set({ password: newPassword })
+      .set({ licenseVerifiedAt: verifiedAt, licenseExpiresAt: expiresAt })
       .where(eq(users.id, userId))
       .returning();
     return updatedUser;
   }
 
+  async updateServiceArea(userId: number, servicePostcode: string | null, serviceRadiusKm: number | null): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ servicePostcode, serviceRadiusKm })
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser;
+  }
+
+  // The user's unexpired sessions, most recently extended first
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const result = await db.execute<{ sid: string; sess: SessionData; expire: Date | string }>(sql`
+      select sid, sess, expire from session
+      where (sess -> 'passport' ->> 'user') = ${String(userId)} and expire > now()
+      order by expire desc
+    `);
+    return result.rows.map(row => ({ sid: row.sid, data: row.sess, expiresAt: new Date(row.expire) }));
+  }
+
+  async deleteUserSession(userId: number, sid: string): Promise<boolean> {
+    const result = await db.execute(sql`
+      delete from session where sid = ${sid} and (sess -> 'passport' ->> 'user') = ${String(userId)}
+    `);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Sign the user out everywhere, or everywhere but one session, by removing their sessions from the session store
+  async deleteUserSessions(userId: number, exceptSid?: string): Promise<number> {
+    const result = await db.execute(sql`
+      delete from session
+      where (sess -> 'passport' ->> 'user') = ${String(userId)}
+      ${exceptSid ? sql`and sid <> ${exceptSid}` : sql``}
+    `);
+    return result.rowCount ?? 0;
+  }
+
   async getAllProperties(): Promise<Property[]> {
     return await db.select().from(properties);
   }
@@ -136,6 +479,11 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUsersByIds(ids: number[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(users).where(inArray(users.id, ids));
+  }
+
   async getUserByEmail(email: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.email, email));
     return user;
@@ -146,14 +494,106 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createUser(user: InsertUser): Promise<User> {
+  async createUser(user: InsertUser & { emailVerified?: boolean }): Promise<User> {
     const [newUser] = await db.insert(users).values(user).returning();
     return newUser;
   }
 
+  async getUserByStripeCustomerId(stripeCustomerId: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.stripeCustomerId, stripeCustomerId));
+    return user;
+  }
+
+  // Pass null to cancel a pending deletion
+  async scheduleUserDeletion(userId: number, scheduledFor: Date | null): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ deletionRequestedAt: scheduledFor ? new Date() : null, deletionScheduledFor: scheduledFor })
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser;
+  }
+
+  async getUsersDueForDeletion(asOf: Date): Promise<User[]> {
+    return db.select().from(users)
+      .where(and(lte(users.deletionScheduledFor, asOf), isNull(users.deletedAt)));
+  }
+
+  /**
+   * Erase a user's data in one transaction. Their properties and everything
+   * recorded against them, documents, notifications, sharing and subscription
+   * are deleted. Receipts are kept for tax purposes, as are jobs and invoices
+   * they did as a tradesperson for other owners, so the user row stays
+   * behind as an anonymised placeholder those records can point at.
+   */
+  async eraseUser(userId: number, anonymised: Pick<User, "email" | "username" | "password">): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId));
+      if (!user) return;
+
+      const propertyIds = (await tx.select({ id: properties.id }).from(properties).where(eq(properties.userId, userId)))
+        .map(property => property.id);
+
+      if (propertyIds.length > 0) {
+        // These reference maintenance records, so they go before them
+        await tx.delete(tradeDocuments).where(inArray(tradeDocuments.propertyId, propertyIds));
+        await tx.delete(jobRequests).where(inArray(jobRequests.propertyId, propertyIds));
+        await tx.delete(valuations).where(inArray(valuations.propertyId, propertyIds));
+        await tx.delete(maintenanceRecords).where(inArray(maintenanceRecords.propertyId, propertyIds));
+        // Loans, ledger entries, plan tasks and sharing go with the properties
+        await tx.delete(properties).where(inArray(properties.id, propertyIds));
+      }
+
+      await tx.delete(documents).where(eq(documents.userId, userId));
+      await tx.delete(documentFolders).where(eq(documentFolders.userId, userId));
+      await tx.delete(notifications).where(eq(notifications.userId, userId));
+      await tx.delete(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+      await tx.delete(emailOutbox).where(eq(emailOutbox.userId, userId));
+      await tx.delete(propertyAccess).where(or(eq(propertyAccess.ownerId, userId), eq(propertyAccess.userId, userId)));
+      await tx.delete(propertyInvitations).where(or(
+        eq(propertyInvitations.ownerId, userId),
+        eq(propertyInvitations.email, user.email.toLowerCase())
+      ));
+      await tx.delete(subscriptions).where(eq(subscriptions.userId, userId));
+      await tx.delete(authTokens).where(eq(authTokens.userId, userId));
+      await tx.delete(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.delete(favoriteTradespeople).where(or(
+        eq(favoriteTradespeople.userId, userId),
+        eq(favoriteTradespeople.tradespersonId, userId)
+      ));
+
+      // Receipts are kept, but the generated PDFs carry the user's name and email
+      await tx.update(receipts).set({ pdfUrl: null }).where(eq(receipts.userId, userId));
+
+      await tx.update(users)
+        .set({
+          ...anonymised,
+          fullName: null,
+          specialtyType: null,
+          licenseNumber: null,
+          servicePostcode: null,
+          serviceRadiusKm: null,
+          licenseVerifiedAt: null,
+          licenseExpiresAt: null,
+          propertyCount: null,
+          stripeCustomerId: null,
+          stripeSubscriptionId: null,
+          deletionRequestedAt: null,
+          deletionScheduledFor: null,
+          twoFactorEnabled: false,
+          deletedAt: new Date(),
+        })
+        .where(eq(users.id, userId));
+
+      // Sign the user out everywhere
+      await tx.execute(sql`delete from session where (sess -> 'passport' ->> 'user') = ${String(userId)}`);
+    });
+  }
+
   async updateUserStripeInfo(
     userId: number,
-    stripeInfo: { stripeCustomerId?: string; stripeSubscriptionId?: string }
+    stripeInfo: { stripeCustomerId?: string; stripeSubscriptionId?: string | null }
   ): Promise<User> {
     const [updatedUser] = await db
       .update(users)
@@ -173,6 +613,11 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(properties).where(eq(properties.userId, userId));
   }
 
+  async getPropertiesByIds(ids: number[]): Promise<Property[]> {
+    if (ids.length === 0) return [];
+    return db.select().from(properties).where(inArray(properties.id, ids));
+  }
+
   async createProperty(property: InsertProperty): Promise<Property> {
     const [newProperty] = await db.insert(properties).values(property).returning();
     return newProperty;
@@ -188,7 +633,15 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteProperty(id: number): Promise<void> {
-    await db.delete(properties).where(eq(properties.id, id));
+    await db.transaction(async (tx) => {
+      // These reference maintenance records, so they go before them
+      await tx.delete(tradeDocuments).where(eq(tradeDocuments.propertyId, id));
+      await tx.delete(jobRequests).where(eq(jobRequests.propertyId, id));
+      await tx.delete(valuations).where(eq(valuations.propertyId, id));
+      await tx.delete(maintenanceRecords).where(eq(maintenanceRecords.propertyId, id));
+      // Loans, ledger entries, plan tasks and sharing go with the property
+      await tx.delete(properties).where(eq(properties.id, id));
+    });
   }
 
   // Maintenance record methods
@@ -214,7 +667,7 @@ export class DatabaseStorage implements IStorage {
     return newRecord;
   }
 
-  async updateMaintenanceRecord(id: number, record: InsertMaintenanceRecord): Promise<MaintenanceRecord> {
+  async updateMaintenanceRecord(id: number, record: Partial<InsertMaintenanceRecord>): Promise<MaintenanceRecord> {
     const [updatedRecord] = await db
       .update(maintenanceRecords)
       .set(record)
@@ -227,18 +680,284 @@ export class DatabaseStorage implements IStorage {
     await db.delete(maintenanceRecords).where(eq(maintenanceRecords.id, id));
   }
 
+  // Maintenance plan methods
+  async getMaintenancePlanTask(id: number): Promise<MaintenancePlanTask | undefined> {
+    const [task] = await db.select().from(maintenancePlanTasks).where(eq(maintenancePlanTasks.id, id));
+    return task;
+  }
+
+  async getMaintenancePlanTasksByPropertyId(propertyId: number): Promise<MaintenancePlanTask[]> {
+    return db.select().from(maintenancePlanTasks)
+      .where(eq(maintenancePlanTasks.propertyId, propertyId))
+      .orderBy(asc(maintenancePlanTasks.nextDueDate));
+  }
+
+  async getDueMaintenancePlanTasks(asOf: Date): Promise<MaintenancePlanTask[]> {
+    return db.select().from(maintenancePlanTasks)
+      .where(and(
+        eq(maintenancePlanTasks.isActive, true),
+        lte(maintenancePlanTasks.nextDueDate, asOf)
+      ))
+      .orderBy(asc(maintenancePlanTasks.nextDueDate));
+  }
+
+  async createMaintenancePlanTask(task: InsertMaintenancePlanTask): Promise<MaintenancePlanTask> {
+    const [newTask] = await db.insert(maintenancePlanTasks).values(task).returning();
+    return newTask;
+  }
+
+  async updateMaintenancePlanTask(id: number, task: Partial<InsertMaintenancePlanTask>): Promise<MaintenancePlanTask> {
+    const [updatedTask] = await db
+      .update(maintenancePlanTasks)
+      .set({ ...task, updatedAt: new Date() })
+      .where(eq(maintenancePlanTasks.id, id))
+      .returning();
+    return updatedTask;
+  }
+
+  /**
+   * Move a due task on to its next due date. The update only succeeds if the
+   * task is still due on the expected date, so a task is never triggered twice.
+   */
+  async claimDueMaintenancePlanTask(id: number, dueDate: Date, nextDueDate: Date): Promise<MaintenancePlanTask | undefined> {
+    const [claimedTask] = await db
+      .update(maintenancePlanTasks)
+      .set({ nextDueDate, lastTriggeredAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(maintenancePlanTasks.id, id),
+        eq(maintenancePlanTasks.nextDueDate, dueDate)
+      ))
+      .returning();
+    return claimedTask;
+  }
+
+  async setMaintenancePlanTaskRecord(id: number, maintenanceRecordId: number): Promise<void> {
+    await db
+      .update(maintenancePlanTasks)
+      .set({ lastMaintenanceRecordId: maintenanceRecordId })
+      .where(eq(maintenancePlanTasks.id, id));
+  }
+
+  async deleteMaintenancePlanTask(id: number): Promise<void> {
+    await db.delete(maintenancePlanTasks).where(eq(maintenancePlanTasks.id, id));
+  }
+
+  // Job request methods
+  async getJobRequest(id: number): Promise<JobRequest | undefined> {
+    const [jobRequest] = await db.select().from(jobRequests).where(eq(jobRequests.id, id));
+    return jobRequest;
+  }
+
+  async getJobRequestsByOwnerId(ownerId: number, status?: JobRequestStatus): Promise<JobRequest[]> {
+    return db.select().from(jobRequests)
+      .where(and(
+        eq(jobRequests.ownerId, ownerId),
+        status ? eq(jobRequests.status, status) : undefined
+      ))
+      .orderBy(desc(jobRequests.createdAt));
+  }
+
+  async getJobRequestsByTradespersonId(tradespersonId: number, status?: JobRequestStatus): Promise<JobRequest[]> {
+    return db.select().from(jobRequests)
+      .where(and(
+        eq(jobRequests.tradespersonId, tradespersonId),
+        status ? eq(jobRequests.status, status) : undefined
+      ))
+      .orderBy(desc(jobRequests.createdAt));
+  }
+
+  async createJobRequest(jobRequest: InsertJobRequest): Promise<JobRequest> {
+    const [newJobRequest] = await db.insert(jobRequests).values(jobRequest).returning();
+    return newJobRequest;
+  }
+
+  /**
+   * Update a job request only if it is still in the expected status, so two
+   * concurrent transitions can't both succeed
+   */
+  async updateJobRequestStatus(id: number, fromStatus: JobRequestStatus, changes: JobRequestUpdate): Promise<JobRequest | undefined> {
+    const [updatedJobRequest] = await db
+      .update(jobRequests)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(jobRequests.id, id), eq(jobRequests.status, fromStatus)))
+      .returning();
+    return updatedJobRequest;
+  }
+
+  // Mark a job completed and add it to the property's maintenance records, or do neither
+  async completeJobRequest(
+    id: number,
+    fromStatus: JobRequestStatus,
+    changes: JobRequestUpdate,
+    record: InsertMaintenanceRecord
+  ): Promise<JobRequest | undefined> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const [completed] = await tx
+        .update(jobRequests)
+        .set({ ...changes, status: "completed", updatedAt: now })
+        .where(and(eq(jobRequests.id, id), eq(jobRequests.status, fromStatus)))
+        .returning();
+      if (!completed) return undefined;
+
+      const [newRecord] = await tx.insert(maintenanceRecords).values(record).returning();
+      const [updatedJobRequest] = await tx
+        .update(jobRequests)
+        .set({ maintenanceRecordId: newRecord.id, updatedAt: now })
+        .where(eq(jobRequests.id, id))
+        .returning();
+      return updatedJobRequest;
+    });
+  }
+
+  // Only succeeds once, and only for a completed job, so a review can't be rewritten
+  async reviewJobRequest(id: number, rating: number, review: string | null): Promise<JobRequest | undefined> {
+    const now = new Date();
+    const [reviewedJobRequest] = await db
+      .update(jobRequests)
+      .set({ rating, review, reviewedAt: now, updatedAt: now })
+      .where(and(eq(jobRequests.id, id), eq(jobRequests.status, "completed"), isNull(jobRequests.rating)))
+      .returning();
+    return reviewedJobRequest;
+  }
+
+  async getCompletedJobsByTradespersonId(tradespersonId: number): Promise<CompletedJob[]> {
+    return await db.select({ job: jobRequests, city: properties.city, state: properties.state })
+      .from(jobRequests)
+      .innerJoin(properties, eq(jobRequests.propertyId, properties.id))
+      .where(and(eq(jobRequests.tradespersonId, tradespersonId), eq(jobRequests.status, "completed")))
+      .orderBy(desc(jobRequests.completedAt));
+  }
+
+  // Quote and invoice methods
+  async getTradeDocument(id: number): Promise<TradeDocument | undefined> {
+    const [document] = await db.select().from(tradeDocuments).where(eq(tradeDocuments.id, id));
+    return document;
+  }
+
+  async getTradeDocumentsByOwnerId(ownerId: number, filter: TradeDocumentFilter = {}): Promise<TradeDocument[]> {
+    return db.select().from(tradeDocuments)
+      .where(and(eq(tradeDocuments.ownerId, ownerId), this.tradeDocumentConditions(filter)))
+      .orderBy(desc(tradeDocuments.createdAt));
+  }
+
+  async getTradeDocumentsByTradespersonId(tradespersonId: number, filter: TradeDocumentFilter = {}): Promise<TradeDocument[]> {
+    return db.select().from(tradeDocuments)
+      .where(and(eq(tradeDocuments.tradespersonId, tradespersonId), this.tradeDocumentConditions(filter)))
+      .orderBy(desc(tradeDocuments.createdAt));
+  }
+
+  private tradeDocumentConditions(filter: TradeDocumentFilter) {
+    return and(
+      filter.type ? eq(tradeDocuments.type, filter.type) : undefined,
+      filter.status ? eq(tradeDocuments.status, filter.status) : undefined,
+      filter.propertyId ? eq(tradeDocuments.propertyId, filter.propertyId) : undefined
+    );
+  }
+
+  async createTradeDocument(document: InsertTradeDocument): Promise<TradeDocument> {
+    const [newDocument] = await db.insert(tradeDocuments).values(document).returning();
+    return newDocument;
+  }
+
+  /**
+   * Record the owner's response to a pending quote or invoice. Returns
+   * undefined if it has already been responded to.
+   */
+  async respondToTradeDocument(id: number, status: TradeDocumentStatus, responseNote: string | null = null): Promise<TradeDocument | undefined> {
+    const [updatedDocument] = await db
+      .update(tradeDocuments)
+      .set({ status, responseNote, respondedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(tradeDocuments.id, id), eq(tradeDocuments.status, "pending")))
+      .returning();
+    return updatedDocument;
+  }
+
+  async setTradeDocumentUrl(id: number, documentUrl: string): Promise<TradeDocument> {
+    const [updatedDocument] = await db
+      .update(tradeDocuments)
+      .set({ documentUrl, updatedAt: new Date() })
+      .where(eq(tradeDocuments.id, id))
+      .returning();
+    return updatedDocument;
+  }
+
+  async generateTradeDocumentNumber(type: TradeDocumentType): Promise<string> {
+    // Same format as receipt numbers: Q-YYYYMMDD-XXXXX or INV-YYYYMMDD-XXXXX
+    const date = new Date();
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    const datePrefix = `${type === "quote" ? "Q" : "INV"}-${year}${month}${day}`;
+
+    const documentCount = await db
+      .select({ count: sql`count(*)` })
+      .from(tradeDocuments)
+      .where(sql`${tradeDocuments.documentNumber} LIKE ${datePrefix + '-%'}`);
+
+    const count = Number(documentCount[0]?.count || 0);
+    const sequential = String(count + 1).padStart(5, '0');
+
+    return `${datePrefix}-${sequential}`;
+  }
+
   // Valuation methods
+  async getValuation(id: number): Promise<Valuation | undefined> {
+    const [valuation] = await db.select().from(valuations).where(eq(valuations.id, id));
+    return valuation;
+  }
+
   async getValuationByPropertyId(propertyId: number): Promise<Valuation | undefined> {
-    const [valuation] = await db.select().from(valuations).where(eq(valuations.propertyId, propertyId));
+    // Return the most recent valuation for the property
+    const [valuation] = await db.select().from(valuations)
+      .where(eq(valuations.propertyId, propertyId))
+      .orderBy(desc(valuations.valuationDate), desc(valuations.id))
+      .limit(1);
     return valuation;
   }
 
+  async getValuationsByPropertyId(propertyId: number, filter: ValuationHistoryFilter = {}): Promise<Valuation[]> {
+    // Oldest first so the result can be plotted as a time series
+    let query = db.select().from(valuations)
+      .where(this.valuationHistoryConditions(propertyId, filter))
+      .orderBy(asc(valuations.valuationDate), asc(valuations.id))
+      .$dynamic();
+
+    if (filter.limit !== undefined) {
+      query = query.limit(filter.limit);
+    }
+    if (filter.offset !== undefined) {
+      query = query.offset(filter.offset);
+    }
+
+    return await query;
+  }
+
+  async countValuationsByPropertyId(propertyId: number, filter: ValuationHistoryFilter = {}): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(valuations)
+      .where(this.valuationHistoryConditions(propertyId, filter));
+    return Number(result?.count || 0);
+  }
+
+  private valuationHistoryConditions(propertyId: number, filter: ValuationHistoryFilter) {
+    const conditions = [eq(valuations.propertyId, propertyId)];
+    if (filter.from) {
+      conditions.push(gte(valuations.valuationDate, filter.from));
+    }
+    if (filter.to) {
+      conditions.push(lte(valuations.valuationDate, filter.to));
+    }
+    return and(...conditions);
+  }
+
   async createValuation(valuation: InsertValuation): Promise<Valuation> {
     const [newValuation] = await db.insert(valuations).values(valuation).returning();
     return newValuation;
   }
 
-  async updateValuation(id: number, valuation: InsertValuation): Promise<Valuation> {
+  async updateValuation(id: number, valuation: Partial<InsertValuation>): Promise<Valuation> {
     const [updatedValuation] = await db
       .update(valuations)
       .set(valuation)
@@ -247,6 +966,194 @@ export class DatabaseStorage implements IStorage {
     return updatedValuation;
   }
 
+  async deleteValuation(id: number): Promise<void> {
+    await db.delete(valuations).where(eq(valuations.id, id));
+  }
+
+  // Comparable sales methods
+  async createComparableSales(sales: InsertComparableSale[]): Promise<number> {
+    if (sales.length === 0) return 0;
+    // Sales already imported from an overlapping extract are skipped
+    const inserted = await db.insert(comparableSales)
+      .values(sales)
+      .onConflictDoNothing()
+      .returning({ id: comparableSales.id });
+    return inserted.length;
+  }
+
+  async searchComparableSales(search: ComparableSaleSearch): Promise<ComparableSale[]> {
+    const conditions = [];
+    if (search.state) {
+      conditions.push(sql`lower(${comparableSales.state}) = ${search.state.trim().toLowerCase()}`);
+    }
+
+    const locality = [];
+    if (search.suburb) {
+      locality.push(sql`lower(${comparableSales.suburb}) = ${search.suburb.trim().toLowerCase()}`);
+    }
+    if (search.postcode) {
+      locality.push(eq(comparableSales.postcode, search.postcode.trim()));
+    }
+    if (locality.length > 0) {
+      conditions.push(or(...locality)!);
+    }
+    if (search.propertyType) {
+      conditions.push(eq(comparableSales.propertyType, search.propertyType));
+    }
+    if (search.soldAfter) {
+      conditions.push(gte(comparableSales.saleDate, search.soldAfter));
+    }
+
+    return await db.select().from(comparableSales)
+      .where(and(...conditions))
+      .orderBy(desc(comparableSales.saleDate))
+      .limit(search.limit ?? 500);
+  }
+
+  async createValuationComparables(comparables: InsertValuationComparable[]): Promise<ValuationComparable[]> {
+    if (comparables.length === 0) return [];
+    return await db.insert(valuationComparables).values(comparables).returning();
+  }
+
+  // Store a computed valuation and the sales it was based on together, so neither is saved without the other
+  async createValuationWithComparables(
+    valuation: InsertValuation,
+    comparables: Omit<InsertValuationComparable, "valuationId">[]
+  ): Promise<Valuation> {
+    return await db.transaction(async (tx) => {
+      const [newValuation] = await tx.insert(valuations).values(valuation).returning();
+      if (comparables.length > 0) {
+        await tx.insert(valuationComparables)
+          .values(comparables.map(comparable => ({ ...comparable, valuationId: newValuation.id })));
+      }
+      return newValuation;
+    });
+  }
+
+  async getValuationComparables(valuationId: number): Promise<Array<ValuationComparable & { sale: ComparableSale }>> {
+    const rows = await db.select()
+      .from(valuationComparables)
+      .innerJoin(comparableSales, eq(valuationComparables.comparableSaleId, comparableSales.id))
+      .where(eq(valuationComparables.valuationId, valuationId))
+      .orderBy(desc(valuationComparables.similarityScore));
+    return rows.map(row => ({ ...row.valuation_comparables, sale: row.comparable_sales }));
+  }
+
+  // Rental listing methods
+  async createRentalListings(listings: InsertRentalListing[]): Promise<number> {
+    if (listings.length === 0) return 0;
+    const inserted = await db.insert(rentalListings)
+      .values(listings)
+      .returning({ id: rentalListings.id });
+    return inserted.length;
+  }
+
+  async searchRentalListings(search: RentalListingSearch): Promise<RentalListing[]> {
+    const conditions = [sql`lower(${rentalListings.suburb}) = ${search.suburb.trim().toLowerCase()}`];
+    if (search.state) {
+      conditions.push(sql`lower(${rentalListings.state}) = ${search.state.trim().toLowerCase()}`);
+    }
+    if (search.propertyType) {
+      conditions.push(eq(rentalListings.propertyType, search.propertyType));
+    }
+    if (search.leasedAfter) {
+      conditions.push(gte(rentalListings.leasedDate, search.leasedAfter));
+    }
+
+    return await db.select().from(rentalListings)
+      .where(and(...conditions))
+      .orderBy(asc(rentalListings.leasedDate));
+  }
+
+  // Tradesperson directory methods
+  async searchTradespeople(search: TradespersonSearch): Promise<TradespersonListing[]> {
+    if (search.ids && search.ids.length === 0) return [];
+
+    const jobStats = db.select({
+      tradespersonId: jobRequests.tradespersonId,
+      averageRating: sql<string | null>`avg(${jobRequests.rating})`.as("average_rating"),
+      ratingCount: sql<number>`count(${jobRequests.rating})`.as("rating_count"),
+      completedJobCount: sql<number>`count(*)`.as("completed_job_count"),
+    })
+      .from(jobRequests)
+      .where(eq(jobRequests.status, "completed"))
+      .groupBy(jobRequests.tradespersonId)
+      .as("job_stats");
+
+    const conditions = [
+      eq(users.role, "tradesperson"),
+      isNull(users.deletedAt),
+      isNull(users.suspendedAt),
+    ];
+    if (search.specialtyType) {
+      conditions.push(sql`lower(${users.specialtyType}) = ${search.specialtyType.trim().toLowerCase()}`);
+    }
+    if (search.ids) {
+      conditions.push(inArray(users.id, search.ids));
+    }
+
+    const rows = await db.select({
+      user: users,
+      averageRating: jobStats.averageRating,
+      ratingCount: jobStats.ratingCount,
+      completedJobCount: jobStats.completedJobCount,
+    })
+      .from(users)
+      .leftJoin(jobStats, eq(jobStats.tradespersonId, users.id))
+      .where(and(...conditions))
+      .orderBy(asc(users.fullName), asc(users.username));
+
+    return rows.map(row => ({
+      user: row.user,
+      averageRating: row.averageRating === null ? null : Number(row.averageRating),
+      ratingCount: Number(row.ratingCount || 0),
+      completedJobCount: Number(row.completedJobCount || 0),
+    }));
+  }
+
+  // Localities already imported are skipped, so the same dataset can be imported again
+  async createPostcodeLocations(locations: InsertPostcodeLocation[]): Promise<number> {
+    if (locations.length === 0) return 0;
+    const inserted = await db.insert(postcodeLocations)
+      .values(locations)
+      .onConflictDoNothing()
+      .returning({ id: postcodeLocations.id });
+    return inserted.length;
+  }
+
+  async getPostcodeCentroids(postcodes: string[]): Promise<PostcodeCentroid[]> {
+    if (postcodes.length === 0) return [];
+    const rows = await db.select({
+      postcode: postcodeLocations.postcode,
+      latitude: sql<number>`avg(${postcodeLocations.latitude})`,
+      longitude: sql<number>`avg(${postcodeLocations.longitude})`,
+    })
+      .from(postcodeLocations)
+      .where(inArray(postcodeLocations.postcode, postcodes))
+      .groupBy(postcodeLocations.postcode);
+    return rows.map(row => ({ postcode: row.postcode, latitude: Number(row.latitude), longitude: Number(row.longitude) }));
+  }
+
+  async getFavoriteTradespersonIds(userId: number): Promise<number[]> {
+    const rows = await db.select({ tradespersonId: favoriteTradespeople.tradespersonId })
+      .from(favoriteTradespeople)
+      .where(eq(favoriteTradespeople.userId, userId))
+      .orderBy(asc(favoriteTradespeople.createdAt));
+    return rows.map(row => row.tradespersonId);
+  }
+
+  // Favouriting twice is a no-op
+  async addFavoriteTradesperson(userId: number, tradespersonId: number): Promise<void> {
+    await db.insert(favoriteTradespeople).values({ userId, tradespersonId }).onConflictDoNothing();
+  }
+
+  async removeFavoriteTradesperson(userId: number, tradespersonId: number): Promise<boolean> {
+    const deleted = await db.delete(favoriteTradespeople)
+      .where(and(eq(favoriteTradespeople.userId, userId), eq(favoriteTradespeople.tradespersonId, tradespersonId)))
+      .returning({ id: favoriteTradespeople.id });
+    return deleted.length > 0;
+  }
+
   // Subscription Plan methods
   async getSubscriptionPlans(): Promise<SubscriptionPlan[]> {
     return await db.select().from(subscriptionPlans);
@@ -342,6 +1249,36 @@ export class DatabaseStorage implements IStorage {
     // Round to 2 decimal places
     return Math.round(price * 100) / 100;
   }
+  // Active subscriptions billing in the window that aren't recovering a failed payment
+  async getSubscriptionsRenewingBetween(from: Date, to: Date): Promise<Subscription[]> {
+    return db.select().from(subscriptions)
+      .where(and(
+        eq(subscriptions.isActive, true),
+        eq(subscriptions.dunningState, "none"),
+        gte(subscriptions.nextBillingDate, from),
+        lte(subscriptions.nextBillingDate, to)
+      ));
+  }
+
+  // Subscriptions due a payment retry, or whose grace period has ended
+  async getSubscriptionsDueForDunning(asOf: Date): Promise<Subscription[]> {
+    return db.select().from(subscriptions)
+      .where(and(
+        inArray(subscriptions.dunningState, ["retrying", "grace"]),
+        lte(subscriptions.nextDunningActionAt, asOf)
+      ))
+      .orderBy(asc(subscriptions.nextDunningActionAt));
+  }
+
+  // Subscriptions in the given dunning state, or in any state but "none"
+  async getSubscriptionsInDunning(state?: DunningState): Promise<Subscription[]> {
+    return db.select().from(subscriptions)
+      .where(state
+        ? eq(subscriptions.dunningState, state)
+        : inArray(subscriptions.dunningState, dunningStateEnum.enumValues.filter(value => value !== "none")))
+      .orderBy(asc(subscriptions.dunningStartedAt));
+  }
+
 
   // Receipt methods
   async getReceipt(id: number): Promise<Receipt | undefined> {
@@ -363,6 +1300,29 @@ export class DatabaseStorage implements IStorage {
     return receipt || undefined;
   }
 
+  async getReceiptByStripeInvoiceId(stripeInvoiceId: string): Promise<Receipt | undefined> {
+    const [receipt] = await db.select().from(receipts).where(eq(receipts.stripeInvoiceId, stripeInvoiceId));
+    return receipt || undefined;
+  }
+
+  async updateReceipt(id: number, receipt: Partial<InsertReceipt>): Promise<Receipt> {
+    const [updatedReceipt] = await db
+      .update(receipts)
+      .set(receipt)
+      .where(eq(receipts.id, id))
+      .returning();
+    return updatedReceipt;
+  }
+
+  async setReceiptPdfUrl(id: number, pdfUrl: string | null): Promise<Receipt> {
+    const [updatedReceipt] = await db
+      .update(receipts)
+      .set({ pdfUrl })
+      .where(eq(receipts.id, id))
+      .returning();
+    return updatedReceipt;
+  }
+
   async generateReceiptNumber(): Promise<string> {
     // Generate a unique receipt number with format: ET-YYYYMMDD-XXXXX
     // where XXXXX is a sequential number
@@ -383,6 +1343,629 @@ export class DatabaseStorage implements IStorage {
     
     return `${datePrefix}-${sequential}`;
   }
+
+  // Document methods
+  async getDocumentFolder(id: number): Promise<DocumentFolder | undefined> {
+    const [folder] = await db.select().from(documentFolders).where(eq(documentFolders.id, id));
+    return folder;
+  }
+
+  async getDocumentFoldersByUserId(userId: number): Promise<DocumentFolder[]> {
+    return db.select().from(documentFolders)
+      .where(eq(documentFolders.userId, userId))
+      .orderBy(asc(documentFolders.name));
+  }
+
+  async createDocumentFolder(folder: InsertDocumentFolder): Promise<DocumentFolder> {
+    const [newFolder] = await db.insert(documentFolders).values(folder).returning();
+    return newFolder;
+  }
+
+  async updateDocumentFolder(id: number, folder: Partial<InsertDocumentFolder>): Promise<DocumentFolder> {
+    const [updatedFolder] = await db
+      .update(documentFolders)
+      .set({ ...folder, updatedAt: new Date() })
+      .where(eq(documentFolders.id, id))
+      .returning();
+    return updatedFolder;
+  }
+
+  // Subfolders are removed by the cascade; their documents must be deleted first
+  async deleteDocumentFolder(id: number): Promise<void> {
+    await db.delete(documentFolders).where(eq(documentFolders.id, id));
+  }
+
+  async getDocument(id: number): Promise<Document | undefined> {
+    const [document] = await db.select().from(documents).where(eq(documents.id, id));
+    return document;
+  }
+
+  async getDocumentsByUserId(userId: number, filter: DocumentFilter = {}): Promise<Document[]> {
+    return db.select().from(documents)
+      .where(and(
+        eq(documents.userId, userId),
+        filter.folderId === null ? isNull(documents.folderId) : undefined,
+        filter.folderId ? eq(documents.folderId, filter.folderId) : undefined,
+        filter.propertyId ? eq(documents.propertyId, filter.propertyId) : undefined,
+        filter.maintenanceRecordId ? eq(documents.maintenanceRecordId, filter.maintenanceRecordId) : undefined,
+        filter.starred !== undefined ? eq(documents.starred, filter.starred) : undefined,
+        filter.search ? ilike(documents.name, `%${filter.search}%`) : undefined
+      ))
+      .orderBy(asc(documents.name));
+  }
+
+  async getDocumentsByFolderIds(folderIds: number[]): Promise<Document[]> {
+    if (folderIds.length === 0) return [];
+    return db.select().from(documents).where(inArray(documents.folderId, folderIds));
+  }
+
+  async getDocumentCountsByFolder(userId: number): Promise<Map<number, number>> {
+    const rows = await db
+      .select({ folderId: documents.folderId, count: sql<number>`count(*)` })
+      .from(documents)
+      .where(eq(documents.userId, userId))
+      .groupBy(documents.folderId);
+    return new Map(rows
+      .filter(row => row.folderId !== null)
+      .map(row => [row.folderId!, Number(row.count)]));
+  }
+
+  // Total bytes of all documents the user has uploaded
+  async getDocumentStorageUsed(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ total: sql<number>`coalesce(sum(${documents.fileSize}), 0)` })
+      .from(documents)
+      .where(eq(documents.userId, userId));
+    return Number(result?.total || 0);
+  }
+
+  async createDocument(document: InsertDocument): Promise<Document> {
+    const [newDocument] = await db.insert(documents).values(document).returning();
+    return newDocument;
+  }
+
+  async updateDocument(id: number, document: Partial<InsertDocument>): Promise<Document> {
+    const [updatedDocument] = await db
+      .update(documents)
+      .set({ ...document, updatedAt: new Date() })
+      .where(eq(documents.id, id))
+      .returning();
+    return updatedDocument;
+  }
+
+  async deleteDocuments(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await db.delete(documents).where(inArray(documents.id, ids));
+  }
+
+  // Property loan methods
+  async getPropertyLoan(id: number): Promise<PropertyLoan | undefined> {
+    const [loan] = await db.select().from(propertyLoans).where(eq(propertyLoans.id, id));
+    return loan;
+  }
+
+  async getPropertyLoansByPropertyId(propertyId: number): Promise<PropertyLoan[]> {
+    return db.select().from(propertyLoans)
+      .where(eq(propertyLoans.propertyId, propertyId))
+      .orderBy(asc(propertyLoans.startDate), asc(propertyLoans.id));
+  }
+
+  async getPropertyLoansByPropertyIds(propertyIds: number[]): Promise<PropertyLoan[]> {
+    if (propertyIds.length === 0) return [];
+    return db.select().from(propertyLoans)
+      .where(inArray(propertyLoans.propertyId, propertyIds))
+      .orderBy(asc(propertyLoans.startDate), asc(propertyLoans.id));
+  }
+
+  async createPropertyLoan(loan: InsertPropertyLoan): Promise<PropertyLoan> {
+    const [newLoan] = await db.insert(propertyLoans).values(loan).returning();
+    return newLoan;
+  }
+
+  async updatePropertyLoan(id: number, loan: Partial<InsertPropertyLoan>): Promise<PropertyLoan> {
+    const [updatedLoan] = await db
+      .update(propertyLoans)
+      .set({ ...loan, updatedAt: new Date() })
+      .where(eq(propertyLoans.id, id))
+      .returning();
+    return updatedLoan;
+  }
+
+  async deletePropertyLoan(id: number): Promise<void> {
+    await db.delete(propertyLoans).where(eq(propertyLoans.id, id));
+  }
+
+  // Property ledger methods
+  async getLedgerEntry(id: number): Promise<PropertyLedgerEntry | undefined> {
+    const [entry] = await db.select().from(propertyLedgerEntries).where(eq(propertyLedgerEntries.id, id));
+    return entry;
+  }
+
+  async getLedgerEntriesByPropertyId(propertyId: number, filter: LedgerFilter = {}): Promise<PropertyLedgerEntry[]> {
+    return db.select().from(propertyLedgerEntries)
+      .where(and(
+        eq(propertyLedgerEntries.propertyId, propertyId),
+        filter.from ? gte(propertyLedgerEntries.date, filter.from) : undefined,
+        filter.to ? lte(propertyLedgerEntries.date, filter.to) : undefined,
+        filter.category ? eq(propertyLedgerEntries.category, filter.category) : undefined
+      ))
+      .orderBy(desc(propertyLedgerEntries.date), desc(propertyLedgerEntries.id));
+  }
+
+  async createLedgerEntry(entry: InsertPropertyLedgerEntry): Promise<PropertyLedgerEntry> {
+    const [newEntry] = await db.insert(propertyLedgerEntries).values(entry).returning();
+    return newEntry;
+  }
+
+  async updateLedgerEntry(id: number, entry: Partial<InsertPropertyLedgerEntry>): Promise<PropertyLedgerEntry> {
+    const [updatedEntry] = await db
+      .update(propertyLedgerEntries)
+      .set({ ...entry, updatedAt: new Date() })
+      .where(eq(propertyLedgerEntries.id, id))
+      .returning();
+    return updatedEntry;
+  }
+
+  async deleteLedgerEntry(id: number): Promise<void> {
+    await db.delete(propertyLedgerEntries).where(eq(propertyLedgerEntries.id, id));
+  }
+
+  // Property sharing methods
+  async getPropertyAccess(id: number): Promise<PropertyAccess | undefined> {
+    const [grant] = await db.select().from(propertyAccess).where(eq(propertyAccess.id, id));
+    return grant;
+  }
+
+  async getPropertyAccessByUserId(userId: number): Promise<PropertyAccess[]> {
+    return db.select().from(propertyAccess)
+      .where(eq(propertyAccess.userId, userId))
+      .orderBy(asc(propertyAccess.createdAt));
+  }
+
+  async getPropertyAccessByOwnerId(ownerId: number): Promise<PropertyAccess[]> {
+    return db.select().from(propertyAccess)
+      .where(eq(propertyAccess.ownerId, ownerId))
+      .orderBy(asc(propertyAccess.createdAt));
+  }
+
+  // Grants that give a user access to a property, either to the property itself or the owner's whole portfolio
+  async getPropertyAccessGrants(userId: number, ownerId: number, propertyId: number): Promise<PropertyAccess[]> {
+    return db.select().from(propertyAccess)
+      .where(and(
+        eq(propertyAccess.userId, userId),
+        eq(propertyAccess.ownerId, ownerId),
+        or(eq(propertyAccess.propertyId, propertyId), isNull(propertyAccess.propertyId))
+      ));
+  }
+
+  // There is at most one grant per user and property (or portfolio), so granting again changes the role
+  async savePropertyAccess(grant: InsertPropertyAccess): Promise<PropertyAccess> {
+    const [existing] = await db.select().from(propertyAccess)
+      .where(and(
+        eq(propertyAccess.userId, grant.userId),
+        eq(propertyAccess.ownerId, grant.ownerId),
+        grant.propertyId ? eq(propertyAccess.propertyId, grant.propertyId) : isNull(propertyAccess.propertyId)
+      ));
+
+    if (existing) {
+      return this.updatePropertyAccess(existing.id, { role: grant.role });
+    }
+
+    const [newGrant] = await db.insert(propertyAccess).values(grant).returning();
+    return newGrant;
+  }
+
+  async updatePropertyAccess(id: number, grant: Partial<InsertPropertyAccess>): Promise<PropertyAccess> {
+    const [updatedGrant] = await db
+      .update(propertyAccess)
+      .set({ ...grant, updatedAt: new Date() })
+      .where(eq(propertyAccess.id, id))
+      .returning();
+    return updatedGrant;
+  }
+
+  async deletePropertyAccess(id: number): Promise<void> {
+    await db.delete(propertyAccess).where(eq(propertyAccess.id, id));
+  }
+
+  async getPropertyInvitation(id: number): Promise<PropertyInvitation | undefined> {
+    const [invitation] = await db.select().from(propertyInvitations).where(eq(propertyInvitations.id, id));
+    return invitation;
+  }
+
+  async getPropertyInvitationByTokenHash(tokenHash: string): Promise<PropertyInvitation | undefined> {
+    const [invitation] = await db.select().from(propertyInvitations).where(eq(propertyInvitations.tokenHash, tokenHash));
+    return invitation;
+  }
+
+  async getPendingPropertyInvitationsByOwnerId(ownerId: number): Promise<PropertyInvitation[]> {
+    return db.select().from(propertyInvitations)
+      .where(and(
+        eq(propertyInvitations.ownerId, ownerId),
+        isNull(propertyInvitations.acceptedAt),
+        gt(propertyInvitations.expiresAt, new Date())
+      ))
+      .orderBy(desc(propertyInvitations.createdAt));
+  }
+
+  async createPropertyInvitation(invitation: InsertPropertyInvitation): Promise<PropertyInvitation> {
+    const [newInvitation] = await db.insert(propertyInvitations).values(invitation).returning();
+    return newInvitation;
+  }
+
+  // Only succeeds once, so an invitation can't be accepted twice
+  async markPropertyInvitationAccepted(id: number, userId: number): Promise<PropertyInvitation | undefined> {
+    const [invitation] = await db
+      .update(propertyInvitations)
+      .set({ acceptedAt: new Date(), acceptedBy: userId })
+      .where(and(eq(propertyInvitations.id, id), isNull(propertyInvitations.acceptedAt)))
+      .returning();
+    return invitation;
+  }
+
+  async deletePropertyInvitation(id: number): Promise<void> {
+    await db.delete(propertyInvitations).where(eq(propertyInvitations.id, id));
+  }
+
+  // Billing sync queue
+  async getBillingSyncQueue(): Promise<BillingSyncQueueEntry[]> {
+    return db.select().from(billingSyncQueue).orderBy(asc(billingSyncQueue.nextAttemptAt));
+  }
+
+  async getDueBillingSyncEntries(asOf: Date): Promise<BillingSyncQueueEntry[]> {
+    return db.select().from(billingSyncQueue)
+      .where(and(eq(billingSyncQueue.status, "pending"), lte(billingSyncQueue.nextAttemptAt, asOf)))
+      .orderBy(asc(billingSyncQueue.nextAttemptAt));
+  }
+
+  async getBillingSyncEntry(subscriptionId: number): Promise<BillingSyncQueueEntry | undefined> {
+    const [entry] = await db.select().from(billingSyncQueue).where(eq(billingSyncQueue.subscriptionId, subscriptionId));
+    return entry;
+  }
+
+  // There is at most one entry per subscription, since a sync always pushes the latest count
+  async saveBillingSyncEntry(entry: InsertBillingSyncQueueEntry): Promise<BillingSyncQueueEntry> {
+    const [savedEntry] = await db
+      .insert(billingSyncQueue)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: billingSyncQueue.subscriptionId,
+        set: { ...entry, updatedAt: new Date() },
+      })
+      .returning();
+    return savedEntry;
+  }
+
+  async deleteBillingSyncEntry(subscriptionId: number): Promise<void> {
+    await db.delete(billingSyncQueue).where(eq(billingSyncQueue.subscriptionId, subscriptionId));
+  }
+
+  // Password reset and email verification tokens
+  async createAuthToken(token: InsertAuthToken): Promise<AuthToken> {
+    const [newToken] = await db.insert(authTokens).values(token).returning();
+    return newToken;
+  }
+
+  /**
+   * Use a token, if it's for this purpose, unused and unexpired. Marking it
+   * used and checking it happen in one statement, so it can only be used once
+   * even if two requests race.
+   */
+  async consumeAuthToken(tokenHash: string, purpose: AuthTokenPurpose, asOf: Date): Promise<AuthToken | undefined> {
+    const [token] = await db
+      .update(authTokens)
+      .set({ usedAt: asOf })
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gt(authTokens.expiresAt, asOf)
+      ))
+      .returning();
+    return token;
+  }
+
+  // Retire the user's outstanding tokens, e.g. when a newer one is sent
+  async invalidateAuthTokens(userId: number, purpose: AuthTokenPurpose): Promise<void> {
+    await db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose), isNull(authTokens.usedAt)));
+  }
+
+  // Two-factor authentication
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    const [credential] = await db.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+    return credential;
+  }
+
+  // Start enrolment with a new secret, replacing any earlier unconfirmed one
+  async saveTwoFactorSecret(userId: number, secret: string): Promise<TwoFactorCredential> {
+    const [credential] = await db
+      .insert(twoFactorCredentials)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: twoFactorCredentials.userId,
+        set: { secret, enabledAt: null, lastUsedStep: null, createdAt: new Date() },
+      })
+      .returning();
+    return credential;
+  }
+
+  /**
+   * Record the time step of an accepted code. Returns false if that step or a
+   * later one was already used, so each code works once even if two requests
+   * race.
+   */
+  async recordTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    const updated = await db
+      .update(twoFactorCredentials)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorCredentials.userId, userId),
+        or(isNull(twoFactorCredentials.lastUsedStep), lt(twoFactorCredentials.lastUsedStep, step))
+      ))
+      .returning({ id: twoFactorCredentials.id });
+    return updated.length > 0;
+  }
+
+  async enableTwoFactor(userId: number, recoveryCodeHashes: string[]): Promise<User> {
+    return await db.transaction(async (tx) => {
+      await tx.update(twoFactorCredentials).set({ enabledAt: new Date() }).where(eq(twoFactorCredentials.userId, userId));
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(twoFactorRecoveryCodes).values(recoveryCodeHashes.map(codeHash => ({ userId, codeHash })));
+      const [updatedUser] = await tx
+        .update(users)
+        .set({ twoFactorEnabled: true })
+        .where(eq(users.id, userId))
+        .returning();
+      return updatedUser;
+    });
+  }
+
+  async disableTwoFactor(userId: number): Promise<User> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.delete(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+      const [updatedUser] = await tx
+        .update(users)
+        .set({ twoFactorEnabled: false })
+        .where(eq(users.id, userId))
+        .returning();
+      return updatedUser;
+    });
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(twoFactorRecoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  }
+
+  // Use a recovery code, if the user has it and it's unused
+  async consumeRecoveryCode(userId: number, codeHash: string, asOf: Date): Promise<boolean> {
+    const updated = await db
+      .update(twoFactorRecoveryCodes)
+      .set({ usedAt: asOf })
+      .where(and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, codeHash),
+        isNull(twoFactorRecoveryCodes.usedAt)
+      ))
+      .returning({ id: twoFactorRecoveryCodes.id });
+    return updated.length > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+    return Number(result?.count || 0);
+  }
+
+  // Audit log methods
+  async getAuditEvents(filter: AuditEventFilter = {}): Promise<AuditEvent[]> {
+    let query = db.select().from(auditEvents)
+      .where(and(
+        filter.actorId !== undefined ? eq(auditEvents.actorId, filter.actorId) : undefined,
+        filter.action ? eq(auditEvents.action, filter.action) : undefined,
+        filter.resourceType ? eq(auditEvents.resourceType, filter.resourceType) : undefined,
+        filter.resourceId ? eq(auditEvents.resourceId, filter.resourceId) : undefined,
+        filter.from ? gte(auditEvents.createdAt, filter.from) : undefined,
+        filter.to ? lte(auditEvents.createdAt, filter.to) : undefined
+      ))
+      .orderBy(desc(auditEvents.id))
+      .$dynamic();
+
+    if (filter.limit !== undefined) {
+      query = query.limit(filter.limit);
+    }
+    if (filter.offset !== undefined) {
+      query = query.offset(filter.offset);
+    }
+
+    return query;
+  }
+
+  // Events in chain order, for verifying the hashes
+  async getAuditEventsAfter(afterId: number, limit: number): Promise<AuditEvent[]> {
+    return db.select().from(auditEvents)
+      .where(gt(auditEvents.id, afterId))
+      .orderBy(asc(auditEvents.id))
+      .limit(limit);
+  }
+
+  /**
+   * Append an event to the end of the chain. The builder is given the hash of
+   * the current last event, and the lock makes sure no other event is appended
+   * between reading it and inserting the new one.
+   */
+  async appendAuditEvent(buildEvent: (previousHash: string | null) => InsertAuditEvent): Promise<AuditEvent> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK})`);
+
+      const [previous] = await tx.select({ hash: auditEvents.hash }).from(auditEvents)
+        .orderBy(desc(auditEvents.id))
+        .limit(1);
+
+      const [event] = await tx.insert(auditEvents).values(buildEvent(previous?.hash ?? null)).returning();
+      return event;
+    });
+  }
+
+  // Stripe webhook events
+  /**
+   * Record that an event is being processed. Returns false if it has already
+   * been recorded, meaning Stripe has redelivered it.
+   */
+  async claimStripeEvent(id: string, type: string): Promise<boolean> {
+    const [event] = await db
+      .insert(stripeEvents)
+      .values({ id, type })
+      .onConflictDoNothing()
+      .returning();
+    return event !== undefined;
+  }
+
+  // Forget an event that failed so Stripe's retry is processed
+  async releaseStripeEvent(id: string): Promise<void> {
+    await db.delete(stripeEvents).where(eq(stripeEvents.id, id));
+  }
+
+  // Notification methods
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [newNotification] = await db.insert(notifications).values(notification).returning();
+    return newNotification;
+  }
+
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+
+  async getNotificationsByUserId(userId: number): Promise<Notification[]> {
+    return db.select().from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt));
+  }
+
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)));
+    return Number(result?.count || 0);
+  }
+
+  async markNotificationAsRead(id: number): Promise<Notification> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ isRead: true })
+      .where(eq(notifications.id, id))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsAsRead(userId: number): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ isRead: true })
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)));
+  }
+
+  async deleteNotification(id: number): Promise<void> {
+    await db.delete(notifications).where(eq(notifications.id, id));
+  }
+
+  // Notification preference methods
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined> {
+    const [preferences] = await db.select().from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    return preferences;
+  }
+
+  async saveNotificationPreferences(
+    userId: number,
+    preferences: { channels: Partial<NotificationChannels>; digestFrequency: DigestFrequency }
+  ): Promise<NotificationPreferences> {
+    const [saved] = await db
+      .insert(notificationPreferences)
+      .values({ userId, ...preferences })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...preferences, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async recordDigestSent(userId: number, sentAt: Date): Promise<void> {
+    await db
+      .insert(notificationPreferences)
+      .values({ userId, lastDigestSentAt: sentAt })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { lastDigestSentAt: sentAt },
+      });
+  }
+
+  // Email outbox methods
+  async createEmail(email: InsertEmailOutboxEntry): Promise<EmailOutboxEntry> {
+    const [newEmail] = await db.insert(emailOutbox).values(email).returning();
+    return newEmail;
+  }
+
+  async getDueEmails(asOf: Date, limit: number): Promise<EmailOutboxEntry[]> {
+    return db.select().from(emailOutbox)
+      .where(and(eq(emailOutbox.status, "pending"), lte(emailOutbox.nextAttemptAt, asOf)))
+      .orderBy(asc(emailOutbox.nextAttemptAt))
+      .limit(limit);
+  }
+
+  // Emails waiting for a digest, oldest first
+  async getHeldEmails(): Promise<EmailOutboxEntry[]> {
+    return db.select().from(emailOutbox)
+      .where(eq(emailOutbox.status, "held"))
+      .orderBy(asc(emailOutbox.createdAt));
+  }
+
+  async updateEmail(id: number, updates: Partial<EmailOutboxEntry>): Promise<EmailOutboxEntry> {
+    const [email] = await db
+      .update(emailOutbox)
+      .set(updates)
+      .where(eq(emailOutbox.id, id))
+      .returning();
+    return email;
+  }
+
+  async markEmailsDigested(ids: number[], sentAt: Date): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(emailOutbox)
+      .set({ status: "digested", sentAt })
+      .where(and(inArray(emailOutbox.id, ids), eq(emailOutbox.status, "held")));
+  }
+
+  async getEmailOutbox(filter: EmailOutboxFilter = {}): Promise<EmailOutboxEntry[]> {
+    let query = db.select().from(emailOutbox)
+      .where(and(
+        filter.status ? eq(emailOutbox.status, filter.status) : undefined,
+        filter.userId !== undefined ? eq(emailOutbox.userId, filter.userId) : undefined
+      ))
+      .orderBy(desc(emailOutbox.id))
+      .$dynamic();
+
+    if (filter.limit !== undefined) {
+      query = query.limit(filter.limit);
+    }
+    if (filter.offset !== undefined) {
+      query = query.offset(filter.offset);
+    }
+
+    return query;
+  }
 }
 
 export const storage = new DatabaseStorage();
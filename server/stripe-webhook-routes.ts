@@ -0,0 +1,34 @@
+import express, { type Express } from "express";
+import Stripe from "stripe";
+import { processStripeEvent } from "./stripe-webhook-service";
+
+/**
+ * Register the Stripe webhook endpoint. The signature is checked against the
+ * raw request body, so this must be registered before the JSON body parser.
+ */
+export function registerStripeWebhookRoutes(app: Express) {
+  app.post("/api/stripe/webhook", express.raw({ type: "application/json" }), async (req, res) => {
+    const secret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!secret) {
+      console.error("Stripe webhook received but STRIPE_WEBHOOK_SECRET is not set");
+      return res.status(500).json({ message: "Webhook not configured" });
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = Stripe.webhooks.constructEvent(req.body, req.headers["stripe-signature"] as string, secret);
+    } catch (error) {
+      console.error("Stripe webhook signature verification failed:", (error as Error).message);
+      return res.status(400).json({ message: "Invalid signature" });
+    }
+
+    try {
+      const result = await processStripeEvent(event);
+      res.json({ received: true, duplicate: result === "duplicate" });
+    } catch (error) {
+      // A non-2xx response makes Stripe retry the event later
+      console.error(`Error processing Stripe event ${event.id} (${event.type}):`, error);
+      res.status(500).json({ message: "Failed to process event" });
+    }
+  });
+}
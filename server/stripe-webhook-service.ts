@@ -0,0 +1,300 @@
+import Stripe from "stripe";
+import { storage } from "./storage";
+import { notificationService } from "./notification-service";
+import { subscriptionScheduler } from "./subscription-scheduler";
+import { deleteCachedReceiptPDF } from "./receipt-service";
+import { Receipt, User } from "@shared/schema";
+
+// Stripe subscription statuses that still give access to paid features.
+// Past-due subscriptions keep access while Stripe retries the payment.
+const activeSubscriptionStatuses: Stripe.Subscription.Status[] = ["active", "trialing", "past_due"];
+
+const billingCycles: Record<string, string> = {
+  month: "monthly",
+  year: "yearly",
+};
+
+function idOf(value: string | { id: string } | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return typeof value === "string" ? value : value.id;
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat("en-AU", { style: "currency", currency }).format(amount);
+}
+
+async function findUserForCustomer(customer: string | { id: string } | null): Promise<User | undefined> {
+  const customerId = idOf(customer);
+  return customerId ? await storage.getUserByStripeCustomerId(customerId) : undefined;
+}
+
+function invoicePaymentIntentId(invoice: Stripe.Invoice): string | undefined {
+  const payment = invoice.payments?.data.find(payment => payment.payment.type === "payment_intent");
+  return idOf(payment?.payment.payment_intent);
+}
+
+function invoiceSubscriptionId(invoice: Stripe.Invoice): string | undefined {
+  return idOf(invoice.parent?.subscription_details?.subscription);
+}
+
+/**
+ * Find the receipt already recorded for an invoice, or for the payment
+ * intent that paid it
+ */
+async function findInvoiceReceipt(invoice: Stripe.Invoice): Promise<Receipt | undefined> {
+  const receipt = await storage.getReceiptByStripeInvoiceId(invoice.id!);
+  if (receipt) return receipt;
+
+  const paymentIntentId = invoicePaymentIntentId(invoice);
+  return paymentIntentId ? await storage.getReceiptByPaymentIntentId(paymentIntentId) : undefined;
+}
+
+/**
+ * Record a paid or failed invoice as a receipt. A receipt that already exists
+ * for the invoice is updated, except that a paid receipt is never marked failed.
+ */
+async function recordInvoiceReceipt(user: User, invoice: Stripe.Invoice, paymentStatus: "paid" | "failed"): Promise<Receipt> {
+  const currency = invoice.currency.toUpperCase();
+  const amount = (paymentStatus === "paid" ? invoice.amount_paid : invoice.amount_due) / 100;
+  const paymentMethod = invoice.payment_settings?.payment_method_types?.[0] ?? null;
+
+  const existing = await findInvoiceReceipt(invoice);
+  if (existing) {
+    if (existing.paymentStatus === "paid" || existing.paymentStatus === paymentStatus) {
+      return existing;
+    }
+
+    // Clear the cached PDF so it's regenerated with the new status
+    const updated = await storage.updateReceipt(existing.id, {
+      paymentStatus,
+      amount,
+      stripeInvoiceId: invoice.id,
+      stripePaymentIntentId: existing.stripePaymentIntentId ?? invoicePaymentIntentId(invoice) ?? null,
+      paymentMethod: paymentMethod ?? existing.paymentMethod,
+      pdfUrl: null,
+    });
+    deleteCachedReceiptPDF(existing);
+    return updated;
+  }
+
+  return await storage.createReceipt({
+    userId: user.id,
+    receiptNumber: await storage.generateReceiptNumber(),
+    amount,
+    currency,
+    description: invoice.lines.data[0]?.description || "Subscription Payment",
+    type: invoiceSubscriptionId(invoice) ? "subscription" : "one_time",
+    items: {
+      items: invoice.lines.data.map(line => ({
+        name: line.description || "Subscription",
+        quantity: line.quantity ?? 1,
+        amount: line.amount / 100,
+      })),
+    },
+    paymentMethod,
+    paymentStatus,
+    stripePaymentIntentId: invoicePaymentIntentId(invoice) ?? null,
+    stripeInvoiceId: invoice.id,
+  });
+}
+
+async function handleInvoicePaid(invoice: Stripe.Invoice) {
+  const user = await findUserForCustomer(invoice.customer);
+  if (!user) {
+    console.warn(`Stripe invoice ${invoice.id} paid for an unknown customer`);
+    return;
+  }
+
+  await recordInvoiceReceipt(user, invoice, "paid");
+
+  // The invoice covers the period up to the next billing date
+  const subscription = await storage.getSubscription(user.id);
+  const periodEnd = invoice.lines.data[0]?.period.end;
+  if (subscription && invoiceSubscriptionId(invoice)) {
+    const recovered = await subscriptionScheduler.endDunning(subscription);
+    await storage.updateSubscription(recovered.id, {
+      isActive: true,
+      ...(periodEnd ? { nextBillingDate: new Date(periodEnd * 1000) } : {}),
+    });
+  }
+}
+
+async function handleInvoicePaymentFailed(invoice: Stripe.Invoice) {
+  const user = await findUserForCustomer(invoice.customer);
+  if (!user) {
+    console.warn(`Stripe invoice ${invoice.id} failed for an unknown customer`);
+    return;
+  }
+
+  const receipt = await recordInvoiceReceipt(user, invoice, "failed");
+  if (receipt.paymentStatus !== "failed") return;
+
+  // Retry the charge on a schedule, then suspend if it never goes through
+  const subscription = await storage.getSubscription(user.id);
+  if (subscription && invoiceSubscriptionId(invoice)) {
+    await subscriptionScheduler.startDunning(subscription, invoice.id ?? null);
+  }
+
+  try {
+    await notificationService.createPaymentNotification(
+      user.id,
+      "Payment Failed",
+      `We couldn't take your payment of ${formatAmount(receipt.amount, receipt.currency)}. Please update your payment method to keep your subscription active.`,
+      receipt.id
+    );
+  } catch (error) {
+    console.error("Failed to send payment failed notification:", error);
+  }
+}
+
+/**
+ * Bring our subscription record in line with Stripe's: whether it's active,
+ * when it next bills, which item and price it uses and how often it bills.
+ * The property count is ours and is pushed to Stripe by the billing sync.
+ */
+async function handleSubscriptionUpdated(stripeSubscription: Stripe.Subscription) {
+  const user = await findUserForCustomer(stripeSubscription.customer);
+  if (!user) {
+    console.warn(`Stripe subscription ${stripeSubscription.id} updated for an unknown customer`);
+    return;
+  }
+
+  const isActive = activeSubscriptionStatuses.includes(stripeSubscription.status);
+  if (isActive && user.stripeSubscriptionId !== stripeSubscription.id) {
+    await storage.updateUserStripeInfo(user.id, { stripeSubscriptionId: stripeSubscription.id });
+  }
+
+  const subscription = await storage.getSubscription(user.id);
+  if (!subscription) return;
+
+  const item = stripeSubscription.items.data[0];
+  const interval = item?.price.recurring?.interval;
+  await storage.updateSubscription(subscription.id, {
+    // Stripe still counts a past_due subscription as live, but we suspend it once dunning runs out
+    isActive: isActive && subscription.dunningState !== "suspended",
+    ...(item ? {
+      nextBillingDate: new Date(item.current_period_end * 1000),
+      stripeSubscriptionItemId: item.id,
+      stripePriceId: item.price.id,
+    } : {}),
+    ...(interval && billingCycles[interval] ? { billingCycle: billingCycles[interval] } : {}),
+  });
+}
+
+async function handleSubscriptionDeleted(stripeSubscription: Stripe.Subscription) {
+  const user = await findUserForCustomer(stripeSubscription.customer);
+  if (!user) {
+    console.warn(`Stripe subscription ${stripeSubscription.id} deleted for an unknown customer`);
+    return;
+  }
+
+  // Ignore an old subscription ending after the user has moved to a new one
+  if (user.stripeSubscriptionId && user.stripeSubscriptionId !== stripeSubscription.id) return;
+
+  await storage.updateUserStripeInfo(user.id, { stripeSubscriptionId: null });
+
+  const subscription = await storage.getSubscription(user.id);
+  if (subscription) {
+    // Nothing is owed on a subscription that has ended, so stop any dunning
+    const ended = await subscriptionScheduler.endDunning(subscription);
+    await storage.updateSubscription(ended.id, { isActive: false });
+  }
+
+  try {
+    await notificationService.createPaymentNotification(
+      user.id,
+      "Subscription Ended",
+      "Your subscription has ended. Subscribe again at any time to restore access to paid features."
+    );
+  } catch (error) {
+    console.error("Failed to send subscription ended notification:", error);
+  }
+}
+
+/**
+ * Mark the receipt for a payment intent as paid. Payment intents for invoices
+ * are recorded from the invoice; the only ones recorded here are those we
+ * create ourselves, which carry a price_id or receipt_type in their metadata.
+ */
+async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent) {
+  const paymentMethod = paymentIntent.payment_method_types[0] ?? null;
+
+  const existing = await storage.getReceiptByPaymentIntentId(paymentIntent.id);
+  if (existing) {
+    if (existing.paymentStatus !== "paid") {
+      await storage.updateReceipt(existing.id, {
+        paymentStatus: "paid",
+        paymentMethod: paymentMethod ?? existing.paymentMethod,
+        pdfUrl: null,
+      });
+      deleteCachedReceiptPDF(existing);
+    }
+    return;
+  }
+
+  const { price_id: priceId, receipt_type: receiptType } = paymentIntent.metadata;
+  if (!priceId && !receiptType) return;
+
+  const user = await findUserForCustomer(paymentIntent.customer);
+  if (!user) {
+    console.warn(`Stripe payment intent ${paymentIntent.id} succeeded for an unknown customer`);
+    return;
+  }
+
+  const amount = paymentIntent.amount_received / 100;
+  const description = paymentIntent.description || (priceId ? "Subscription Payment" : "One-time Payment");
+  await storage.createReceipt({
+    userId: user.id,
+    receiptNumber: await storage.generateReceiptNumber(),
+    amount,
+    currency: paymentIntent.currency.toUpperCase(),
+    description,
+    type: priceId || receiptType === "subscription" ? "subscription" : "one_time",
+    items: { items: [{ name: description, amount }] },
+    paymentMethod,
+    paymentStatus: "paid",
+    stripePaymentIntentId: paymentIntent.id,
+  });
+}
+
+/**
+ * Apply a single Stripe event. Event types we don't use are ignored.
+ */
+export async function handleStripeEvent(event: Stripe.Event) {
+  switch (event.type) {
+    case "invoice.paid":
+      await handleInvoicePaid(event.data.object);
+      break;
+    case "invoice.payment_failed":
+      await handleInvoicePaymentFailed(event.data.object);
+      break;
+    case "customer.subscription.updated":
+      await handleSubscriptionUpdated(event.data.object);
+      break;
+    case "customer.subscription.deleted":
+      await handleSubscriptionDeleted(event.data.object);
+      break;
+    case "payment_intent.succeeded":
+      await handlePaymentIntentSucceeded(event.data.object);
+      break;
+  }
+}
+
+/**
+ * Process an event once. Stripe delivers events at least once, so the event
+ * id is recorded first and redeliveries are skipped. If processing fails the
+ * record is removed so Stripe's retry goes through.
+ */
+export async function processStripeEvent(event: Stripe.Event): Promise<"processed" | "duplicate"> {
+  const claimed = await storage.claimStripeEvent(event.id, event.type);
+  if (!claimed) return "duplicate";
+
+  try {
+    await handleStripeEvent(event);
+  } catch (error) {
+    await storage.releaseStripeEvent(event.id);
+    throw error;
+  }
+
+  return "processed";
+}
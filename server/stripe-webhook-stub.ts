@@ -0,0 +1,135 @@
+/**
+ * Send stub Stripe events to a locally running server, signed the same way
+ * Stripe signs them, to exercise the webhook without a Stripe account.
+ *
+ *   STRIPE_WEBHOOK_SECRET=whsec_test npm run stripe:webhook-stub -- invoice.paid cus_123 [sub_123]
+ *
+ * The customer id must match a user's stripeCustomerId. Sending the same
+ * event twice (WEBHOOK_EVENT_ID=evt_...) checks that redeliveries are ignored.
+ */
+import Stripe from "stripe";
+import { randomBytes } from "crypto";
+
+type StubEventType =
+  | "invoice.paid"
+  | "invoice.payment_failed"
+  | "customer.subscription.updated"
+  | "customer.subscription.deleted"
+  | "payment_intent.succeeded";
+
+function randomId(prefix: string): string {
+  return `${prefix}_${randomBytes(8).toString("hex")}`;
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+const inThirtyDays = () => now() + 30 * 24 * 60 * 60;
+
+function stubInvoice(customerId: string, subscriptionId: string, paid: boolean) {
+  const amount = 1999;
+  return {
+    id: randomId("in"),
+    object: "invoice",
+    customer: customerId,
+    currency: "aud",
+    amount_due: amount,
+    amount_paid: paid ? amount : 0,
+    status: paid ? "paid" : "open",
+    parent: {
+      type: "subscription_details",
+      subscription_details: { subscription: subscriptionId, metadata: {} },
+    },
+    payment_settings: { payment_method_types: ["card"] },
+    payments: {
+      object: "list",
+      data: [{ payment: { type: "payment_intent", payment_intent: randomId("pi") } }],
+    },
+    lines: {
+      object: "list",
+      data: [{
+        description: "1 × Professional (at $19.99 / month)",
+        amount,
+        quantity: 1,
+        period: { start: now(), end: inThirtyDays() },
+      }],
+    },
+  };
+}
+
+function stubSubscription(customerId: string, subscriptionId: string, status: Stripe.Subscription.Status) {
+  return {
+    id: subscriptionId,
+    object: "subscription",
+    customer: customerId,
+    status,
+    items: {
+      object: "list",
+      data: [{
+        id: randomId("si"),
+        quantity: 2,
+        current_period_end: inThirtyDays(),
+        price: { id: randomId("price"), recurring: { interval: "month" } },
+      }],
+    },
+  };
+}
+
+function stubPaymentIntent(customerId: string) {
+  return {
+    id: randomId("pi"),
+    object: "payment_intent",
+    customer: customerId,
+    amount: 2999,
+    amount_received: 2999,
+    currency: "aud",
+    description: "Property Valuation Service",
+    payment_method_types: ["card"],
+    metadata: { receipt_type: "one_time" },
+    status: "succeeded",
+  };
+}
+
+function buildStubEvent(type: StubEventType, customerId: string, subscriptionId: string) {
+  const objects: Record<StubEventType, () => object> = {
+    "invoice.paid": () => stubInvoice(customerId, subscriptionId, true),
+    "invoice.payment_failed": () => stubInvoice(customerId, subscriptionId, false),
+    "customer.subscription.updated": () => stubSubscription(customerId, subscriptionId, "active"),
+    "customer.subscription.deleted": () => stubSubscription(customerId, subscriptionId, "canceled"),
+    "payment_intent.succeeded": () => stubPaymentIntent(customerId),
+  };
+
+  return {
+    id: process.env.WEBHOOK_EVENT_ID || randomId("evt"),
+    object: "event",
+    type,
+    created: now(),
+    livemode: false,
+    data: { object: objects[type]() },
+  };
+}
+
+async function main() {
+  const [type, customerId, subscriptionId = randomId("sub")] = process.argv.slice(2);
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  const url = process.env.WEBHOOK_URL || "http://localhost:5000/api/stripe/webhook";
+
+  if (!type || !customerId || !secret) {
+    console.error("Usage: STRIPE_WEBHOOK_SECRET=... stripe-webhook-stub <event type> <customer id> [subscription id]");
+    process.exit(1);
+  }
+
+  const payload = JSON.stringify(buildStubEvent(type as StubEventType, customerId, subscriptionId), null, 2);
+  const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Stripe-Signature": signature },
+    body: payload,
+  });
+
+  console.log(`${type} -> ${response.status} ${await response.text()}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
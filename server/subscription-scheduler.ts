@@ -0,0 +1,255 @@
+import Stripe from "stripe";
+import { addDays, differenceInCalendarDays, format, startOfDay } from "date-fns";
+import { storage } from "./storage";
+import { notificationService } from "./notification-service";
+import { Subscription } from "@shared/schema";
+
+const stripe = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY, { apiVersion: "2025-04-30.basil" as any })
+  : undefined;
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+// Parse a comma-separated list of day counts, e.g. "7,1"
+function parseDays(value: string | undefined, fallback: number[]): number[] {
+  const days = (value ?? "")
+    .split(",")
+    .filter(day => day.trim() !== "")
+    .map(day => Number(day.trim()))
+    .filter(day => Number.isInteger(day) && day >= 0);
+  return days.length > 0 ? days : fallback;
+}
+
+// Days before renewal to remind the owner, set with RENEWAL_REMINDER_DAYS
+export const renewalReminderDays = parseDays(process.env.RENEWAL_REMINDER_DAYS, [7, 1]).sort((a, b) => b - a);
+
+// Days after a failed payment to retry it, set with DUNNING_RETRY_DAYS
+export const dunningRetryDays = parseDays(process.env.DUNNING_RETRY_DAYS, [1, 3, 5]).sort((a, b) => a - b);
+
+// Days between the final notice and suspension, set with DUNNING_GRACE_DAYS
+export const dunningGraceDays = Number(process.env.DUNNING_GRACE_DAYS ?? 7);
+
+/**
+ * Whether the user's subscription has been suspended for non-payment. Paid
+ * actions such as adding properties are refused until they pay.
+ */
+export async function isSuspendedForNonPayment(userId: number): Promise<boolean> {
+  const subscription = await storage.getSubscription(userId);
+  return subscription?.dunningState === "suspended";
+}
+
+/**
+ * In-process job runner for subscriptions. Each run sends renewal reminders
+ * ahead of the next billing date and moves failed payments through dunning:
+ * the charge is retried on a schedule, then the owner gets a final notice
+ * and a grace period, and when that runs out the subscription is suspended.
+ * A successful payment at any point ends dunning.
+ */
+export class SubscriptionScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * Send the most urgent reminder each subscription has reached, unless it
+   * has already had that one or a later one for the same billing date.
+   * Returns the number of reminders sent.
+   */
+  async sendRenewalReminders(now: Date = new Date()): Promise<number> {
+    if (renewalReminderDays.length === 0) return 0;
+
+    const subscriptions = await storage.getSubscriptionsRenewingBetween(now, addDays(startOfDay(now), renewalReminderDays[0] + 1));
+    let sent = 0;
+
+    for (const subscription of subscriptions) {
+      const daysUntilRenewal = differenceInCalendarDays(subscription.nextBillingDate, now);
+      const offset = renewalReminderDays.filter(days => daysUntilRenewal <= days).pop();
+      if (offset === undefined) continue;
+
+      const alreadySent = subscription.renewalReminderFor?.getTime() === subscription.nextBillingDate.getTime()
+        && subscription.renewalReminderDays !== null
+        && subscription.renewalReminderDays <= offset;
+      if (alreadySent) continue;
+
+      try {
+        await notificationService.createSubscriptionRenewalNotification(subscription.userId, daysUntilRenewal);
+        await storage.updateSubscription(subscription.id, {
+          renewalReminderFor: subscription.nextBillingDate,
+          renewalReminderDays: offset,
+        });
+        sent++;
+      } catch (error) {
+        console.error(`Failed to send renewal reminder for subscription ${subscription.id}:`, error);
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Start dunning after a failed payment. If the subscription is already in
+   * dunning, e.g. because one of our retries failed, its schedule is kept.
+   */
+  async startDunning(subscription: Subscription, invoiceId: string | null, now: Date = new Date()): Promise<Subscription> {
+    if (subscription.dunningState !== "none") {
+      return invoiceId && invoiceId !== subscription.dunningInvoiceId
+        ? storage.updateSubscription(subscription.id, { dunningInvoiceId: invoiceId })
+        : subscription;
+    }
+
+    return storage.updateSubscription(subscription.id, {
+      dunningState: "retrying",
+      dunningStartedAt: now,
+      dunningAttempts: 0,
+      nextDunningActionAt: addDays(now, dunningRetryDays[0] ?? 0),
+      dunningInvoiceId: invoiceId,
+    });
+  }
+
+  /**
+   * End dunning once the payment has gone through, lifting any suspension
+   */
+  async endDunning(subscription: Subscription): Promise<Subscription> {
+    if (subscription.dunningState === "none") {
+      return subscription;
+    }
+
+    return storage.updateSubscription(subscription.id, {
+      dunningState: "none",
+      dunningStartedAt: null,
+      dunningAttempts: 0,
+      nextDunningActionAt: null,
+      dunningInvoiceId: null,
+      isActive: true,
+    });
+  }
+
+  /**
+   * Take the next dunning step for every subscription that is due one.
+   * Returns the number of subscriptions processed.
+   */
+  async runDunning(now: Date = new Date()): Promise<number> {
+    const subscriptions = await storage.getSubscriptionsDueForDunning(now);
+    let processed = 0;
+
+    for (const subscription of subscriptions) {
+      try {
+        if (subscription.dunningState === "retrying") {
+          await this.retryPayment(subscription, now);
+        } else if (subscription.dunningState === "grace") {
+          await this.suspend(subscription);
+        }
+        processed++;
+      } catch (error) {
+        // Left as it is, so it's picked up on the next run
+        console.error(`Dunning failed for subscription ${subscription.id}:`, error);
+      }
+    }
+
+    return processed;
+  }
+
+  private async retryPayment(subscription: Subscription, now: Date) {
+    if (stripe && subscription.dunningInvoiceId) {
+      try {
+        const invoice = await stripe.invoices.pay(subscription.dunningInvoiceId);
+        if (invoice.status === "paid") {
+          // The invoice.paid webhook ends dunning too; doing it here means we don't wait for it
+          await this.endDunning(subscription);
+          return;
+        }
+      } catch (error) {
+        console.warn(`Retrying payment for subscription ${subscription.id} failed:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    const attempts = subscription.dunningAttempts + 1;
+    const nextRetryDays = dunningRetryDays[attempts];
+
+    if (nextRetryDays !== undefined && subscription.dunningStartedAt) {
+      await storage.updateSubscription(subscription.id, {
+        dunningAttempts: attempts,
+        nextDunningActionAt: addDays(subscription.dunningStartedAt, nextRetryDays),
+      });
+      return;
+    }
+
+    // Out of retries: give the owner a final notice and a grace period
+    const graceEndsAt = addDays(now, dunningGraceDays);
+    await storage.updateSubscription(subscription.id, {
+      dunningState: "grace",
+      dunningAttempts: attempts,
+      nextDunningActionAt: graceEndsAt,
+    });
+
+    try {
+      await notificationService.createPaymentNotification(
+        subscription.userId,
+        "Final Payment Notice",
+        `We still haven't been able to take your subscription payment. Please update your payment method by ${format(graceEndsAt, "d MMMM yyyy")} or your subscription will be suspended and you won't be able to add properties.`
+      );
+    } catch (error) {
+      console.error("Failed to send final payment notice:", error);
+    }
+  }
+
+  private async suspend(subscription: Subscription) {
+    await storage.updateSubscription(subscription.id, {
+      dunningState: "suspended",
+      nextDunningActionAt: null,
+      isActive: false,
+    });
+
+    try {
+      await notificationService.createPaymentNotification(
+        subscription.userId,
+        "Subscription Suspended",
+        "Your subscription has been suspended because we couldn't take payment. Update your payment method to restore access to paid features."
+      );
+    } catch (error) {
+      console.error("Failed to send subscription suspended notification:", error);
+    }
+  }
+
+  /**
+   * Start the job runner. The interval can be set with
+   * SUBSCRIPTION_SCHEDULER_INTERVAL_MINUTES; a value of 0 disables it.
+   */
+  start(intervalMinutes = Number(process.env.SUBSCRIPTION_SCHEDULER_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES)) {
+    if (this.timer || !(intervalMinutes > 0)) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), intervalMinutes * 60 * 1000);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+    this.tick();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick() {
+    // Skip this run if the previous one is still going
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const reminded = await this.sendRenewalReminders();
+      const dunned = await this.runDunning();
+      if (reminded > 0 || dunned > 0) {
+        console.log(`Subscription scheduler sent ${reminded} renewal reminder(s) and processed ${dunned} dunning step(s)`);
+      }
+    } catch (error) {
+      console.error("Subscription scheduler run failed:", error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+// Export a singleton instance
+export const subscriptionScheduler = new SubscriptionScheduler();
@@ -0,0 +1,73 @@
+import type { Express, Request, Response } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { authorizeProperty } from "./property-access";
+import { Property } from "@shared/schema";
+import {
+  buildTaxPack,
+  lastCompletedFinancialYear,
+  taxPackToCsv,
+  taxPackToPDF,
+} from "./tax-pack-service";
+import { requireAuth } from "./middleware/auth";
+
+// fy is the year the financial year ends in, so fy=2024 is 1 July 2023 to 30 June 2024
+const taxPackQuerySchema = z.object({
+  fy: z.coerce.number().int().min(2000).max(2100).optional(),
+  format: z.enum(["json", "csv", "pdf"]).default("json"),
+});
+
+async function sendTaxPack(
+  req: Request,
+  res: Response,
+  properties: Property[],
+  fileLabel: string
+) {
+  const query = taxPackQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({ message: "Invalid query parameters", errors: query.error.errors });
+  }
+
+  const endYear = query.data.fy ?? lastCompletedFinancialYear();
+  const pack = await buildTaxPack(properties, endYear);
+  const filename = `tax-pack-${fileLabel}-FY${pack.financialYear}`;
+
+  switch (query.data.format) {
+    case "csv":
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.csv"`);
+      return res.send(taxPackToCsv(pack));
+    case "pdf": {
+      const pdf = await taxPackToPDF(pack, req.user!.fullName || req.user!.username);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.pdf"`);
+      return res.send(pdf);
+    }
+    default:
+      return res.json(pack);
+  }
+}
+
+export function registerTaxPackRoutes(app: Express) {
+  // End of financial year summary for one property
+  app.get("/api/properties/:id/tax-pack", requireAuth, async (req, res, next) => {
+    try {
+      const propertyId = parseInt(req.params.id);
+      const property = await authorizeProperty(req.user!.id, propertyId, "view");
+
+      await sendTaxPack(req, res, [property], `property-${property.id}`);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // End of financial year summary for all of the user's properties
+  app.get("/api/portfolio/tax-pack", requireAuth, async (req, res, next) => {
+    try {
+      const properties = await storage.getPropertiesByUserId(req.user!.id);
+      await sendTaxPack(req, res, properties, "portfolio");
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,392 @@
+import PDFDocument from "pdfkit";
+import { storage } from "./storage";
+import { MaintenanceRecord, Property } from "@shared/schema";
+import { completedMaintenance, getPropertyLedger, DateRange, LedgerItem } from "./ledger-service";
+import { getBusinessDetails } from "./receipt-service";
+import { toCsv } from "./csv";
+
+// Maintenance in these categories is usually a renovation rather than a repair
+const capitalWorksCategories: MaintenanceRecord["category"][] = ["kitchen", "bathroom"];
+
+// Maintenance in these categories usually buys plant and equipment, such as
+// an appliance, air conditioner or carpet, which is depreciated rather than
+// claimed outright
+const depreciatingAssetCategories: MaintenanceRecord["category"][] = ["appliances", "hvac", "flooring"];
+
+// Depreciating assets costing this much or less can be claimed straight away
+const IMMEDIATE_DEDUCTION_THRESHOLD = 300;
+
+const categoryLabels: Record<string, string> = {
+  rent: "Rent",
+  other_income: "Other rental income",
+  council_rates: "Council rates",
+  water_rates: "Water rates",
+  land_tax: "Land tax",
+  strata: "Body corporate / strata fees",
+  insurance: "Insurance",
+  management_fees: "Property management fees",
+  loan_interest: "Interest on loans",
+  other_expense: "Other expenses",
+};
+
+export type DepreciationFlag = "capital_works" | "plant_and_equipment";
+
+const depreciationNotes: Record<DepreciationFlag, string> = {
+  capital_works: "May be a capital works deduction (Division 43) rather than an immediate deduction",
+  plant_and_equipment: "May be a depreciating asset (Division 40); check with your accountant",
+};
+
+export interface TaxPackLine {
+  date: Date | null;
+  category: string;
+  description: string;
+  amount: number;
+  flag: DepreciationFlag | null;
+  estimated: boolean; // Worked out from a loan schedule rather than recorded
+}
+
+export interface TaxPackSection {
+  lines: TaxPackLine[];
+  total: number;
+}
+
+export interface PropertyTaxPack {
+  propertyId: number;
+  address: string;
+  income: TaxPackSection;
+  expenses: TaxPackSection; // Running costs, excluding interest and repairs
+  loanInterest: TaxPackSection;
+  repairs: TaxPackSection;
+  capitalWorks: TaxPackSection; // Not deductible this year; listed for the accountant
+  flaggedItems: TaxPackLine[];
+  totalDeductions: number;
+  netRentalResult: number;
+}
+
+export interface TaxPack {
+  financialYear: string; // e.g. "2023-24"
+  from: Date;
+  to: Date;
+  properties: PropertyTaxPack[];
+  totalIncome: number;
+  totalDeductions: number;
+  netRentalResult: number;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * The Australian financial year ending 30 June of the given year, so
+ * financial year 2024 runs from 1 July 2023 to 30 June 2024. Boundaries are
+ * in UTC, like the dates entered against ledger entries and loans, so the
+ * range doesn't move with the server's time zone.
+ */
+export function financialYearRange(endYear: number): DateRange {
+  return {
+    from: new Date(Date.UTC(endYear - 1, 6, 1)),
+    to: new Date(Date.UTC(endYear, 5, 30, 23, 59, 59, 999)),
+  };
+}
+
+export function formatFinancialYear(endYear: number): string {
+  return `${endYear - 1}-${String(endYear % 100).padStart(2, "0")}`;
+}
+
+// The most recent financial year that has finished
+export function lastCompletedFinancialYear(now: Date = new Date()): number {
+  return now.getUTCMonth() >= 6 ? now.getUTCFullYear() : now.getUTCFullYear() - 1;
+}
+
+function section(lines: TaxPackLine[]): TaxPackSection {
+  return {
+    lines: lines.sort((a, b) => (a.date?.getTime() ?? 0) - (b.date?.getTime() ?? 0)),
+    total: roundCents(lines.reduce((total, line) => total + line.amount, 0)),
+  };
+}
+
+function ledgerLine(item: LedgerItem): TaxPackLine {
+  return {
+    date: item.date,
+    category: categoryLabels[item.category] ?? item.category,
+    description: item.description ?? categoryLabels[item.category] ?? item.category,
+    amount: item.amount,
+    flag: null,
+    estimated: item.source === "loan_schedule",
+  };
+}
+
+/**
+ * Work out whether maintenance is capital works or a repair. Work that added
+ * value to the property is treated as an improvement.
+ */
+export function classifyMaintenance(record: MaintenanceRecord): "capital_works" | "repair" {
+  return (record.estimatedValueAdded ?? 0) > 0 || capitalWorksCategories.includes(record.category)
+    ? "capital_works"
+    : "repair";
+}
+
+function maintenanceLine(record: MaintenanceRecord): TaxPackLine {
+  const classification = classifyMaintenance(record);
+  const depreciating = depreciatingAssetCategories.includes(record.category) && record.cost > IMMEDIATE_DEDUCTION_THRESHOLD;
+
+  return {
+    date: record.completedDate,
+    category: record.category.charAt(0).toUpperCase() + record.category.slice(1),
+    description: record.contractor ? `${record.title} (${record.contractor})` : record.title,
+    amount: record.cost,
+    flag: classification === "capital_works" ? "capital_works" : depreciating ? "plant_and_equipment" : null,
+    estimated: false,
+  };
+}
+
+// Scheduled interest comes one line per repayment; the tax pack shows one line per loan
+function combineScheduledInterest(items: LedgerItem[], range: DateRange): TaxPackLine[] {
+  const byLoan = new Map<number, LedgerItem[]>();
+  for (const item of items) {
+    byLoan.set(item.loanId!, [...(byLoan.get(item.loanId!) ?? []), item]);
+  }
+
+  return Array.from(byLoan.values()).map(loanItems => ({
+    date: range.to,
+    category: categoryLabels.loan_interest,
+    description: `${loanItems[0].description} (estimated from loan schedule)`,
+    amount: roundCents(loanItems.reduce((total, item) => total + item.amount, 0)),
+    flag: null,
+    estimated: true,
+  }));
+}
+
+async function buildPropertyTaxPack(property: Property, range: DateRange): Promise<PropertyTaxPack> {
+  const [items, records] = await Promise.all([
+    getPropertyLedger(property, range),
+    storage.getMaintenanceRecordsByPropertyId(property.id),
+  ]);
+
+  // Maintenance is classified from the records themselves
+  const ledgerItems = items.filter(item => item.source !== "maintenance");
+  const interestItems = ledgerItems.filter(item => item.category === "loan_interest");
+
+  const income = section(ledgerItems.filter(item => item.direction === "income").map(ledgerLine));
+  const expenses = section(
+    ledgerItems.filter(item => item.direction === "expense" && item.category !== "loan_interest").map(ledgerLine)
+  );
+  const loanInterest = section([
+    ...interestItems.filter(item => item.source === "entry").map(ledgerLine),
+    ...combineScheduledInterest(interestItems.filter(item => item.source === "loan_schedule"), range),
+  ]);
+
+  const maintenanceLines = completedMaintenance(records, range).map(record => ({
+    record,
+    line: maintenanceLine(record),
+  }));
+  const repairs = section(maintenanceLines.filter(({ record }) => classifyMaintenance(record) === "repair").map(({ line }) => line));
+  const capitalWorks = section(maintenanceLines.filter(({ record }) => classifyMaintenance(record) === "capital_works").map(({ line }) => line));
+
+  const totalDeductions = roundCents(expenses.total + loanInterest.total + repairs.total);
+
+  return {
+    propertyId: property.id,
+    address: `${property.address}, ${property.city} ${property.state} ${property.zipCode}`,
+    income,
+    expenses,
+    loanInterest,
+    repairs,
+    capitalWorks,
+    flaggedItems: maintenanceLines.map(({ line }) => line).filter(line => line.flag !== null),
+    totalDeductions,
+    netRentalResult: roundCents(income.total - totalDeductions),
+  };
+}
+
+/**
+ * Summarise rental income and deductions for a financial year, for one
+ * property or a whole portfolio. Maintenance that looks like capital works or
+ * a depreciating asset is flagged for the accountant rather than claimed.
+ */
+export async function buildTaxPack(properties: Property[], endYear: number): Promise<TaxPack> {
+  const range = financialYearRange(endYear);
+  const packs = await Promise.all(properties.map(property => buildPropertyTaxPack(property, range)));
+
+  const totalIncome = roundCents(packs.reduce((total, pack) => total + pack.income.total, 0));
+  const totalDeductions = roundCents(packs.reduce((total, pack) => total + pack.totalDeductions, 0));
+
+  return {
+    financialYear: formatFinancialYear(endYear),
+    ...range,
+    properties: packs,
+    totalIncome,
+    totalDeductions,
+    netRentalResult: roundCents(totalIncome - totalDeductions),
+  };
+}
+
+// Dates are shown in UTC to match the financial year boundaries
+function formatDate(date: Date | null): string {
+  return date ? date.toLocaleDateString("en-AU", { timeZone: "UTC" }) : "";
+}
+
+function lineNote(line: TaxPackLine): string {
+  if (line.flag) return depreciationNotes[line.flag];
+  return line.estimated ? "Estimated; replace with the figure from your loan statement" : "";
+}
+
+export function taxPackToCsv(pack: TaxPack): string {
+  const rows: unknown[][] = [];
+
+  for (const property of pack.properties) {
+    const sections: Array<[string, TaxPackSection]> = [
+      ["Rental income", property.income],
+      ["Expenses", property.expenses],
+      ["Loan interest", property.loanInterest],
+      ["Repairs and maintenance", property.repairs],
+      ["Capital works (not deducted)", property.capitalWorks],
+    ];
+
+    for (const [name, { lines }] of sections) {
+      for (const line of lines) {
+        rows.push([
+          property.address, name, formatDate(line.date), line.category, line.description,
+          line.amount.toFixed(2), line.flag ?? "", lineNote(line),
+        ]);
+      }
+    }
+
+    for (const [name, amount] of [
+      ["Total rental income", property.income.total],
+      ["Total deductions", property.totalDeductions],
+      ["Net rental income or loss", property.netRentalResult],
+    ] as const) {
+      rows.push([property.address, "Summary", "", "", name, amount.toFixed(2), "", ""]);
+    }
+  }
+
+  if (pack.properties.length > 1) {
+    rows.push(["All properties", "Summary", "", "", "Total rental income", pack.totalIncome.toFixed(2), "", ""]);
+    rows.push(["All properties", "Summary", "", "", "Total deductions", pack.totalDeductions.toFixed(2), "", ""]);
+    rows.push(["All properties", "Summary", "", "", "Net rental income or loss", pack.netRentalResult.toFixed(2), "", ""]);
+  }
+
+  return toCsv(["Property", "Section", "Date", "Category", "Description", "Amount", "Flag", "Note"], rows);
+}
+
+/**
+ * Render a tax pack as a PDF for the user's accountant, with a summary first
+ * and then a page per property
+ */
+export function taxPackToPDF(pack: TaxPack, owner: string): Promise<Buffer> {
+  const business = getBusinessDetails();
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: 50,
+    info: { Title: `Rental Property Tax Summary FY${pack.financialYear}`, Author: business.name },
+  });
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const formatAmount = (amount: number) =>
+    new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD" }).format(amount);
+
+  const left = doc.page.margins.left;
+  const right = doc.page.width - doc.page.margins.right;
+  const width = right - left;
+
+  const ensureSpace = (height: number) => {
+    if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+      doc.addPage();
+    }
+  };
+
+  const amountRow = (label: string, amount: number, bold = false) => {
+    ensureSpace(16);
+    const y = doc.y;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(10).fillColor("#333333");
+    doc.text(label, left, y, { width: width - 100 });
+    doc.text(formatAmount(amount), right - 100, y, { width: 100, align: "right" });
+    doc.moveDown(0.3);
+  };
+
+  // Summary
+  doc.font("Helvetica-Bold").fontSize(18).fillColor("#333333").text("Rental Property Tax Summary", left, 50);
+  doc.font("Helvetica").fontSize(10).fillColor("#666666").text(
+    `Financial year ${pack.financialYear} (${formatDate(pack.from)} to ${formatDate(pack.to)})\nPrepared for ${owner} by ${business.name}`
+  );
+  doc.moveDown();
+
+  for (const property of pack.properties) {
+    amountRow(`${property.address} - net rental result`, property.netRentalResult);
+  }
+  doc.moveDown(0.5);
+  amountRow("Total rental income", pack.totalIncome, true);
+  amountRow("Total deductions", pack.totalDeductions, true);
+  amountRow("Net rental income or loss", pack.netRentalResult, true);
+
+  // A page per property
+  for (const property of pack.properties) {
+    doc.addPage();
+    doc.font("Helvetica-Bold").fontSize(14).fillColor("#3b82f6").text(property.address, left, 50, { width });
+    doc.moveDown(0.5);
+
+    const sections: Array<[string, TaxPackSection]> = [
+      ["Rental income", property.income],
+      ["Expenses", property.expenses],
+      ["Interest on loans", property.loanInterest],
+      ["Repairs and maintenance", property.repairs],
+      ["Capital works (not deducted this year)", property.capitalWorks],
+    ];
+
+    for (const [name, { lines, total }] of sections) {
+      ensureSpace(40);
+      doc.moveDown(0.5);
+      doc.font("Helvetica-Bold").fontSize(11).fillColor("#333333").text(name, left);
+      doc.moveDown(0.2);
+
+      if (lines.length === 0) {
+        doc.font("Helvetica").fontSize(9).fillColor("#999999").text("None recorded", left);
+        continue;
+      }
+
+      for (const line of lines) {
+        const marker = line.flag || line.estimated ? " *" : "";
+        amountRow(`${formatDate(line.date)}  ${line.description}${marker}`, line.amount);
+      }
+      amountRow(`Total ${name.toLowerCase()}`, total, true);
+    }
+
+    doc.moveDown(0.5);
+    amountRow("Total deductions", property.totalDeductions, true);
+    amountRow("Net rental income or loss", property.netRentalResult, true);
+
+    const notes = [
+      ...property.flaggedItems,
+      ...property.loanInterest.lines.filter(line => line.estimated),
+    ];
+    if (notes.length > 0) {
+      ensureSpace(40);
+      doc.moveDown();
+      doc.font("Helvetica-Bold").fontSize(10).fillColor("#333333").text("* For your accountant", left);
+      doc.font("Helvetica").fontSize(9).fillColor("#666666");
+      for (const line of notes) {
+        ensureSpace(24);
+        doc.text(`${line.description}: ${lineNote(line)}`, left, doc.y, { width });
+      }
+    }
+  }
+
+  // Footer on the last page
+  doc.font("Helvetica").fontSize(8).fillColor("#666666").text(
+    `Prepared from the records kept in ${business.name}. This summary is not tax advice.`,
+    left,
+    doc.page.height - 90,
+    { width, align: "center" }
+  );
+
+  doc.end();
+  return finished;
+}
@@ -0,0 +1,306 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import path from "path";
+import fs from "fs";
+import { z } from "zod";
+import { storage } from "./storage";
+import { TradeDocument, TradeDocumentType, tradeDocumentStatusEnum } from "@shared/schema";
+import { transitionJobRequest } from "./job-request-service";
+import {
+  acceptTradeDocument,
+  calculateTradeDocumentTotals,
+  generateTradeDocumentHTML,
+  notifyTradeDocumentSent,
+  rejectTradeDocument,
+} from "./trade-document-service";
+import { requireAuth } from "./middleware/auth";
+
+// Middleware to ensure user is a tradesperson
+function requireTradesperson(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  if (req.user!.role !== "tradesperson") {
+    return res.status(403).json({ message: "Access denied. Tradesperson role required." });
+  }
+
+  next();
+}
+
+const lineItemsSchema = z.array(z.object({
+  description: z.string().trim().min(1),
+  kind: z.enum(["labour", "materials", "other"]),
+  quantity: z.number().positive(),
+  unitPrice: z.number().min(0),
+  gstApplicable: z.boolean().optional(),
+})).min(1);
+
+const quoteSchema = z.object({
+  propertyId: z.number().int().positive().optional(),
+  jobRequestId: z.number().int().positive().optional(),
+  lineItems: lineItemsSchema,
+  notes: z.string().optional(),
+  validUntil: z.coerce.date().optional(),
+}).refine(data => data.propertyId || data.jobRequestId, {
+  message: "A property or job request is required",
+});
+
+const invoiceSchema = z.object({
+  maintenanceRecordId: z.number().int().positive().optional(),
+  jobRequestId: z.number().int().positive().optional(),
+  lineItems: lineItemsSchema,
+  notes: z.string().optional(),
+  dueDate: z.coerce.date().optional(),
+}).refine(data => data.maintenanceRecordId || data.jobRequestId, {
+  message: "A maintenance record or completed job request is required",
+});
+
+const rejectSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+// URL segment for each document type
+const typePaths: Record<TradeDocumentType, string> = {
+  quote: "quotes",
+  invoice: "invoices",
+};
+
+function isParty(document: TradeDocument, userId: number): boolean {
+  return document.ownerId === userId || document.tradespersonId === userId;
+}
+
+export function registerTradeDocumentRoutes(app: Express) {
+  // Send an itemised quote, either for a job request or directly for a property
+  app.post("/api/quotes", requireTradesperson, async (req, res, next) => {
+    try {
+      const validatedData = quoteSchema.parse(req.body);
+
+      const jobRequest = validatedData.jobRequestId
+        ? await storage.getJobRequest(validatedData.jobRequestId)
+        : undefined;
+      if (validatedData.jobRequestId) {
+        if (!jobRequest || jobRequest.tradespersonId !== req.user!.id) {
+          return res.status(403).json({ message: "Forbidden" });
+        }
+        if (jobRequest.status !== "requested" && jobRequest.status !== "quoted") {
+          return res.status(409).json({ message: "This job request can no longer be quoted" });
+        }
+      }
+
+      const property = await storage.getProperty(jobRequest?.propertyId ?? validatedData.propertyId!);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const totals = calculateTradeDocumentTotals(validatedData.lineItems);
+      const quote = await storage.createTradeDocument({
+        type: "quote",
+        documentNumber: await storage.generateTradeDocumentNumber("quote"),
+        tradespersonId: req.user!.id,
+        ownerId: property.userId,
+        propertyId: property.id,
+        jobRequestId: jobRequest?.id ?? null,
+        notes: validatedData.notes ?? null,
+        validUntil: validatedData.validUntil ?? null,
+        ...totals,
+      });
+
+      // The job request carries the quoted total; this also notifies the owner
+      if (jobRequest) {
+        await transitionJobRequest(jobRequest, "quoted", "tradesperson", {
+          quoteAmount: quote.total,
+          quoteNotes: `Quote ${quote.documentNumber}`,
+        });
+      } else {
+        try {
+          await notifyTradeDocumentSent(quote);
+        } catch (notificationError) {
+          console.error("Failed to send quote notification:", notificationError);
+        }
+      }
+
+      res.status(201).json(quote);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Send an itemised invoice for completed work
+  app.post("/api/invoices", requireTradesperson, async (req, res, next) => {
+    try {
+      const validatedData = invoiceSchema.parse(req.body);
+
+      let maintenanceRecordId = validatedData.maintenanceRecordId;
+      let jobRequestId: number | null = null;
+      if (validatedData.jobRequestId) {
+        const jobRequest = await storage.getJobRequest(validatedData.jobRequestId);
+        if (!jobRequest || jobRequest.tradespersonId !== req.user!.id) {
+          return res.status(403).json({ message: "Forbidden" });
+        }
+        if (jobRequest.status !== "completed" || !jobRequest.maintenanceRecordId) {
+          return res.status(409).json({ message: "Only completed jobs can be invoiced" });
+        }
+        maintenanceRecordId = jobRequest.maintenanceRecordId;
+        jobRequestId = jobRequest.id;
+      }
+
+      const record = await storage.getMaintenanceRecord(maintenanceRecordId!);
+      if (!record) {
+        return res.status(404).json({ message: "Maintenance record not found" });
+      }
+      if (record.tradePersonId !== req.user!.id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const property = await storage.getProperty(record.propertyId);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const totals = calculateTradeDocumentTotals(validatedData.lineItems);
+      const invoice = await storage.createTradeDocument({
+        type: "invoice",
+        documentNumber: await storage.generateTradeDocumentNumber("invoice"),
+        tradespersonId: req.user!.id,
+        ownerId: property.userId,
+        propertyId: property.id,
+        jobRequestId,
+        maintenanceRecordId: record.id,
+        notes: validatedData.notes ?? null,
+        dueDate: validatedData.dueDate ?? null,
+        ...totals,
+      });
+
+      try {
+        await notifyTradeDocumentSent(invoice);
+      } catch (notificationError) {
+        console.error("Failed to send invoice notification:", notificationError);
+      }
+
+      res.status(201).json(invoice);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  for (const [type, typePath] of Object.entries(typePaths) as Array<[TradeDocumentType, string]>) {
+    const notFound = `${type === "quote" ? "Quote" : "Invoice"} not found`;
+
+    // Owners see what they have received; tradespeople see what they have sent
+    app.get(`/api/${typePath}`, requireAuth, async (req, res, next) => {
+      try {
+        const status = req.query.status as string | undefined;
+        if (status && !(tradeDocumentStatusEnum.enumValues as string[]).includes(status)) {
+          return res.status(400).json({ message: "Invalid status" });
+        }
+
+        const filter = {
+          type,
+          status: status as TradeDocument["status"] | undefined,
+          propertyId: req.query.propertyId ? parseInt(req.query.propertyId as string) : undefined,
+        };
+
+        const documents = req.user!.role === "tradesperson"
+          ? await storage.getTradeDocumentsByTradespersonId(req.user!.id, filter)
+          : await storage.getTradeDocumentsByOwnerId(req.user!.id, filter);
+
+        res.json(documents);
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    app.get(`/api/${typePath}/:id`, requireAuth, async (req, res, next) => {
+      try {
+        const document = await storage.getTradeDocument(parseInt(req.params.id));
+
+        if (!document || document.type !== type) {
+          return res.status(404).json({ message: notFound });
+        }
+
+        if (!isParty(document, req.user!.id)) {
+          return res.status(403).json({ message: "Forbidden" });
+        }
+
+        res.json(document);
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    app.post(`/api/${typePath}/:id/accept`, requireAuth, async (req, res, next) => {
+      try {
+        const document = await storage.getTradeDocument(parseInt(req.params.id));
+
+        if (!document || document.type !== type) {
+          return res.status(404).json({ message: notFound });
+        }
+
+        if (document.ownerId !== req.user!.id) {
+          return res.status(403).json({ message: "Forbidden" });
+        }
+
+        const accepted = await acceptTradeDocument(document);
+        if (!accepted) {
+          return res.status(409).json({ message: `This ${type} has already been responded to` });
+        }
+
+        res.json(accepted);
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    app.post(`/api/${typePath}/:id/reject`, requireAuth, async (req, res, next) => {
+      try {
+        const document = await storage.getTradeDocument(parseInt(req.params.id));
+
+        if (!document || document.type !== type) {
+          return res.status(404).json({ message: notFound });
+        }
+
+        if (document.ownerId !== req.user!.id) {
+          return res.status(403).json({ message: "Forbidden" });
+        }
+
+        const { reason } = rejectSchema.parse(req.body ?? {});
+        const rejected = await rejectTradeDocument(document, reason);
+        if (!rejected) {
+          return res.status(409).json({ message: `This ${type} has already been responded to` });
+        }
+
+        res.json(rejected);
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // Download a printable copy; accepted documents use the copy saved on acceptance
+    app.get(`/api/${typePath}/:id/download`, requireAuth, async (req, res, next) => {
+      try {
+        const document = await storage.getTradeDocument(parseInt(req.params.id));
+
+        if (!document || document.type !== type) {
+          return res.status(404).json({ message: notFound });
+        }
+
+        if (!isParty(document, req.user!.id)) {
+          return res.status(403).json({ message: "Forbidden" });
+        }
+
+        const savedPath = document.documentUrl
+          ? path.join(process.cwd(), document.documentUrl)
+          : undefined;
+        const html = savedPath && fs.existsSync(savedPath)
+          ? fs.readFileSync(savedPath, "utf-8")
+          : await generateTradeDocumentHTML(document);
+
+        res.setHeader('Content-Type', 'text/html');
+        res.setHeader('Content-Disposition', `attachment; filename="${type}_${document.documentNumber}.html"`);
+        res.send(html);
+      } catch (error) {
+        next(error);
+      }
+    });
+  }
+}
@@ -0,0 +1,317 @@
+import fs from "fs";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { storage } from "./storage";
+import { notificationService } from "./notification-service";
+import { transitionJobRequest } from "./job-request-service";
+import { TradeDocument, TradeDocumentLineItem } from "@shared/schema";
+
+const GST_RATE = 0.1;
+
+// Line item as entered by the tradesperson, before amounts are calculated
+export interface TradeDocumentLineItemInput {
+  description: string;
+  kind: TradeDocumentLineItem["kind"];
+  quantity: number;
+  unitPrice: number;
+  gstApplicable?: boolean;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Calculate each line's amount and the document totals. Prices are entered
+ * excluding GST, which is added at 10% on the lines it applies to.
+ */
+export function calculateTradeDocumentTotals(items: TradeDocumentLineItemInput[]) {
+  const lineItems: TradeDocumentLineItem[] = items.map(item => {
+    const unitPrice = roundCents(item.unitPrice);
+    return {
+      description: item.description,
+      kind: item.kind,
+      quantity: item.quantity,
+      unitPrice,
+      gstApplicable: item.gstApplicable ?? true,
+      amount: roundCents(item.quantity * unitPrice),
+    };
+  });
+
+  const subtotal = roundCents(lineItems.reduce((sum, item) => sum + item.amount, 0));
+  const gstAmount = roundCents(lineItems
+    .filter(item => item.gstApplicable)
+    .reduce((sum, item) => sum + item.amount * GST_RATE, 0));
+
+  return { lineItems, subtotal, gstAmount, total: roundCents(subtotal + gstAmount) };
+}
+
+function documentLabel(document: TradeDocument): string {
+  return document.type === "quote" ? "Quote" : "Invoice";
+}
+
+function formatAmount(amount: number): string {
+  return new Intl.NumberFormat("en-AU", { style: "currency", currency: "AUD" }).format(amount);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Tell the owner a new quote or invoice is waiting for them
+ */
+export async function notifyTradeDocumentSent(document: TradeDocument) {
+  await notificationService.createTradeDocumentNotification(
+    document.ownerId,
+    document.id,
+    `New ${documentLabel(document)}`,
+    `You have received ${document.type === "quote" ? "a quote" : "an invoice"} ${document.documentNumber} for ${formatAmount(document.total)} (incl. GST).`
+  );
+}
+
+/**
+ * Accept a pending quote or invoice. Accepting a quote for a job request
+ * accepts the job; accepting an invoice sets the maintenance record's cost.
+ * A downloadable copy is generated either way.
+ * Returns undefined if the document has already been responded to.
+ */
+export async function acceptTradeDocument(document: TradeDocument): Promise<TradeDocument | undefined> {
+  const accepted = await storage.respondToTradeDocument(document.id, "accepted");
+  if (!accepted) return undefined;
+
+  if (accepted.type === "invoice" && accepted.maintenanceRecordId) {
+    await storage.updateMaintenanceRecord(accepted.maintenanceRecordId, { cost: accepted.total });
+  }
+
+  if (accepted.type === "quote" && accepted.jobRequestId) {
+    const jobRequest = await storage.getJobRequest(accepted.jobRequestId);
+    if (jobRequest?.status === "quoted") {
+      await transitionJobRequest(jobRequest, "accepted", "owner");
+    }
+  }
+
+  const html = await generateTradeDocumentHTML(accepted);
+  const documentUrl = saveTradeDocumentToFile(accepted, html);
+  const saved = await storage.setTradeDocumentUrl(accepted.id, documentUrl);
+
+  await notifyTradespersonOfResponse(saved);
+  return saved;
+}
+
+/**
+ * Reject a pending quote or invoice, with an optional reason for the tradesperson.
+ * Returns undefined if the document has already been responded to.
+ */
+export async function rejectTradeDocument(document: TradeDocument, reason?: string): Promise<TradeDocument | undefined> {
+  const rejected = await storage.respondToTradeDocument(document.id, "rejected", reason ?? null);
+  if (!rejected) return undefined;
+
+  await notifyTradespersonOfResponse(rejected);
+  return rejected;
+}
+
+async function notifyTradespersonOfResponse(document: TradeDocument) {
+  const outcome = document.status === "accepted" ? "accepted" : "rejected";
+  const reason = document.responseNote ? ` Reason: ${document.responseNote}` : "";
+
+  try {
+    await notificationService.createTradeDocumentNotification(
+      document.tradespersonId,
+      document.id,
+      `${documentLabel(document)} ${outcome === "accepted" ? "Accepted" : "Rejected"}`,
+      `${documentLabel(document)} ${document.documentNumber} for ${formatAmount(document.total)} was ${outcome}.${reason}`
+    );
+  } catch (error) {
+    // The response has already been saved, so don't fail it over a notification
+    console.error("Failed to send quote or invoice notification:", error);
+  }
+}
+
+/**
+ * Generate a printable HTML copy of a quote or invoice, in the same layout
+ * as our receipts
+ */
+export async function generateTradeDocumentHTML(document: TradeDocument): Promise<string> {
+  const tradesperson = await storage.getUser(document.tradespersonId);
+  const owner = await storage.getUser(document.ownerId);
+  const property = await storage.getProperty(document.propertyId);
+  if (!tradesperson || !owner) {
+    throw new Error("User not found");
+  }
+
+  const label = documentLabel(document);
+  const formatDate = (date: Date) => new Date(date).toLocaleDateString('en-AU', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+
+  const rows = document.lineItems.map(item => `
+          <tr>
+            <td>${escapeHtml(item.description)}</td>
+            <td>${item.kind.charAt(0).toUpperCase() + item.kind.slice(1)}</td>
+            <td class="number">${item.quantity}</td>
+            <td class="number">${formatAmount(item.unitPrice)}</td>
+            <td class="number">${item.gstApplicable ? formatAmount(item.amount * GST_RATE) : "-"}</td>
+            <td class="number">${formatAmount(item.amount)}</td>
+          </tr>`).join("");
+
+  const validity = document.type === "quote" && document.validUntil
+    ? `<div class="label">VALID UNTIL:</div><div class="value">${formatDate(document.validUntil)}</div>`
+    : document.type === "invoice" && document.dueDate
+      ? `<div class="label">DUE DATE:</div><div class="value">${formatDate(document.dueDate)}</div>`
+      : "";
+
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8" />
+        <title>${label} #${document.documentNumber}</title>
+        <style>
+          body {
+            font-family: Arial, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            padding: 20px;
+            max-width: 800px;
+            margin: 0 auto;
+          }
+          .header {
+            text-align: center;
+            margin-bottom: 30px;
+            padding-bottom: 20px;
+            border-bottom: 1px solid #ddd;
+          }
+          .logo {
+            font-size: 24px;
+            font-weight: bold;
+            color: #3b82f6;
+          }
+          .details {
+            display: flex;
+            justify-content: space-between;
+            margin-bottom: 30px;
+          }
+          .details div {
+            flex: 1;
+          }
+          .label {
+            font-weight: bold;
+            color: #666;
+            margin-bottom: 5px;
+          }
+          .value {
+            font-size: 16px;
+          }
+          table {
+            width: 100%;
+            border-collapse: collapse;
+            margin-top: 20px;
+          }
+          th, td {
+            padding: 8px;
+            border-bottom: 1px solid #ddd;
+            text-align: left;
+          }
+          .number {
+            text-align: right;
+          }
+          .totals {
+            margin-top: 20px;
+            padding: 15px;
+            background-color: #f8f9fa;
+            border-radius: 5px;
+            text-align: right;
+          }
+          .amount {
+            font-size: 20px;
+            font-weight: bold;
+            color: #16a34a;
+          }
+          .footer {
+            margin-top: 40px;
+            text-align: center;
+            font-size: 12px;
+            color: #666;
+            padding-top: 20px;
+            border-top: 1px solid #ddd;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <div class="logo">${label.toUpperCase()}</div>
+          <div>${escapeHtml(tradesperson.fullName || tradesperson.username)}</div>
+          ${tradesperson.licenseNumber ? `<div>Licence: ${escapeHtml(tradesperson.licenseNumber)}</div>` : ""}
+          <div>${escapeHtml(tradesperson.email)}</div>
+        </div>
+
+        <div class="details">
+          <div>
+            <div class="label">${label.toUpperCase()} TO:</div>
+            <div class="value">${escapeHtml(owner.fullName || owner.username)}</div>
+            <div class="value">${escapeHtml(owner.email)}</div>
+            ${property ? `<div class="label">PROPERTY:</div><div class="value">${escapeHtml(property.address)}, ${escapeHtml(property.city)} ${escapeHtml(property.state)} ${escapeHtml(property.zipCode)}</div>` : ""}
+          </div>
+          <div>
+            <div class="label">${label.toUpperCase()} NUMBER:</div>
+            <div class="value">${document.documentNumber}</div>
+            <div class="label">DATE:</div>
+            <div class="value">${formatDate(document.createdAt)}</div>
+            ${validity}
+          </div>
+        </div>
+
+        <table>
+          <thead>
+            <tr>
+              <th>Description</th>
+              <th>Type</th>
+              <th class="number">Qty</th>
+              <th class="number">Unit Price</th>
+              <th class="number">GST</th>
+              <th class="number">Amount (ex GST)</th>
+            </tr>
+          </thead>
+          <tbody>${rows}
+          </tbody>
+        </table>
+
+        <div class="totals">
+          <div>Subtotal: ${formatAmount(document.subtotal)}</div>
+          <div>GST: ${formatAmount(document.gstAmount)}</div>
+          <div class="amount">Total: ${formatAmount(document.total)} AUD</div>
+        </div>
+
+        ${document.notes ? `<div><div class="label">NOTES:</div><div class="value">${escapeHtml(document.notes)}</div></div>` : ""}
+
+        <div class="footer">
+          <p>This ${label.toLowerCase()} was ${document.status === "accepted" ? "accepted" : "issued"} through EquitysTek${document.respondedAt && document.status === "accepted" ? ` on ${formatDate(document.respondedAt)}` : ""}.</p>
+          <p>For any questions, please contact ${escapeHtml(tradesperson.email)}</p>
+        </div>
+      </body>
+    </html>
+  `;
+}
+
+/**
+ * Save an HTML quote or invoice under uploads and return its path. The file
+ * isn't served statically; the parties download it through the API.
+ */
+export function saveTradeDocumentToFile(document: TradeDocument, html: string): string {
+  const documentDir = path.join(process.cwd(), 'uploads', 'trade-documents');
+  if (!fs.existsSync(documentDir)) {
+    fs.mkdirSync(documentDir, { recursive: true });
+  }
+
+  const filename = `${document.type}_${document.documentNumber.replace(/[^a-zA-Z0-9]/g, '_')}_${uuidv4()}.html`;
+  fs.writeFileSync(path.join(documentDir, filename), html);
+
+  return `/uploads/trade-documents/${filename}`;
+}
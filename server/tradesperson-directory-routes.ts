@@ -0,0 +1,109 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { licenseStatuses } from "@shared/schema";
+import {
+  addFavoriteTradesperson,
+  getFavoriteTradespeople,
+  getTradespersonProfile,
+  removeFavoriteTradesperson,
+  searchTradespeople,
+} from "./tradesperson-directory-service";
+import { requireAuth } from "./middleware/auth";
+
+const postcodeSchema = z.string().trim().regex(/^\d{4}$/, "Postcode must be 4 digits");
+
+const searchQuerySchema = z.object({
+  specialtyType: z.string().trim().min(1).optional(),
+  postcode: postcodeSchema.optional(),
+  radiusKm: z.coerce.number().positive().max(500).optional(),
+  licenseStatus: z.enum(licenseStatuses).optional(),
+  minRating: z.coerce.number().min(1).max(5).optional(),
+});
+
+const favoriteSchema = z.object({
+  tradespersonId: z.coerce.number().int().positive(),
+});
+
+const serviceAreaSchema = z.object({
+  servicePostcode: postcodeSchema.nullable(),
+  serviceRadiusKm: z.coerce.number().int().positive().max(500).nullable(),
+});
+
+export function registerTradespersonDirectoryRoutes(app: Express) {
+  // Search the tradesperson directory by trade, service area, licence and rating
+  app.get("/api/tradespeople", async (req, res, next) => {
+    try {
+      const query = searchQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: "Invalid search", errors: query.error.errors });
+      }
+
+      res.json(await searchTradespeople(query.data));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // A tradesperson's public profile and completed jobs
+  app.get("/api/tradespeople/:id", async (req, res, next) => {
+    try {
+      res.json(await getTradespersonProfile(parseInt(req.params.id)));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/user/favorite-tradespeople", requireAuth, async (req, res, next) => {
+    try {
+      res.json(await getFavoriteTradespeople(req.user!.id));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/favorite-tradespeople", requireAuth, async (req, res, next) => {
+    try {
+      const body = favoriteSchema.safeParse(req.body ?? {});
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid request", errors: body.error.errors });
+      }
+
+      res.status(201).json(await addFavoriteTradesperson(req.user!.id, body.data.tradespersonId));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/user/favorite-tradespeople/:tradespersonId", requireAuth, async (req, res, next) => {
+    try {
+      await removeFavoriteTradesperson(req.user!.id, parseInt(req.params.tradespersonId));
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Where the current tradesperson is based and how far they travel
+  app.put("/api/tradesperson/service-area", requireAuth, async (req, res, next) => {
+    try {
+      if (req.user!.role !== "tradesperson") {
+        return res.status(403).json({ message: "Access denied. Tradesperson role required." });
+      }
+
+      const body = serviceAreaSchema.safeParse(req.body ?? {});
+      if (!body.success) {
+        return res.status(400).json({ message: "Invalid request", errors: body.error.errors });
+      }
+
+      const { password, ...user } = await storage.updateServiceArea(
+        req.user!.id,
+        body.data.servicePostcode,
+        body.data.serviceRadiusKm
+      );
+      res.json(user);
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,264 @@
+import { storage, type TradespersonListing } from "./storage";
+import { InsertPostcodeLocation, LicenseStatus, User } from "@shared/schema";
+import { parseCsvRecords, pickField, parseNumber } from "./csv";
+
+const IMPORT_BATCH_SIZE = 500;
+// Used for tradespeople who haven't said how far they travel
+const DEFAULT_SERVICE_RADIUS_KM = 25;
+const EARTH_RADIUS_KM = 6371;
+
+export class TradespersonDirectoryError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "TradespersonDirectoryError";
+  }
+}
+
+export interface TradespersonSearchOptions {
+  specialtyType?: string;
+  // Only tradespeople who service this postcode
+  postcode?: string;
+  // Only those based within this distance of the postcode, instead of within their own service radius
+  radiusKm?: number;
+  licenseStatus?: LicenseStatus;
+  minRating?: number;
+}
+
+/**
+ * A tradesperson as the directory lists them. Contact details aren't
+ * included; owners reach tradespeople through job requests.
+ */
+export interface TradespersonSummary {
+  id: number;
+  username: string;
+  fullName: string | null;
+  specialtyType: string | null;
+  licenseStatus: LicenseStatus;
+  licenseExpiresAt: Date | null;
+  servicePostcode: string | null;
+  serviceRadiusKm: number | null;
+  averageRating: number | null;
+  ratingCount: number;
+  completedJobCount: number;
+  distanceKm?: number;
+}
+
+// A completed job on a tradesperson's profile. Only the suburb is shown, never the address.
+export interface TradespersonCompletedJob {
+  id: number;
+  title: string;
+  category: string;
+  city: string;
+  state: string;
+  completedAt: Date | null;
+  rating: number | null;
+  review: string | null;
+}
+
+export interface TradespersonProfile extends TradespersonSummary {
+  completedJobs: TradespersonCompletedJob[];
+}
+
+export interface PostcodeLocationsImportResult {
+  imported: number;
+  errors: Array<{ line: number; message: string }>;
+}
+
+interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Whether a tradesperson's licence has been checked by an admin. An expired
+ * licence counts as expired whether or not it was verified.
+ */
+export function getLicenseStatus(user: User, asOf: Date = new Date()): LicenseStatus {
+  if (!user.licenseNumber) return "none";
+  if (user.licenseExpiresAt && user.licenseExpiresAt <= asOf) return "expired";
+  return user.licenseVerifiedAt ? "verified" : "unverified";
+}
+
+// Great-circle distance between two points, in kilometres
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLatitude = toRadians(to.latitude - from.latitude);
+  const dLongitude = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLatitude / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLongitude / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+function toSummary({ user, averageRating, ratingCount, completedJobCount }: TradespersonListing, asOf: Date): TradespersonSummary {
+  return {
+    id: user.id,
+    username: user.username,
+    fullName: user.fullName,
+    specialtyType: user.specialtyType,
+    licenseStatus: getLicenseStatus(user, asOf),
+    licenseExpiresAt: user.licenseExpiresAt,
+    servicePostcode: user.servicePostcode,
+    serviceRadiusKm: user.serviceRadiusKm,
+    averageRating: averageRating === null ? null : Math.round(averageRating * 10) / 10,
+    ratingCount,
+    completedJobCount,
+  };
+}
+
+/**
+ * Tradespeople who service the given postcode, nearest first. Postcodes
+ * without an imported location only match tradespeople based there.
+ */
+async function withinServiceArea(
+  tradespeople: TradespersonSummary[],
+  postcode: string,
+  radiusKm?: number
+): Promise<TradespersonSummary[]> {
+  const servicePostcodes = Array.from(new Set(
+    tradespeople.map(tradesperson => tradesperson.servicePostcode).filter((code): code is string => !!code)
+  ));
+  const centroids = new Map(
+    (await storage.getPostcodeCentroids(Array.from(new Set([postcode, ...servicePostcodes]))))
+      .map(centroid => [centroid.postcode, centroid])
+  );
+  const target = centroids.get(postcode);
+
+  const matches: TradespersonSummary[] = [];
+  for (const tradesperson of tradespeople) {
+    if (tradesperson.servicePostcode === postcode) {
+      matches.push({ ...tradesperson, distanceKm: 0 });
+      continue;
+    }
+
+    const base = tradesperson.servicePostcode ? centroids.get(tradesperson.servicePostcode) : undefined;
+    if (!target || !base) continue;
+
+    const distance = distanceKm(base, target);
+    if (distance <= (radiusKm ?? tradesperson.serviceRadiusKm ?? DEFAULT_SERVICE_RADIUS_KM)) {
+      matches.push({ ...tradesperson, distanceKm: Math.round(distance * 10) / 10 });
+    }
+  }
+
+  return matches.sort((a, b) => a.distanceKm! - b.distanceKm!);
+}
+
+/**
+ * Search the tradesperson directory. Without a postcode, results are in name
+ * order; with one, nearest first.
+ */
+export async function searchTradespeople(options: TradespersonSearchOptions = {}): Promise<TradespersonSummary[]> {
+  const asOf = new Date();
+  let tradespeople = (await storage.searchTradespeople({ specialtyType: options.specialtyType }))
+    .map(listing => toSummary(listing, asOf))
+    .filter(tradesperson =>
+      (!options.licenseStatus || tradesperson.licenseStatus === options.licenseStatus) &&
+      (options.minRating === undefined ||
+        (tradesperson.averageRating !== null && tradesperson.averageRating >= options.minRating))
+    );
+
+  if (options.postcode) {
+    tradespeople = await withinServiceArea(tradespeople, options.postcode, options.radiusKm);
+  }
+
+  return tradespeople;
+}
+
+/**
+ * A tradesperson's public profile, with the jobs they've completed through
+ * the platform and the reviews owners left for them
+ */
+export async function getTradespersonProfile(tradespersonId: number): Promise<TradespersonProfile> {
+  const [listing] = await storage.searchTradespeople({ ids: [tradespersonId] });
+  if (!listing) {
+    throw new TradespersonDirectoryError("Tradesperson not found", 404);
+  }
+
+  const completedJobs = (await storage.getCompletedJobsByTradespersonId(tradespersonId))
+    .map(({ job, city, state }) => ({
+      id: job.id,
+      title: job.title,
+      category: job.category,
+      city,
+      state,
+      completedAt: job.completedAt,
+      rating: job.rating,
+      review: job.review,
+    }));
+
+  return { ...toSummary(listing, new Date()), completedJobs };
+}
+
+/**
+ * The user's favourite tradespeople, in the order they were added. Anyone
+ * who has since left or been suspended is left out.
+ */
+export async function getFavoriteTradespeople(userId: number): Promise<TradespersonSummary[]> {
+  const ids = await storage.getFavoriteTradespersonIds(userId);
+  const asOf = new Date();
+  const listings = new Map(
+    (await storage.searchTradespeople({ ids })).map(listing => [listing.user.id, toSummary(listing, asOf)])
+  );
+  return ids.map(id => listings.get(id)).filter((summary): summary is TradespersonSummary => summary !== undefined);
+}
+
+export async function addFavoriteTradesperson(userId: number, tradespersonId: number): Promise<TradespersonSummary> {
+  const [listing] = await storage.searchTradespeople({ ids: [tradespersonId] });
+  if (!listing) {
+    throw new TradespersonDirectoryError("Tradesperson not found", 404);
+  }
+
+  await storage.addFavoriteTradesperson(userId, tradespersonId);
+  return toSummary(listing, new Date());
+}
+
+export async function removeFavoriteTradesperson(userId: number, tradespersonId: number): Promise<void> {
+  if (!(await storage.removeFavoriteTradesperson(userId, tradespersonId))) {
+    throw new TradespersonDirectoryError("Tradesperson is not in your favourites", 404);
+  }
+}
+
+/**
+ * Import postcode locations from a CSV of localities with coordinates, such
+ * as the Australia Post or ABS postcode datasets. Invalid rows are reported
+ * and skipped.
+ */
+export async function importPostcodeLocationsCsv(csvText: string, source: string): Promise<PostcodeLocationsImportResult> {
+  const result: PostcodeLocationsImportResult = { imported: 0, errors: [] };
+  const locations: InsertPostcodeLocation[] = [];
+
+  for (const { line, values } of parseCsvRecords(csvText)) {
+    const postcode = pickField(values, ["postcode", "post_code", "pcode"])?.padStart(4, "0");
+    const suburb = pickField(values, ["suburb", "locality", "place_name"]);
+    const state = pickField(values, ["state", "state_code"]);
+    const latitude = parseNumber(pickField(values, ["latitude", "lat"]));
+    const longitude = parseNumber(pickField(values, ["longitude", "long", "lng", "lon"]));
+
+    const missing = [
+      !(postcode && /^\d{4}$/.test(postcode)) && "postcode",
+      !suburb && "suburb",
+      !state && "state",
+      (latitude === undefined || Math.abs(latitude) > 90) && "latitude",
+      (longitude === undefined || Math.abs(longitude) > 180) && "longitude",
+    ].filter(Boolean);
+
+    if (missing.length > 0) {
+      result.errors.push({ line, message: `Missing or invalid ${missing.join(", ")}` });
+      continue;
+    }
+
+    locations.push({
+      postcode: postcode!,
+      suburb: suburb!.toUpperCase(),
+      state: state!.toUpperCase(),
+      latitude: latitude!,
+      longitude: longitude!,
+      source,
+    });
+  }
+
+  for (let i = 0; i < locations.length; i += IMPORT_BATCH_SIZE) {
+    result.imported += await storage.createPostcodeLocations(locations.slice(i, i + IMPORT_BATCH_SIZE));
+  }
+
+  return result;
+}
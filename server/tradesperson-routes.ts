@@ -67,34 +67,6 @@ const workRecordSchema = z.object({
 });
 
 export function registerTradespersonRoutes(app: Express) {
-  // Get all tradespeople (for property owners to select from)
-  app.get("/api/tradespeople", async (req: Request, res: Response) => {
-    try {
-      // Get all users with tradesperson role
-      const allUsers = await dbStorage.getAllUsers();
-      const tradespeople = allUsers.filter(user => user.role === "tradesperson");
-      
-      // Map to return only necessary information
-      const tradespeopleList = tradespeople.map(person => ({
-        id: person.id,
-        username: person.username,
-        name: person.name,
-        email: person.email,
-        specialty: person.specialty,
-        phoneNumber: person.phoneNumber,
-        experience: person.experience,
-        rating: person.rating,
-        verified: person.verified,
-        profileImageUrl: person.profileImageUrl
-      }));
-      
-      res.json(tradespeopleList);
-    } catch (error) {
-      console.error("Error fetching tradespeople:", error);
-      res.status(500).json({ message: "Failed to fetch tradespeople" });
-    }
-  });
-  
   // Get available properties for tradesperson
   app.get("/api/tradesperson/properties", requireTradesperson, async (req: Request, res: Response) => {
     try {
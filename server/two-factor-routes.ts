@@ -0,0 +1,128 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import {
+  beginEnrolment,
+  confirmEnrolment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  verifyTwoFactor,
+} from "./two-factor-service";
+import { requireAuth } from "./middleware/auth";
+
+// Wrong codes allowed for one sign-in before the password has to be entered again
+const MAX_LOGIN_CODE_ATTEMPTS = 5;
+
+const twoFactorCodeSchema = z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app");
+
+const twoFactorProofSchema = z.object({
+  code: twoFactorCodeSchema.optional(),
+  recoveryCode: z.string().trim().min(1).optional(),
+}).refine(proof => proof.code || proof.recoveryCode, {
+  message: "Enter a code from your authenticator app or a recovery code",
+});
+
+const confirmSchema = z.object({
+  code: twoFactorCodeSchema,
+});
+
+const disableSchema = twoFactorProofSchema.and(z.object({
+  password: z.string().min(1),
+}));
+
+export function registerTwoFactorRoutes(app: Express) {
+  // Second login step: check the code for the user whose password was accepted by /api/login
+  app.post("/api/login/2fa", async (req, res, next) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in has expired. Please log in again." });
+      }
+
+      const proof = twoFactorProofSchema.parse(req.body);
+      const user = await storage.getUser(pending.userId);
+      if (!user || user.deletedAt) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in has expired. Please log in again." });
+      }
+      if (user.suspendedAt) {
+        delete req.session.pendingTwoFactor;
+        return res.status(403).json({ message: "This account has been suspended. Please contact support." });
+      }
+
+      try {
+        await verifyTwoFactor(user, proof);
+      } catch (error) {
+        pending.attempts++;
+        if (pending.attempts >= MAX_LOGIN_CODE_ATTEMPTS) {
+          delete req.session.pendingTwoFactor;
+        }
+        throw error;
+      }
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        // Logging in starts a new session, so this is set afterwards
+        req.session.twoFactorVerifiedAt = Date.now();
+        res.status(200).json(user);
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Whether two-factor authentication is on, required, and how many recovery codes are left
+  app.get("/api/user/2fa", requireAuth, async (req, res, next) => {
+    try {
+      res.json(await getTwoFactorStatus(req.user!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Start setting up an authenticator app
+  app.post("/api/user/2fa/setup", requireAuth, async (req, res, next) => {
+    try {
+      res.json(await beginEnrolment(req.user!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Confirm a code from the authenticator to turn two-factor authentication on
+  app.post("/api/user/2fa/enable", requireAuth, async (req, res, next) => {
+    try {
+      const { code } = confirmSchema.parse(req.body);
+      const { user, recoveryCodes } = await confirmEnrolment(req.user!, code);
+      // The user just proved the second factor, so this session counts as verified
+      req.session.twoFactorVerifiedAt = Date.now();
+      res.json({ user, recoveryCodes });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Replace the recovery codes
+  app.post("/api/user/2fa/recovery-codes", requireAuth, async (req, res, next) => {
+    try {
+      const { code } = confirmSchema.parse(req.body);
+      res.json({ recoveryCodes: await regenerateRecoveryCodes(req.user!, code) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Turn two-factor authentication off
+  app.post("/api/user/2fa/disable", requireAuth, async (req, res, next) => {
+    try {
+      const { password, code, recoveryCode } = disableSchema.parse(req.body);
+      const user = await disableTwoFactor(req.user!, password, { code, recoveryCode });
+      delete req.session.twoFactorVerifiedAt;
+      res.json(user);
+    } catch (error) {
+      next(error);
+    }
+  });
+}
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Secret, TOTP } from "otpauth";
+import { TwoFactorCredential, User } from "@shared/schema";
+
+vi.mock("./storage", () => ({
+  storage: {
+    getTwoFactorCredential: vi.fn(),
+    recordTwoFactorStep: vi.fn(),
+    consumeRecoveryCode: vi.fn(),
+  },
+}));
+
+vi.mock("./auth", () => ({
+  comparePasswords: vi.fn(),
+}));
+
+import { storage } from "./storage";
+import { verifyTwoFactor } from "./two-factor-service";
+
+const SECRET = new Secret({ size: 20 }).base32;
+const STEP_MS = 30 * 1000;
+// The start of a time step, so codes either side are easy to reach
+const NOW = new Date(Math.floor(Date.UTC(2024, 5, 1, 9) / STEP_MS) * STEP_MS);
+
+const user = { id: 1, email: "admin@example.com", role: "admin", twoFactorEnabled: true } as User;
+
+let credential: TwoFactorCredential;
+
+function codeAt(time: Date): string {
+  return new TOTP({ algorithm: "SHA1", digits: 6, period: 30, secret: Secret.fromBase32(SECRET) })
+    .generate({ timestamp: time.getTime() });
+}
+
+function stepsFromNow(steps: number): Date {
+  return new Date(NOW.getTime() + steps * STEP_MS);
+}
+
+describe("verifyTwoFactor", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    credential = { id: 1, userId: user.id, secret: SECRET, enabledAt: NOW, lastUsedStep: null, createdAt: NOW };
+    vi.mocked(storage.getTwoFactorCredential).mockImplementation(async () => credential);
+    // Same condition as the update: only a step later than the last one used is accepted
+    vi.mocked(storage.recordTwoFactorStep).mockImplementation(async (userId, step) => {
+      if (credential.lastUsedStep !== null && credential.lastUsedStep >= step) return false;
+      credential = { ...credential, lastUsedStep: step };
+      return true;
+    });
+  });
+
+  it("accepts a current code", async () => {
+    await expect(verifyTwoFactor(user, { code: codeAt(NOW) }, NOW)).resolves.toBeUndefined();
+  });
+
+  it("rejects a wrong code", async () => {
+    // Any code the window would accept is left out
+    const accepted = [-1, 0, 1].map(steps => codeAt(stepsFromNow(steps)));
+    const code = ["000000", "111111", "222222", "333333"].find(candidate => !accepted.includes(candidate))!;
+
+    await expect(verifyTwoFactor(user, { code }, NOW)).rejects.toMatchObject({ status: 400 });
+    expect(storage.recordTwoFactorStep).not.toHaveBeenCalled();
+  });
+
+  it("rejects a code that has already been used", async () => {
+    const code = codeAt(NOW);
+    await verifyTwoFactor(user, { code }, NOW);
+
+    await expect(verifyTwoFactor(user, { code }, NOW)).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("rejects a used code replayed in the next time step, while it's still within the window", async () => {
+    const code = codeAt(NOW);
+    await verifyTwoFactor(user, { code }, NOW);
+
+    await expect(verifyTwoFactor(user, { code }, stepsFromNow(1))).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("rejects an older code once a newer one has been used", async () => {
+    await verifyTwoFactor(user, { code: codeAt(NOW) }, NOW);
+
+    await expect(verifyTwoFactor(user, { code: codeAt(stepsFromNow(-1)) }, NOW)).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("records the step the code was for, not the time it was entered", async () => {
+    await verifyTwoFactor(user, { code: codeAt(stepsFromNow(-1)) }, NOW);
+
+    expect(credential.lastUsedStep).toBe(NOW.getTime() / STEP_MS - 1);
+    // The current code is still unused
+    await expect(verifyTwoFactor(user, { code: codeAt(NOW) }, NOW)).resolves.toBeUndefined();
+  });
+
+  it("accepts the next code after one has been used", async () => {
+    await verifyTwoFactor(user, { code: codeAt(NOW) }, NOW);
+
+    await expect(verifyTwoFactor(user, { code: codeAt(stepsFromNow(1)) }, stepsFromNow(1))).resolves.toBeUndefined();
+  });
+
+  it("rejects codes outside the drift window", async () => {
+    await expect(verifyTwoFactor(user, { code: codeAt(stepsFromNow(-2)) }, NOW)).rejects.toMatchObject({ status: 400 });
+  });
+});
@@ -0,0 +1,180 @@
+import { randomBytes } from "crypto";
+import { Secret, TOTP } from "otpauth";
+import QRCode from "qrcode";
+import { storage } from "./storage";
+import { comparePasswords } from "./auth";
+import { hashAuthToken } from "./account-service";
+import { User } from "@shared/schema";
+
+const TOTP_PERIOD_SECONDS = 30;
+
+// Codes from one step either side are accepted, to allow for clock drift
+const TOTP_WINDOW = 1;
+
+const RECOVERY_CODE_COUNT = 10;
+
+export class TwoFactorError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "TwoFactorError";
+  }
+}
+
+// A second factor offered at login or to confirm a change
+export interface TwoFactorProof {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface TwoFactorEnrolment {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string; // PNG data URL of otpauthUri
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Admins can change any account, so they must use two-factor authentication
+ */
+export function isTwoFactorRequired(user: Pick<User, "role">): boolean {
+  return user.role === "admin";
+}
+
+function totpFor(user: Pick<User, "email">, secret: string): TOTP {
+  return new TOTP({
+    issuer: process.env.BUSINESS_NAME || "EquitysTek",
+    label: user.email,
+    algorithm: "SHA1",
+    digits: 6,
+    period: TOTP_PERIOD_SECONDS,
+    secret: Secret.fromBase32(secret),
+  });
+}
+
+// Recovery codes are compared without case, spaces or dashes, so they can be typed loosely
+function hashRecoveryCode(code: string): string {
+  return hashAuthToken(code.replace(/[\s-]/g, "").toLowerCase());
+}
+
+// Ten codes like 3f9a1-c07be
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString("hex");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/**
+ * Check a code from the user's authenticator. Each time step is accepted
+ * once, so a code seen over someone's shoulder can't be used again.
+ */
+async function checkCode(user: User, code: string, now: Date): Promise<boolean> {
+  const credential = await storage.getTwoFactorCredential(user.id);
+  if (!credential) return false;
+
+  const delta = totpFor(user, credential.secret).validate({
+    token: code.replace(/\s/g, ""),
+    timestamp: now.getTime(),
+    window: TOTP_WINDOW,
+  });
+  if (delta === null) return false;
+
+  const step = Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS) + delta;
+  return storage.recordTwoFactorStep(user.id, step);
+}
+
+/**
+ * Check the second factor of a user with two-factor authentication on,
+ * either an authenticator code or an unused recovery code
+ */
+export async function verifyTwoFactor(user: User, proof: TwoFactorProof, now: Date = new Date()): Promise<void> {
+  if (!user.twoFactorEnabled) {
+    throw new TwoFactorError("Two-factor authentication is not turned on", 400);
+  }
+
+  const valid = proof.code
+    ? await checkCode(user, proof.code, now)
+    : proof.recoveryCode
+      ? await storage.consumeRecoveryCode(user.id, hashRecoveryCode(proof.recoveryCode), now)
+      : false;
+
+  if (!valid) {
+    throw new TwoFactorError(proof.recoveryCode ? "That recovery code is invalid or has been used" : "That code is incorrect", 400);
+  }
+}
+
+export async function getTwoFactorStatus(user: User): Promise<TwoFactorStatus> {
+  return {
+    enabled: user.twoFactorEnabled,
+    required: isTwoFactorRequired(user),
+    recoveryCodesRemaining: user.twoFactorEnabled ? await storage.countUnusedRecoveryCodes(user.id) : 0,
+  };
+}
+
+/**
+ * Start setting up two-factor authentication with a new secret, shown as a
+ * QR code for the user to scan. It isn't turned on until they confirm a code.
+ */
+export async function beginEnrolment(user: User): Promise<TwoFactorEnrolment> {
+  if (user.twoFactorEnabled) {
+    throw new TwoFactorError("Two-factor authentication is already turned on", 409);
+  }
+
+  const secret = new Secret({ size: 20 }).base32;
+  await storage.saveTwoFactorSecret(user.id, secret);
+
+  const otpauthUri = totpFor(user, secret).toString();
+  return { secret, otpauthUri, qrCode: await QRCode.toDataURL(otpauthUri) };
+}
+
+/**
+ * Turn on two-factor authentication once the user has entered a code from
+ * their authenticator. Returns recovery codes, which are only shown now.
+ */
+export async function confirmEnrolment(user: User, code: string): Promise<{ user: User; recoveryCodes: string[] }> {
+  if (user.twoFactorEnabled) {
+    throw new TwoFactorError("Two-factor authentication is already turned on", 409);
+  }
+  if (!(await storage.getTwoFactorCredential(user.id))) {
+    throw new TwoFactorError("Start setting up two-factor authentication first", 400);
+  }
+  if (!(await checkCode(user, code, new Date()))) {
+    throw new TwoFactorError("That code is incorrect", 400);
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  const updatedUser = await storage.enableTwoFactor(user.id, recoveryCodes.map(hashRecoveryCode));
+  return { user: updatedUser, recoveryCodes };
+}
+
+/**
+ * Replace the user's recovery codes, e.g. once they've used a few
+ */
+export async function regenerateRecoveryCodes(user: User, code: string): Promise<string[]> {
+  await verifyTwoFactor(user, { code });
+
+  const recoveryCodes = generateRecoveryCodes();
+  await storage.replaceRecoveryCodes(user.id, recoveryCodes.map(hashRecoveryCode));
+  return recoveryCodes;
+}
+
+/**
+ * Turn off two-factor authentication. Needs the password and a second factor,
+ * and isn't allowed for admins.
+ */
+export async function disableTwoFactor(user: User, password: string, proof: TwoFactorProof): Promise<User> {
+  if (isTwoFactorRequired(user)) {
+    throw new TwoFactorError("Two-factor authentication is required for admin accounts", 403);
+  }
+  if (!(await comparePasswords(password, user.password))) {
+    throw new TwoFactorError("Password is incorrect", 403);
+  }
+
+  await verifyTwoFactor(user, proof);
+  return storage.disableTwoFactor(user.id);
+}
@@ -0,0 +1,250 @@
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { toCsv } from "./csv";
+import { createZip, ZipEntry } from "./zip";
+import { documentUploadDir } from "./document-service";
+import {
+  Document,
+  DocumentFolder,
+  JobRequest,
+  MaintenancePlanTask,
+  MaintenanceRecord,
+  Property,
+  PropertyAccess,
+  PropertyLedgerEntry,
+  PropertyLoan,
+  Receipt,
+  Subscription,
+  TradeDocument,
+  User,
+  Valuation,
+} from "@shared/schema";
+import { EmailOutboxEntry, Notification, NotificationPreferences } from "@shared/notification-types";
+
+const uploadsRoot = path.join(process.cwd(), "uploads");
+
+// Everything stored about a user, as included in their data export
+export interface UserData {
+  profile: Omit<User, "password">;
+  properties: Property[];
+  maintenanceRecords: MaintenanceRecord[];
+  maintenancePlanTasks: MaintenancePlanTask[];
+  valuations: Valuation[];
+  loans: PropertyLoan[];
+  ledgerEntries: PropertyLedgerEntry[];
+  jobRequests: JobRequest[];
+  tradeDocuments: TradeDocument[];
+  documentFolders: DocumentFolder[];
+  documents: Document[];
+  subscription: Subscription | null;
+  receipts: Receipt[];
+  notifications: Notification[];
+  notificationPreferences: NotificationPreferences | null;
+  emails: EmailOutboxEntry[];
+  propertyAccess: PropertyAccess[];
+}
+
+// A file on disk and where it goes in the export
+export interface UserFile {
+  filePath: string;
+  archiveName: string;
+}
+
+// Drop duplicates of records reachable two ways, e.g. jobs the user both owns and did
+function uniqueById<T extends { id: number }>(records: T[]): T[] {
+  return Array.from(new Map(records.map(record => [record.id, record])).values());
+}
+
+export async function gatherUserData(user: User): Promise<UserData> {
+  const { password, ...profile } = user;
+  const properties = await storage.getPropertiesByUserId(user.id);
+  const propertyIds = properties.map(property => property.id);
+
+  const [
+    maintenanceRecords,
+    loans,
+    maintenancePlanTasks,
+    valuations,
+    ledgerEntries,
+    ownedJobs,
+    tradeJobs,
+    ownedTradeDocuments,
+    issuedTradeDocuments,
+    documentFolders,
+    documents,
+    subscription,
+    receipts,
+    notifications,
+    notificationPreferences,
+    emails,
+    grantedAccess,
+    receivedAccess,
+  ] = await Promise.all([
+    storage.getMaintenanceRecordsByPropertyIds(propertyIds),
+    storage.getPropertyLoansByPropertyIds(propertyIds),
+    Promise.all(propertyIds.map(id => storage.getMaintenancePlanTasksByPropertyId(id))).then(tasks => tasks.flat()),
+    Promise.all(propertyIds.map(id => storage.getValuationsByPropertyId(id))).then(valuations => valuations.flat()),
+    Promise.all(propertyIds.map(id => storage.getLedgerEntriesByPropertyId(id))).then(entries => entries.flat()),
+    storage.getJobRequestsByOwnerId(user.id),
+    storage.getJobRequestsByTradespersonId(user.id),
+    storage.getTradeDocumentsByOwnerId(user.id),
+    storage.getTradeDocumentsByTradespersonId(user.id),
+    storage.getDocumentFoldersByUserId(user.id),
+    storage.getDocumentsByUserId(user.id),
+    storage.getSubscription(user.id),
+    storage.getReceiptsByUserId(user.id),
+    storage.getNotificationsByUserId(user.id),
+    storage.getNotificationPreferences(user.id),
+    storage.getEmailOutbox({ userId: user.id }),
+    storage.getPropertyAccessByOwnerId(user.id),
+    storage.getPropertyAccessByUserId(user.id),
+  ]);
+
+  return {
+    profile,
+    properties,
+    maintenanceRecords,
+    maintenancePlanTasks,
+    valuations,
+    loans,
+    ledgerEntries,
+    jobRequests: uniqueById([...ownedJobs, ...tradeJobs]),
+    tradeDocuments: uniqueById([...ownedTradeDocuments, ...issuedTradeDocuments]),
+    documentFolders,
+    documents,
+    subscription: subscription ?? null,
+    receipts,
+    notifications,
+    notificationPreferences: notificationPreferences ?? null,
+    emails,
+    propertyAccess: uniqueById([...grantedAccess, ...receivedAccess]),
+  };
+}
+
+// Resolve a /uploads/... URL to its file, refusing anything outside the uploads directory
+function resolveUploadUrl(url: string): string | undefined {
+  const filePath = path.resolve(uploadsRoot, "." + url.replace(/^\/uploads/, ""));
+  return filePath.startsWith(uploadsRoot + path.sep) ? filePath : undefined;
+}
+
+// Upload URLs in a field, which may be a single URL, an array or JSON listing several
+function findUploadUrls(value: unknown): string[] {
+  if (!value) return [];
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.match(/\/uploads\/[^"'\s,)\]]+/g) ?? [];
+}
+
+/**
+ * Files on disk belonging to a user: their documents, property photos,
+ * photos and attachments on their maintenance records and job requests,
+ * copies of their quotes and invoices, and receipt PDFs. Only files that
+ * still exist are returned.
+ */
+export function collectUserFiles(data: UserData): UserFile[] {
+  const files = new Map<string, UserFile>();
+
+  const add = (filePath: string | undefined, archiveName: string) => {
+    if (filePath && !files.has(filePath) && fs.existsSync(filePath)) {
+      files.set(filePath, { filePath, archiveName });
+    }
+  };
+
+  for (const document of data.documents) {
+    add(path.join(documentUploadDir, document.fileName), `files/documents/${document.id}-${path.basename(document.originalName)}`);
+  }
+
+  const urls = [
+    ...data.properties.map(property => property.imageUrl),
+    ...data.maintenanceRecords.flatMap(record => [record.imageUrls, record.documentsUrls]),
+    ...data.jobRequests.map(job => job.photoUrls),
+    ...data.tradeDocuments.map(document => document.documentUrl),
+    ...data.receipts.map(receipt => receipt.pdfUrl),
+  ].flatMap(findUploadUrls);
+
+  for (const url of urls) {
+    const filePath = resolveUploadUrl(url);
+    if (filePath) {
+      add(filePath, `files/${path.relative(uploadsRoot, filePath).split(path.sep).join("/")}`);
+    }
+  }
+
+  return Array.from(files.values());
+}
+
+// A CSV of records with a column for every field; nested values are written as JSON
+function recordsToCsv(records: object[]): string {
+  const headers = Array.from(new Set(records.flatMap(record => Object.keys(record))));
+  return toCsv(
+    headers,
+    records.map(record => headers.map(header => {
+      const value = (record as Record<string, unknown>)[header];
+      return value !== null && typeof value === "object" && !(value instanceof Date) ? JSON.stringify(value) : value;
+    }))
+  );
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Build a ZIP of everything stored about a user, for Privacy Act access
+ * requests. Each kind of record has a JSON file, the main tables also have a
+ * CSV for spreadsheets, and uploaded files are included under files/.
+ */
+export async function buildUserDataExport(user: User): Promise<Buffer> {
+  const data = await gatherUserData(user);
+  const generatedAt = new Date();
+
+  const tables: Array<[string, object[]]> = [
+    ["properties", data.properties],
+    ["maintenance-records", data.maintenanceRecords],
+    ["maintenance-plan", data.maintenancePlanTasks],
+    ["valuations", data.valuations],
+    ["loans", data.loans],
+    ["ledger", data.ledgerEntries],
+    ["job-requests", data.jobRequests],
+    ["quotes-and-invoices", data.tradeDocuments],
+    ["document-folders", data.documentFolders],
+    ["documents", data.documents],
+    ["receipts", data.receipts],
+    ["notifications", data.notifications],
+    ["emails", data.emails],
+    ["property-access", data.propertyAccess],
+  ];
+
+  const entries: ZipEntry[] = [
+    {
+      name: "README.txt",
+      data: [
+        `Data export for ${data.profile.email}`,
+        `Generated ${generatedAt.toISOString()}`,
+        "",
+        "profile.json, subscription.json and notification-preferences.json hold your account details.",
+        "Each other kind of record has a .json file and a .csv file that opens in a spreadsheet.",
+        "Files you uploaded, and documents generated for you, are in the files folder.",
+        "",
+      ].join("\r\n"),
+      modifiedAt: generatedAt,
+    },
+    { name: "profile.json", data: toJson(data.profile), modifiedAt: generatedAt },
+    { name: "subscription.json", data: toJson(data.subscription), modifiedAt: generatedAt },
+    { name: "notification-preferences.json", data: toJson(data.notificationPreferences), modifiedAt: generatedAt },
+  ];
+
+  for (const [name, records] of tables) {
+    entries.push({ name: `${name}.json`, data: toJson(records), modifiedAt: generatedAt });
+    entries.push({ name: `${name}.csv`, data: recordsToCsv(records), modifiedAt: generatedAt });
+  }
+
+  for (const file of collectUserFiles(data)) {
+    entries.push({
+      name: file.archiveName,
+      data: await fs.promises.readFile(file.filePath),
+      modifiedAt: (await fs.promises.stat(file.filePath)).mtime,
+    });
+  }
+
+  return createZip(entries);
+}
@@ -0,0 +1,216 @@
+import { storage } from "./storage";
+import { Property, InsertValuation, Valuation, ValuationCalculationDetails, ValuationMethodDetails } from "@shared/schema";
+import { ComparableMatch } from "./comparable-sales-service";
+import {
+  RegionalParameters,
+  ValuationMethod,
+  ValuationStrategy,
+  defaultStrategies,
+  calculateMaintenanceAddedValue,
+} from "./valuation-strategies";
+
+// Default parameters used when a property's state has no specific entry
+const baseParameters: RegionalParameters = {
+  region: "AU",
+  medianSalePrice: 850000,
+  medianSquareFeet: 1700,
+  medianBedrooms: 3,
+  medianBathrooms: 2,
+  pricePerSquareFoot: 420,
+  bedroomPremium: 45000,
+  bathroomPremium: 30000,
+  annualGrowthRate: 0.05,
+  propertyTypeMultipliers: {
+    single_family: 1,
+    condominium: 0.85,
+    townhouse: 0.92,
+    multi_family: 1.1,
+    commercial: 1.05,
+  },
+  modelIntercept: -60000,
+  modelLotValuePerAcre: 250000,
+  modelAgeDiscountPerYear: 1500,
+  landValuePerAcre: 2000000,
+  defaultLandValue: 300000,
+  constructionCostPerSquareFoot: 230,
+  buildingEffectiveLifeYears: 40, // Matches the 2.5% capital works rate
+  maxBuildingDepreciation: 0.8,
+  baseWeeklyRent: 250,
+  weeklyRentPerBedroom: 120,
+  vacancyRate: 0.03,
+  operatingExpenseRatio: 0.25,
+  capitalisationRate: 0.035,
+  maintenanceValueLifeYears: 15,
+  methodWeights: {
+    comparableSales: 0.3,
+    perSquareFoot: 0.15,
+    automatedModel: 0.25,
+    costApproach: 0.15,
+    incomeApproach: 0.15,
+  },
+};
+
+// State-level adjustments to the base parameters
+const stateParameters: Record<string, Partial<RegionalParameters>> = {
+  NSW: { medianSalePrice: 1200000, pricePerSquareFoot: 600, landValuePerAcre: 3500000, defaultLandValue: 550000, baseWeeklyRent: 300, weeklyRentPerBedroom: 150, capitalisationRate: 0.03 },
+  VIC: { medianSalePrice: 900000, pricePerSquareFoot: 470, landValuePerAcre: 2500000, defaultLandValue: 400000, baseWeeklyRent: 260, weeklyRentPerBedroom: 130, capitalisationRate: 0.033 },
+  QLD: { medianSalePrice: 850000, pricePerSquareFoot: 420, landValuePerAcre: 1800000, defaultLandValue: 320000, baseWeeklyRent: 270, weeklyRentPerBedroom: 130, capitalisationRate: 0.04 },
+  WA: { medianSalePrice: 780000, pricePerSquareFoot: 380, landValuePerAcre: 1600000, defaultLandValue: 280000, baseWeeklyRent: 280, weeklyRentPerBedroom: 130, capitalisationRate: 0.045 },
+  SA: { medianSalePrice: 750000, pricePerSquareFoot: 360, landValuePerAcre: 1500000, defaultLandValue: 260000, baseWeeklyRent: 240, weeklyRentPerBedroom: 115, capitalisationRate: 0.04 },
+  TAS: { medianSalePrice: 650000, pricePerSquareFoot: 320, landValuePerAcre: 1000000, defaultLandValue: 200000, baseWeeklyRent: 220, weeklyRentPerBedroom: 100, capitalisationRate: 0.042 },
+  ACT: { medianSalePrice: 950000, pricePerSquareFoot: 470, landValuePerAcre: 2600000, defaultLandValue: 420000, baseWeeklyRent: 290, weeklyRentPerBedroom: 140, capitalisationRate: 0.038 },
+  NT: { medianSalePrice: 520000, pricePerSquareFoot: 260, landValuePerAcre: 900000, defaultLandValue: 180000, baseWeeklyRent: 260, weeklyRentPerBedroom: 120, capitalisationRate: 0.055 },
+};
+
+const stateNames: Record<string, string> = {
+  "NEW SOUTH WALES": "NSW",
+  "VICTORIA": "VIC",
+  "QUEENSLAND": "QLD",
+  "WESTERN AUSTRALIA": "WA",
+  "SOUTH AUSTRALIA": "SA",
+  "TASMANIA": "TAS",
+  "AUSTRALIAN CAPITAL TERRITORY": "ACT",
+  "NORTHERN TERRITORY": "NT",
+};
+
+// A calculated valuation and the comparable sales it was based on
+export interface ValuationCalculation {
+  valuation: InsertValuation;
+  comparables: ComparableMatch[];
+}
+
+// Map each valuation method to its column on the valuations table
+const methodColumns: Record<ValuationMethod, keyof InsertValuation> = {
+  comparableSales: "comparableSalesValue",
+  perSquareFoot: "perSquareFootValue",
+  automatedModel: "automatedModelValue",
+  costApproach: "costApproachValue",
+  incomeApproach: "incomeApproachValue",
+};
+
+/**
+ * Parse parameter overrides from the VALUATION_REGIONAL_PARAMS environment
+ * variable, e.g. {"NSW": {"pricePerSquareFoot": 650}}
+ */
+function loadParameterOverrides(): Record<string, Partial<RegionalParameters>> {
+  if (!process.env.VALUATION_REGIONAL_PARAMS) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(process.env.VALUATION_REGIONAL_PARAMS);
+  } catch (error) {
+    console.error("Invalid VALUATION_REGIONAL_PARAMS, using default valuation parameters:", error);
+    return {};
+  }
+}
+
+const parameterOverrides = loadParameterOverrides();
+
+/**
+ * Resolve the regional parameters for a state code or full state name
+ */
+export function getRegionalParameters(state: string): RegionalParameters {
+  const normalized = state.trim().toUpperCase();
+  const region = stateNames[normalized] || normalized;
+
+  return {
+    ...baseParameters,
+    ...parameterOverrides.default,
+    ...stateParameters[region],
+    ...parameterOverrides[region],
+    region: stateParameters[region] || parameterOverrides[region] ? region : baseParameters.region,
+  };
+}
+
+/**
+ * Service that computes property valuations on the server so that every
+ * client sees the same numbers and each result is stored for later review
+ */
+export class ValuationService {
+  private strategies = new Map<ValuationMethod, ValuationStrategy>();
+
+  constructor(strategies: ValuationStrategy[] = defaultStrategies) {
+    strategies.forEach(strategy => this.registerStrategy(strategy));
+  }
+
+  /**
+   * Register a strategy, replacing any existing strategy for the same method
+   */
+  registerStrategy(strategy: ValuationStrategy) {
+    this.strategies.set(strategy.method, strategy);
+  }
+
+  /**
+   * Calculate every valuation column for a property without saving it
+   */
+  async calculateValuation(property: Property, valuationDate: Date = new Date()): Promise<ValuationCalculation> {
+    const params = getRegionalParameters(property.state);
+    const maintenanceRecords = await storage.getMaintenanceRecordsByPropertyId(property.id);
+    const context = { property, maintenanceRecords, params, valuationDate };
+
+    const valuation: InsertValuation = { propertyId: property.id, equitystekValue: 0 };
+    const methods: Record<string, ValuationMethodDetails> = {};
+    let comparables: ComparableMatch[] = [];
+    let weightedTotal = 0;
+    let totalWeight = 0;
+
+    for (const [method, strategy] of Array.from(this.strategies.entries())) {
+      const result = await strategy.compute(context);
+      const value = result.value === null ? null : Math.round(result.value);
+      const weight = value === null ? 0 : params.methodWeights[method] ?? 0;
+
+      (valuation as Record<string, unknown>)[methodColumns[method]] = value;
+      methods[method] = { value, weight, inputs: result.inputs };
+      if (result.comparables) {
+        comparables = result.comparables;
+      }
+
+      if (value !== null) {
+        weightedTotal += value * weight;
+        totalWeight += weight;
+      }
+    }
+
+    if (totalWeight === 0) {
+      throw new Error("Not enough property information to calculate a valuation");
+    }
+
+    const maintenance = calculateMaintenanceAddedValue(maintenanceRecords, params, valuationDate);
+    const calculationDetails: ValuationCalculationDetails = {
+      region: params.region,
+      valuationDate: valuationDate.toISOString(),
+      methods,
+      maintenance,
+    };
+
+    return {
+      valuation: {
+        ...valuation,
+        source: "automated",
+        valuationDate,
+        maintenanceAddedValue: maintenance.retainedValueAdded,
+        equitystekValue: Math.round(weightedTotal / totalWeight) + maintenance.retainedValueAdded,
+        calculationDetails,
+      },
+      comparables,
+    };
+  }
+
+  /**
+   * Calculate a valuation and store it as a new row in the valuations table,
+   * along with the comparable sales used for it
+   */
+  async computeAndStoreValuation(property: Property): Promise<Valuation> {
+    const { valuation, comparables } = await this.calculateValuation(property);
+    return await storage.createValuationWithComparables(valuation, comparables.map(match => ({
+      comparableSaleId: match.sale.id,
+      similarityScore: match.similarityScore,
+      adjustedPrice: Math.round(match.adjustedPrice),
+      adjustments: match.adjustments,
+    })));
+  }
+}
+
+// Export a singleton instance
+export const valuationService = new ValuationService();
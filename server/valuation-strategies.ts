@@ -0,0 +1,276 @@
+import { Property, MaintenanceRecord } from "@shared/schema";
+import { findComparableSales, estimateFromComparables, ComparableMatch } from "./comparable-sales-service";
+
+// Fewer matched sales than this and the comparable sales method falls back
+// to adjusting the regional median
+const MIN_COMPARABLE_SALES = 3;
+
+// The five standard valuation methods stored on each valuations row
+export type ValuationMethod =
+  | "comparableSales"
+  | "perSquareFoot"
+  | "automatedModel"
+  | "costApproach"
+  | "incomeApproach";
+
+/**
+ * Regional market parameters used by the valuation strategies.
+ * All monetary values are in AUD; areas follow the property schema
+ * (square feet for buildings, acres for land).
+ */
+export interface RegionalParameters {
+  region: string;
+  medianSalePrice: number;
+  medianSquareFeet: number;
+  medianBedrooms: number;
+  medianBathrooms: number;
+  pricePerSquareFoot: number;
+  bedroomPremium: number;
+  bathroomPremium: number;
+  annualGrowthRate: number; // Used to bring older comparable sales up to date
+  propertyTypeMultipliers: Record<Property["propertyType"], number>;
+  // Automated model coefficients
+  modelIntercept: number;
+  modelLotValuePerAcre: number;
+  modelAgeDiscountPerYear: number;
+  // Cost approach
+  landValuePerAcre: number;
+  defaultLandValue: number;
+  constructionCostPerSquareFoot: number;
+  buildingEffectiveLifeYears: number;
+  maxBuildingDepreciation: number;
+  // Income approach
+  baseWeeklyRent: number;
+  weeklyRentPerBedroom: number;
+  vacancyRate: number;
+  operatingExpenseRatio: number;
+  capitalisationRate: number;
+  // How long renovation value is retained before it is fully depreciated
+  maintenanceValueLifeYears: number;
+  methodWeights: Record<ValuationMethod, number>;
+}
+
+export interface ValuationContext {
+  property: Property;
+  maintenanceRecords: MaintenanceRecord[];
+  params: RegionalParameters;
+  valuationDate: Date;
+}
+
+export interface StrategyResult {
+  value: number | null;
+  inputs: Record<string, number | string | null>;
+  comparables?: ComparableMatch[];
+}
+
+/**
+ * A single valuation method. Strategies are registered with the
+ * ValuationService and can be swapped out per method.
+ */
+export interface ValuationStrategy {
+  method: ValuationMethod;
+  compute(context: ValuationContext): Promise<StrategyResult>;
+}
+
+// Helper to calculate the age of the building in whole years
+function buildingAge(property: Property, valuationDate: Date): number | null {
+  if (!property.yearBuilt) return null;
+  return Math.max(0, valuationDate.getFullYear() - property.yearBuilt);
+}
+
+function typeMultiplier(context: ValuationContext): number {
+  return context.params.propertyTypeMultipliers[context.property.propertyType] ?? 1;
+}
+
+/**
+ * Comparable sales: a similarity-weighted average of recent nearby sales,
+ * each adjusted for differences from the property. Without enough imported
+ * sales it adjusts the regional median sale price instead.
+ */
+export const comparableSalesStrategy: ValuationStrategy = {
+  method: "comparableSales",
+  async compute(context): Promise<StrategyResult> {
+    const { property, params, valuationDate } = context;
+
+    const matches = await findComparableSales(property, params, { valuationDate });
+    const estimate = matches.length >= MIN_COMPARABLE_SALES ? estimateFromComparables(matches) : null;
+    if (estimate !== null) {
+      return {
+        value: estimate,
+        inputs: { comparableCount: matches.length, basis: "comparable_sales" },
+        comparables: matches,
+      };
+    }
+
+    const squareFeet = property.squareFeet ?? params.medianSquareFeet;
+    const bedrooms = property.bedrooms ?? params.medianBedrooms;
+    const bathrooms = property.bathrooms ?? params.medianBathrooms;
+
+    const sizeAdjustment = (squareFeet - params.medianSquareFeet) * params.pricePerSquareFoot;
+    const bedroomAdjustment = (bedrooms - params.medianBedrooms) * params.bedroomPremium;
+    const bathroomAdjustment = (bathrooms - params.medianBathrooms) * params.bathroomPremium;
+    const multiplier = typeMultiplier(context);
+
+    const value = (params.medianSalePrice + sizeAdjustment + bedroomAdjustment + bathroomAdjustment) * multiplier;
+
+    return {
+      value: Math.max(0, value),
+      inputs: {
+        comparableCount: matches.length,
+        basis: "regional_median",
+        medianSalePrice: params.medianSalePrice,
+        sizeAdjustment,
+        bedroomAdjustment,
+        bathroomAdjustment,
+        propertyTypeMultiplier: multiplier,
+      },
+    };
+  },
+};
+
+/**
+ * Per square foot: floor area multiplied by the regional rate.
+ */
+export const perSquareFootStrategy: ValuationStrategy = {
+  method: "perSquareFoot",
+  async compute(context): Promise<StrategyResult> {
+    const { property, params } = context;
+    if (!property.squareFeet) {
+      return { value: null, inputs: { squareFeet: null } };
+    }
+
+    const multiplier = typeMultiplier(context);
+    return {
+      value: property.squareFeet * params.pricePerSquareFoot * multiplier,
+      inputs: {
+        squareFeet: property.squareFeet,
+        pricePerSquareFoot: params.pricePerSquareFoot,
+        propertyTypeMultiplier: multiplier,
+      },
+    };
+  },
+};
+
+/**
+ * Automated valuation model: a linear hedonic model over the property's
+ * physical attributes with a discount for building age.
+ */
+export const automatedModelStrategy: ValuationStrategy = {
+  method: "automatedModel",
+  async compute(context): Promise<StrategyResult> {
+    const { property, params, valuationDate } = context;
+    if (!property.squareFeet) {
+      return { value: null, inputs: { squareFeet: null } };
+    }
+
+    const age = buildingAge(property, valuationDate);
+    const multiplier = typeMultiplier(context);
+    const attributeValue =
+      params.modelIntercept +
+      property.squareFeet * params.pricePerSquareFoot +
+      (property.bedrooms ?? 0) * params.bedroomPremium +
+      (property.bathrooms ?? 0) * params.bathroomPremium +
+      (property.lotSize ?? 0) * params.modelLotValuePerAcre;
+    const ageDiscount = (age ?? 0) * params.modelAgeDiscountPerYear;
+
+    return {
+      value: Math.max(0, (attributeValue - ageDiscount) * multiplier),
+      inputs: {
+        attributeValue,
+        buildingAge: age,
+        ageDiscount,
+        propertyTypeMultiplier: multiplier,
+      },
+    };
+  },
+};
+
+/**
+ * Cost approach: land value plus replacement cost of the building,
+ * less straight-line depreciation over its effective life.
+ */
+export const costApproachStrategy: ValuationStrategy = {
+  method: "costApproach",
+  async compute({ property, params, valuationDate }): Promise<StrategyResult> {
+    const landValue = property.lotSize
+      ? property.lotSize * params.landValuePerAcre
+      : params.defaultLandValue;
+
+    if (!property.squareFeet) {
+      return { value: landValue, inputs: { landValue, replacementCost: null, depreciation: null } };
+    }
+
+    const age = buildingAge(property, valuationDate) ?? 0;
+    const replacementCost = property.squareFeet * params.constructionCostPerSquareFoot;
+    const depreciationRate = Math.min(age / params.buildingEffectiveLifeYears, params.maxBuildingDepreciation);
+    const depreciation = replacementCost * depreciationRate;
+
+    return {
+      value: landValue + replacementCost - depreciation,
+      inputs: { landValue, replacementCost, buildingAge: age, depreciation },
+    };
+  },
+};
+
+/**
+ * Income approach: capitalises the estimated net operating income.
+ */
+export const incomeApproachStrategy: ValuationStrategy = {
+  method: "incomeApproach",
+  async compute(context): Promise<StrategyResult> {
+    const { property, params } = context;
+    const multiplier = typeMultiplier(context);
+    const weeklyRent = (params.baseWeeklyRent + (property.bedrooms ?? 0) * params.weeklyRentPerBedroom) * multiplier;
+    const grossAnnualRent = weeklyRent * 52;
+    const netOperatingIncome = grossAnnualRent * (1 - params.vacancyRate) * (1 - params.operatingExpenseRatio);
+
+    return {
+      value: netOperatingIncome / params.capitalisationRate,
+      inputs: {
+        weeklyRent,
+        grossAnnualRent,
+        netOperatingIncome,
+        capitalisationRate: params.capitalisationRate,
+      },
+    };
+  },
+};
+
+export const defaultStrategies: ValuationStrategy[] = [
+  comparableSalesStrategy,
+  perSquareFootStrategy,
+  automatedModelStrategy,
+  costApproachStrategy,
+  incomeApproachStrategy,
+];
+
+/**
+ * Value retained from completed maintenance work. Each record's
+ * estimated value added depreciates linearly with the age of the work.
+ */
+export function calculateMaintenanceAddedValue(
+  records: MaintenanceRecord[],
+  params: RegionalParameters,
+  valuationDate: Date
+) {
+  const completed = records.filter(record => (record.status ?? "completed") === "completed");
+  const msPerYear = 365.25 * 24 * 60 * 60 * 1000;
+
+  let grossValueAdded = 0;
+  let retainedValueAdded = 0;
+
+  for (const record of completed) {
+    const valueAdded = record.estimatedValueAdded || 0;
+    const ageYears = Math.max(0, (valuationDate.getTime() - new Date(record.completedDate).getTime()) / msPerYear);
+    const retention = Math.max(0, 1 - ageYears / params.maintenanceValueLifeYears);
+
+    grossValueAdded += valueAdded;
+    retainedValueAdded += valueAdded * retention;
+  }
+
+  return {
+    recordsConsidered: completed.length,
+    grossValueAdded: Math.round(grossValueAdded),
+    retainedValueAdded: Math.round(retainedValueAdded),
+  };
+}
@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { createInsertSchema } from "drizzle-zod";
-import { pgTable, serial, text, timestamp, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, pgEnum, serial, text, timestamp, integer, boolean, jsonb, index } from "drizzle-orm/pg-core";
 
 export const notificationTypeEnum = z.enum([
   'maintenance_due',
@@ -8,6 +8,9 @@ export const notificationTypeEnum = z.enum([
   'subscription_renewal',
   'property_update',
   'valuation_update',
+  'job_request_update',
+  'trade_document_update',
+  'payment_update',
   'system_notice'
 ]);
 
@@ -23,10 +26,127 @@ export const notifications = pgTable("notifications", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertNotificationSchema = createInsertSchema(notifications).omit({
+export const insertNotificationSchema = createInsertSchema(notifications, {
+  type: notificationTypeEnum,
+}).omit({
   id: true,
   createdAt: true,
 });
 
 export type Notification = typeof notifications.$inferSelect;
-export type InsertNotification = z.infer<typeof insertNotificationSchema>;
\ No newline at end of file
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationType = z.infer<typeof notificationTypeEnum>;
+
+// Path of the WebSocket that pushes notifications to signed-in browsers
+export const NOTIFICATION_SOCKET_PATH = "/ws/notifications";
+
+// Messages sent down the notification socket
+export type NotificationSocketMessage =
+  | { type: "notification"; notification: Notification }
+  | { type: "unread_count"; count: number };
+
+// How notifications of one type reach the user. Email can go out as soon as
+// the notification is raised, or be collected into a periodic digest.
+export const emailDeliveryEnum = z.enum(['off', 'immediate', 'digest']);
+export const digestFrequencyEnum = z.enum(['daily', 'weekly']);
+
+export const notificationChannelSchema = z.object({
+  inApp: z.boolean(),
+  email: emailDeliveryEnum,
+});
+
+export type NotificationChannel = z.infer<typeof notificationChannelSchema>;
+export type NotificationChannels = Record<NotificationType, NotificationChannel>;
+export type DigestFrequency = z.infer<typeof digestFrequencyEnum>;
+
+// What a digest needs to list a notification, kept with the held email since
+// the user may not have the notification in the app
+export type DigestNotification = Pick<Notification, 'type' | 'title' | 'message' | 'relatedEntityId' | 'relatedEntityType'>;
+
+// Used for any type the user hasn't set. Alerts that need acting on are
+// emailed straight away; the rest are shown in the app and sent in the digest.
+export const defaultNotificationChannels: NotificationChannels = {
+  maintenance_due: { inApp: true, email: 'immediate' },
+  maintenance_completed: { inApp: true, email: 'digest' },
+  subscription_renewal: { inApp: true, email: 'immediate' },
+  property_update: { inApp: true, email: 'digest' },
+  valuation_update: { inApp: true, email: 'digest' },
+  job_request_update: { inApp: true, email: 'digest' },
+  trade_document_update: { inApp: true, email: 'digest' },
+  payment_update: { inApp: true, email: 'immediate' },
+  system_notice: { inApp: true, email: 'immediate' },
+};
+
+// A user's stored choices filled out with the defaults
+export function resolveNotificationChannels(stored?: Partial<Record<NotificationType, Partial<NotificationChannel>>> | null): NotificationChannels {
+  const channels = { ...defaultNotificationChannels };
+  for (const type of notificationTypeEnum.options) {
+    channels[type] = { ...defaultNotificationChannels[type], ...stored?.[type] };
+  }
+  return channels;
+}
+
+// Each user's delivery choices. Only the types they've changed are stored.
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(),
+  channels: jsonb("channels").$type<Partial<NotificationChannels>>().notNull().default({}),
+  digestFrequency: text("digest_frequency").notNull().default('daily').$type<DigestFrequency>(),
+  lastDigestSentAt: timestamp("last_digest_sent_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const updateNotificationPreferencesSchema = z.object({
+  channels: z.record(notificationTypeEnum, notificationChannelSchema.partial()).optional(),
+  digestFrequency: digestFrequencyEnum.optional(),
+});
+
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
+
+// pending: waiting to be sent or retried; held: waiting for the user's next
+// digest; digested: sent as part of a digest; failed: gave up after retrying
+export const emailStatusEnum = pgEnum('email_status', ['pending', 'held', 'sent', 'digested', 'failed']);
+
+// Outgoing email. Messages are rendered when queued, so a retry sends exactly
+// what was first attempted.
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id"),
+  toAddress: text("to_address").notNull(),
+  subject: text("subject").notNull(),
+  textBody: text("text_body").notNull(),
+  htmlBody: text("html_body").notNull(),
+  notificationType: text("notification_type").$type<NotificationType>(), // Null for digests and other mail
+  notification: jsonb("notification").$type<DigestNotification>(),
+  status: emailStatusEnum("status").notNull().default('pending'),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  statusNextAttemptIdx: index("email_outbox_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+  userStatusIdx: index("email_outbox_user_status_idx").on(table.userId, table.status),
+}));
+
+export const insertEmailOutboxSchema = createInsertSchema(emailOutbox, {
+  notificationType: notificationTypeEnum.nullish(),
+  notification: z.object({
+    type: notificationTypeEnum,
+    title: z.string(),
+    message: z.string(),
+    relatedEntityId: z.number().nullable(),
+    relatedEntityType: z.string().nullable(),
+  }).nullish(),
+}).omit({
+  id: true,
+  attempts: true,
+  lastError: true,
+  sentAt: true,
+  createdAt: true,
+});
+
+export type EmailOutboxEntry = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutboxEntry = z.infer<typeof insertEmailOutboxSchema>;
+export type EmailStatus = EmailOutboxEntry["status"];
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, real, pgEnum, json, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, real, pgEnum, json, jsonb, uniqueIndex, index, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -28,6 +28,19 @@ export const users = pgTable("users", {
   propertyCount: integer("property_count"),
   stripeCustomerId: text("stripe_customer_id"),
   stripeSubscriptionId: text("stripe_subscription_id"),
+  deletionRequestedAt: timestamp("deletion_requested_at"),
+  deletionScheduledFor: timestamp("deletion_scheduled_for"), // Account is erased after this, unless the request is cancelled
+  deletedAt: timestamp("deleted_at"), // Set once erased; the row is kept, anonymised, for records that must be retained
+  // New sign-ups are created unverified; accounts from before verification was added count as verified
+  emailVerified: boolean("email_verified").notNull().default(true),
+  mustChangePassword: boolean("must_change_password").notNull().default(false), // Set when an admin resets the password
+  twoFactorEnabled: boolean("two_factor_enabled").notNull().default(false), // Required for admins
+  suspendedAt: timestamp("suspended_at"), // Set by an admin; a suspended user can't sign in
+  // Tradespeople: where they're based and how far they travel, for the directory search
+  servicePostcode: text("service_postcode"),
+  serviceRadiusKm: integer("service_radius_km"),
+  licenseVerifiedAt: timestamp("license_verified_at"), // Set when an admin checks the licence number
+  licenseExpiresAt: timestamp("license_expires_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -46,6 +59,8 @@ export const properties = pgTable("properties", {
   yearBuilt: integer("year_built"),
   lotSize: real("lot_size"),
   imageUrl: text("image_url"),
+  purchasePrice: real("purchase_price"),
+  purchaseDate: timestamp("purchase_date"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -80,9 +95,31 @@ export const valuations = pgTable("valuations", {
   incomeApproachValue: real("income_approach_value"),
   maintenanceAddedValue: real("maintenance_added_value"),
   equitystekValue: real("equitystek_value").notNull(),
+  calculationDetails: jsonb("calculation_details").$type<ValuationCalculationDetails>(), // Inputs and parameters used by the valuation engine
+  source: text("source").notNull().default("automated"), // automated, manual or professional
+  notes: text("notes"),
+  valuationDate: timestamp("valuation_date").defaultNow().notNull(), // Date the value applies to
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Breakdown stored with each computed valuation so the numbers can be audited later
+export interface ValuationMethodDetails {
+  value: number | null;
+  weight: number;
+  inputs: Record<string, number | string | null>;
+}
+
+export interface ValuationCalculationDetails {
+  region: string;
+  valuationDate: string;
+  methods: Record<string, ValuationMethodDetails>;
+  maintenance: {
+    recordsConsidered: number;
+    grossValueAdded: number;
+    retainedValueAdded: number;
+  };
+}
+
 // Subscription plans table (for base pricing configuration)
 export const subscriptionPlans = pgTable("subscription_plans", {
   id: serial("id").primaryKey(),
@@ -97,6 +134,11 @@ export const subscriptionPlans = pgTable("subscription_plans", {
 });
 
 // Subscriptions table
+// Where a subscription is in recovering a failed payment: retrying the
+// charge, in the grace period after the final notice, or suspended once the
+// grace period ran out
+export const dunningStateEnum = pgEnum('dunning_state', ['none', 'retrying', 'grace', 'suspended']);
+
 export const subscriptions = pgTable("subscriptions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
@@ -106,6 +148,15 @@ export const subscriptions = pgTable("subscriptions", {
   billingCycle: text("billing_cycle").notNull().default("monthly"),
   nextBillingDate: timestamp("next_billing_date").notNull(),
   isActive: boolean("is_active").notNull().default(true),
+  stripePriceId: text("stripe_price_id"),
+  stripeSubscriptionItemId: text("stripe_subscription_item_id"), // The item whose quantity is the property count
+  renewalReminderFor: timestamp("renewal_reminder_for"), // Billing date the last renewal reminder was about
+  renewalReminderDays: integer("renewal_reminder_days"), // Which reminder offset was last sent for it
+  dunningState: dunningStateEnum("dunning_state").notNull().default("none"),
+  dunningStartedAt: timestamp("dunning_started_at"), // When the payment first failed
+  dunningAttempts: integer("dunning_attempts").notNull().default(0), // Retries made so far
+  nextDunningActionAt: timestamp("next_dunning_action_at"), // Next retry, or the end of the grace period
+  dunningInvoiceId: text("dunning_invoice_id"), // The Stripe invoice that failed
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -144,10 +195,22 @@ export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
   stripeCustomerId: true,
-  stripeSubscriptionId: true
+  stripeSubscriptionId: true,
+  deletionRequestedAt: true,
+  deletionScheduledFor: true,
+  deletedAt: true,
+  emailVerified: true,
+  mustChangePassword: true,
+  twoFactorEnabled: true,
+  suspendedAt: true,
+  licenseVerifiedAt: true,
+  licenseExpiresAt: true
 });
 
-export const insertPropertySchema = createInsertSchema(properties).omit({
+export const insertPropertySchema = createInsertSchema(properties, {
+  purchasePrice: z.number().min(0).nullable().optional(),
+  purchaseDate: z.coerce.date().nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true
@@ -158,7 +221,11 @@ export const insertMaintenanceRecordSchema = createInsertSchema(maintenanceRecor
   createdAt: true
 });
 
-export const insertValuationSchema = createInsertSchema(valuations).omit({
+export const insertValuationSchema = createInsertSchema(valuations, {
+  calculationDetails: z.custom<ValuationCalculationDetails>().nullable().optional(),
+  source: z.enum(["automated", "manual", "professional"]).optional(),
+  valuationDate: z.coerce.date().optional(),
+}).omit({
   id: true,
   createdAt: true
 });
@@ -192,6 +259,7 @@ export type InsertSubscriptionPlan = z.infer<typeof insertSubscriptionPlanSchema
 
 export type Subscription = typeof subscriptions.$inferSelect;
 export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
+export type DunningState = Subscription["dunningState"];
 
 // Receipts table
 export const receiptsTypeEnum = pgEnum('receipt_type', ['subscription', 'one_time']);
@@ -208,6 +276,7 @@ export const receipts = pgTable("receipts", {
   paymentMethod: text("payment_method"),
   paymentStatus: text("payment_status").notNull(),
   stripePaymentIntentId: text("stripe_payment_intent_id"),
+  stripeInvoiceId: text("stripe_invoice_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   pdfUrl: text("pdf_url"),  // URL to download receipt PDF if needed later
 });
@@ -228,3 +297,616 @@ export const insertReceiptSchema = createInsertSchema(receipts).omit({
 
 export type Receipt = typeof receipts.$inferSelect;
 export type InsertReceipt = z.infer<typeof insertReceiptSchema>;
+
+// Comparable sales table (imported from public sales records)
+export const comparableSales = pgTable("comparable_sales", {
+  id: serial("id").primaryKey(),
+  address: text("address").notNull(),
+  suburb: text("suburb").notNull(),
+  state: text("state").notNull(),
+  postcode: text("postcode"),
+  propertyType: propertyTypeEnum("property_type").notNull(),
+  salePrice: real("sale_price").notNull(),
+  saleDate: timestamp("sale_date").notNull(),
+  squareFeet: integer("square_feet"),
+  bedrooms: integer("bedrooms"),
+  bathrooms: real("bathrooms"),
+  lotSize: real("lot_size"), // Acres, matching properties.lotSize
+  daysOnMarket: integer("days_on_market"),
+  saleMethod: text("sale_method"), // auction, private_treaty or other
+  source: text("source").notNull(), // Name of the dataset the sale was imported from
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  // The same sale can appear in overlapping extracts, so imports skip duplicates
+  saleUniqueIdx: uniqueIndex("comparable_sales_sale_unique_idx").on(table.address, table.suburb, table.saleDate, table.salePrice),
+  locationIdx: index("comparable_sales_location_idx").on(table.state, table.suburb),
+}));
+
+// Comparables chosen for a computed valuation
+export const valuationComparables = pgTable("valuation_comparables", {
+  id: serial("id").primaryKey(),
+  valuationId: integer("valuation_id").notNull().references(() => valuations.id, { onDelete: "cascade" }),
+  comparableSaleId: integer("comparable_sale_id").notNull().references(() => comparableSales.id),
+  similarityScore: real("similarity_score").notNull(), // 0-1, higher is more similar
+  adjustedPrice: real("adjusted_price").notNull(), // Sale price after size, room and time adjustments
+  adjustments: jsonb("adjustments").$type<Record<string, number>>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertComparableSaleSchema = createInsertSchema(comparableSales).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertValuationComparableSchema = createInsertSchema(valuationComparables, {
+  adjustments: z.record(z.number()).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type ComparableSale = typeof comparableSales.$inferSelect;
+export type InsertComparableSale = z.infer<typeof insertComparableSaleSchema>;
+
+export type ValuationComparable = typeof valuationComparables.$inferSelect;
+export type InsertValuationComparable = z.infer<typeof insertValuationComparableSchema>;
+
+// Rental listings table (imported from local rental bond or listing data)
+export const rentalListings = pgTable("rental_listings", {
+  id: serial("id").primaryKey(),
+  address: text("address"),
+  suburb: text("suburb").notNull(),
+  state: text("state").notNull(),
+  postcode: text("postcode"),
+  propertyType: propertyTypeEnum("property_type").notNull(),
+  bedrooms: integer("bedrooms"),
+  weeklyRent: real("weekly_rent").notNull(),
+  leasedDate: timestamp("leased_date").notNull(),
+  daysOnMarket: integer("days_on_market"),
+  source: text("source").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  locationIdx: index("rental_listings_location_idx").on(table.state, table.suburb),
+}));
+
+export const insertRentalListingSchema = createInsertSchema(rentalListings).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type RentalListing = typeof rentalListings.$inferSelect;
+export type InsertRentalListing = z.infer<typeof insertRentalListingSchema>;
+
+// Maintenance plan tasks table (recurring maintenance scheduled per property)
+export const maintenancePlanTasks = pgTable("maintenance_plan_tasks", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  category: maintenanceCategoryEnum("category").notNull(),
+  description: text("description"),
+  intervalMonths: integer("interval_months").notNull(), // How often the task recurs
+  dueMonth: integer("due_month"), // 1-12; pins seasonal tasks such as "gutter clean each autumn" to a month
+  nextDueDate: timestamp("next_due_date").notNull(),
+  estimatedCost: real("estimated_cost"),
+  priority: text("priority").default("medium"),
+  isActive: boolean("is_active").notNull().default(true),
+  source: text("source").notNull().default("custom"), // default (suggested for the property) or custom
+  lastTriggeredAt: timestamp("last_triggered_at"),
+  lastMaintenanceRecordId: integer("last_maintenance_record_id"), // Pending record created when the task last fell due
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  nextDueIdx: index("maintenance_plan_tasks_next_due_idx").on(table.isActive, table.nextDueDate),
+}));
+
+export const insertMaintenancePlanTaskSchema = createInsertSchema(maintenancePlanTasks, {
+  intervalMonths: z.number().int().min(1).max(120),
+  dueMonth: z.number().int().min(1).max(12).nullable().optional(),
+  nextDueDate: z.coerce.date(),
+  source: z.enum(["default", "custom"]).optional(),
+}).omit({
+  id: true,
+  lastTriggeredAt: true,
+  lastMaintenanceRecordId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type MaintenancePlanTask = typeof maintenancePlanTasks.$inferSelect;
+export type InsertMaintenancePlanTask = z.infer<typeof insertMaintenancePlanTaskSchema>;
+
+// Job request status enum
+export const jobRequestStatusEnum = pgEnum('job_request_status', [
+  'requested', 'quoted', 'accepted', 'in_progress', 'completed', 'declined', 'cancelled'
+]);
+
+// Job requests table (work an owner asks a tradesperson to do on a property)
+export const jobRequests = pgTable("job_requests", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
+  ownerId: integer("owner_id").notNull().references(() => users.id),
+  tradespersonId: integer("tradesperson_id").notNull().references(() => users.id),
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  category: maintenanceCategoryEnum("category").notNull(),
+  priority: text("priority").notNull().default("medium"),
+  preferredDate: timestamp("preferred_date"),
+  photoUrls: text("photo_urls").array(),
+  status: jobRequestStatusEnum("status").notNull().default("requested"),
+  quoteAmount: real("quote_amount"),
+  quoteNotes: text("quote_notes"),
+  scheduledDate: timestamp("scheduled_date"),
+  finalCost: real("final_cost"),
+  statusReason: text("status_reason"), // Why the request was declined or cancelled
+  maintenanceRecordId: integer("maintenance_record_id").references(() => maintenanceRecords.id), // Set when the job is completed
+  rating: integer("rating"), // 1-5, given by the owner once the job is completed
+  review: text("review"),
+  reviewedAt: timestamp("reviewed_at"),
+  quotedAt: timestamp("quoted_at"),
+  acceptedAt: timestamp("accepted_at"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  ownerIdx: index("job_requests_owner_idx").on(table.ownerId),
+  tradespersonIdx: index("job_requests_tradesperson_idx").on(table.tradespersonId),
+}));
+
+export const insertJobRequestSchema = createInsertSchema(jobRequests, {
+  title: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  priority: z.enum(["low", "medium", "high", "emergency"]).optional(),
+  preferredDate: z.coerce.date().nullable().optional(),
+}).omit({
+  id: true,
+  status: true,
+  quoteAmount: true,
+  quoteNotes: true,
+  scheduledDate: true,
+  finalCost: true,
+  statusReason: true,
+  maintenanceRecordId: true,
+  rating: true,
+  review: true,
+  reviewedAt: true,
+  quotedAt: true,
+  acceptedAt: true,
+  startedAt: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type JobRequest = typeof jobRequests.$inferSelect;
+export type InsertJobRequest = z.infer<typeof insertJobRequestSchema>;
+export type JobRequestStatus = JobRequest["status"];
+
+// Quote and invoice enums
+export const tradeDocumentTypeEnum = pgEnum('trade_document_type', ['quote', 'invoice']);
+export const tradeDocumentStatusEnum = pgEnum('trade_document_status', ['pending', 'accepted', 'rejected']);
+
+// A single line on a quote or invoice. GST is charged at 10% on items where it applies.
+export interface TradeDocumentLineItem {
+  description: string;
+  kind: "labour" | "materials" | "other";
+  quantity: number;
+  unitPrice: number; // Excluding GST
+  gstApplicable: boolean;
+  amount: number; // quantity x unitPrice, excluding GST
+}
+
+// Quotes and invoices a tradesperson sends to a property owner
+export const tradeDocuments = pgTable("trade_documents", {
+  id: serial("id").primaryKey(),
+  type: tradeDocumentTypeEnum("type").notNull(),
+  documentNumber: text("document_number").notNull().unique(),
+  tradespersonId: integer("tradesperson_id").notNull().references(() => users.id),
+  ownerId: integer("owner_id").notNull().references(() => users.id),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
+  jobRequestId: integer("job_request_id").references(() => jobRequests.id),
+  maintenanceRecordId: integer("maintenance_record_id").references(() => maintenanceRecords.id), // Invoices only; its cost is set when the invoice is accepted
+  lineItems: jsonb("line_items").$type<TradeDocumentLineItem[]>().notNull(),
+  subtotal: real("subtotal").notNull(), // Excluding GST
+  gstAmount: real("gst_amount").notNull(),
+  total: real("total").notNull(),
+  notes: text("notes"),
+  validUntil: timestamp("valid_until"), // Quotes
+  dueDate: timestamp("due_date"), // Invoices
+  status: tradeDocumentStatusEnum("status").notNull().default("pending"),
+  responseNote: text("response_note"), // Owner's reason when rejecting
+  respondedAt: timestamp("responded_at"),
+  documentUrl: text("document_url"), // Downloadable copy generated on acceptance
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  ownerIdx: index("trade_documents_owner_idx").on(table.ownerId),
+  tradespersonIdx: index("trade_documents_tradesperson_idx").on(table.tradespersonId),
+}));
+
+export const insertTradeDocumentSchema = createInsertSchema(tradeDocuments, {
+  lineItems: z.custom<TradeDocumentLineItem[]>(),
+}).omit({
+  id: true,
+  status: true,
+  responseNote: true,
+  respondedAt: true,
+  documentUrl: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type TradeDocument = typeof tradeDocuments.$inferSelect;
+export type InsertTradeDocument = z.infer<typeof insertTradeDocumentSchema>;
+export type TradeDocumentType = TradeDocument["type"];
+export type TradeDocumentStatus = TradeDocument["status"];
+
+// Document folders. Each user has their own tree; a folder with no parent sits at the root.
+export const documentFolders = pgTable("document_folders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  parentFolderId: integer("parent_folder_id").references((): AnyPgColumn => documentFolders.id, { onDelete: "cascade" }),
+  propertyId: integer("property_id").references(() => properties.id, { onDelete: "set null" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userParentIdx: index("document_folders_user_parent_idx").on(table.userId, table.parentFolderId),
+}));
+
+// Uploaded documents, stored on disk under uploads/documents
+export const documents = pgTable("documents", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  folderId: integer("folder_id").references(() => documentFolders.id, { onDelete: "set null" }),
+  propertyId: integer("property_id").references(() => properties.id, { onDelete: "set null" }),
+  maintenanceRecordId: integer("maintenance_record_id").references(() => maintenanceRecords.id, { onDelete: "set null" }),
+  name: text("name").notNull(), // Display name, which can be renamed
+  description: text("description"),
+  category: text("category").notNull().default("general"),
+  tags: text("tags").array().notNull().default([]),
+  fileName: text("file_name").notNull(), // Name on disk
+  originalName: text("original_name").notNull(),
+  fileType: text("file_type").notNull(), // MIME type
+  fileSize: integer("file_size").notNull(), // Bytes
+  starred: boolean("starred").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userFolderIdx: index("documents_user_folder_idx").on(table.userId, table.folderId),
+}));
+
+export const insertDocumentFolderSchema = createInsertSchema(documentFolders, {
+  name: z.string().trim().min(1).max(255),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertDocumentSchema = createInsertSchema(documents, {
+  name: z.string().trim().min(1).max(255),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type DocumentFolder = typeof documentFolders.$inferSelect;
+export type InsertDocumentFolder = z.infer<typeof insertDocumentFolderSchema>;
+
+export type Document = typeof documents.$inferSelect;
+export type InsertDocument = z.infer<typeof insertDocumentSchema>;
+
+// Stripe webhook events that have been processed, so redelivered events are ignored
+export const stripeEvents = pgTable("stripe_events", {
+  id: text("id").primaryKey(), // Stripe event id
+  type: text("type").notNull(),
+  processedAt: timestamp("processed_at").defaultNow().notNull(),
+});
+
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+
+export const billingSyncStatusEnum = pgEnum('billing_sync_status', ['pending', 'failed']);
+
+// Subscriptions whose property count still has to be pushed to Stripe.
+// Entries are retried with backoff and removed once Stripe is up to date.
+export const billingSyncQueue = pgTable("billing_sync_queue", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id").notNull().unique().references(() => subscriptions.id, { onDelete: "cascade" }),
+  status: billingSyncStatusEnum("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertBillingSyncQueueEntrySchema = createInsertSchema(billingSyncQueue).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type BillingSyncQueueEntry = typeof billingSyncQueue.$inferSelect;
+export type InsertBillingSyncQueueEntry = z.infer<typeof insertBillingSyncQueueEntrySchema>;
+
+export const loanRepaymentFrequencyEnum = pgEnum('loan_repayment_frequency', ['weekly', 'fortnightly', 'monthly']);
+
+// A stretch of a loan where only interest is paid. Dates are inclusive, YYYY-MM-DD.
+export const interestOnlyPeriodSchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+}).refine(period => period.startDate <= period.endDate, {
+  message: "Interest-only period must end after it starts",
+  path: ["endDate"],
+});
+
+export type InterestOnlyPeriod = z.infer<typeof interestOnlyPeriodSchema>;
+
+// Loans secured against a property. Balances aren't stored; they're worked out
+// from the amortisation schedule as at the date asked for.
+export const propertyLoans = pgTable("property_loans", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
+  lender: text("lender").notNull(),
+  accountName: text("account_name"), // e.g. "Split 1 - fixed"
+  principal: real("principal").notNull(), // Amount borrowed
+  interestRate: real("interest_rate").notNull(), // Annual rate, percent
+  termMonths: integer("term_months").notNull(),
+  startDate: timestamp("start_date").notNull(),
+  repaymentFrequency: loanRepaymentFrequencyEnum("repayment_frequency").notNull().default("monthly"),
+  interestOnlyPeriods: jsonb("interest_only_periods").$type<InterestOnlyPeriod[]>().notNull().default([]),
+  offsetBalance: real("offset_balance").notNull().default(0), // Current balance of a linked offset account
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  propertyIdx: index("property_loans_property_idx").on(table.propertyId),
+}));
+
+export const insertPropertyLoanSchema = createInsertSchema(propertyLoans, {
+  lender: z.string().min(1),
+  principal: z.number().positive(),
+  interestRate: z.number().min(0).max(30),
+  termMonths: z.number().int().min(1).max(600),
+  startDate: z.coerce.date(),
+  interestOnlyPeriods: z.array(interestOnlyPeriodSchema).optional(),
+  offsetBalance: z.number().min(0).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type PropertyLoan = typeof propertyLoans.$inferSelect;
+export type InsertPropertyLoan = z.infer<typeof insertPropertyLoanSchema>;
+
+export const ledgerCategoryEnum = pgEnum('ledger_category', [
+  'rent', 'other_income',
+  'council_rates', 'water_rates', 'land_tax', 'strata', 'insurance',
+  'management_fees', 'loan_interest', 'other_expense'
+]);
+
+// Ledger categories that are money coming in; everything else is an outgoing
+export const ledgerIncomeCategories: LedgerCategory[] = ['rent', 'other_income'];
+
+// Rent received and running costs for a property. Maintenance costs aren't
+// entered here; they're taken from the property's maintenance records.
+export const propertyLedgerEntries = pgTable("property_ledger_entries", {
+  id: serial("id").primaryKey(),
+  propertyId: integer("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
+  category: ledgerCategoryEnum("category").notNull(),
+  amount: real("amount").notNull(), // Always positive; the category says which way it goes
+  date: timestamp("date").notNull(),
+  description: text("description"),
+  loanId: integer("loan_id").references(() => propertyLoans.id, { onDelete: "set null" }), // Loan a loan_interest entry was charged on
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  propertyDateIdx: index("property_ledger_entries_property_date_idx").on(table.propertyId, table.date),
+}));
+
+export const insertPropertyLedgerEntrySchema = createInsertSchema(propertyLedgerEntries, {
+  amount: z.number().positive(),
+  date: z.coerce.date(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type PropertyLedgerEntry = typeof propertyLedgerEntries.$inferSelect;
+export type LedgerCategory = PropertyLedgerEntry["category"];
+export type InsertPropertyLedgerEntry = z.infer<typeof insertPropertyLedgerEntrySchema>;
+
+export const propertyAccessRoleEnum = pgEnum('property_access_role', ['viewer', 'editor']);
+
+// Access an owner has given another user to one of their properties, or to
+// all of them when propertyId is null. Viewers can see everything about the
+// property; editors can also change it. Only the owner can delete or share it.
+export const propertyAccess = pgTable("property_access", {
+  id: serial("id").primaryKey(),
+  ownerId: integer("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  propertyId: integer("property_id").references(() => properties.id, { onDelete: "cascade" }),
+  role: propertyAccessRoleEnum("role").notNull().default("viewer"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("property_access_user_idx").on(table.userId),
+  ownerIdx: index("property_access_owner_idx").on(table.ownerId),
+}));
+
+export const insertPropertyAccessSchema = createInsertSchema(propertyAccess).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type PropertyAccess = typeof propertyAccess.$inferSelect;
+export type InsertPropertyAccess = z.infer<typeof insertPropertyAccessSchema>;
+export type PropertyAccessRole = PropertyAccess["role"];
+
+// Invitations to share a property or portfolio. Only a hash of the token is
+// stored; the token itself goes in the link sent to the invitee.
+export const propertyInvitations = pgTable("property_invitations", {
+  id: serial("id").primaryKey(),
+  ownerId: integer("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  propertyId: integer("property_id").references(() => properties.id, { onDelete: "cascade" }),
+  role: propertyAccessRoleEnum("role").notNull().default("viewer"),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedBy: integer("accepted_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPropertyInvitationSchema = createInsertSchema(propertyInvitations, {
+  email: z.string().email(),
+  propertyId: z.number().int().nullable().optional(),
+}).omit({
+  id: true,
+  acceptedAt: true,
+  acceptedBy: true,
+  createdAt: true,
+});
+
+export type PropertyInvitation = typeof propertyInvitations.$inferSelect;
+export type InsertPropertyInvitation = z.infer<typeof insertPropertyInvitationSchema>;
+
+// Field-level changes made by an audited request. For a create only `after` is
+// set, for a delete only `before`, and for an update both hold just the fields
+// that changed.
+export const auditChangesSchema = z.object({
+  before: z.record(z.unknown()).nullable().optional(),
+  after: z.record(z.unknown()).nullable().optional(),
+});
+
+export type AuditChanges = z.infer<typeof auditChangesSchema>;
+
+// Append-only compliance trail of every mutating API call and admin action.
+// Each event stores the hash of the one before it, so editing or removing an
+// event breaks the chain from that point on. actorId deliberately has no
+// foreign key: the trail has to outlive the accounts it describes.
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id"),
+  actorRole: text("actor_role"),
+  action: text("action").notNull(), // Method and route, e.g. "PATCH /api/admin/users/:id"
+  method: text("method").notNull(),
+  path: text("path").notNull(),
+  resourceType: text("resource_type"),
+  resourceId: text("resource_id"),
+  statusCode: integer("status_code").notNull(),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  changes: jsonb("changes").$type<AuditChanges>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  previousHash: text("previous_hash").notNull(),
+  hash: text("hash").notNull().unique(),
+}, (table) => ({
+  actorIdx: index("audit_events_actor_idx").on(table.actorId),
+  resourceIdx: index("audit_events_resource_idx").on(table.resourceType, table.resourceId),
+  createdAtIdx: index("audit_events_created_at_idx").on(table.createdAt),
+}));
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents, {
+  changes: auditChangesSchema.nullable().optional(),
+}).omit({
+  id: true,
+});
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+
+// Single-use tokens emailed to a user to reset their password or verify their
+// email address. Only a hash is stored; the token itself is in the link.
+export const authTokenPurposeEnum = pgEnum('auth_token_purpose', ['password_reset', 'email_verification']);
+
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  purpose: authTokenPurposeEnum("purpose").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // Set when the token is used or replaced by a newer one
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertAuthTokenSchema = createInsertSchema(authTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export type AuthToken = typeof authTokens.$inferSelect;
+export type InsertAuthToken = z.infer<typeof insertAuthTokenSchema>;
+export type AuthTokenPurpose = AuthToken["purpose"];
+
+// TOTP authenticator secrets. The row is created when the user starts setting
+// up two-factor authentication and enabled once they confirm a code from it.
+export const twoFactorCredentials = pgTable("two_factor_credentials", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // Base32, as shown to authenticator apps
+  enabledAt: timestamp("enabled_at"),
+  lastUsedStep: integer("last_used_step"), // Time step of the last code accepted, so a code can't be replayed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Single-use codes for signing in without the authenticator. Only hashes are stored.
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userIdx: index("two_factor_recovery_codes_user_idx").on(table.userId),
+}));
+
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;
+export type TwoFactorRecoveryCode = typeof twoFactorRecoveryCodes.$inferSelect;
+
+// Postcode centroids, imported from a public locality dataset, for finding
+// tradespeople whose service area covers a postcode
+export const postcodeLocations = pgTable("postcode_locations", {
+  id: serial("id").primaryKey(),
+  postcode: text("postcode").notNull(),
+  suburb: text("suburb").notNull(),
+  state: text("state").notNull(),
+  latitude: real("latitude").notNull(),
+  longitude: real("longitude").notNull(),
+  source: text("source").notNull(), // Name of the dataset the location was imported from
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  localityUniqueIdx: uniqueIndex("postcode_locations_locality_unique_idx").on(table.postcode, table.suburb),
+}));
+
+export const insertPostcodeLocationSchema = createInsertSchema(postcodeLocations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type PostcodeLocation = typeof postcodeLocations.$inferSelect;
+export type InsertPostcodeLocation = z.infer<typeof insertPostcodeLocationSchema>;
+
+// Tradespeople an owner has saved to pick quickly for maintenance and job requests
+export const favoriteTradespeople = pgTable("favorite_tradespeople", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tradespersonId: integer("tradesperson_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userTradespersonUniqueIdx: uniqueIndex("favorite_tradespeople_user_tradesperson_unique_idx").on(table.userId, table.tradespersonId),
+}));
+
+export type FavoriteTradesperson = typeof favoriteTradespeople.$inferSelect;
+
+// A tradesperson's licence as the directory shows it, worked out from their
+// licence number, whether an admin has verified it, and its expiry
+export const licenseStatuses = ["verified", "unverified", "expired", "none"] as const;
+export type LicenseStatus = typeof licenseStatuses[number];